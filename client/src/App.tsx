@@ -8,6 +8,7 @@ import { ProtectedRoute } from "@/lib/protected-route";
 import Dashboard from "@/pages/dashboard";
 import AuthPage from "@/pages/auth-page";
 import ApplicationsPage from "@/pages/applications-page";
+import ApplicationDetailPage from "@/pages/application-detail-page";
 import MessagesPage from "@/pages/messages-page";
 import BudgetPage from "@/pages/budget-page";
 import DocumentsPage from "@/pages/documents-page";
@@ -16,12 +17,17 @@ import AdminPage from "@/pages/admin-page";
 import EvaluationsPage from "@/pages/evaluations-page";
 import VerificationPage from "@/pages/verification-page";
 import OnboardingPage from "@/pages/onboarding-page";
+import VerificationQueuePage from "@/pages/verification-queue-page";
+import PasswordResetPage from "@/pages/password-reset-page";
+import UnlockAccountPage from "@/pages/unlock-account-page";
 
 function Router() {
   return (
     <Switch>
       <ProtectedRoute path="/" component={Dashboard} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/reset-password" component={PasswordResetPage} />
+      <Route path="/unlock-account" component={UnlockAccountPage} />
       
       {/* Public verification page - accessible without login */}
       <Route path="/verification/:encodedEmail/:applicantTypeId" component={VerificationPage} />
@@ -30,27 +36,33 @@ function Router() {
       <Route path="/onboarding/:applicantTypeId" component={OnboardingPage} />
       
       <ProtectedRoute path="/applications" component={ApplicationsPage} />
+      <ProtectedRoute path="/applications/:id" component={ApplicationDetailPage} />
       <ProtectedRoute 
         path="/evaluations" 
         component={EvaluationsPage} 
-        allowedRoles={["reviewer"]}
+        permission="application.evaluate"
       />
       <ProtectedRoute path="/messages" component={MessagesPage} />
       <ProtectedRoute 
         path="/budget" 
         component={BudgetPage} 
-        allowedRoles={["administrator", "reviewer", "donor"]}
+        permission="budget.view"
       />
       <ProtectedRoute path="/documents" component={DocumentsPage} />
       <ProtectedRoute 
         path="/reports" 
         component={ReportsPage} 
-        allowedRoles={["administrator", "reviewer", "donor"]}
+        permission="report.view"
+      />
+      <ProtectedRoute 
+        path="/verification-queue" 
+        component={VerificationQueuePage} 
+        permission="registration.verify"
       />
       <ProtectedRoute 
         path="/admin" 
         component={AdminPage} 
-        allowedRoles={["administrator"]}
+        permission="user.manage"
       />
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, AuditAction, AuditLogEntry, AuditLogPage, User } from "@shared/schema";
+import { ChevronLeft, ChevronRight, Download, History } from "lucide-react";
+
+const PAGE_SIZE = 25;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  "auth.login": "Login",
+  "auth.login_failed": "Failed login",
+  "auth.logout": "Logout",
+  "auth.account_locked": "Account locked",
+  "auth.account_unlocked": "Account unlocked",
+  "user.role_changed": "Role change",
+  "user.two_factor_enabled": "2FA enabled",
+  "user.two_factor_disabled": "2FA disabled",
+  "user.two_factor_reset": "2FA reset",
+  "application.status_changed": "Status change",
+  "evaluation.created": "Evaluation",
+  "document.uploaded": "Document upload",
+};
+
+const ENTITY_LABELS: Record<typeof AUDIT_ENTITY_TYPES[number], string> = {
+  user: "User",
+  application: "Application",
+  evaluation: "Evaluation",
+  document: "Document",
+  verification_document: "Verification document",
+};
+
+// "role: applicant → donor" for changed fields, "key: value" for the rest
+function describeChange(entry: AuditLogEntry) {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  const show = (value: unknown) => (typeof value === "object" && value !== null ? JSON.stringify(value) : String(value));
+
+  return keys.map((key) => {
+    if (!(key in before)) return `${key}: ${show(after[key])}`;
+    if (!(key in after)) return `${key}: ${show(before[key])} → removed`;
+    return `${key}: ${show(before[key])} → ${show(after[key])}`;
+  });
+}
+
+export default function AuditLog() {
+  const [actionFilter, setActionFilter] = useState("all");
+  const [actorFilter, setActorFilter] = useState("all");
+  const [entityFilter, setEntityFilter] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(0);
+
+  const filters = {
+    action: actionFilter === "all" ? undefined : actionFilter,
+    actorId: actorFilter === "all" ? undefined : actorFilter,
+    entityType: entityFilter === "all" ? undefined : entityFilter,
+    from: from || undefined,
+    // Include the whole last day
+    to: to ? `${to}T23:59:59.999` : undefined,
+  };
+
+  const { data: auditPage, isLoading } = useQuery<AuditLogPage>({
+    queryKey: ["/api/audit-log", { ...filters, limit: PAGE_SIZE, offset: page * PAGE_SIZE }],
+    placeholderData: keepPreviousData,
+  });
+  const entries = auditPage?.items;
+  const total = auditPage?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+  const getUserById = (id: number | null) => users?.find((user) => user.id === id);
+
+  const exportParams = new URLSearchParams(
+    Object.entries(filters).filter((entry): entry is [string, string] => entry[1] !== undefined),
+  );
+
+  // Changing a filter starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="px-6 py-5 border-b border-neutral-200 flex flex-row justify-between items-center">
+        <CardTitle className="text-lg font-semibold text-neutral-900">Audit Log</CardTitle>
+        <Button variant="outline" asChild>
+          <a href={`/api/audit-log/export?${exportParams}`}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </a>
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="flex flex-wrap gap-3 px-6 py-4 border-b border-neutral-200">
+          <Select value={actionFilter} onValueChange={updateFilter(setActionFilter)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Action" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Actions</SelectItem>
+              {AUDIT_ACTIONS.map((action) => (
+                <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={actorFilter} onValueChange={updateFilter(setActorFilter)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="User" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any User</SelectItem>
+              {users?.map((user) => (
+                <SelectItem key={user.id} value={String(user.id)}>{user.fullName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={entityFilter} onValueChange={updateFilter(setEntityFilter)}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Entity" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Entities</SelectItem>
+              {AUDIT_ENTITY_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{ENTITY_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-center space-x-2">
+            <Input
+              type="date"
+              className="w-[150px]"
+              title="From"
+              value={from}
+              onChange={(e) => updateFilter(setFrom)(e.target.value)}
+            />
+            <span className="text-neutral-400">–</span>
+            <Input
+              type="date"
+              className="w-[150px]"
+              title="To"
+              value={to}
+              onChange={(e) => updateFilter(setTo)(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-neutral-200">
+                <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Time</th>
+                <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Action</th>
+                <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">User</th>
+                <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Entity</th>
+                <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Change</th>
+                <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Client</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-10 text-center text-sm text-neutral-500">
+                    <div className="flex justify-center">
+                      <div className="loader"></div>
+                    </div>
+                    <p className="mt-2">Loading audit log...</p>
+                  </td>
+                </tr>
+              ) : !entries || entries.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-10 text-center text-sm text-neutral-500">
+                    <div className="flex flex-col items-center">
+                      <History className="h-16 w-16 text-neutral-300 mb-4" />
+                      <p>No entries found</p>
+                    </div>
+                  </td>
+                </tr>
+              ) : (
+                entries.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-neutral-50 align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-neutral-900">
+                      {ACTION_LABELS[entry.action]}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-900">
+                      {entry.actorId === null ? "Anonymous" : getUserById(entry.actorId)?.fullName || `User #${entry.actorId}`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500">
+                      {entry.entityType ? `${ENTITY_LABELS[entry.entityType]} #${entry.entityId}` : "—"}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-neutral-700">
+                      {describeChange(entry).map((line) => (
+                        <div key={line} className="break-all">{line}</div>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 text-xs text-neutral-500 max-w-[220px]">
+                      <div>{entry.ipAddress || "—"}</div>
+                      {entry.userAgent && <div className="truncate" title={entry.userAgent}>{entry.userAgent}</div>}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex items-center justify-between px-6 py-4 border-t border-neutral-200">
+          <p className="text-sm text-neutral-500">
+            {total === 0
+              ? "No entries"
+              : `Showing ${page * PAGE_SIZE + 1}-${Math.min((page + 1) * PAGE_SIZE, total)} of ${total}`}
+          </p>
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page === 0}
+              onClick={() => setPage((current) => current - 1)}
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page + 1 >= pageCount}
+              onClick={() => setPage((current) => current + 1)}
+            >
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Permission, Role } from "@shared/permissions";
+
+interface PermissionMatrixResponse {
+  permissions: Record<Permission, string>;
+  roles: Record<Role, Permission[]>;
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  administrator: "Administrator",
+  applicant: "Applicant",
+  reviewer: "Reviewer",
+  donor: "Donor",
+};
+
+export default function PermissionMatrix() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<Record<Role, Permission[]> | null>(null);
+
+  const { data, isLoading } = useQuery<PermissionMatrixResponse>({
+    queryKey: ["/api/permissions"],
+  });
+
+  // Start editing from the saved matrix whenever it (re)loads
+  useEffect(() => {
+    if (data) setDraft(data.roles);
+  }, [data]);
+
+  const roles = Object.keys(ROLE_LABELS) as Role[];
+  const changedRoles = data && draft
+    ? roles.filter((role) => [...draft[role]].sort().join() !== [...data.roles[role]].sort().join())
+    : [];
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      for (const role of changedRoles) {
+        await apiRequest("PUT", `/api/permissions/${role}`, { permissions: draft![role] });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/permissions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/permissions"] });
+      toast({
+        title: "Permissions saved",
+        description: "The role permissions have been updated",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving permissions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (role: Role, permission: Permission, checked: boolean) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      [role]: checked
+        ? [...draft[role], permission]
+        : draft[role].filter((p) => p !== permission),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="px-6 py-5 border-b border-neutral-200 flex flex-row justify-between items-center">
+        <CardTitle className="text-lg font-semibold text-neutral-900">Role Permissions</CardTitle>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            disabled={changedRoles.length === 0 || saveMutation.isPending}
+            onClick={() => data && setDraft(data.roles)}
+          >
+            Reset
+          </Button>
+          <Button
+            disabled={changedRoles.length === 0 || saveMutation.isPending}
+            onClick={() => saveMutation.mutate()}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Changes"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading || !data || !draft ? (
+          <div className="flex justify-center p-6">
+            <div className="loader"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-neutral-200">
+                  <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Permission</th>
+                  {roles.map((role) => (
+                    <th key={role} className="px-6 py-4 text-center text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                      {ROLE_LABELS[role]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-200">
+                {(Object.keys(data.permissions) as Permission[]).map((permission) => (
+                  <tr key={permission} className="hover:bg-neutral-50">
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-medium text-neutral-900">{permission}</p>
+                      <p className="text-xs text-neutral-500">{data.permissions[permission]}</p>
+                    </td>
+                    {roles.map((role) => (
+                      <td key={role} className="px-6 py-4 text-center">
+                        <Checkbox
+                          checked={draft[role].includes(permission)}
+                          // Administrators always keep access to this screen
+                          disabled={role === "administrator" && permission === "permission.manage"}
+                          onCheckedChange={(checked) => toggle(role, permission, checked === true)}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
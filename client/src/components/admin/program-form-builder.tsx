@@ -0,0 +1,465 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import ProgramFormFields from "@/components/applications/program-form-fields";
+import { Program } from "@shared/schema";
+import {
+  FormAnswers,
+  FormAttachment,
+  FormField,
+  FormFieldType,
+  FormSection,
+  ProgramForm,
+  formFieldTypes,
+  programFormSchema,
+} from "@shared/program-forms";
+
+const FIELD_TYPE_LABELS: Record<FormFieldType, string> = {
+  text: "Short text",
+  textarea: "Long text",
+  number: "Number",
+  email: "Email",
+  date: "Date",
+  select: "Dropdown",
+  multiselect: "Multiple choice",
+  checkbox: "Checkbox",
+};
+
+const ALWAYS = "__always";
+
+const emptyForm = (): ProgramForm => ({ sections: [], attachments: [] });
+
+interface ProgramFormBuilderProps {
+  program: Program | null;
+  onClose: () => void;
+}
+
+interface FieldEditorProps {
+  field: FormField;
+  // Fields above this one, which conditions may refer to
+  earlierFields: FormField[];
+  onChange: (field: FormField) => void;
+  onRemove: () => void;
+}
+
+function FieldEditor({ field, earlierFields, onChange, onRemove }: FieldEditorProps) {
+  const update = (changes: Partial<FormField>) => onChange({ ...field, ...changes });
+  const hasOptions = field.type === "select" || field.type === "multiselect";
+  const condition = field.visibleWhen;
+  const conditionField = earlierFields.find((candidate) => candidate.key === condition?.field);
+
+  const setValidation = (key: "min" | "max", value: string) => {
+    const validation = { ...field.validation, [key]: value === "" ? undefined : Number(value) };
+    update({ validation });
+  };
+
+  // Conditions compare against the answer as stored: numbers for number
+  // fields, true for checkboxes and the option value for dropdowns
+  const setConditionValue = (value: string) => {
+    if (!condition) return;
+    const equals = conditionField?.type === "number" ? Number(value) : value;
+    update({ visibleWhen: { field: condition.field, equals: value === "" ? undefined : equals } });
+  };
+
+  return (
+    <div className="border border-neutral-200 rounded-md p-4 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label>Label</Label>
+          <Input value={field.label} onChange={(event) => update({ label: event.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label>Key</Label>
+          <Input value={field.key} onChange={(event) => update({ key: event.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label>Type</Label>
+          <Select value={field.type} onValueChange={(type) => update({ type: type as FormFieldType })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {formFieldTypes.map((type) => (
+                <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Help text</Label>
+        <Input value={field.helpText ?? ""} onChange={(event) => update({ helpText: event.target.value || undefined })} />
+      </div>
+
+      {hasOptions && (
+        <div className="space-y-2">
+          <Label>Options</Label>
+          {(field.options ?? []).map((option, index) => (
+            <div key={index} className="flex space-x-2">
+              <Input
+                placeholder="Value"
+                value={option.value}
+                onChange={(event) => update({
+                  options: field.options!.map((item, i) => i === index ? { ...item, value: event.target.value } : item),
+                })}
+              />
+              <Input
+                placeholder="Label"
+                value={option.label}
+                onChange={(event) => update({
+                  options: field.options!.map((item, i) => i === index ? { ...item, label: event.target.value } : item),
+                })}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Remove option"
+                onClick={() => update({ options: field.options!.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update({ options: [...(field.options ?? []), { value: "", label: "" }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" /> Add option
+          </Button>
+        </div>
+      )}
+
+      {field.type !== "checkbox" && field.type !== "select" && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label>{field.type === "number" ? "Minimum" : field.type === "multiselect" ? "Min. choices" : "Min. length"}</Label>
+            <Input type="number" value={field.validation?.min ?? ""} onChange={(event) => setValidation("min", event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>{field.type === "number" ? "Maximum" : field.type === "multiselect" ? "Max. choices" : "Max. length"}</Label>
+            <Input type="number" value={field.validation?.max ?? ""} onChange={(event) => setValidation("max", event.target.value)} />
+          </div>
+          {(field.type === "text" || field.type === "textarea") && (
+            <div className="space-y-1">
+              <Label>Pattern</Label>
+              <Input
+                placeholder="Regular expression"
+                value={field.validation?.pattern ?? ""}
+                onChange={(event) => update({ validation: { ...field.validation, pattern: event.target.value || undefined } })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label>Show</Label>
+          <Select
+            value={condition?.field ?? ALWAYS}
+            onValueChange={(key) => update({
+              visibleWhen: key === ALWAYS
+                ? undefined
+                : { field: key, equals: earlierFields.find((candidate) => candidate.key === key)?.type === "checkbox" ? true : undefined },
+            })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALWAYS}>Always</SelectItem>
+              {earlierFields.map((candidate) => (
+                <SelectItem key={candidate.key} value={candidate.key}>When "{candidate.label}" is answered</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {condition && conditionField && conditionField.type !== "checkbox" && (
+          <div className="space-y-1">
+            <Label>With the answer</Label>
+            <Input
+              placeholder="Any answer"
+              value={condition.equals === undefined ? "" : String(condition.equals)}
+              onChange={(event) => setConditionValue(event.target.value)}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id={`required-${field.key}`}
+            checked={field.required}
+            onCheckedChange={(checked) => update({ required: checked === true })}
+          />
+          <Label htmlFor={`required-${field.key}`} className="font-normal">Required</Label>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onRemove}>
+          <Trash2 className="h-4 w-4 text-red-500 mr-1" /> Remove field
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function AttachmentEditor({ attachment, onChange, onRemove }: {
+  attachment: FormAttachment;
+  onChange: (attachment: FormAttachment) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="border border-neutral-200 rounded-md p-4 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+      <div className="space-y-1">
+        <Label>Label</Label>
+        <Input value={attachment.label} onChange={(event) => onChange({ ...attachment, label: event.target.value })} />
+      </div>
+      <div className="space-y-1">
+        <Label>Key</Label>
+        <Input value={attachment.key} onChange={(event) => onChange({ ...attachment, key: event.target.value })} />
+      </div>
+      <div className="space-y-1">
+        <Label>File types</Label>
+        <Input
+          placeholder=".pdf, .docx"
+          defaultValue={attachment.accept?.join(", ") ?? ""}
+          onBlur={(event) => {
+            const accept = event.target.value.split(",").map((item) => item.trim()).filter(Boolean);
+            onChange({ ...attachment, accept: accept.length > 0 ? accept : undefined });
+          }}
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id={`attachment-required-${attachment.key}`}
+            checked={attachment.required}
+            onCheckedChange={(checked) => onChange({ ...attachment, required: checked === true })}
+          />
+          <Label htmlFor={`attachment-required-${attachment.key}`} className="font-normal">Required</Label>
+        </div>
+        <Button variant="ghost" size="sm" title="Remove attachment" onClick={onRemove}>
+          <Trash2 className="h-4 w-4 text-red-500" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Lets administrators define the sections, fields and attachments of a
+// program's application form, with a preview of what applicants will see
+export default function ProgramFormBuilder({ program, onClose }: ProgramFormBuilderProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ProgramForm>(emptyForm);
+  const [previewAnswers, setPreviewAnswers] = useState<FormAnswers>({});
+  const [problems, setProblems] = useState<string[]>([]);
+
+  useEffect(() => {
+    setDraft(program?.formSchema ?? emptyForm());
+    setPreviewAnswers({});
+    setProblems([]);
+  }, [program]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (formSchema: ProgramForm | null) => {
+      await apiRequest("PATCH", `/api/programs/${program!.id}`, { formSchema });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/programs"] });
+      toast({
+        title: "Application form saved",
+        description: `Applicants to ${program?.name} will see the updated form`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving form",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSection = (index: number, section: FormSection) =>
+    setDraft({ ...draft, sections: draft.sections.map((item, i) => i === index ? section : item) });
+
+  const fieldCount = draft.sections.reduce((count, section) => count + section.fields.length, 0);
+
+  const save = () => {
+    const result = programFormSchema.safeParse(draft);
+    if (!result.success) {
+      setProblems(result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`));
+      return;
+    }
+    setProblems([]);
+    saveMutation.mutate(result.data);
+  };
+
+  return (
+    <Dialog open={!!program} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Application Form</DialogTitle>
+          <DialogDescription>
+            Questions and attachments applicants to {program?.name} have to provide, in addition to the standard fields.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="edit" className="flex-1 overflow-y-auto">
+          <TabsList>
+            <TabsTrigger value="edit">Edit</TabsTrigger>
+            <TabsTrigger value="preview">Preview</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="edit" className="space-y-6">
+            {draft.sections.map((section, sectionIndex) => {
+              const earlierSections = draft.sections.slice(0, sectionIndex);
+              const fieldsBefore = earlierSections.flatMap((item) => item.fields);
+              return (
+                <div key={sectionIndex} className="space-y-3 border-l-2 border-primary pl-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                    <div className="space-y-1 md:col-span-2">
+                      <Label>Section title</Label>
+                      <Input value={section.title} onChange={(event) => updateSection(sectionIndex, { ...section, title: event.target.value })} />
+                    </div>
+                    <div className="flex space-x-2">
+                      <Input
+                        placeholder="Key"
+                        value={section.key}
+                        onChange={(event) => updateSection(sectionIndex, { ...section, key: event.target.value })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Remove section"
+                        onClick={() => setDraft({ ...draft, sections: draft.sections.filter((_, i) => i !== sectionIndex) })}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Description</Label>
+                    <Input
+                      value={section.description ?? ""}
+                      onChange={(event) => updateSection(sectionIndex, { ...section, description: event.target.value || undefined })}
+                    />
+                  </div>
+
+                  {section.fields.map((field, fieldIndex) => (
+                    <FieldEditor
+                      key={fieldIndex}
+                      field={field}
+                      earlierFields={[...fieldsBefore, ...section.fields.slice(0, fieldIndex)]}
+                      onChange={(updated) => updateSection(sectionIndex, {
+                        ...section,
+                        fields: section.fields.map((item, i) => i === fieldIndex ? updated : item),
+                      })}
+                      onRemove={() => updateSection(sectionIndex, {
+                        ...section,
+                        fields: section.fields.filter((_, i) => i !== fieldIndex),
+                      })}
+                    />
+                  ))}
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateSection(sectionIndex, {
+                      ...section,
+                      fields: [...section.fields, { key: `field${fieldCount + 1}`, label: "", type: "text", required: false }],
+                    })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" /> Add field
+                  </Button>
+                </div>
+              );
+            })}
+
+            <Button
+              variant="outline"
+              onClick={() => setDraft({
+                ...draft,
+                sections: [...draft.sections, { key: `section${draft.sections.length + 1}`, title: "", fields: [] }],
+              })}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Add section
+            </Button>
+
+            <div className="space-y-3">
+              <h3 className="text-lg font-medium text-neutral-900">Attachments</h3>
+              {draft.attachments.map((attachment, index) => (
+                <AttachmentEditor
+                  key={index}
+                  attachment={attachment}
+                  onChange={(updated) => setDraft({
+                    ...draft,
+                    attachments: draft.attachments.map((item, i) => i === index ? updated : item),
+                  })}
+                  onRemove={() => setDraft({ ...draft, attachments: draft.attachments.filter((_, i) => i !== index) })}
+                />
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({
+                  ...draft,
+                  attachments: [...draft.attachments, { key: `attachment${draft.attachments.length + 1}`, label: "", required: true }],
+                })}
+              >
+                <Plus className="h-4 w-4 mr-1" /> Add attachment
+              </Button>
+            </div>
+
+            {problems.length > 0 && (
+              <ul className="text-sm text-red-700 list-disc pl-4">
+                {problems.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            )}
+          </TabsContent>
+
+          <TabsContent value="preview" className="space-y-6">
+            {fieldCount === 0 ? (
+              <p className="text-sm text-neutral-500">This form has no fields yet.</p>
+            ) : (
+              <ProgramFormFields form={draft} answers={previewAnswers} onChange={setPreviewAnswers} />
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          {program?.formSchema && (
+            <Button
+              variant="outline"
+              className="mr-auto"
+              disabled={saveMutation.isPending}
+              onClick={() => saveMutation.mutate(null)}
+            >
+              Remove Form
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Form"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  MAX_RATE_LIMIT_WINDOW_SECONDS,
+  RATE_LIMIT_POLICIES,
+  RateLimitPolicyName,
+  RateLimitSettings,
+  rateLimitPolicyNames,
+} from "@shared/rate-limits";
+
+type RateLimitsResponse = Record<RateLimitPolicyName, RateLimitSettings>;
+
+// One policy with its own inputs, saved on its own
+function PolicyRow({ name, policy }: { name: RateLimitPolicyName; policy: RateLimitSettings }) {
+  const { toast } = useToast();
+  const [limit, setLimit] = useState(String(policy.limit));
+  const [windowSeconds, setWindowSeconds] = useState(String(policy.windowSeconds));
+  const changed = Number(limit) !== policy.limit || Number(windowSeconds) !== policy.windowSeconds;
+  const defaults = RATE_LIMIT_POLICIES[name];
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/rate-limits/${name}`, {
+        limit: Number(limit),
+        windowSeconds: Number(windowSeconds),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rate-limits"] });
+      toast({ title: "Rate limit saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving rate limit", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <tr className="align-top">
+      <td className="px-6 py-4">
+        <p className="text-sm font-medium text-neutral-900">{defaults.description}</p>
+        <p className="text-xs text-neutral-500">
+          {name} · default {defaults.limit} per {defaults.windowSeconds}s
+        </p>
+      </td>
+      <td className="px-6 py-4">
+        <Input
+          type="number"
+          min={1}
+          className="w-[110px]"
+          value={limit}
+          onChange={(e) => setLimit(e.target.value)}
+        />
+      </td>
+      <td className="px-6 py-4">
+        <Input
+          type="number"
+          min={1}
+          max={MAX_RATE_LIMIT_WINDOW_SECONDS}
+          className="w-[120px]"
+          value={windowSeconds}
+          onChange={(e) => setWindowSeconds(e.target.value)}
+        />
+      </td>
+      <td className="px-6 py-4 text-right">
+        <Button size="sm" disabled={!changed || updateMutation.isPending} onClick={() => updateMutation.mutate()}>
+          Save
+        </Button>
+      </td>
+    </tr>
+  );
+}
+
+export default function RateLimitPolicies() {
+  const { data, isLoading } = useQuery<RateLimitsResponse>({
+    queryKey: ["/api/rate-limits"],
+  });
+
+  return (
+    <Card>
+      <CardHeader className="px-6 py-5 border-b border-neutral-200">
+        <CardTitle className="text-lg font-semibold text-neutral-900">Rate Limits and Lockout</CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading || !data ? (
+          <div className="flex justify-center p-6">
+            <div className="loader"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <p className="px-6 pt-4 text-sm text-neutral-500">
+              Requests over a limit within the window are refused until enough of the window has passed.
+              A changed window starts counting afresh.
+            </p>
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-neutral-200">
+                  <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Policy</th>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Limit</th>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Window (seconds)</th>
+                  <th className="px-6 py-4"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-200">
+                {rateLimitPolicyNames.map((name) => (
+                  // Remounts with the saved values once they come back
+                  <PolicyRow key={`${name}:${data[name].limit}:${data[name].windowSeconds}`} name={name} policy={data[name]} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
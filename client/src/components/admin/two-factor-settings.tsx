@@ -0,0 +1,72 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Role } from "@shared/permissions";
+
+type RoleSettingsResponse = Record<Role, { twoFactorRequired: boolean }>;
+
+const ROLE_LABELS: Record<Role, string> = {
+  administrator: "Administrator",
+  applicant: "Applicant",
+  reviewer: "Reviewer",
+  donor: "Donor",
+};
+
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<RoleSettingsResponse>({
+    queryKey: ["/api/role-settings"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ role, twoFactorRequired }: { role: Role; twoFactorRequired: boolean }) => {
+      await apiRequest("PUT", `/api/role-settings/${role}`, { twoFactorRequired });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/role-settings"] });
+      // The signed-in admin may have just made it required for themselves
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving two-factor settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="px-6 py-5 border-b border-neutral-200">
+        <CardTitle className="text-lg font-semibold text-neutral-900">Two-Factor Authentication</CardTitle>
+      </CardHeader>
+      <CardContent className="p-6">
+        {isLoading || !data ? (
+          <div className="flex justify-center">
+            <div className="loader"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-neutral-500">
+              Users of a role that requires it must set up an authenticator app before they can do anything else.
+            </p>
+            {(Object.keys(ROLE_LABELS) as Role[]).map((role) => (
+              <div key={role} className="flex items-center justify-between">
+                <p className="text-sm font-medium text-neutral-900">{ROLE_LABELS[role]}</p>
+                <Switch
+                  checked={data[role].twoFactorRequired}
+                  disabled={updateMutation.isPending}
+                  onCheckedChange={(checked) => updateMutation.mutate({ role, twoFactorRequired: checked })}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+import { useMutation } from "@tanstack/react-query";
+import { MoreHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permission";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Application } from "@shared/schema";
+import { ApplicationStatus, availableTransitions } from "@shared/application-lifecycle";
+
+interface ApplicationActionsProps {
+  application: Application;
+}
+
+// Status changes the current user may make, from the shared transition table
+export default function ApplicationActions({ application }: ApplicationActionsProps) {
+  const { user } = useAuth();
+  const { permissions } = usePermissions();
+  const { toast } = useToast();
+
+  const transitionMutation = useMutation({
+    mutationFn: async (to: ApplicationStatus) => {
+      const res = await apiRequest("POST", `/api/applications/${application.id}/transitions`, { to });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/budget"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Status not changed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const transitions = user ? availableTransitions(application, user, permissions) : [];
+  if (transitions.length === 0) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={transitionMutation.isPending}>
+          <MoreHorizontal className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {transitions.map((transition) => (
+          <DropdownMenuItem key={transition.to} onClick={() => transitionMutation.mutate(transition.to)}>
+            {transition.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermission } from "@/hooks/use-permission";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Application, ApplicationAmendment } from "@shared/schema";
+import { isApplicationEditable } from "@shared/application-lifecycle";
+
+interface ApplicationAmendmentsProps {
+  application: Application;
+}
+
+// Fields offered in the amendment form; the API accepts any editable field
+const AMENDABLE_FIELDS = [
+  { name: "summary", label: "Summary", type: "text" },
+  { name: "description", label: "Description", type: "text" },
+  { name: "requestedAmount", label: "Requested Amount", type: "number" },
+  { name: "projectDuration", label: "Project Duration (months)", type: "number" },
+] as const;
+
+type AmendableField = typeof AMENDABLE_FIELDS[number]["name"];
+
+const STATUS_BADGES: Record<ApplicationAmendment["status"], string> = {
+  pending: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  approved: "bg-green-100 text-green-800 hover:bg-green-100",
+  rejected: "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+export default function ApplicationAmendments({ application }: ApplicationAmendmentsProps) {
+  const { user } = useAuth();
+  const canReview = usePermission("application.manage");
+  const { toast } = useToast();
+  const [values, setValues] = useState<Partial<Record<AmendableField, string>>>({});
+  const [reason, setReason] = useState("");
+
+  const { data: amendments, isLoading } = useQuery<ApplicationAmendment[]>({
+    queryKey: ["/api/applications", application.id, "amendments"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/applications", application.id] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Only fields the user actually changed become part of the amendment
+  const changes: Record<string, string | number | null> = {};
+  for (const field of AMENDABLE_FIELDS) {
+    const value = values[field.name];
+    if (value === undefined || value === String(application[field.name] ?? "")) continue;
+    changes[field.name] = field.type === "number" ? (value === "" ? null : Number(value)) : value;
+  }
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/applications/${application.id}/amendments`, {
+        changes,
+        reason: reason || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setValues({});
+      setReason("");
+      invalidate();
+      toast({
+        title: "Amendment requested",
+        description: "Your changes will apply once they are approved",
+      });
+    },
+    onError,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: number; decision: "approve" | "reject" }) => {
+      const res = await apiRequest("POST", `/api/applications/${application.id}/amendments/${id}/${decision}`, {});
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
+    },
+    onError,
+  });
+
+  const canRequest = !isApplicationEditable(application) && (application.applicantId === user?.id || canReview);
+
+  return (
+    <Card>
+      <CardHeader className="px-6 py-5 border-b border-neutral-200">
+        <CardTitle className="text-lg font-semibold text-neutral-900">Amendments</CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center">
+            <div className="loader"></div>
+          </div>
+        ) : !amendments || amendments.length === 0 ? (
+          <p className="text-sm text-neutral-500">No amendments have been requested.</p>
+        ) : (
+          <ul className="divide-y divide-neutral-200">
+            {amendments.map((amendment) => (
+              <li key={amendment.id} className="py-3 space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-medium text-neutral-900">Amendment #{amendment.id}</span>
+                  <Badge className={STATUS_BADGES[amendment.status]}>{amendment.status}</Badge>
+                </div>
+                <ul className="text-sm text-neutral-600">
+                  {Object.entries(amendment.changes).map(([field, value]) => (
+                    <li key={field}>
+                      <span className="font-medium">{field}</span>: {String(value ?? "—")}
+                    </li>
+                  ))}
+                </ul>
+                {amendment.reason && <p className="text-sm text-neutral-500">{amendment.reason}</p>}
+                {canReview && amendment.status === "pending" && (
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ id: amendment.id, decision: "approve" })}
+                    >
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ id: amendment.id, decision: "reject" })}
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canRequest && (
+          <div className="space-y-4 border-t border-neutral-200 pt-6">
+            <h3 className="text-sm font-semibold text-neutral-900">Request an amendment</h3>
+            {AMENDABLE_FIELDS.map((field) => (
+              <div key={field.name} className="space-y-1">
+                <label className="text-sm text-neutral-600">{field.label}</label>
+                <Input
+                  type={field.type}
+                  value={values[field.name] ?? String(application[field.name] ?? "")}
+                  onChange={(e) => setValues({ ...values, [field.name]: e.target.value })}
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <label className="text-sm text-neutral-600">Reason</label>
+              <Textarea value={reason} onChange={(e) => setReason(e.target.value)} />
+            </div>
+            <Button
+              disabled={Object.keys(changes).length === 0 || requestMutation.isPending}
+              onClick={() => requestMutation.mutate()}
+            >
+              {requestMutation.isPending ? "Sending..." : "Request Amendment"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
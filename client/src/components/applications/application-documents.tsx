@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Download, Eye, History, Upload } from "lucide-react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermission } from "@/hooks/use-permission";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, uploadFile } from "@/lib/queryClient";
+import { Application, Document, Program } from "@shared/schema";
+import { missingAttachments } from "@shared/program-forms";
+import DocumentHistory from "./document-history";
+
+interface ApplicationDocumentsProps {
+  application: Application;
+  program?: Program;
+}
+
+// Types the preview endpoint serves inline
+const PREVIEWABLE_TYPES = ["application/pdf", "image/png", "image/jpeg", "text/plain", "text/csv"];
+
+export default function ApplicationDocuments({ application, program }: ApplicationDocumentsProps) {
+  const { user } = useAuth();
+  const canManage = usePermission("application.manage");
+  const { toast } = useToast();
+  const canUpload = application.applicantId === user?.id || canManage;
+  const [historyDocument, setHistoryDocument] = useState<Document | null>(null);
+
+  const { data: documents, isLoading } = useQuery<Document[]>({
+    queryKey: ["/api/applications", application.id, "documents"],
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async ({ file, attachmentKey }: { file: File; attachmentKey?: string }) => {
+      const res = await uploadFile(
+        `/api/applications/${application.id}/documents`,
+        file,
+        attachmentKey ? { attachmentKey } : {},
+      );
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/applications", application.id] });
+      toast({
+        title: "Document uploaded",
+        description: "The file has been added to the application",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const attachments = program?.formSchema?.attachments ?? [];
+  const missing = documents ? missingAttachments(program?.formSchema, documents) : [];
+  const attachmentOf = (document: Document) =>
+    attachments.find((attachment) => attachment.key === document.attachmentKey);
+
+  const uploadButton = (label: string, attachmentKey?: string, accept?: string[]) => (
+    <label className="inline-flex items-center px-3 py-1.5 border border-neutral-300 rounded-md text-sm font-medium text-neutral-700 bg-white hover:bg-neutral-50 cursor-pointer">
+      <Upload className="h-4 w-4 mr-1" />
+      {label}
+      <input
+        type="file"
+        className="sr-only"
+        accept={accept?.join(",")}
+        disabled={uploadMutation.isPending}
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) uploadMutation.mutate({ file, attachmentKey });
+          event.target.value = "";
+        }}
+      />
+    </label>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="px-6 py-5 border-b border-neutral-200 flex flex-row justify-between items-center">
+        <CardTitle className="text-lg font-semibold text-neutral-900">Documents</CardTitle>
+        {canUpload && uploadButton(uploadMutation.isPending ? "Uploading..." : "Upload")}
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {canUpload && missing.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-neutral-900">Required attachments still missing</p>
+            {missing.map((attachment) => (
+              <div key={attachment.key} className="flex justify-between items-center text-sm">
+                <span className="text-red-700">{attachment.label}</span>
+                {uploadButton("Upload", attachment.key, attachment.accept)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center">
+            <div className="loader"></div>
+          </div>
+        ) : !documents || documents.length === 0 ? (
+          <p className="text-sm text-neutral-500">No documents uploaded yet.</p>
+        ) : (
+          <ul className="divide-y divide-neutral-200">
+            {documents.map((document) => (
+              <li key={document.id} className="py-3 flex justify-between items-center">
+                <div>
+                  <p className="text-sm font-medium text-neutral-900">{document.fileName}</p>
+                  <p className="text-xs text-neutral-500">
+                    {document.uploadedAt ? new Date(document.uploadedAt).toLocaleString() : ""}
+                    {document.currentVersion > 1 && ` · version ${document.currentVersion}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {attachmentOf(document) && <Badge variant="outline">{attachmentOf(document)!.label}</Badge>}
+                  {PREVIEWABLE_TYPES.includes(document.fileType) && (
+                    <Button variant="ghost" size="sm" title="Preview" asChild>
+                      <a href={`/api/documents/${document.id}/preview`} target="_blank" rel="noreferrer">
+                        <Eye className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" title="Download" asChild>
+                    <a href={`/api/documents/${document.id}/download`}>
+                      <Download className="h-4 w-4" />
+                    </a>
+                  </Button>
+                  <Button variant="ghost" size="sm" title="History" onClick={() => setHistoryDocument(document)}>
+                    <History className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {historyDocument && (
+        <DocumentHistory
+          application={application}
+          // Follow the list so the dialog shows the new current version after a replacement
+          document={documents?.find((document) => document.id === historyDocument.id) ?? historyDocument}
+          canReplace={canUpload}
+          accept={attachmentOf(historyDocument)?.accept}
+          open={!!historyDocument}
+          onClose={() => setHistoryDocument(null)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -16,9 +16,14 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, uploadFile } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Program } from "@shared/schema";
+import { getCallStatus } from "@shared/program-calls";
+import { ProgramEligibility } from "@shared/eligibility";
+import { FormAnswers, FormAttachment, answersSchema } from "@shared/program-forms";
+import CallCountdown, { useNow } from "@/components/applications/call-countdown";
+import ProgramFormFields from "@/components/applications/program-form-fields";
 
 const applicationFormSchema = z.object({
   programId: z.string().min(1, "Please select a program"),
@@ -39,12 +44,29 @@ interface ApplicationFormProps {
 export default function ApplicationForm({ open, onClose }: ApplicationFormProps) {
   const { toast } = useToast();
   const [savingAsDraft, setSavingAsDraft] = useState(false);
+  // Answers to the selected program's own form, if it has one
+  const [answers, setAnswers] = useState<FormAnswers>({});
+  const [answerErrors, setAnswerErrors] = useState<Record<string, string>>({});
+  // Files picked for each attachment, uploaded once the draft exists
+  const [files, setFiles] = useState<Record<string, File>>({});
 
   // Fetch programs
   const { data: programs, isLoading: programsLoading } = useQuery<Program[]>({
     queryKey: ["/api/programs"],
   });
 
+  const { data: eligibility } = useQuery<ProgramEligibility[]>({
+    queryKey: ["/api/user/eligibility"],
+  });
+  const eligibilityOf = (program: Program) => eligibility?.find((e) => e.programId === program.id);
+
+  // Closed calls are hidden; upcoming ones and those the applicant is not
+  // eligible for are listed but cannot be picked
+  const now = useNow();
+  const openPrograms = programs?.filter((program) => getCallStatus(program, now) !== "closed");
+  const canPick = (program: Program) =>
+    getCallStatus(program, now) !== "upcoming" && eligibilityOf(program)?.eligible !== false;
+
   const form = useForm<ApplicationFormValues>({
     resolver: zodResolver(applicationFormSchema),
     defaultValues: {
@@ -57,8 +79,11 @@ export default function ApplicationForm({ open, onClose }: ApplicationFormProps)
     },
   });
 
+  const selectedProgram = programs?.find((program) => program.id.toString() === form.watch("programId"));
+  const programForm = selectedProgram?.formSchema;
+
   const createApplicationMutation = useMutation({
-    mutationFn: async (values: ApplicationFormValues & { status: string }) => {
+    mutationFn: async (values: ApplicationFormValues & { status: string; answers: FormAnswers }) => {
       const response = await apiRequest("POST", "/api/applications", {
         programId: parseInt(values.programId),
         summary: values.summary,
@@ -66,9 +91,18 @@ export default function ApplicationForm({ open, onClose }: ApplicationFormProps)
         description: values.description,
         requestedAmount: parseInt(values.requestedAmount),
         projectDuration: parseInt(values.projectDuration),
-        status: values.status
+        answers: values.answers,
       });
-      return response.json();
+      const application = await response.json();
+      for (const [key, file] of Object.entries(files)) {
+        await uploadFile(`/api/applications/${application.id}/documents`, file, programForm ? { attachmentKey: key } : {});
+      }
+      // Applications are created as drafts; submitting is a separate step
+      // that checks the call window again
+      if (values.status === "submitted") {
+        await apiRequest("POST", `/api/applications/${application.id}/submit`);
+      }
+      return application;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
@@ -82,6 +116,8 @@ export default function ApplicationForm({ open, onClose }: ApplicationFormProps)
       onClose();
     },
     onError: (error) => {
+      // Submitting can fail after the draft was already created
+      queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
       toast({
         title: "Error",
         description: `Failed to ${savingAsDraft ? 'save' : 'submit'} application: ${error.message}`,
@@ -90,23 +126,58 @@ export default function ApplicationForm({ open, onClose }: ApplicationFormProps)
     }
   });
 
-  function onSubmit(values: ApplicationFormValues) {
+  function onSubmit(values: ApplicationFormValues, status: "draft" | "submitted" = "submitted") {
+    // Required answers may be left out of drafts, but not of submissions
+    const parsed = answersSchema(programForm, status === "draft" ? "draft" : "submit").safeParse(answers);
+    if (!parsed.success) {
+      setAnswerErrors(Object.fromEntries(parsed.error.issues.map((issue) => [String(issue.path[0]), issue.message])));
+      return;
+    }
+    setAnswerErrors({});
+
     createApplicationMutation.mutate({
       ...values,
-      status: savingAsDraft ? "draft" : "submitted"
+      status,
+      answers: parsed.data,
     });
   }
 
   function handleSaveDraft() {
     setSavingAsDraft(true);
-    form.handleSubmit(onSubmit)();
+    form.handleSubmit((values) => onSubmit(values, "draft"))();
   }
 
   function handleSubmitApplication() {
     setSavingAsDraft(false);
-    form.handleSubmit(onSubmit)();
+    form.handleSubmit((values) => onSubmit(values, "submitted"))();
   }
 
+  const renderAttachment = (attachment: Pick<FormAttachment, "key" | "label" | "required" | "accept">, hint: string) => (
+    <div key={attachment.key}>
+      <label className="block text-sm font-medium text-neutral-700 mb-1">
+        {attachment.label}
+        {attachment.required && <span className="text-red-500"> *</span>}
+      </label>
+      <div className="flex items-center">
+        <label className="w-full flex items-center justify-center px-4 py-2 border border-neutral-300 rounded-md shadow-sm text-sm font-medium text-neutral-700 bg-white hover:bg-neutral-50 cursor-pointer">
+          <span className="material-icons mr-2 text-neutral-500">upload_file</span>
+          {files[attachment.key]?.name ?? "Upload File"}
+          <input
+            type="file"
+            className="sr-only"
+            accept={attachment.accept?.join(",")}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              const { [attachment.key]: _previous, ...others } = files;
+              setFiles(file ? { ...others, [attachment.key]: file } : others);
+            }}
+          />
+        </label>
+      </div>
+      <p className="mt-1 text-xs text-neutral-500">{hint}</p>
+    </div>
+  );
+
   return (
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
@@ -116,7 +187,7 @@ export default function ApplicationForm({ open, onClose }: ApplicationFormProps)
       
         <div className="flex-1 overflow-y-auto p-6">
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <form onSubmit={form.handleSubmit((values) => onSubmit(values))} className="space-y-6">
               {/* Program Selection */}
               <FormField
                 control={form.control}
@@ -125,7 +196,12 @@ export default function ApplicationForm({ open, onClose }: ApplicationFormProps)
                   <FormItem>
                     <FormLabel>Program Type</FormLabel>
                     <Select
-                      onValueChange={field.onChange}
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        setAnswers({});
+                        setAnswerErrors({});
+                        setFiles({});
+                      }}
                       defaultValue={field.value}
                       disabled={programsLoading}
                     >
@@ -135,13 +211,40 @@ export default function ApplicationForm({ open, onClose }: ApplicationFormProps)
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {programs?.map((program) => (
-                          <SelectItem key={program.id} value={program.id.toString()}>
+                        {openPrograms?.map((program) => (
+                          <SelectItem
+                            key={program.id}
+                            value={program.id.toString()}
+                            disabled={!canPick(program)}
+                          >
                             {program.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
+                    {openPrograms?.length === 0 && (
+                      <p className="text-sm text-neutral-500">No programs are accepting applications right now.</p>
+                    )}
+                    {openPrograms?.map((program) => {
+                      const programEligibility = eligibilityOf(program);
+                      return (
+                        <div key={program.id} className="text-sm">
+                          <div className="flex justify-between">
+                            <span className={program.id.toString() === field.value ? "font-medium text-neutral-900" : "text-neutral-600"}>
+                              {program.name}
+                            </span>
+                            <CallCountdown program={program} now={now} />
+                          </div>
+                          {programEligibility && !programEligibility.eligible && (
+                            <ul className="text-xs text-red-700 list-disc pl-4">
+                              {programEligibility.reasons.map((reason) => (
+                                <li key={reason}>{reason}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      );
+                    })}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -254,34 +357,37 @@ export default function ApplicationForm({ open, onClose }: ApplicationFormProps)
                 </div>
               </div>
               
+              {/* Questions specific to the selected program */}
+              {programForm && (
+                <ProgramFormFields
+                  form={programForm}
+                  answers={answers}
+                  errors={answerErrors}
+                  onChange={setAnswers}
+                />
+              )}
+              
               {/* Document Upload */}
               <div>
                 <h3 className="text-lg font-medium text-neutral-900 mb-4">Required Documents</h3>
                 
                 <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm font-medium text-neutral-700 mb-1">Budget Document</label>
-                    <div className="flex items-center">
-                      <label className="w-full flex items-center justify-center px-4 py-2 border border-neutral-300 rounded-md shadow-sm text-sm font-medium text-neutral-700 bg-white hover:bg-neutral-50 cursor-pointer">
-                        <span className="material-icons mr-2 text-neutral-500">upload_file</span>
-                        Upload File
-                        <input type="file" className="sr-only" accept=".pdf,.doc,.docx,.xls,.xlsx" />
-                      </label>
-                    </div>
-                    <p className="mt-1 text-xs text-neutral-500">PDF, DOC, DOCX, XLS, XLSX (Max 5MB)</p>
-                  </div>
-                  
-                  <div>
-                    <label className="block text-sm font-medium text-neutral-700 mb-1">Project Proposal</label>
-                    <div className="flex items-center">
-                      <label className="w-full flex items-center justify-center px-4 py-2 border border-neutral-300 rounded-md shadow-sm text-sm font-medium text-neutral-700 bg-white hover:bg-neutral-50 cursor-pointer">
-                        <span className="material-icons mr-2 text-neutral-500">upload_file</span>
-                        Upload File
-                        <input type="file" className="sr-only" accept=".pdf,.doc,.docx" />
-                      </label>
-                    </div>
-                    <p className="mt-1 text-xs text-neutral-500">PDF, DOC, DOCX (Max 10MB)</p>
-                  </div>
+                  {programForm ? (
+                    programForm.attachments.map((attachment) =>
+                      renderAttachment(attachment, attachment.description ?? attachment.accept?.join(", ").toUpperCase() ?? ""),
+                    )
+                  ) : (
+                    <>
+                      {renderAttachment(
+                        { key: "budget", label: "Budget Document", required: false, accept: [".pdf", ".doc", ".docx", ".xls", ".xlsx"] },
+                        "PDF, DOC, DOCX, XLS, XLSX (Max 10MB)",
+                      )}
+                      {renderAttachment(
+                        { key: "proposal", label: "Project Proposal", required: false, accept: [".pdf", ".doc", ".docx"] },
+                        "PDF, DOC, DOCX (Max 10MB)",
+                      )}
+                    </>
+                  )}
                 </div>
               </div>
             </form>
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { useApplicationsById } from "@/hooks/use-applications";
+import { Application, ApplicationPage, ApplicationQuery } from "@shared/schema";
+
+// How many matches the picker lists at once
+const RESULT_LIMIT = 20;
+
+export function applicationLabel(application: Application) {
+  return application.summary || `Application ${application.autoCode || application.id}`;
+}
+
+interface ApplicationPickerProps {
+  value: number | null;
+  onChange: (applicationId: number | null) => void;
+  placeholder?: string;
+  // Offers an entry that clears the selection, such as "All applications"
+  clearLabel?: string;
+  // Narrows the applications offered, e.g. to those still editable
+  filters?: Partial<Pick<ApplicationQuery, "status" | "applicantId" | "programId">>;
+  className?: string;
+}
+
+// Chooses an application by searching the server, however many there are
+export default function ApplicationPicker({
+  value,
+  onChange,
+  placeholder = "Select application",
+  clearLabel,
+  filters,
+  className = "w-[220px]",
+}: ApplicationPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const { getApplication } = useApplicationsById([value]);
+  const selected = getApplication(value);
+
+  const { data, isFetching } = useQuery<ApplicationPage>({
+    queryKey: ["/api/applications", { ...filters, q: search.trim(), sort: "id", order: "desc", limit: RESULT_LIMIT }],
+    enabled: open,
+    placeholderData: keepPreviousData,
+  });
+
+  const choose = (applicationId: number | null) => {
+    onChange(applicationId);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className={`justify-between font-normal ${className}`}>
+          <span className="truncate">
+            {selected ? applicationLabel(selected) : value ? `Application ${value}` : clearLabel ?? placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[320px] p-0" align="start">
+        {/* The server does the matching */}
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search by summary or code..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>{isFetching ? "Searching..." : "No applications found"}</CommandEmpty>
+            <CommandGroup>
+              {clearLabel && (
+                <CommandItem value="none" onSelect={() => choose(null)}>
+                  <Check className={`mr-2 h-4 w-4 ${value === null ? "opacity-100" : "opacity-0"}`} />
+                  {clearLabel}
+                </CommandItem>
+              )}
+              {data?.items.map((application) => (
+                <CommandItem key={application.id} value={String(application.id)} onSelect={() => choose(application.id)}>
+                  <Check className={`mr-2 h-4 w-4 ${value === application.id ? "opacity-100" : "opacity-0"}`} />
+                  <span className="truncate">{applicationLabel(application)}</span>
+                  <span className="ml-auto pl-2 text-xs text-muted-foreground">{application.autoCode}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {data && data.total > data.items.length && (
+              <p className="px-3 py-2 text-xs text-muted-foreground">
+                Showing {data.items.length} of {data.total}; search to narrow down
+              </p>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
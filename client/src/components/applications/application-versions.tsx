@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ApplicationSnapshot } from "@shared/schema";
+import { SnapshotDiff } from "@shared/application-snapshots";
+
+interface ApplicationVersionsProps {
+  applicationId: number;
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// Submitted versions of an application and a field-level diff between two of them
+export default function ApplicationVersions({ applicationId }: ApplicationVersionsProps) {
+  const [from, setFrom] = useState<number>();
+  const [to, setTo] = useState<number>();
+
+  const { data: versions, isLoading } = useQuery<ApplicationSnapshot[]>({
+    queryKey: ["/api/applications", applicationId, "versions"],
+  });
+
+  // Compare the two most recent versions until the user picks others
+  useEffect(() => {
+    if (versions && versions.length > 1 && to === undefined) {
+      setTo(versions[versions.length - 1].version);
+      setFrom(versions[versions.length - 2].version);
+    }
+  }, [versions, to]);
+
+  const { data: diff } = useQuery<SnapshotDiff>({
+    queryKey: ["/api/applications", applicationId, "diff", { from, to }],
+    enabled: from !== undefined && to !== undefined && from !== to,
+  });
+
+  const versionSelect = (value: number | undefined, onChange: (version: number) => void) => (
+    <Select value={value?.toString()} onValueChange={(v) => onChange(parseInt(v))}>
+      <SelectTrigger className="w-[140px]">
+        <SelectValue placeholder="Version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions?.map((snapshot) => (
+          <SelectItem key={snapshot.version} value={snapshot.version.toString()}>
+            Version {snapshot.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="px-6 py-5 border-b border-neutral-200">
+        <CardTitle className="text-lg font-semibold text-neutral-900">Submitted Versions</CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center">
+            <div className="loader"></div>
+          </div>
+        ) : !versions || versions.length === 0 ? (
+          <p className="text-sm text-neutral-500">This application has not been submitted yet.</p>
+        ) : (
+          <>
+            <ul className="divide-y divide-neutral-200">
+              {versions.map((snapshot) => (
+                <li key={snapshot.id} className="py-2 flex justify-between text-sm">
+                  <span className="font-medium text-neutral-900">Version {snapshot.version}</span>
+                  <span className="text-neutral-500">
+                    {snapshot.amendmentId ? `Amendment #${snapshot.amendmentId}` : "Submission"}
+                    {snapshot.createdAt && ` · ${new Date(snapshot.createdAt).toLocaleString()}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {versions.length > 1 && (
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2 text-sm text-neutral-500">
+                  <span>Compare</span>
+                  {versionSelect(from, setFrom)}
+                  <span>with</span>
+                  {versionSelect(to, setTo)}
+                </div>
+
+                {diff && (
+                  diff.fields.length === 0 &&
+                  diff.documents.added.length === 0 &&
+                  diff.documents.removed.length === 0 &&
+                  diff.documents.changed.length === 0 ? (
+                    <p className="text-sm text-neutral-500">No differences between these versions.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-neutral-200">
+                          <th className="py-2 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Field</th>
+                          <th className="py-2 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Version {from}</th>
+                          <th className="py-2 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Version {to}</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-neutral-200">
+                        {diff.fields.map((change) => (
+                          <tr key={change.field}>
+                            <td className="py-2 font-medium text-neutral-900">{change.field}</td>
+                            <td className="py-2 text-red-700 line-through">{formatValue(change.from)}</td>
+                            <td className="py-2 text-green-700">{formatValue(change.to)}</td>
+                          </tr>
+                        ))}
+                        {diff.documents.added.map((doc) => (
+                          <tr key={`added-${doc.id}`}>
+                            <td className="py-2 font-medium text-neutral-900">Document</td>
+                            <td className="py-2">—</td>
+                            <td className="py-2 text-green-700">{doc.fileName}</td>
+                          </tr>
+                        ))}
+                        {diff.documents.removed.map((doc) => (
+                          <tr key={`removed-${doc.id}`}>
+                            <td className="py-2 font-medium text-neutral-900">Document</td>
+                            <td className="py-2 text-red-700 line-through">{doc.fileName}</td>
+                            <td className="py-2">—</td>
+                          </tr>
+                        ))}
+                        {diff.documents.changed.map((change) => (
+                          <tr key={`changed-${change.to.id}`}>
+                            <td className="py-2 font-medium text-neutral-900">Document</td>
+                            <td className="py-2 text-red-700">{change.from.fileName}</td>
+                            <td className="py-2 text-green-700">{change.to.fileName}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
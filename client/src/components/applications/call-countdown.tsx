@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { Clock } from "lucide-react";
+import { Program } from "@shared/schema";
+import { callDeadline, formatInTimeZone, getCallStatus } from "@shared/program-calls";
+
+function formatDuration(ms: number) {
+  const minutes = Math.max(1, Math.ceil(ms / 60_000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+// Re-renders every 30 seconds so countdowns stay current
+export function useNow() {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+  return now;
+}
+
+interface CallCountdownProps {
+  program: Program;
+  now: Date;
+}
+
+// Time left until a program's call opens or closes, in the program's time zone
+export default function CallCountdown({ program, now }: CallCountdownProps) {
+  const status = getCallStatus(program, now);
+  const deadline = callDeadline(program);
+
+  let text: string;
+  let className = "text-neutral-500";
+  if (status === "upcoming") {
+    text = `Opens in ${formatDuration(new Date(program.opensAt!).getTime() - now.getTime())}`;
+  } else if (status === "open") {
+    if (!program.closesAt) return null;
+    text = `Closes in ${formatDuration(new Date(program.closesAt).getTime() - now.getTime())} · ${formatInTimeZone(program.closesAt, program.timezone)} (${program.timezone})`;
+  } else if (status === "grace") {
+    text = `Deadline passed; late submissions accepted for ${formatDuration(deadline!.getTime() - now.getTime())}`;
+    className = "text-amber-700";
+  } else {
+    text = "Closed";
+    className = "text-red-700";
+  }
+
+  return (
+    <span className={`inline-flex items-center text-xs ${className}`}>
+      <Clock className="h-3 w-3 mr-1" />
+      {text}
+    </span>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Download, Upload } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, uploadFile } from "@/lib/queryClient";
+import { Application, Document, DocumentVersionEntry } from "@shared/schema";
+import { isApplicationEditable } from "@shared/application-lifecycle";
+
+interface DocumentHistoryProps {
+  application: Application;
+  document: Document;
+  canReplace: boolean;
+  accept?: string[];
+  open: boolean;
+  onClose: () => void;
+}
+
+function formatSize(bytes: number | null) {
+  if (bytes === null) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${Math.round(bytes / 1024 / 102.4) / 10} MB`;
+}
+
+export default function DocumentHistory({ application, document, canReplace, accept, open, onClose }: DocumentHistoryProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [changeNote, setChangeNote] = useState("");
+  // Submitted documents are only replaced with an explanation
+  const noteRequired = !isApplicationEditable(application);
+
+  const { data: versions, isLoading } = useQuery<DocumentVersionEntry[]>({
+    queryKey: ["/api/documents", document.id, "versions"],
+    enabled: open,
+  });
+
+  const replaceMutation = useMutation({
+    mutationFn: async () => {
+      const res = await uploadFile(`/api/documents/${document.id}/versions`, file!, changeNote ? { changeNote } : {});
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", document.id, "versions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/applications", application.id, "documents"] });
+      setFile(null);
+      setChangeNote("");
+      toast({
+        title: "Document replaced",
+        description: "The new file is now the current version",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Replacement failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>History of {document.fileName}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center">
+            <div className="loader"></div>
+          </div>
+        ) : (
+          <ul className="divide-y divide-neutral-200 max-h-80 overflow-y-auto">
+            {versions?.slice().reverse().map((version) => (
+              <li key={version.id} className="py-3 flex justify-between items-start">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-medium text-neutral-900">v{version.version}</span>
+                    <span className="text-sm text-neutral-700">{version.fileName}</span>
+                    {version.version === document.currentVersion && <Badge variant="secondary">Current</Badge>}
+                    {version.snapshotVersions.map((snapshot) => (
+                      <Badge key={snapshot} variant="outline">
+                        {snapshot === 1 ? "Submitted" : `Submission v${snapshot}`}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-neutral-500">
+                    {new Date(version.uploadedAt).toLocaleString()}
+                    {version.size !== null && ` · ${formatSize(version.size)}`}
+                    {version.checksum && (
+                      <span title={`SHA-256 ${version.checksum}`}> · {version.checksum.slice(0, 12)}</span>
+                    )}
+                  </p>
+                  {version.changeNote && <p className="text-sm text-neutral-600">{version.changeNote}</p>}
+                </div>
+                <Button variant="ghost" size="sm" title="Download" asChild>
+                  <a href={`/api/documents/${document.id}/versions/${version.version}/download`}>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canReplace && (
+          <form
+            className="space-y-3 border-t border-neutral-200 pt-4"
+            onSubmit={(event) => {
+              event.preventDefault();
+              replaceMutation.mutate();
+            }}
+          >
+            <p className="text-sm font-medium text-neutral-900">Upload a new version</p>
+            <input
+              type="file"
+              className="block text-sm"
+              accept={accept?.join(",")}
+              onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+            />
+            <Textarea
+              placeholder={noteRequired ? "What changed and why (required)" : "What changed (optional)"}
+              value={changeNote}
+              onChange={(event) => setChangeNote(event.target.value)}
+            />
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                disabled={!file || (noteRequired && !changeNote.trim()) || replaceMutation.isPending}
+              >
+                <Upload className="h-4 w-4 mr-1" />
+                {replaceMutation.isPending ? "Uploading..." : "Replace"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  FormAnswerValue,
+  FormAnswers,
+  FormField,
+  ProgramForm,
+  visibleFields,
+} from "@shared/program-forms";
+
+interface ProgramFormFieldsProps {
+  form: ProgramForm;
+  answers: FormAnswers;
+  // Messages keyed by field, as produced by answersSchema()
+  errors?: Record<string, string>;
+  onChange: (answers: FormAnswers) => void;
+}
+
+function FieldInput({ field, value, onChange }: {
+  field: FormField;
+  value: FormAnswerValue | undefined;
+  onChange: (value: FormAnswerValue) => void;
+}) {
+  const id = `answer-${field.key}`;
+
+  switch (field.type) {
+    case "textarea":
+      return (
+        <Textarea
+          id={id}
+          rows={4}
+          className="resize-none"
+          value={(value as string) ?? ""}
+          onChange={(event) => onChange(event.target.value)}
+        />
+      );
+    case "number":
+      return (
+        <Input
+          id={id}
+          type="number"
+          min={field.validation?.min}
+          max={field.validation?.max}
+          value={value === null || value === undefined ? "" : String(value)}
+          onChange={(event) => onChange(event.target.value === "" ? null : Number(event.target.value))}
+        />
+      );
+    case "select":
+      return (
+        <Select value={(value as string) ?? ""} onValueChange={onChange}>
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Select an option" />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options?.filter((option) => option.value).map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case "multiselect": {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="space-y-2">
+          {field.options?.map((option) => (
+            <div key={option.value} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${id}-${option.value}`}
+                checked={selected.includes(option.value)}
+                onCheckedChange={(checked) => onChange(
+                  checked ? [...selected, option.value] : selected.filter((item) => item !== option.value),
+                )}
+              />
+              <Label htmlFor={`${id}-${option.value}`} className="font-normal">{option.label}</Label>
+            </div>
+          ))}
+        </div>
+      );
+    }
+    case "checkbox":
+      return (
+        <div className="flex items-center space-x-2">
+          <Checkbox id={id} checked={value === true} onCheckedChange={(checked) => onChange(checked === true)} />
+          <Label htmlFor={id} className="font-normal">{field.label}</Label>
+        </div>
+      );
+    default:
+      return (
+        <Input
+          id={id}
+          type={field.type === "email" ? "email" : field.type === "date" ? "date" : "text"}
+          value={(value as string) ?? ""}
+          onChange={(event) => onChange(event.target.value)}
+        />
+      );
+  }
+}
+
+// Renders a program's own form, hiding sections and fields whose conditions
+// are not met by the current answers
+export default function ProgramFormFields({ form, answers, errors, onChange }: ProgramFormFieldsProps) {
+  const shown = new Set(visibleFields(form, answers).map((field) => field.key));
+
+  return (
+    <>
+      {form.sections
+        .filter((section) => section.fields.some((field) => shown.has(field.key)))
+        .map((section) => (
+          <div key={section.key}>
+            <h3 className="text-lg font-medium text-neutral-900 mb-1">{section.title}</h3>
+            {section.description && <p className="text-sm text-neutral-500 mb-4">{section.description}</p>}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+              {section.fields.filter((field) => shown.has(field.key)).map((field) => (
+                <div
+                  key={field.key}
+                  className={`space-y-2 ${field.type === "textarea" || field.type === "multiselect" ? "md:col-span-2" : ""}`}
+                >
+                  {field.type !== "checkbox" && (
+                    <Label htmlFor={`answer-${field.key}`}>
+                      {field.label}
+                      {field.required && <span className="text-red-500"> *</span>}
+                    </Label>
+                  )}
+                  <FieldInput
+                    field={field}
+                    value={answers[field.key]}
+                    onChange={(value) => onChange({ ...answers, [field.key]: value })}
+                  />
+                  {field.helpText && <p className="text-xs text-neutral-500">{field.helpText}</p>}
+                  {errors?.[field.key] && <p className="text-sm font-medium text-destructive">{errors[field.key]}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+    </>
+  );
+}
@@ -1,5 +1,6 @@
-import { Bell, HelpCircle } from "lucide-react";
+import { HelpCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import NotificationMenu from "./notification-menu";
 import { useAuth } from "@/hooks/use-auth";
 
 interface AppHeaderProps {
@@ -34,13 +35,7 @@ export default function AppHeader({ title, onMenuClick }: AppHeaderProps) {
         </div>
         
         <div className="flex items-center space-x-4">
-          <Button
-            variant="ghost"
-            size="icon"
-            className="p-1 rounded-full text-neutral-400 hover:text-neutral-600 hover:bg-neutral-100"
-          >
-            <Bell className="h-5 w-5" />
-          </Button>
+          <NotificationMenu />
           <Button
             variant="ghost"
             size="icon"
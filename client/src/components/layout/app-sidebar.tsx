@@ -1,11 +1,16 @@
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permission";
+import type { Permission } from "@shared/permissions";
 import { LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import ChangePasswordDialog from "./change-password-dialog";
+import TwoFactorDialog from "./two-factor-dialog";
 
 export default function AppSidebar() {
   const [location] = useLocation();
   const { user, logoutMutation } = useAuth();
+  const { permissions } = usePermissions();
 
   if (!user) return null;
 
@@ -19,59 +24,61 @@ export default function AppSidebar() {
     return location === path;
   };
 
-  const navItems = [
+  const navItems: { name: string; path: string; icon: string; permission?: Permission }[] = [
     {
       name: "Dashboard",
       path: "/",
       icon: "dashboard",
-      roles: ["administrator", "applicant", "reviewer", "donor"],
     },
     {
       name: "Applications",
       path: "/applications",
       icon: "description",
-      roles: ["administrator", "applicant", "reviewer", "donor"],
     },
     {
       name: "Evaluations",
       path: "/evaluations",
       icon: "rate_review",
-      roles: ["reviewer"],
+      permission: "application.evaluate",
     },
     {
       name: "Messages",
       path: "/messages",
       icon: "mail",
-      roles: ["administrator", "applicant", "reviewer", "donor"],
     },
     {
       name: "Reports",
       path: "/reports",
       icon: "assessment",
-      roles: ["administrator", "reviewer", "donor"],
+      permission: "report.view",
     },
     {
       name: "Budget",
       path: "/budget",
       icon: "attach_money",
-      roles: ["administrator", "reviewer", "donor"],
+      permission: "budget.view",
     },
     {
       name: "Documents",
       path: "/documents",
       icon: "folder",
-      roles: ["administrator", "applicant", "reviewer", "donor"],
+    },
+    {
+      name: "Verification",
+      path: "/verification-queue",
+      icon: "verified_user",
+      permission: "registration.verify",
     },
     {
       name: "Admin",
       path: "/admin",
       icon: "settings",
-      roles: ["administrator"],
+      permission: "user.manage",
     },
   ];
 
   const filteredNavItems = navItems.filter(item => 
-    item.roles.includes(user.role)
+    !item.permission || permissions.includes(item.permission)
   );
 
   const handleLogout = () => {
@@ -124,11 +131,16 @@ export default function AppSidebar() {
             <p className="text-sm font-medium text-neutral-800">{user.fullName}</p>
             <p className="text-xs text-neutral-500 capitalize">{user.role}</p>
           </div>
+          <div className="ml-auto flex">
+            {/* Directory accounts change their password in the directory */}
+            {user.authProvider === "local" && <ChangePasswordDialog />}
+            <TwoFactorDialog />
+          </div>
           <Button 
             onClick={handleLogout} 
             variant="ghost" 
             size="icon" 
-            className="ml-auto p-1 rounded-full text-neutral-400 hover:text-neutral-600 hover:bg-neutral-100"
+            className="p-1 rounded-full text-neutral-400 hover:text-neutral-600 hover:bg-neutral-100"
           >
             <LogOut className="h-4 w-4" />
           </Button>
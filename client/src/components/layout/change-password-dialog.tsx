@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { KeyRound } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { passwordChangeSchema } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+
+const changeSchema = passwordChangeSchema.extend({
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type ChangeFormValues = z.infer<typeof changeSchema>;
+
+const FIELDS: { name: keyof ChangeFormValues; label: string; autoComplete: string }[] = [
+  { name: "currentPassword", label: "Current password", autoComplete: "current-password" },
+  { name: "newPassword", label: "New password", autoComplete: "new-password" },
+  { name: "confirmPassword", label: "Confirm new password", autoComplete: "new-password" },
+];
+
+export default function ChangePasswordDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<ChangeFormValues>({
+    resolver: zodResolver(changeSchema),
+    defaultValues: { currentPassword: "", newPassword: "", confirmPassword: "" },
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: ChangeFormValues) => {
+      await apiRequest("POST", "/api/user/password", { currentPassword, newPassword });
+    },
+    onSuccess: () => {
+      setOpen(false);
+      form.reset();
+      toast({ title: "Password changed", description: "You were signed out on your other devices" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Password not changed", description: error.message });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) form.reset(); }}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Change password"
+          className="p-1 rounded-full text-neutral-400 hover:text-neutral-600 hover:bg-neutral-100"
+        >
+          <KeyRound className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Change password</DialogTitle>
+          <DialogDescription>
+            Use at least 8 characters with a number or a symbol. Your other sessions will be signed out.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => changeMutation.mutate(values))} className="space-y-4">
+            {FIELDS.map(({ name, label, autoComplete }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete={autoComplete} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+            <DialogFooter>
+              <Button type="submit" disabled={changeMutation.isPending}>
+                {changeMutation.isPending ? "Saving..." : "Change password"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
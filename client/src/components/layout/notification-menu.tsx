@@ -0,0 +1,79 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Bell } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Notification } from "@shared/schema";
+
+export default function NotificationMenu() {
+  const [, setLocation] = useLocation();
+
+  const { data: notifications } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: 60_000,
+  });
+  const unread = notifications?.filter((notification) => !notification.read).length ?? 0;
+
+  const readMutation = useMutation({
+    mutationFn: async (notification: Notification) => {
+      await apiRequest("PATCH", `/api/notifications/${notification.id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const open = (notification: Notification) => {
+    if (!notification.read) readMutation.mutate(notification);
+    if (notification.link) setLocation(notification.link);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative p-1 rounded-full text-neutral-400 hover:text-neutral-600 hover:bg-neutral-100"
+          title="Notifications"
+        >
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute top-0 right-0 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4">
+              {unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-2 border-b border-neutral-200 text-sm font-medium text-neutral-900">
+          Notifications
+        </div>
+        {notifications?.length ? (
+          <ul className="max-h-96 overflow-y-auto divide-y divide-neutral-100">
+            {notifications.map((notification) => (
+              <li key={notification.id}>
+                <button
+                  className={`w-full text-left px-4 py-3 hover:bg-neutral-50 ${notification.read ? "" : "bg-blue-50"}`}
+                  onClick={() => open(notification)}
+                >
+                  <p className="text-sm font-medium text-neutral-900">{notification.title}</p>
+                  <p className="text-sm text-neutral-600">{notification.body}</p>
+                  {notification.createdAt && (
+                    <p className="text-xs text-neutral-400 mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="px-4 py-6 text-sm text-center text-neutral-500">No notifications</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { ShieldCheck } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { TwoFactorEnrollment, TwoFactorStatus } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+
+// The six digits of an authenticator app
+export function TwoFactorCodeInput({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern={REGEXP_ONLY_DIGITS}
+      autoComplete="one-time-code"
+      autoFocus
+      value={value}
+      onChange={onChange}
+      disabled={disabled}
+    >
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+function RecoveryCodes({ codes }: { codes: string[] }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-neutral-600">
+        Keep these recovery codes somewhere safe. Each one signs you in once if you lose your device;
+        they will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-neutral-50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(codes.join("\n"))}>
+        Copy codes
+      </Button>
+    </div>
+  );
+}
+
+// Scan the QR code, confirm with a first code, then note the recovery codes
+export function TwoFactorSetup({ onDone }: { onDone: () => void }) {
+  const { toast } = useToast();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const setupMutation = useMutation({
+    mutationFn: async (): Promise<TwoFactorEnrollment> => {
+      const res = await apiRequest("POST", "/api/user/two-factor/setup");
+      return await res.json();
+    },
+    onSuccess: setEnrollment,
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Could not start the setup", description: error.message });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (): Promise<{ recoveryCodes: string[] }> => {
+      const res = await apiRequest("POST", "/api/user/two-factor/enable", { code });
+      return await res.json();
+    },
+    // The status is refreshed once the recovery codes have been seen
+    onSuccess: (data) => setRecoveryCodes(data.recoveryCodes),
+    onError: (error: Error) => {
+      setCode("");
+      toast({ variant: "destructive", title: "Two-factor authentication not enabled", description: error.message });
+    },
+  });
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodes codes={recoveryCodes} />
+        <div className="flex justify-end">
+          <Button
+            onClick={() => {
+              queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+              onDone();
+            }}
+          >
+            Done
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!enrollment) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-neutral-600">
+          You will need an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.
+          After your password, sign-ins will ask for the code it shows.
+        </p>
+        <div className="flex justify-end">
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {setupMutation.isPending ? "Starting..." : "Set up"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        enableMutation.mutate();
+      }}
+    >
+      <p className="text-sm text-neutral-600">Scan this QR code with your authenticator app.</p>
+      <img src={enrollment.qrCode} alt="QR code for your authenticator app" className="mx-auto h-48 w-48" />
+      <p className="text-xs text-neutral-500">
+        Can't scan it? Enter this key instead: <span className="font-mono break-all">{enrollment.secret}</span>
+      </p>
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Code from the app</p>
+        <TwoFactorCodeInput value={code} onChange={setCode} disabled={enableMutation.isPending} />
+      </div>
+      <div className="flex justify-end">
+        <Button type="submit" disabled={code.length < 6 || enableMutation.isPending}>
+          {enableMutation.isPending ? "Checking..." : "Enable"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// Turning it off and new recovery codes ask for a code from the app or a recovery code
+function TwoFactorManage({ status }: { status: TwoFactorStatus }) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const proof = useRecoveryCode ? { recoveryCode } : { code };
+  const ready = useRecoveryCode ? recoveryCode.trim() !== "" : code.length === 6;
+
+  const clear = () => {
+    setCode("");
+    setRecoveryCode("");
+  };
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (): Promise<{ recoveryCodes: string[] }> => {
+      const res = await apiRequest("POST", "/api/user/two-factor/recovery-codes", proof);
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      clear();
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+    },
+    onError: (error: Error) => {
+      clear();
+      toast({ variant: "destructive", title: "No new recovery codes", description: error.message });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/user/two-factor/disable", proof);
+    },
+    onSuccess: () => {
+      clear();
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+      toast({ title: "Two-factor authentication turned off" });
+    },
+    onError: (error: Error) => {
+      clear();
+      toast({ variant: "destructive", title: "Two-factor authentication still on", description: error.message });
+    },
+  });
+
+  if (recoveryCodes) {
+    return <RecoveryCodes codes={recoveryCodes} />;
+  }
+
+  const pending = regenerateMutation.isPending || disableMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-neutral-600">
+        Two-factor authentication is on. {status.recoveryCodesRemaining} of your recovery codes are left.
+      </p>
+      <div className="space-y-2">
+        <p className="text-sm font-medium">{useRecoveryCode ? "Recovery code" : "Code from your app"}</p>
+        {useRecoveryCode ? (
+          <Input value={recoveryCode} onChange={(e) => setRecoveryCode(e.target.value)} autoComplete="off" />
+        ) : (
+          <TwoFactorCodeInput value={code} onChange={setCode} disabled={pending} />
+        )}
+        <button
+          type="button"
+          className="text-sm font-medium text-primary"
+          onClick={() => {
+            clear();
+            setUseRecoveryCode(!useRecoveryCode);
+          }}
+        >
+          {useRecoveryCode ? "Use a code from your app" : "Use a recovery code"}
+        </button>
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" disabled={!ready || pending} onClick={() => regenerateMutation.mutate()}>
+          New recovery codes
+        </Button>
+        {/* Roles that require it cannot turn it off */}
+        {!status.required && (
+          <Button variant="destructive" disabled={!ready || pending} onClick={() => disableMutation.mutate()}>
+            Turn off
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function TwoFactorDialog() {
+  const [open, setOpen] = useState(false);
+  // Remounts the contents so each opening starts from the beginning
+  const [session, setSession] = useState(0);
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) setSession(session + 1); }}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Two-factor authentication"
+          className="p-1 rounded-full text-neutral-400 hover:text-neutral-600 hover:bg-neutral-100"
+        >
+          <ShieldCheck className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Two-factor authentication</DialogTitle>
+          <DialogDescription>
+            Protect your account with a code from an authenticator app in addition to your password.
+          </DialogDescription>
+        </DialogHeader>
+        {!status ? (
+          <div className="flex justify-center p-6">
+            <div className="loader"></div>
+          </div>
+        ) : status.enabled ? (
+          <TwoFactorManage key={session} status={status} />
+        ) : (
+          <TwoFactorSetup key={session} onDone={() => setOpen(false)} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,35 @@
+import { useQueries } from "@tanstack/react-query";
+import type { Application, ApplicationPage } from "@shared/schema";
+
+// The most ids the server looks up in one request
+const IDS_PER_REQUEST = 100;
+
+/**
+ * Loads the applications a page of other records (documents, messages,
+ * evaluations) refers to, instead of listing every application
+ */
+export function useApplicationsById(ids: (number | null | undefined)[]) {
+  const unique = Array.from(new Set(ids.filter((id): id is number => !!id))).sort((a, b) => a - b);
+  const chunks: number[][] = [];
+  for (let start = 0; start < unique.length; start += IDS_PER_REQUEST) {
+    chunks.push(unique.slice(start, start + IDS_PER_REQUEST));
+  }
+
+  return useQueries({
+    queries: chunks.map((chunk) => ({
+      queryKey: ["/api/applications", { ids: chunk, limit: IDS_PER_REQUEST }],
+    })),
+    combine: (results) => {
+      const applications = new Map<number, Application>();
+      for (const result of results) {
+        (result.data as ApplicationPage | undefined)?.items.forEach((application) => {
+          applications.set(application.id, application);
+        });
+      }
+      return {
+        getApplication: (id: number | null | undefined) => (id ? applications.get(id) : undefined),
+        isLoading: results.some((result) => result.isLoading),
+      };
+    },
+  });
+}
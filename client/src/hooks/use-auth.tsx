@@ -4,7 +4,7 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User } from "@shared/schema";
+import { insertUserSchema, TwoFactorCode, User } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
@@ -13,7 +13,9 @@ type AuthContextType = {
   user: Omit<User, "password"> | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<Omit<User, "password">, Error, LoginData>;
+  // Resolves to the pending marker when the password is right but a second factor is needed
+  loginMutation: UseMutationResult<Omit<User, "password"> | TwoFactorPending, Error, LoginData>;
+  twoFactorMutation: UseMutationResult<Omit<User, "password">, Error, TwoFactorCode>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<Omit<User, "password">, Error, RegisterData>;
 };
@@ -23,6 +25,12 @@ type LoginData = {
   password: string;
 };
 
+export type TwoFactorPending = { twoFactorRequired: true };
+
+export function isTwoFactorPending(response: unknown): response is TwoFactorPending {
+  return typeof response === "object" && response !== null && "twoFactorRequired" in response;
+}
+
 const registerSchema = insertUserSchema.extend({
   confirmPassword: z.string(),
 }).refine(data => data.password === data.confirmPassword, {
@@ -45,26 +53,47 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
+  const signedIn = (user: Omit<User, "password">) => {
+    queryClient.setQueryData(["/api/user"], user);
+    // Permissions, eligibility and two-factor status belong to whoever was logged in before
+    queryClient.removeQueries({ queryKey: ["/api/user/permissions"] });
+    queryClient.removeQueries({ queryKey: ["/api/user/eligibility"] });
+    queryClient.removeQueries({ queryKey: ["/api/user/two-factor"] });
+    toast({
+      title: "Login successful",
+      description: `Welcome back, ${user.fullName}!`,
+      variant: "default",
+    });
+  };
+
+  const loginFailed = (error: Error) => {
+    toast({
+      title: "Login failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginData) => {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: Omit<User, "password">) => {
-      queryClient.setQueryData(["/api/user"], user);
-      toast({
-        title: "Login successful",
-        description: `Welcome back, ${user.fullName}!`,
-        variant: "default",
-      });
+    onSuccess: (response: Omit<User, "password"> | TwoFactorPending) => {
+      // The auth page asks for the code next
+      if (isTwoFactorPending(response)) return;
+      signedIn(response);
     },
-    onError: (error: Error) => {
-      toast({
-        title: "Login failed",
-        description: error.message,
-        variant: "destructive",
-      });
+    onError: loginFailed,
+  });
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async (proof: TwoFactorCode) => {
+      const res = await apiRequest("POST", "/api/login/two-factor", proof);
+      return await res.json();
     },
+    onSuccess: signedIn,
+    onError: loginFailed,
   });
 
   const registerMutation = useMutation({
@@ -111,6 +140,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onSuccess: () => {
       queryClient.setQueryData(["/api/user"], null);
+      queryClient.removeQueries({ queryKey: ["/api/user/permissions"] });
+      queryClient.removeQueries({ queryKey: ["/api/user/eligibility"] });
+      queryClient.removeQueries({ queryKey: ["/api/user/two-factor"] });
       toast({
         title: "Logged out",
         description: "You have been successfully logged out",
@@ -133,6 +165,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
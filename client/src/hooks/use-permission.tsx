@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import type { Permission } from "@shared/permissions";
+
+export const USER_PERMISSIONS_KEY = ["/api/user/permissions"];
+
+// Permissions of the logged-in user, as granted by the server
+export function usePermissions() {
+  const { user } = useAuth();
+  const { data, isLoading } = useQuery<Permission[]>({
+    queryKey: USER_PERMISSIONS_KEY,
+    enabled: !!user,
+  });
+
+  return {
+    permissions: data ?? [],
+    isLoading: !!user && isLoading,
+  };
+}
+
+export function usePermission(permission: Permission) {
+  const { permissions } = usePermissions();
+  return permissions.includes(permission);
+}
@@ -1,20 +1,30 @@
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permission";
+import TwoFactorSetupPage from "@/pages/two-factor-setup-page";
+import type { Permission } from "@shared/permissions";
+import type { TwoFactorStatus } from "@shared/schema";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
 
 export function ProtectedRoute({
   path,
   component: Component,
-  allowedRoles = [],
+  permission,
 }: {
   path: string;
   component: () => React.JSX.Element;
-  allowedRoles?: string[];
+  permission?: Permission;
 }) {
   const { user, isLoading } = useAuth();
+  const { permissions, isLoading: permissionsLoading } = usePermissions();
+  const { data: twoFactor, isLoading: twoFactorLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+    enabled: !!user,
+  });
 
-  // Show loading state while authentication status is being determined
-  if (isLoading) {
+  // Show loading state while authentication status or permissions are being determined
+  if (isLoading || (user && twoFactorLoading) || (permission && permissionsLoading)) {
     return (
       <Route path={path}>
         <div className="flex items-center justify-center min-h-screen">
@@ -33,8 +43,17 @@ export function ProtectedRoute({
     );
   }
 
-  // Check role-based access if roles are specified
-  if (allowedRoles.length > 0 && !allowedRoles.includes(user.role)) {
+  // The API refuses everything else until a required second factor is set up
+  if (twoFactor?.required && !twoFactor.enabled) {
+    return (
+      <Route path={path}>
+        <TwoFactorSetupPage />
+      </Route>
+    );
+  }
+
+  // Check the required permission, if any
+  if (permission && !permissions.includes(permission)) {
     return (
       <Route path={path}>
         <div className="flex flex-col items-center justify-center min-h-screen p-4">
@@ -47,6 +66,6 @@ export function ProtectedRoute({
     );
   }
 
-  // User is authenticated and has the required role, render the component
+  // User is authenticated and has the required permission, render the component
   return <Route path={path} component={Component} />;
 }
@@ -23,13 +23,70 @@ export async function apiRequest(
   return res;
 }
 
+// Sends a file as multipart/form-data in the "file" field, with any extra
+// fields alongside it
+export async function uploadFile(
+  url: string,
+  file: File,
+  fields: Record<string, string> = {},
+): Promise<Response> {
+  const body = new FormData();
+  body.set("file", file);
+  for (const [key, value] of Object.entries(fields)) body.set(key, value);
+
+  const res = await fetch(url, {
+    method: "POST",
+    body,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
+// Builds a request URL from a query key: path segments are joined with "/"
+// and a trailing plain object becomes the query string, so
+// ["/api/applications", { status: ["draft"], limit: 10 }] fetches
+// /api/applications?status=draft&limit=10
+export function buildQueryUrl(queryKey: readonly unknown[]): string {
+  const segments: string[] = [];
+  let params: Record<string, unknown> | undefined;
+
+  for (const part of queryKey) {
+    if (part !== null && typeof part === "object" && !Array.isArray(part)) {
+      params = part as Record<string, unknown>;
+    } else if (part !== undefined && part !== null) {
+      segments.push(String(part));
+    }
+  }
+
+  const url = segments.join("/");
+  if (!params) return url;
+
+  const search = new URLSearchParams();
+  for (const key of Object.keys(params)) {
+    const value = params[key];
+    if (value === undefined || value === null || value === "") continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) search.set(key, value.join(","));
+    } else if (value instanceof Date) {
+      search.set(key, value.toISOString());
+    } else {
+      search.set(key, String(value));
+    }
+  }
+
+  const queryString = search.toString();
+  return queryString ? `${url}?${queryString}` : url;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetch(buildQueryUrl(queryKey), {
       credentials: "include",
     });
 
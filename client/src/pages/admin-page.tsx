@@ -15,10 +15,18 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/use-permission";
+import PermissionMatrix from "@/components/admin/permission-matrix";
+import TwoFactorSettings from "@/components/admin/two-factor-settings";
+import ProgramFormBuilder from "@/components/admin/program-form-builder";
+import AuditLog from "@/components/admin/audit-log";
+import RateLimitPolicies from "@/components/admin/rate-limit-policies";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { User, Program, InsertUser } from "@shared/schema";
+import { dateToZonedInput, zonedTimeToDate } from "@shared/program-calls";
+import CallCountdown, { useNow } from "@/components/applications/call-countdown";
 import { z } from "zod";
-import { useForm } from "react-hook-form";
+import { useForm, type UseFormReturn } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { 
   Form, 
@@ -43,7 +51,12 @@ import {
   CheckCircle,
   LogOut,
   UserCog,
-  UserCheck
+  UserCheck,
+  ListChecks,
+  FileArchive,
+  History,
+  ShieldOff,
+  ShieldAlert
 } from "lucide-react";
 
 const programSchema = z.object({
@@ -55,6 +68,11 @@ const programSchema = z.object({
   year: z.string().min(4, "Year must be 4 digits"),
   description: z.string().optional(),
   active: z.boolean().default(true),
+  // Call window, entered as wall-clock time in the program's time zone
+  opensAt: z.string().optional(),
+  closesAt: z.string().optional(),
+  timezone: z.string().min(1, "Time zone is required"),
+  gracePeriodMinutes: z.string().optional(),
 });
 
 // User form schema
@@ -71,17 +89,111 @@ const userSchema = z.object({
 type ProgramFormValues = z.infer<typeof programSchema>;
 type UserFormValues = z.infer<typeof userSchema>;
 
+const emptyProgramForm: ProgramFormValues = {
+  name: "",
+  type: "sponzorstvo",
+  budgetTotal: "",
+  year: new Date().getFullYear().toString(),
+  description: "",
+  active: true,
+  opensAt: "",
+  closesAt: "",
+  timezone: "Europe/Sarajevo",
+  gracePeriodMinutes: "0",
+};
+
+function toProgramPayload(values: ProgramFormValues) {
+  const toDate = (local?: string) => (local ? zonedTimeToDate(local, values.timezone).toISOString() : null);
+  return {
+    ...values,
+    budgetTotal: parseInt(values.budgetTotal),
+    year: parseInt(values.year),
+    opensAt: toDate(values.opensAt),
+    closesAt: toDate(values.closesAt),
+    gracePeriodMinutes: parseInt(values.gracePeriodMinutes || "0"),
+  };
+}
+
+function ProgramCallFields({ form }: { form: UseFormReturn<ProgramFormValues> }) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="opensAt"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Call Opens</FormLabel>
+              <FormControl>
+                <Input type="datetime-local" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="closesAt"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Call Closes</FormLabel>
+              <FormControl>
+                <Input type="datetime-local" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="timezone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Time Zone</FormLabel>
+              <FormControl>
+                <Input placeholder="Europe/Sarajevo" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="gracePeriodMinutes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Grace Period (minutes)</FormLabel>
+              <FormControl>
+                <Input type="number" min="0" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </>
+  );
+}
+
 export default function AdminPage() {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("users");
   const [showUserDialog, setShowUserDialog] = useState(false);
   const [showProgramDialog, setShowProgramDialog] = useState(false);
   const [showDeleteUserDialog, setShowDeleteUserDialog] = useState(false);
+  const [showResetTwoFactorDialog, setShowResetTwoFactorDialog] = useState(false);
   const [showDeleteProgramDialog, setShowDeleteProgramDialog] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
   const [selectedProgramId, setSelectedProgramId] = useState<number | null>(null);
+  const [formBuilderProgram, setFormBuilderProgram] = useState<Program | null>(null);
   const [userSearchQuery, setUserSearchQuery] = useState("");
   const [programSearchQuery, setProgramSearchQuery] = useState("");
+  const canManagePermissions = usePermission("permission.manage");
+  const canViewAuditLog = usePermission("audit.view");
+  const canManageSecurity = usePermission("security.manage");
+  const now = useNow();
   
   // User form
   const userForm = useForm<UserFormValues>({
@@ -108,14 +220,7 @@ export default function AdminPage() {
   // Program form
   const programForm = useForm<ProgramFormValues>({
     resolver: zodResolver(programSchema),
-    defaultValues: {
-      name: "",
-      type: "sponzorstvo",
-      budgetTotal: "",
-      year: new Date().getFullYear().toString(),
-      description: "",
-      active: true,
-    },
+    defaultValues: emptyProgramForm,
   });
   
   // Create user mutation
@@ -148,6 +253,29 @@ export default function AdminPage() {
     },
   });
   
+  // Reset two-factor authentication mutation
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("POST", `/api/users/${id}/two-factor/reset`, {});
+    },
+    onSuccess: () => {
+      toast({
+        title: "Two-factor authentication reset",
+        description: "The user can sign in with their password and set it up again",
+        variant: "default",
+      });
+      setShowResetTwoFactorDialog(false);
+      setSelectedUserId(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error resetting two-factor authentication",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Handle user form submission
   const onUserSubmit = (values: UserFormValues) => {
     createUserMutation.mutate(values);
@@ -156,11 +284,7 @@ export default function AdminPage() {
   // Create program mutation
   const createProgramMutation = useMutation({
     mutationFn: async (values: ProgramFormValues) => {
-      return apiRequest("POST", "/api/programs", {
-        ...values,
-        budgetTotal: parseInt(values.budgetTotal),
-        year: parseInt(values.year),
-      });
+      return apiRequest("POST", "/api/programs", toProgramPayload(values));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/programs"] });
@@ -184,11 +308,7 @@ export default function AdminPage() {
   // Update program mutation
   const updateProgramMutation = useMutation({
     mutationFn: async ({ id, values }: { id: number; values: ProgramFormValues }) => {
-      return apiRequest("PATCH", `/api/programs/${id}`, {
-        ...values,
-        budgetTotal: parseInt(values.budgetTotal),
-        year: parseInt(values.year),
-      });
+      return apiRequest("PATCH", `/api/programs/${id}`, toProgramPayload(values));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/programs"] });
@@ -244,6 +364,10 @@ export default function AdminPage() {
       year: program.year.toString(),
       description: program.description || "",
       active: program.active,
+      opensAt: program.opensAt ? dateToZonedInput(program.opensAt, program.timezone) : "",
+      closesAt: program.closesAt ? dateToZonedInput(program.closesAt, program.timezone) : "",
+      timezone: program.timezone,
+      gracePeriodMinutes: program.gracePeriodMinutes.toString(),
     });
     setShowProgramDialog(true);
   };
@@ -297,6 +421,24 @@ export default function AdminPage() {
               <FileText className="h-4 w-4 mr-2" />
               Program Management
             </TabsTrigger>
+            {canManagePermissions && (
+              <TabsTrigger value="permissions">
+                <UserCog className="h-4 w-4 mr-2" />
+                Permissions
+              </TabsTrigger>
+            )}
+            {canViewAuditLog && (
+              <TabsTrigger value="audit">
+                <History className="h-4 w-4 mr-2" />
+                Audit Log
+              </TabsTrigger>
+            )}
+            {canManageSecurity && (
+              <TabsTrigger value="security">
+                <ShieldAlert className="h-4 w-4 mr-2" />
+                Security
+              </TabsTrigger>
+            )}
             <TabsTrigger value="settings">
               <Settings className="h-4 w-4 mr-2" />
               System Settings
@@ -388,6 +530,17 @@ export default function AdminPage() {
                                 <Button variant="ghost" size="sm" title="Edit user">
                                   <Edit className="h-4 w-4" />
                                 </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Reset two-factor authentication"
+                                  onClick={() => {
+                                    setSelectedUserId(user.id);
+                                    setShowResetTwoFactorDialog(true);
+                                  }}
+                                >
+                                  <ShieldOff className="h-4 w-4" />
+                                </Button>
                                 <Button
                                   variant="ghost"
                                   size="sm"
@@ -428,14 +581,7 @@ export default function AdminPage() {
                   </div>
                   <Button onClick={() => {
                     setSelectedProgramId(null);
-                    programForm.reset({
-                      name: "",
-                      type: "sponzorstvo",
-                      budgetTotal: "",
-                      year: new Date().getFullYear().toString(),
-                      description: "",
-                      active: true,
-                    });
+                    programForm.reset(emptyProgramForm);
                     setShowProgramDialog(true);
                   }}>
                     <Plus className="h-4 w-4 mr-2" />
@@ -485,6 +631,9 @@ export default function AdminPage() {
                               }`}>
                                 {program.active ? 'Active' : 'Inactive'}
                               </span>
+                              <div>
+                                <CallCountdown program={program} now={now} />
+                              </div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm">
                               <div className="flex space-x-2">
@@ -496,6 +645,24 @@ export default function AdminPage() {
                                 >
                                   <Edit className="h-4 w-4" />
                                 </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Edit application form"
+                                  onClick={() => setFormBuilderProgram(program)}
+                                >
+                                  <ListChecks className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Export dossiers of submitted applications"
+                                  asChild
+                                >
+                                  <a href={`/api/programs/${program.id}/dossiers`}>
+                                    <FileArchive className="h-4 w-4" />
+                                  </a>
+                                </Button>
                                 <Button
                                   variant="ghost"
                                   size="sm"
@@ -519,6 +686,30 @@ export default function AdminPage() {
             </Card>
           </TabsContent>
           
+          {/* Permissions Tab */}
+          {canManagePermissions && (
+            <TabsContent value="permissions">
+              <div className="space-y-6">
+                <PermissionMatrix />
+                <TwoFactorSettings />
+              </div>
+            </TabsContent>
+          )}
+          
+          {/* Audit Log Tab */}
+          {canViewAuditLog && (
+            <TabsContent value="audit">
+              <AuditLog />
+            </TabsContent>
+          )}
+          
+          {/* Security Tab */}
+          {canManageSecurity && (
+            <TabsContent value="security">
+              <RateLimitPolicies />
+            </TabsContent>
+          )}
+          
           {/* Settings Tab */}
           <TabsContent value="settings">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -759,6 +950,8 @@ export default function AdminPage() {
                   )}
                 />
                 
+                <ProgramCallFields form={programForm} />
+                
                 <FormField
                   control={programForm.control}
                   name="active"
@@ -802,7 +995,41 @@ export default function AdminPage() {
           </DialogContent>
         </Dialog>
         
-        {/* Delete Program Confirmation Dialog */}
+        <ProgramFormBuilder program={formBuilderProgram} onClose={() => setFormBuilderProgram(null)} />
+
+        {/* Reset Two-Factor Confirmation Dialog */}
+      <Dialog open={showResetTwoFactorDialog} onOpenChange={setShowResetTwoFactorDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset Two-Factor Authentication</DialogTitle>
+            <DialogDescription>
+              Use this when the user has lost their authenticator device. They will sign in with their password
+              alone and set up two-factor authentication again if their role requires it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button 
+              variant="outline" 
+              onClick={() => setShowResetTwoFactorDialog(false)}
+            >
+              Cancel
+            </Button>
+            <Button 
+              variant="destructive"
+              onClick={() => {
+                if (selectedUserId) {
+                  resetTwoFactorMutation.mutate(selectedUserId);
+                }
+              }}
+              disabled={resetTwoFactorMutation.isPending}
+            >
+              {resetTwoFactorMutation.isPending ? "Resetting..." : "Reset"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+      
+      {/* Delete Program Confirmation Dialog */}
         <Dialog open={showDeleteProgramDialog} onOpenChange={setShowDeleteProgramDialog}>
           <DialogContent className="sm:max-w-md">
             <DialogHeader>
@@ -1057,6 +1284,7 @@ export default function AdminPage() {
                   </FormItem>
                 )}
               />
+              <ProgramCallFields form={programForm} />
               <FormField
                 control={programForm.control}
                 name="active"
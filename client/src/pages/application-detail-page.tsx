@@ -0,0 +1,144 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { AlertTriangle, ChevronLeft, FileArchive } from "lucide-react";
+import MainLayout from "@/components/layout/main-layout";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import ApplicationActions from "@/components/applications/application-actions";
+import ApplicationVersions from "@/components/applications/application-versions";
+import ApplicationAmendments from "@/components/applications/application-amendments";
+import ApplicationDocuments from "@/components/applications/application-documents";
+import { Application, Program } from "@shared/schema";
+import { EligibilityResult } from "@shared/eligibility";
+import { isApplicationEditable } from "@shared/application-lifecycle";
+import { formatAnswer, visibleFields } from "@shared/program-forms";
+
+export default function ApplicationDetailPage() {
+  const params = useParams<{ id: string }>();
+  const applicationId = parseInt(params.id);
+
+  const { data: application, isLoading, error } = useQuery<Application>({
+    queryKey: ["/api/applications", applicationId],
+  });
+
+  const { data: programs } = useQuery<Program[]>({
+    queryKey: ["/api/programs"],
+  });
+  const program = programs?.find((p) => p.id === application?.programId);
+
+  // Until it is submitted, tell the applicant what would stop submission
+  const { data: eligibility } = useQuery<EligibilityResult>({
+    queryKey: ["/api/applications", applicationId, "eligibility"],
+    enabled: !!application && isApplicationEditable(application),
+  });
+
+  return (
+    <MainLayout title="Application">
+      <div className="container mx-auto space-y-6">
+        <Link href="/applications">
+          <a className="inline-flex items-center text-sm text-neutral-500 hover:text-neutral-900">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Back to applications
+          </a>
+        </Link>
+
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <div className="loader"></div>
+          </div>
+        ) : !application ? (
+          <p className="text-sm text-neutral-500">{error?.message ?? "Application not found."}</p>
+        ) : (
+          <>
+            {eligibility && !eligibility.eligible && isApplicationEditable(application) && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>This application cannot be submitted yet</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4">
+                    {eligibility.reasons.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Card>
+              <CardHeader className="px-6 py-5 border-b border-neutral-200 flex flex-row justify-between items-center">
+                <div>
+                  <CardTitle className="text-lg font-semibold text-neutral-900">{application.autoCode}</CardTitle>
+                  <p className="text-sm text-neutral-500">{program?.name}</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge className="bg-neutral-100 text-neutral-800 hover:bg-neutral-100">{application.status}</Badge>
+                  <Button variant="outline" size="sm" title="Download a ZIP with a PDF summary and all documents" asChild>
+                    <a href={`/api/applications/${application.id}/dossier`}>
+                      <FileArchive className="h-4 w-4 mr-1" />
+                      Dossier
+                    </a>
+                  </Button>
+                  <ApplicationActions application={application} />
+                </div>
+              </CardHeader>
+              <CardContent className="p-6">
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-neutral-500">Summary</dt>
+                    <dd className="text-neutral-900">{application.summary}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-neutral-500">Requested Amount</dt>
+                    <dd className="text-neutral-900">{application.requestedAmount ?? "—"}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-neutral-500">Project Duration</dt>
+                    <dd className="text-neutral-900">
+                      {application.projectDuration ? `${application.projectDuration} months` : "—"}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-neutral-500">Submitted</dt>
+                    <dd className="text-neutral-900">
+                      {application.submittedAt ? new Date(application.submittedAt).toLocaleDateString() : "Not submitted"}
+                    </dd>
+                  </div>
+                  <div className="md:col-span-2">
+                    <dt className="text-neutral-500">Description</dt>
+                    <dd className="text-neutral-900">{application.description ?? "—"}</dd>
+                  </div>
+                  {program?.formSchema && visibleFields(program.formSchema, application.answers).map((field) => (
+                    <div key={field.key} className={field.type === "textarea" ? "md:col-span-2" : undefined}>
+                      <dt className="text-neutral-500">{field.label}</dt>
+                      <dd className="text-neutral-900 whitespace-pre-line">{formatAnswer(field, application.answers[field.key])}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </CardContent>
+            </Card>
+
+            <Tabs defaultValue="documents">
+              <TabsList>
+                <TabsTrigger value="documents">Documents</TabsTrigger>
+                <TabsTrigger value="versions">Versions</TabsTrigger>
+                <TabsTrigger value="amendments">Amendments</TabsTrigger>
+              </TabsList>
+              <TabsContent value="documents">
+                <ApplicationDocuments application={application} program={program} />
+              </TabsContent>
+              <TabsContent value="versions">
+                <ApplicationVersions applicationId={application.id} />
+              </TabsContent>
+              <TabsContent value="amendments">
+                <ApplicationAmendments application={application} />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
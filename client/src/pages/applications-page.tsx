@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import MainLayout from "@/components/layout/main-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
@@ -11,22 +11,38 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Plus, Search, Filter, FileUp } from "lucide-react";
+import { Plus, Search, Filter, FileUp, ChevronLeft, ChevronRight } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import ApplicationForm from "@/components/applications/application-form";
-import { Application, Program, User } from "@shared/schema";
+import ApplicationActions from "@/components/applications/application-actions";
+import { ApplicationPage, Program, User } from "@shared/schema";
 import { Link } from "wouter";
 
+const PAGE_SIZE = 20;
+
 export default function ApplicationsPage() {
   const [showApplicationForm, setShowApplicationForm] = useState(false);
   const [statusFilter, setStatusFilter] = useState("all");
   const [programFilter, setProgramFilter] = useState("all");
   const [searchQuery, setSearchQuery] = useState("");
+  const [page, setPage] = useState(0);
 
-  // Fetch applications
-  const { data: applications, isLoading: applicationsLoading } = useQuery<Application[]>({
-    queryKey: ["/api/applications"],
+  // Fetch the current page of applications; filtering happens on the server
+  const { data: applicationPage, isLoading: applicationsLoading } = useQuery<ApplicationPage>({
+    queryKey: ["/api/applications", {
+      status: statusFilter === "all" ? undefined : statusFilter,
+      programId: programFilter === "all" ? undefined : programFilter,
+      q: searchQuery.trim(),
+      sort: "id",
+      order: "desc",
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE,
+    }],
+    placeholderData: keepPreviousData,
   });
+  const applications = applicationPage?.items;
+  const total = applicationPage?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
   // Fetch programs
   const { data: programs, isLoading: programsLoading } = useQuery<Program[]>({
@@ -59,29 +75,11 @@ export default function ApplicationsPage() {
     }
   };
 
-  // Filter applications
-  const filteredApplications = applications?.filter((app) => {
-    // Filter by status
-    if (statusFilter !== "all" && app.status !== statusFilter) {
-      return false;
-    }
-    
-    // Filter by program
-    if (programFilter !== "all" && app.programId.toString() !== programFilter) {
-      return false;
-    }
-    
-    // Search by summary or code
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      return (
-        app.summary.toLowerCase().includes(query) ||
-        app.autoCode.toLowerCase().includes(query)
-      );
-    }
-    
-    return true;
-  });
+  // Changing a filter starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(0);
+  };
 
   const isLoading = applicationsLoading || programsLoading || usersLoading;
 
@@ -98,13 +96,13 @@ export default function ApplicationsPage() {
                 placeholder="Search applications..."
                 className="pl-10 w-full sm:w-[250px]"
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => updateFilter(setSearchQuery)(e.target.value)}
               />
             </div>
             
             {/* Filters */}
             <div className="flex space-x-2">
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select value={statusFilter} onValueChange={updateFilter(setStatusFilter)}>
                 <SelectTrigger className="w-full sm:w-[180px]">
                   <Filter className="mr-2 h-4 w-4" />
                   <SelectValue placeholder="Status" />
@@ -120,7 +118,7 @@ export default function ApplicationsPage() {
                 </SelectContent>
               </Select>
               
-              <Select value={programFilter} onValueChange={setProgramFilter}>
+              <Select value={programFilter} onValueChange={updateFilter(setProgramFilter)}>
                 <SelectTrigger className="w-full sm:w-[200px]">
                   <SelectValue placeholder="Program" />
                 </SelectTrigger>
@@ -158,26 +156,27 @@ export default function ApplicationsPage() {
                     <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Date</th>
                     <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Status</th>
                     <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Documents</th>
+                    <th className="px-6 py-4 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">Actions</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-neutral-200">
                   {isLoading ? (
                     <tr>
-                      <td colSpan={6} className="px-6 py-10 text-center text-sm text-neutral-500">
+                      <td colSpan={7} className="px-6 py-10 text-center text-sm text-neutral-500">
                         <div className="flex justify-center">
                           <div className="loader"></div>
                         </div>
                         <p className="mt-2">Loading applications...</p>
                       </td>
                     </tr>
-                  ) : filteredApplications?.length === 0 ? (
+                  ) : applications?.length === 0 ? (
                     <tr>
-                      <td colSpan={6} className="px-6 py-10 text-center text-sm text-neutral-500">
+                      <td colSpan={7} className="px-6 py-10 text-center text-sm text-neutral-500">
                         No applications found with the current filters.
                       </td>
                     </tr>
                   ) : (
-                    filteredApplications?.map((app) => {
+                    applications?.map((app) => {
                       const program = programs?.find(p => p.id === app.programId);
                       return (
                         <tr key={app.id} className="hover:bg-neutral-50">
@@ -204,6 +203,9 @@ export default function ApplicationsPage() {
                               Upload
                             </Button>
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right">
+                            <ApplicationActions application={app} />
+                          </td>
                         </tr>
                       );
                     })
@@ -211,6 +213,33 @@ export default function ApplicationsPage() {
                 </tbody>
               </table>
             </div>
+            <div className="flex items-center justify-between px-6 py-4 border-t border-neutral-200">
+              <p className="text-sm text-neutral-500">
+                {total === 0
+                  ? "No applications"
+                  : `Showing ${page * PAGE_SIZE + 1}-${Math.min((page + 1) * PAGE_SIZE, total)} of ${total}`}
+              </p>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page === 0}
+                  onClick={() => setPage((current) => current - 1)}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page + 1 >= pageCount}
+                  onClick={() => setPage((current) => current + 1)}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -15,10 +15,11 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { useAuth } from "@/hooks/use-auth";
+import { isTwoFactorPending, useAuth } from "@/hooks/use-auth";
+import { TwoFactorCodeInput } from "@/components/layout/two-factor-dialog";
 import { Check, Loader2, Building2, User, BuildingIcon } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
-import { ApplicantType } from "@shared/schema";
+import { ApplicantType, passwordSchema } from "@shared/schema";
 
 const loginSchema = z.object({
   username: z.string().min(1, { message: "Username is required" }),
@@ -35,7 +36,7 @@ const registerSchema = z.object({
   applicantTypeId: z.number().optional(),
   representativeEmail: z.string().email({ message: "Invalid representative email address" }).optional(),
   website: z.string().url({ message: "Invalid website URL" }).optional(),
-  password: z.string().min(6, { message: "Password must be at least 6 characters" }),
+  password: passwordSchema,
   confirmPassword: z.string(),
 }).refine(data => data.password === data.confirmPassword, {
   message: "Passwords do not match",
@@ -66,6 +67,63 @@ const registerSchema = z.object({
 type LoginFormValues = z.infer<typeof loginSchema>;
 type RegisterFormValues = z.infer<typeof registerSchema>;
 
+// Second step of the login for accounts with two-factor authentication on
+function TwoFactorStep({ onBack }: { onBack: () => void }) {
+  const { twoFactorMutation } = useAuth();
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const ready = useRecoveryCode ? recoveryCode.trim() !== "" : code.length === 6;
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        twoFactorMutation.mutate(useRecoveryCode ? { recoveryCode } : { code }, {
+          onError: () => setCode(""),
+        });
+      }}
+    >
+      <p className="text-sm text-neutral-600">
+        {useRecoveryCode
+          ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+          : "Enter the 6-digit code from your authenticator app."}
+      </p>
+      {useRecoveryCode ? (
+        <Input
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          value={recoveryCode}
+          onChange={(e) => setRecoveryCode(e.target.value)}
+        />
+      ) : (
+        <TwoFactorCodeInput value={code} onChange={setCode} disabled={twoFactorMutation.isPending} />
+      )}
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          className="text-sm font-medium text-primary hover:text-primary-dark"
+          onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+        >
+          {useRecoveryCode ? "Use a code from your app" : "Use a recovery code"}
+        </button>
+        <button type="button" className="text-sm text-neutral-500 hover:text-neutral-700" onClick={onBack}>
+          Back to sign in
+        </button>
+      </div>
+      <Button type="submit" className="w-full" disabled={!ready || twoFactorMutation.isPending}>
+        {twoFactorMutation.isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : "Verify"}
+      </Button>
+    </form>
+  );
+}
+
 export default function AuthPage() {
   const [, navigate] = useLocation();
   const { user, loginMutation, registerMutation } = useAuth();
@@ -145,60 +203,64 @@ export default function AuthPage() {
               </TabsList>
               
               <TabsContent value="login">
-                <Form {...loginForm}>
-                  <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
-                    <FormField
-                      control={loginForm.control}
-                      name="username"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Username</FormLabel>
-                          <FormControl>
-                            <Input placeholder="username" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={loginForm.control}
-                      name="password"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Password</FormLabel>
-                          <FormControl>
-                            <Input type="password" placeholder="••••••••" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <div className="flex items-center justify-between pt-2">
-                      <div className="flex items-center">
-                        <input id="remember" type="checkbox" className="h-4 w-4 text-primary focus:ring-primary border-neutral-300 rounded" />
-                        <label htmlFor="remember" className="ml-2 block text-sm text-neutral-700">
-                          Remember me
-                        </label>
+                {isTwoFactorPending(loginMutation.data) ? (
+                  <TwoFactorStep onBack={() => loginMutation.reset()} />
+                ) : (
+                  <Form {...loginForm}>
+                    <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+                      <FormField
+                        control={loginForm.control}
+                        name="username"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Username</FormLabel>
+                            <FormControl>
+                              <Input placeholder="username" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={loginForm.control}
+                        name="password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Password</FormLabel>
+                            <FormControl>
+                              <Input type="password" placeholder="••••••••" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div className="flex items-center justify-between pt-2">
+                        <div className="flex items-center">
+                          <input id="remember" type="checkbox" className="h-4 w-4 text-primary focus:ring-primary border-neutral-300 rounded" />
+                          <label htmlFor="remember" className="ml-2 block text-sm text-neutral-700">
+                            Remember me
+                          </label>
+                        </div>
+                        
+                        <a href="/reset-password" className="text-sm font-medium text-primary hover:text-primary-dark">
+                          Forgot password?
+                        </a>
                       </div>
-                      
-                      <a href="#" className="text-sm font-medium text-primary hover:text-primary-dark">
-                        Forgot password?
-                      </a>
-                    </div>
-                    <Button 
-                      type="submit" 
-                      className="w-full"
-                      disabled={loginMutation.isPending}
-                    >
-                      {loginMutation.isPending ? (
-                        <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Signing in...
-                        </>
-                      ) : "Sign in"}
-                    </Button>
-                  </form>
-                </Form>
+                      <Button 
+                        type="submit" 
+                        className="w-full"
+                        disabled={loginMutation.isPending}
+                      >
+                        {loginMutation.isPending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Signing in...
+                          </>
+                        ) : "Sign in"}
+                      </Button>
+                    </form>
+                  </Form>
+                )}
               </TabsContent>
               
               <TabsContent value="register">
@@ -6,7 +6,8 @@ import BudgetProgress from "@/components/dashboard/budget-progress";
 import ApplicationTable from "@/components/dashboard/application-table";
 import MessageList from "@/components/dashboard/message-list";
 import { useAuth } from "@/hooks/use-auth";
-import { Application, Program, Message, User, BudgetTracking } from "@shared/schema";
+import { usePermission } from "@/hooks/use-permission";
+import { ApplicationPage, Program, Message, User, BudgetTracking } from "@shared/schema";
 
 interface ApplicationWithDetails {
   id: number;
@@ -43,9 +44,9 @@ export default function Dashboard() {
   const [budgetData, setBudgetData] = useState<ProgramBudget[]>([]);
   const [messages, setMessages] = useState<MessageWithDetails[]>([]);
 
-  // Fetch applications
-  const { data: applicationsData } = useQuery<Application[]>({
-    queryKey: ["/api/applications"],
+  // Fetch the most recently submitted applications along with status totals
+  const { data: applicationsData } = useQuery<ApplicationPage>({
+    queryKey: ["/api/applications", { sort: "submittedAt", order: "desc", limit: 3 }],
   });
 
   // Fetch programs
@@ -54,8 +55,10 @@ export default function Dashboard() {
   });
 
   // Fetch budget data
+  const canViewBudget = usePermission("budget.view");
   const { data: budgetResponse } = useQuery<{program: Program, budget: BudgetTracking}[]>({
     queryKey: ["/api/budget"],
+    enabled: canViewBudget,
   });
 
   // Fetch messages
@@ -71,7 +74,7 @@ export default function Dashboard() {
   // Process data for display components
   useEffect(() => {
     if (applicationsData && programsData && usersData) {
-      const processedApplications = applicationsData.slice(0, 3).map(app => {
+      const processedApplications = applicationsData.items.map(app => {
         const program = programsData.find(p => p.id === app.programId);
         const applicant = usersData.find(u => u.id === app.applicantId);
         return {
@@ -131,17 +134,13 @@ export default function Dashboard() {
   }, [messagesData, usersData]);
 
   // Count stats for the dashboard
-  const activeApplicationsCount = applicationsData?.filter(
-    app => ["draft", "submitted", "u obradi"].includes(app.status)
-  ).length || 0;
+  const statusCounts = applicationsData?.statusCounts ?? {};
+  const activeApplicationsCount =
+    (statusCounts["draft"] || 0) + (statusCounts["submitted"] || 0) + (statusCounts["u obradi"] || 0);
   
-  const approvedApplicationsCount = applicationsData?.filter(
-    app => app.status === "odobreno"
-  ).length || 0;
+  const approvedApplicationsCount = statusCounts["odobreno"] || 0;
   
-  const pendingReviewCount = applicationsData?.filter(
-    app => app.status === "submitted"
-  ).length || 0;
+  const pendingReviewCount = statusCounts["submitted"] || 0;
 
   const unreadMessagesCount = messagesData?.received.filter(
     msg => !msg.read
@@ -181,9 +180,11 @@ export default function Dashboard() {
         </div>
 
         {/* Program Budget Status */}
-        <div className="mb-6">
-          <BudgetProgress budgetData={budgetData} />
-        </div>
+        {canViewBudget && (
+          <div className="mb-6">
+            <BudgetProgress budgetData={budgetData} />
+          </div>
+        )}
 
         {/* Recent Applications and Messages */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
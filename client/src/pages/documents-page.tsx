@@ -1,9 +1,11 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import MainLayout from "@/components/layout/main-layout";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -12,31 +14,78 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
-import { Document, Application, User } from "@shared/schema";
-import { Search, FileText, FilePlus, FileUp, Download, Eye, Trash2 } from "lucide-react";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Document, DocumentPage, User } from "@shared/schema";
+import { isApplicationEditable } from "@shared/application-lifecycle";
+import { Search, FileText, FilePlus, FileUp, Download, Eye, Trash2, RotateCcw, ChevronLeft, ChevronRight } from "lucide-react";
+import { apiRequest, queryClient, uploadFile } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useApplicationsById } from "@/hooks/use-applications";
+import ApplicationPicker from "@/components/applications/application-picker";
+import { usePermission } from "@/hooks/use-permission";
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow } from "date-fns";
 
+const PAGE_SIZE = 20;
+
+// File type filter options; each covers one or more MIME types
+const FILE_TYPE_FILTERS: Record<string, { label: string; types: string[] }> = {
+  pdf: { label: "PDF", types: ["application/pdf"] },
+  word: {
+    label: "Word",
+    types: ["application/msword", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  },
+  excel: {
+    label: "Excel",
+    types: ["application/vnd.ms-excel", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+  },
+  image: { label: "Images", types: ["image/png", "image/jpeg"] },
+  text: { label: "Text", types: ["text/plain", "text/csv"] },
+};
+
+// Types the preview endpoint serves inline
+const PREVIEWABLE_TYPES = ["application/pdf", "image/png", "image/jpeg", "text/plain", "text/csv"];
+
 export default function DocumentsPage() {
+  const { user } = useAuth();
+  const canManage = usePermission("application.manage");
   const { toast } = useToast();
   const [showUploadDialog, setShowUploadDialog] = useState(false);
-  const [selectedApplication, setSelectedApplication] = useState<string>("");
+  const [selectedApplication, setSelectedApplication] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [fileTypeFilter, setFileTypeFilter] = useState("all");
+  const [applicationFilter, setApplicationFilter] = useState<number | null>(null);
+  const [uploaderFilter, setUploaderFilter] = useState("all");
+  const [uploadedFrom, setUploadedFrom] = useState("");
+  const [uploadedTo, setUploadedTo] = useState("");
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [page, setPage] = useState(0);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [fileName, setFileName] = useState("");
-  const [uploading, setUploading] = useState(false);
+  const [documentToDelete, setDocumentToDelete] = useState<Document | null>(null);
+  const [deleteReason, setDeleteReason] = useState("");
 
-  // Fetch documents
-  const { data: documents, isLoading: documentsLoading } = useQuery<Document[]>({
-    queryKey: ["/api/documents"],
+  // Fetch the current page of documents; filtering happens on the server
+  const { data: documentPage, isLoading: documentsLoading } = useQuery<DocumentPage>({
+    queryKey: ["/api/documents", {
+      q: searchQuery.trim(),
+      fileType: fileTypeFilter === "all" ? undefined : FILE_TYPE_FILTERS[fileTypeFilter].types.join(","),
+      applicationId: applicationFilter ?? undefined,
+      uploadedBy: uploaderFilter === "all" ? undefined : uploaderFilter,
+      uploadedFrom: uploadedFrom || undefined,
+      // Include the whole last day
+      uploadedTo: uploadedTo ? `${uploadedTo}T23:59:59.999` : undefined,
+      deleted: showDeleted ? "true" : undefined,
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE,
+    }],
+    placeholderData: keepPreviousData,
   });
+  const documents = documentPage?.items;
+  const total = documentPage?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
-  // Fetch applications
-  const { data: applications, isLoading: applicationsLoading } = useQuery<Application[]>({
-    queryKey: ["/api/applications"],
-  });
+  // Only the applications the listed documents belong to
+  const { getApplication: getApplicationById, isLoading: applicationsLoading } =
+    useApplicationsById(documents?.map((doc) => doc.applicationId) ?? []);
 
   // Fetch users
   const { data: users, isLoading: usersLoading } = useQuery<User[]>({
@@ -45,187 +94,213 @@ export default function DocumentsPage() {
 
   const isLoading = documentsLoading || applicationsLoading || usersLoading;
 
-  // Get application by ID with safer fallbacks
-  const getApplicationById = (id: number | undefined) => {
-    if (!id || !applications) return null;
-    
-    try {
-      const app = applications.find(app => app && app.id === id);
-      
-      if (!app) return null;
-      
-      // Create a sanitized application object with fallbacks for all properties
-      return {
-        ...app,
-        id: app.id,
-        applicantId: app.applicantId,
-        programId: app.programId,
-        status: app.status || 'unknown',
-        summary: app.summary || `Application ${app.autoCode || app.id}`,
-        autoCode: app.autoCode || `APP-${app.id}`,
-      };
-    } catch (error) {
-      console.error("Error getting application by ID:", error);
-      return null;
-    }
+  const getUserById = (id: number | null) => users?.find((user) => user.id === id);
+
+  // Changing a filter starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
   };
 
-  // Get user by ID with safer fallbacks
-  const getUserById = (id: number | undefined) => {
-    if (!id || !users) return null;
-    
-    try {
-      const user = users.find(user => user && user.id === id);
-      
-      if (!user) return null;
-      
-      // Create a sanitized user object with fallbacks for missing properties
-      return {
-        ...user,
-        id: user.id,
-        username: user.username || `user-${user.id}`,
-        fullName: user.fullName || user.username || `User ${user.id}`,
-        email: user.email || '',
-        role: user.role || 'user',
-      };
-    } catch (error) {
-      console.error("Error getting user by ID:", error);
-      return null;
-    }
+  const invalidateDocuments = (applicationId: number) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/applications", applicationId, "documents"] });
   };
 
-  // Handle file upload
-  const handleFileUpload = async () => {
-    if (!selectedFile || !selectedApplication) {
+  const uploadMutation = useMutation({
+    mutationFn: async ({ applicationId, file }: { applicationId: number; file: File }) => {
+      const res = await uploadFile(`/api/applications/${applicationId}/documents`, file);
+      return await res.json() as Document;
+    },
+    onSuccess: (document) => {
       toast({
-        title: "Missing information",
-        description: "Please select both an application and a file",
+        title: "File uploaded",
+        description: "Document has been uploaded successfully",
+      });
+      invalidateDocuments(document.applicationId);
+      setShowUploadDialog(false);
+      setSelectedFile(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
         variant: "destructive",
       });
-      return;
-    }
-
-    setUploading(true);
-
-    try {
-      // In a real app, we would use FormData to upload the file
-      // Since we're using in-memory storage, we'll simulate the file upload
-      const documentData = {
-        applicationId: parseInt(selectedApplication),
-        fileName: fileName || selectedFile.name,
-        fileType: selectedFile.name.split('.').pop() || "",
-        filePath: `/uploads/${fileName || selectedFile.name}`,
-      };
-
-      await apiRequest("POST", `/api/applications/${selectedApplication}/documents`, documentData);
+    },
+  });
 
+  const deleteMutation = useMutation({
+    mutationFn: async ({ document, reason }: { document: Document; reason: string }) => {
+      const res = await apiRequest("DELETE", `/api/documents/${document.id}`, reason ? { reason } : {});
+      return await res.json() as Document;
+    },
+    onSuccess: (document) => {
       toast({
-        title: "File uploaded",
-        description: "Document has been uploaded successfully",
-        variant: "default",
+        title: "Document deleted",
+        description: canManage ? "It can be restored from the deleted documents" : "The document has been removed",
       });
+      invalidateDocuments(document.applicationId);
+      setDocumentToDelete(null);
+      setDeleteReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
-      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/applications", parseInt(selectedApplication), "documents"] });
+  const restoreMutation = useMutation({
+    mutationFn: async (document: Document) => {
+      const res = await apiRequest("POST", `/api/documents/${document.id}/restore`);
+      return await res.json() as Document;
+    },
+    onSuccess: (document) => {
+      toast({
+        title: "Document restored",
+        description: `${document.fileName} is visible again`,
+      });
+      invalidateDocuments(document.applicationId);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
-      setShowUploadDialog(false);
-      setSelectedFile(null);
-      setFileName("");
-    } catch (error) {
+  // Handle file upload
+  const handleFileUpload = () => {
+    if (!selectedFile || !selectedApplication) {
       toast({
-        title: "Upload failed",
-        description: (error as Error).message,
+        title: "Missing information",
+        description: "Please select both an application and a file",
         variant: "destructive",
       });
-    } finally {
-      setUploading(false);
+      return;
     }
+
+    uploadMutation.mutate({ applicationId: selectedApplication, file: selectedFile });
   };
 
+  // Applicants delete documents of their drafts; managers any document, with
+  // a reason once the application is submitted
+  const canDelete = (document: Document) => {
+    const application = getApplicationById(document.applicationId);
+    if (!application) return canManage;
+    if (canManage) return true;
+    return application.applicantId === user?.id && isApplicationEditable(application);
+  };
+  const deleteApplication = documentToDelete ? getApplicationById(documentToDelete.applicationId) : undefined;
+  const reasonRequired = !!deleteApplication && !isApplicationEditable(deleteApplication);
+
   // Get file icon based on type
   const getFileIcon = (fileType: string) => {
-    switch (fileType.toLowerCase()) {
-      case 'pdf':
-        return <FileText className="text-red-500" />;
-      case 'doc':
-      case 'docx':
-        return <FileText className="text-blue-500" />;
-      case 'xls':
-      case 'xlsx':
-        return <FileText className="text-green-500" />;
-      case 'jpg':
-      case 'jpeg':
-      case 'png':
-        return <FileText className="text-purple-500" />;
-      default:
-        return <FileText className="text-gray-500" />;
-    }
+    if (fileType === "application/pdf") return <FileText className="text-red-500" />;
+    if (FILE_TYPE_FILTERS.word.types.includes(fileType)) return <FileText className="text-blue-500" />;
+    if (FILE_TYPE_FILTERS.excel.types.includes(fileType)) return <FileText className="text-green-500" />;
+    if (fileType.startsWith("image/")) return <FileText className="text-purple-500" />;
+    return <FileText className="text-gray-500" />;
   };
 
-  // Filter documents
-  const filteredDocuments = documents?.filter(doc => {
-    // Filter by file type
-    if (fileTypeFilter !== "all" && doc.fileType !== fileTypeFilter) {
-      return false;
-    }
-    
-    // Search by file name or application summary
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      const application = getApplicationById(doc.applicationId);
-      
-      return (
-        doc.fileName.toLowerCase().includes(query) ||
-        (application && application.summary.toLowerCase().includes(query))
-      );
-    }
-    
-    return true;
-  });
+  const getFileTypeLabel = (fileType: string) =>
+    Object.values(FILE_TYPE_FILTERS).find((filter) => filter.types.includes(fileType))?.label ?? fileType;
 
   return (
     <MainLayout title="Documents">
       <div className="container mx-auto">
         {/* Action Bar */}
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 space-y-4 md:space-y-0">
-          <div className="flex flex-col sm:flex-row w-full md:w-auto space-y-4 sm:space-y-0 sm:space-x-4">
+          <div className="flex flex-col sm:flex-row flex-wrap w-full md:w-auto gap-4">
             {/* Search Documents */}
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-neutral-400" size={18} />
               <Input
-                placeholder="Search documents..."
-                className="pl-10 w-full sm:w-[250px]"
+                placeholder="Search file names..."
+                className="pl-10 w-full sm:w-[220px]"
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => updateFilter(setSearchQuery)(e.target.value)}
               />
             </div>
-            
+
             {/* Filter by File Type */}
-            <Select value={fileTypeFilter} onValueChange={setFileTypeFilter}>
-              <SelectTrigger className="w-full sm:w-[180px]">
+            <Select value={fileTypeFilter} onValueChange={updateFilter(setFileTypeFilter)}>
+              <SelectTrigger className="w-full sm:w-[150px]">
                 <SelectValue placeholder="File Type" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Types</SelectItem>
-                <SelectItem value="pdf">PDF</SelectItem>
-                <SelectItem value="doc">DOC</SelectItem>
-                <SelectItem value="docx">DOCX</SelectItem>
-                <SelectItem value="xls">XLS</SelectItem>
-                <SelectItem value="xlsx">XLSX</SelectItem>
+                {Object.entries(FILE_TYPE_FILTERS).map(([value, filter]) => (
+                  <SelectItem key={value} value={value}>{filter.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
+
+            {/* Filter by Application */}
+            <ApplicationPicker
+              value={applicationFilter}
+              onChange={updateFilter(setApplicationFilter)}
+              clearLabel="All Applications"
+              className="w-full sm:w-[200px]"
+            />
+
+            {/* Filter by Uploader */}
+            <Select value={uploaderFilter} onValueChange={updateFilter(setUploaderFilter)}>
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <SelectValue placeholder="Uploaded by" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Uploader</SelectItem>
+                {users?.map((user) => (
+                  <SelectItem key={user.id} value={String(user.id)}>{user.fullName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {/* Filter by Upload Date */}
+            <div className="flex items-center space-x-2">
+              <Input
+                type="date"
+                className="w-[150px]"
+                title="Uploaded from"
+                value={uploadedFrom}
+                onChange={(e) => updateFilter(setUploadedFrom)(e.target.value)}
+              />
+              <span className="text-neutral-400">–</span>
+              <Input
+                type="date"
+                className="w-[150px]"
+                title="Uploaded to"
+                value={uploadedTo}
+                onChange={(e) => updateFilter(setUploadedTo)(e.target.value)}
+              />
+            </div>
+
+            {canManage && (
+              <label className="flex items-center space-x-2 text-sm text-neutral-700">
+                <Switch checked={showDeleted} onCheckedChange={updateFilter(setShowDeleted)} />
+                <span>Deleted</span>
+              </label>
+            )}
           </div>
-          
+
           <Button onClick={() => setShowUploadDialog(true)}>
             <FilePlus className="mr-2 h-4 w-4" />
             Upload Document
           </Button>
         </div>
-        
+
         {/* Documents Table */}
         <Card>
           <CardHeader className="px-6 py-5 border-b border-neutral-200">
-            <CardTitle className="text-lg font-semibold text-neutral-900">Documents</CardTitle>
+            <CardTitle className="text-lg font-semibold text-neutral-900">
+              {showDeleted ? "Deleted Documents" : "Documents"}
+            </CardTitle>
           </CardHeader>
           <CardContent className="p-0">
             <div className="overflow-x-auto">
@@ -236,7 +311,9 @@ export default function DocumentsPage() {
                     <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Application</th>
                     <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Type</th>
                     <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Uploaded By</th>
-                    <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Date</th>
+                    <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                      {showDeleted ? "Deleted" : "Date"}
+                    </th>
                     <th className="px-6 py-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Actions</th>
                   </tr>
                 </thead>
@@ -250,28 +327,31 @@ export default function DocumentsPage() {
                         <p className="mt-2">Loading documents...</p>
                       </td>
                     </tr>
-                  ) : !filteredDocuments || filteredDocuments.length === 0 ? (
+                  ) : !documents || documents.length === 0 ? (
                     <tr>
                       <td colSpan={6} className="px-6 py-10 text-center text-sm text-neutral-500">
                         <div className="flex flex-col items-center">
                           <FileText className="h-16 w-16 text-neutral-300 mb-4" />
                           <p>No documents found</p>
-                          <Button
-                            variant="outline"
-                            className="mt-4"
-                            onClick={() => setShowUploadDialog(true)}
-                          >
-                            <FilePlus className="mr-2 h-4 w-4" />
-                            Upload New Document
-                          </Button>
+                          {!showDeleted && (
+                            <Button
+                              variant="outline"
+                              className="mt-4"
+                              onClick={() => setShowUploadDialog(true)}
+                            >
+                              <FilePlus className="mr-2 h-4 w-4" />
+                              Upload New Document
+                            </Button>
+                          )}
                         </div>
                       </td>
                     </tr>
                   ) : (
-                    filteredDocuments.map((doc) => {
+                    documents.map((doc) => {
                       const application = getApplicationById(doc.applicationId);
                       const uploader = getUserById(doc.uploadedBy);
-                      
+                      const date = showDeleted ? doc.deletedAt : doc.uploadedAt;
+
                       return (
                         <tr key={doc.id} className="hover:bg-neutral-50">
                           <td className="px-6 py-4 text-sm">
@@ -290,16 +370,21 @@ export default function DocumentsPage() {
                               'Unknown Application'
                             )}
                           </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500 uppercase">
-                            {doc.fileType}
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500">
+                            {getFileTypeLabel(doc.fileType)}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-900">
                             {uploader?.fullName || 'Unknown User'}
+                            {showDeleted && (
+                              <div className="text-xs text-neutral-500">
+                                Deleted by {getUserById(doc.deletedBy)?.fullName || 'Unknown User'}
+                              </div>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500">
-                            {doc.uploadedAt ? (
-                              <div title={new Date(doc.uploadedAt).toLocaleString()}>
-                                {formatDistanceToNow(new Date(doc.uploadedAt), { addSuffix: true })}
+                            {date ? (
+                              <div title={new Date(date).toLocaleString()}>
+                                {formatDistanceToNow(new Date(date), { addSuffix: true })}
                               </div>
                             ) : (
                               'Unknown date'
@@ -307,15 +392,38 @@ export default function DocumentsPage() {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm">
                             <div className="flex space-x-2">
-                              <Button variant="ghost" size="sm" title="View document">
-                                <Eye className="h-4 w-4" />
-                              </Button>
-                              <Button variant="ghost" size="sm" title="Download document">
-                                <Download className="h-4 w-4" />
-                              </Button>
-                              <Button variant="ghost" size="sm" title="Delete document">
-                                <Trash2 className="h-4 w-4 text-red-500" />
+                              {PREVIEWABLE_TYPES.includes(doc.fileType) && (
+                                <Button variant="ghost" size="sm" title="View document" asChild>
+                                  <a href={`/api/documents/${doc.id}/preview`} target="_blank" rel="noreferrer">
+                                    <Eye className="h-4 w-4" />
+                                  </a>
+                                </Button>
+                              )}
+                              <Button variant="ghost" size="sm" title="Download document" asChild>
+                                <a href={`/api/documents/${doc.id}/download`}>
+                                  <Download className="h-4 w-4" />
+                                </a>
                               </Button>
+                              {showDeleted ? (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Restore document"
+                                  disabled={restoreMutation.isPending}
+                                  onClick={() => restoreMutation.mutate(doc)}
+                                >
+                                  <RotateCcw className="h-4 w-4" />
+                                </Button>
+                              ) : canDelete(doc) && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Delete document"
+                                  onClick={() => setDocumentToDelete(doc)}
+                                >
+                                  <Trash2 className="h-4 w-4 text-red-500" />
+                                </Button>
+                              )}
                             </div>
                           </td>
                         </tr>
@@ -325,9 +433,70 @@ export default function DocumentsPage() {
                 </tbody>
               </table>
             </div>
+            <div className="flex items-center justify-between px-6 py-4 border-t border-neutral-200">
+              <p className="text-sm text-neutral-500">
+                {total === 0
+                  ? "No documents"
+                  : `Showing ${page * PAGE_SIZE + 1}-${Math.min((page + 1) * PAGE_SIZE, total)} of ${total}`}
+              </p>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page === 0}
+                  onClick={() => setPage((current) => current - 1)}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page + 1 >= pageCount}
+                  onClick={() => setPage((current) => current + 1)}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            </div>
           </CardContent>
         </Card>
-        
+
+        {/* Delete Document Dialog */}
+        <Dialog open={!!documentToDelete} onOpenChange={(open) => !open && setDocumentToDelete(null)}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Delete {documentToDelete?.fileName}?</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-2 py-2">
+              <p className="text-sm text-neutral-600">
+                {reasonRequired
+                  ? "This application has been submitted. Explain why the document is being removed."
+                  : "The document will be removed from the application."}
+              </p>
+              <Textarea
+                placeholder={reasonRequired ? "Reason (required)" : "Reason (optional)"}
+                value={deleteReason}
+                onChange={(e) => setDeleteReason(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDocumentToDelete(null)} disabled={deleteMutation.isPending}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={(reasonRequired && !deleteReason.trim()) || deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate({ document: documentToDelete!, reason: deleteReason.trim() })}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                {deleteMutation.isPending ? "Deleting..." : "Delete"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Upload Document Dialog */}
         <Dialog open={showUploadDialog} onOpenChange={setShowUploadDialog}>
           <DialogContent className="sm:max-w-md">
@@ -338,28 +507,14 @@ export default function DocumentsPage() {
               {/* Select Application */}
               <div className="space-y-2">
                 <label className="text-sm font-medium">Select Application</label>
-                <Select
+                <ApplicationPicker
                   value={selectedApplication}
-                  onValueChange={setSelectedApplication}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select an application" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {!applications || applications.length === 0 ? (
-                      <SelectItem value="" disabled>No applications available</SelectItem>
-                    ) : (
-                      applications.map(app => app && (
-                        <SelectItem key={app.id} value={String(app.id)}>
-                          {(app.summary || `Application ${app.autoCode || app.id}`)}
-                          {app.autoCode && ` (${app.autoCode})`}
-                        </SelectItem>
-                      ))
-                    )}
-                  </SelectContent>
-                </Select>
+                  onChange={setSelectedApplication}
+                  placeholder="Select an application"
+                  className="w-full"
+                />
               </div>
-              
+
               {/* File Upload */}
               <div className="space-y-2">
                 <label className="text-sm font-medium">Upload File</label>
@@ -381,7 +536,7 @@ export default function DocumentsPage() {
                             Click to upload or drag and drop
                           </p>
                           <p className="text-xs text-neutral-400">
-                            PDF, DOC, DOCX, XLS, XLSX (Max 10MB)
+                            PDF, DOC, DOCX, XLS, XLSX, images or text (Max 10MB)
                           </p>
                         </>
                       )}
@@ -390,7 +545,7 @@ export default function DocumentsPage() {
                       id="dropzone-file"
                       type="file"
                       className="hidden"
-                      accept=".pdf,.doc,.docx,.xls,.xlsx"
+                      accept=".pdf,.doc,.docx,.xls,.xlsx,.png,.jpg,.jpeg,.txt,.csv"
                       onChange={(e) => {
                         if (e.target.files && e.target.files[0]) {
                           setSelectedFile(e.target.files[0]);
@@ -400,33 +555,20 @@ export default function DocumentsPage() {
                   </label>
                 </div>
               </div>
-              
-              {/* Document Name */}
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Document Name (Optional)</label>
-                <Input
-                  placeholder="Enter a name for this document"
-                  value={fileName}
-                  onChange={(e) => setFileName(e.target.value)}
-                />
-                <p className="text-xs text-neutral-500">
-                  If left blank, the original file name will be used
-                </p>
-              </div>
             </div>
             <DialogFooter>
               <Button
                 variant="outline"
                 onClick={() => setShowUploadDialog(false)}
-                disabled={uploading}
+                disabled={uploadMutation.isPending}
               >
                 Cancel
               </Button>
               <Button
                 onClick={handleFileUpload}
-                disabled={!selectedFile || !selectedApplication || uploading}
+                disabled={!selectedFile || !selectedApplication || uploadMutation.isPending}
               >
-                {uploading ? (
+                {uploadMutation.isPending ? (
                   <>
                     <div className="loader mr-2" />
                     Uploading...
@@ -1,7 +1,8 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useApplicationsById } from "@/hooks/use-applications";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import MainLayout from "@/components/layout/main-layout";
 import { 
@@ -10,7 +11,9 @@ import {
   Check, 
   Lightbulb, 
   Plus, 
-  Minus 
+  Minus,
+  ChevronLeft,
+  ChevronRight,
 } from "lucide-react";
 import { 
   Card, 
@@ -54,7 +57,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { insertEvaluationSchema } from "@shared/schema";
-import { Evaluation, Application, Program, User } from "@shared/schema";
+import { Evaluation, EvaluationPage, Application, ApplicationPage, Program, User } from "@shared/schema";
 
 // Define the evaluation form schema
 const evaluationFormSchema = z.object({
@@ -68,6 +71,40 @@ const evaluationFormSchema = z.object({
 
 type EvaluationFormValues = z.infer<typeof evaluationFormSchema>;
 
+const PAGE_SIZE = 12;
+
+// Moves between pages of a paged list and says which rows are shown
+function Pager({ page, total, onPageChange }: { page: number; total: number; onPageChange: (page: number) => void }) {
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  return (
+    <div className="flex items-center justify-between">
+      <p className="text-sm text-muted-foreground">
+        Showing {page * PAGE_SIZE + 1}-{Math.min((page + 1) * PAGE_SIZE, total)} of {total}
+      </p>
+      <div className="flex space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={page === 0}
+          onClick={() => onPageChange(page - 1)}
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Previous
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={page + 1 >= pageCount}
+          onClick={() => onPageChange(page + 1)}
+        >
+          Next
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 // Type for applications with additional details
 interface ApplicationWithDetails extends Application {
   program?: Program;
@@ -85,18 +122,22 @@ export default function EvaluationsPage() {
   const { user } = useAuth();
   const [selectedApplication, setSelectedApplication] = useState<ApplicationWithDetails | null>(null);
   const [openEvaluationDialog, setOpenEvaluationDialog] = useState(false);
+  const [page, setPage] = useState(0);
+  const [myPage, setMyPage] = useState(0);
+  const [teamPage, setTeamPage] = useState(0);
 
-  // Query to fetch applications
-  const { data: applications, isLoading: applicationsLoading } = useQuery<ApplicationWithDetails[]>({
-    queryKey: ["/api/applications"],
-    select: (data) => {
-      // Filter applications based on status
-      return data.filter(application => 
-        application.status === "submitted" || 
-        application.status === "u obradi"
-      );
-    },
+  // Query to fetch the current page of applications awaiting evaluation
+  const { data: applicationPage, isLoading: applicationsLoading } = useQuery<ApplicationPage>({
+    queryKey: ["/api/applications", {
+      status: ["submitted", "u obradi"],
+      sort: "submittedAt",
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE,
+    }],
+    placeholderData: keepPreviousData,
   });
+  const applications: ApplicationWithDetails[] | undefined = applicationPage?.items;
+  const total = applicationPage?.total ?? 0;
 
   // Query to fetch programs
   const { data: programs } = useQuery<Program[]>({
@@ -108,27 +149,23 @@ export default function EvaluationsPage() {
     queryKey: ["/api/users"],
   });
 
-  // Query to fetch evaluations
-  const { data: allEvaluations, isLoading: evaluationsLoading } = useQuery<Evaluation[]>({
-    queryKey: ["/api/evaluations"],
-    queryFn: async () => {
-      // Fetch all evaluations for each application
-      if (!applications) return [];
-      
-      let evaluations: Evaluation[] = [];
-      for (const app of applications) {
-        try {
-          const response = await apiRequest("GET", `/api/applications/${app.id}/evaluations`);
-          const appEvaluations = await response.json();
-          evaluations = [...evaluations, ...appEvaluations];
-        } catch (error) {
-          console.error(`Error fetching evaluations for application ${app.id}:`, error);
-        }
-      }
-      return evaluations;
-    },
-    enabled: !!applications,
+  // Pages of the user's own and the rest of the team's evaluations; the
+  // server limits both to the applications the user can see
+  const { data: myEvaluationPage, isLoading: myEvaluationsLoading } = useQuery<EvaluationPage>({
+    queryKey: ["/api/evaluations", { evaluatedBy: user?.id, limit: PAGE_SIZE, offset: myPage * PAGE_SIZE }],
+    enabled: !!user,
+    placeholderData: keepPreviousData,
   });
+  const { data: teamEvaluationPage, isLoading: teamEvaluationsLoading } = useQuery<EvaluationPage>({
+    queryKey: ["/api/evaluations", { excludeEvaluatedBy: user?.id, limit: PAGE_SIZE, offset: teamPage * PAGE_SIZE }],
+    enabled: !!user,
+    placeholderData: keepPreviousData,
+  });
+
+  // The applications the evaluations are about, whatever their status
+  const { getApplication } = useApplicationsById(
+    [...(myEvaluationPage?.items ?? []), ...(teamEvaluationPage?.items ?? [])].map((evaluation) => evaluation.applicationId),
+  );
 
   // Form for creating evaluations
   const form = useForm<EvaluationFormValues>({
@@ -287,25 +324,14 @@ export default function EvaluationsPage() {
   });
 
   // Enhance evaluations with application and evaluator data
-  const enhancedEvaluations = allEvaluations?.map(evaluation => {
-    const application = applications?.find(a => a.id === evaluation.applicationId);
-    const evaluator = users?.find(u => u.id === evaluation.evaluatedBy);
-    
-    return {
-      ...evaluation,
-      application,
-      evaluator,
-    };
+  const enhanceEvaluation = (evaluation: Evaluation): EvaluationWithDetails => ({
+    ...evaluation,
+    application: getApplication(evaluation.applicationId),
+    evaluator: users?.find(u => u.id === evaluation.evaluatedBy),
   });
 
-  // Group evaluations by the evaluator (current user vs. others)
-  const myEvaluations = enhancedEvaluations?.filter(
-    evaluation => evaluation.evaluatedBy === user?.id
-  );
-  
-  const otherEvaluations = enhancedEvaluations?.filter(
-    evaluation => evaluation.evaluatedBy !== user?.id
-  );
+  const myEvaluations = myEvaluationPage?.items.map(enhanceEvaluation);
+  const otherEvaluations = teamEvaluationPage?.items.map(enhanceEvaluation);
 
   // Helper function to get status badge color
   const getStatusColor = (status: string) => {
@@ -352,60 +378,63 @@ export default function EvaluationsPage() {
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
               </div>
             ) : enhancedApplications && enhancedApplications.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {enhancedApplications.map((application) => (
-                  <Card key={application.id} className="border border-border">
-                    <CardHeader className="pb-2">
-                      <div className="flex justify-between items-start">
-                        <div>
-                          <CardTitle className="text-lg">{application.autoCode}</CardTitle>
-                          <CardDescription>{application.summary}</CardDescription>
-                        </div>
-                        <Badge className={getStatusColor(application.status)}>
-                          {application.status}
-                        </Badge>
-                      </div>
-                    </CardHeader>
-                    <CardContent className="pb-2 space-y-2 text-sm">
-                      <div className="grid grid-cols-2 gap-2">
-                        <div>
-                          <span className="block text-muted-foreground">Applicant</span>
-                          <span>{application.applicant?.fullName || "Unknown"}</span>
-                        </div>
-                        <div>
-                          <span className="block text-muted-foreground">Program</span>
-                          <span>{application.program?.name || "Unknown"}</span>
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {enhancedApplications.map((application) => (
+                    <Card key={application.id} className="border border-border">
+                      <CardHeader className="pb-2">
+                        <div className="flex justify-between items-start">
+                          <div>
+                            <CardTitle className="text-lg">{application.autoCode}</CardTitle>
+                            <CardDescription>{application.summary}</CardDescription>
+                          </div>
+                          <Badge className={getStatusColor(application.status)}>
+                            {application.status}
+                          </Badge>
                         </div>
-                        <div>
-                          <span className="block text-muted-foreground">Requested</span>
-                          <span>{application.requestedAmount?.toLocaleString() || "N/A"} €</span>
-                        </div>
-                        <div>
-                          <span className="block text-muted-foreground">Submitted</span>
-                          <span>
-                            {application.submittedAt ? formatDate(application.submittedAt) : "Not submitted"}
-                          </span>
+                      </CardHeader>
+                      <CardContent className="pb-2 space-y-2 text-sm">
+                        <div className="grid grid-cols-2 gap-2">
+                          <div>
+                            <span className="block text-muted-foreground">Applicant</span>
+                            <span>{application.applicant?.fullName || "Unknown"}</span>
+                          </div>
+                          <div>
+                            <span className="block text-muted-foreground">Program</span>
+                            <span>{application.program?.name || "Unknown"}</span>
+                          </div>
+                          <div>
+                            <span className="block text-muted-foreground">Requested</span>
+                            <span>{application.requestedAmount?.toLocaleString() || "N/A"} €</span>
+                          </div>
+                          <div>
+                            <span className="block text-muted-foreground">Submitted</span>
+                            <span>
+                              {application.submittedAt ? formatDate(application.submittedAt) : "Not submitted"}
+                            </span>
+                          </div>
                         </div>
-                      </div>
                       
-                      {application.description && (
-                        <div>
-                          <span className="block text-muted-foreground">Description</span>
-                          <p className="line-clamp-2">{application.description}</p>
-                        </div>
-                      )}
-                    </CardContent>
-                    <CardFooter>
-                      <Button
-                        onClick={() => startEvaluation(application)}
-                        className="w-full"
-                      >
-                        Evaluate Application
-                      </Button>
-                    </CardFooter>
-                  </Card>
-                ))}
-              </div>
+                        {application.description && (
+                          <div>
+                            <span className="block text-muted-foreground">Description</span>
+                            <p className="line-clamp-2">{application.description}</p>
+                          </div>
+                        )}
+                      </CardContent>
+                      <CardFooter>
+                        <Button
+                          onClick={() => startEvaluation(application)}
+                          className="w-full"
+                        >
+                          Evaluate Application
+                        </Button>
+                      </CardFooter>
+                    </Card>
+                  ))}
+                </div>
+                <Pager page={page} total={total} onPageChange={setPage} />
+              </>
             ) : (
               <Card>
                 <CardContent className="p-8 text-center">
@@ -417,55 +446,58 @@ export default function EvaluationsPage() {
           
           {/* My Evaluations Tab */}
           <TabsContent value="my-evaluations" className="space-y-4 pt-4">
-            {evaluationsLoading ? (
+            {myEvaluationsLoading ? (
               <div className="flex justify-center p-8">
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
               </div>
             ) : myEvaluations && myEvaluations.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {myEvaluations.map((evaluation) => (
-                  <Card key={evaluation.id} className="border border-border">
-                    <CardHeader className="pb-2">
-                      <div className="flex justify-between items-start">
-                        <div>
-                          <CardTitle className="text-lg">
-                            {evaluation.application?.autoCode || "Unknown Application"}
-                          </CardTitle>
-                          <CardDescription>
-                            {evaluation.application?.summary || "No summary available"}
-                          </CardDescription>
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {myEvaluations.map((evaluation) => (
+                    <Card key={evaluation.id} className="border border-border">
+                      <CardHeader className="pb-2">
+                        <div className="flex justify-between items-start">
+                          <div>
+                            <CardTitle className="text-lg">
+                              {evaluation.application?.autoCode || "Unknown Application"}
+                            </CardTitle>
+                            <CardDescription>
+                              {evaluation.application?.summary || "No summary available"}
+                            </CardDescription>
+                          </div>
+                          <Badge className={
+                            evaluation.decision === "preporučeno" 
+                              ? "bg-green-100 text-green-800" 
+                              : evaluation.decision === "odbijeno"
+                                ? "bg-red-100 text-red-800"
+                                : "bg-yellow-100 text-yellow-800"
+                          }>
+                            {evaluation.decision}
+                          </Badge>
                         </div>
-                        <Badge className={
-                          evaluation.decision === "preporučeno" 
-                            ? "bg-green-100 text-green-800" 
-                            : evaluation.decision === "odbijeno"
-                              ? "bg-red-100 text-red-800"
-                              : "bg-yellow-100 text-yellow-800"
-                        }>
-                          {evaluation.decision}
-                        </Badge>
-                      </div>
-                    </CardHeader>
-                    <CardContent className="pb-2 space-y-2 text-sm">
-                      <div className="grid grid-cols-2 gap-2">
-                        <div>
-                          <span className="block text-muted-foreground">Score</span>
-                          <span>{evaluation.score || "N/A"}</span>
+                      </CardHeader>
+                      <CardContent className="pb-2 space-y-2 text-sm">
+                        <div className="grid grid-cols-2 gap-2">
+                          <div>
+                            <span className="block text-muted-foreground">Score</span>
+                            <span>{evaluation.score || "N/A"}</span>
+                          </div>
+                          <div>
+                            <span className="block text-muted-foreground">Date</span>
+                            <span>{formatDate(evaluation.createdAt)}</span>
+                          </div>
                         </div>
+                      
                         <div>
-                          <span className="block text-muted-foreground">Date</span>
-                          <span>{formatDate(evaluation.createdAt)}</span>
+                          <span className="block text-muted-foreground">Comment</span>
+                          <p>{evaluation.comment}</p>
                         </div>
-                      </div>
-                      
-                      <div>
-                        <span className="block text-muted-foreground">Comment</span>
-                        <p>{evaluation.comment}</p>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+                <Pager page={myPage} total={myEvaluationPage?.total ?? 0} onPageChange={setMyPage} />
+              </>
             ) : (
               <Card>
                 <CardContent className="p-8 text-center">
@@ -477,55 +509,58 @@ export default function EvaluationsPage() {
           
           {/* Team Evaluations Tab */}
           <TabsContent value="team-evaluations" className="space-y-4 pt-4">
-            {evaluationsLoading ? (
+            {teamEvaluationsLoading ? (
               <div className="flex justify-center p-8">
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
               </div>
             ) : otherEvaluations && otherEvaluations.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {otherEvaluations.map((evaluation) => (
-                  <Card key={evaluation.id} className="border border-border">
-                    <CardHeader className="pb-2">
-                      <div className="flex justify-between items-start">
-                        <div>
-                          <CardTitle className="text-lg">
-                            {evaluation.application?.autoCode || "Unknown Application"}
-                          </CardTitle>
-                          <CardDescription>
-                            Evaluated by {evaluation.evaluator?.fullName || "Unknown"}
-                          </CardDescription>
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {otherEvaluations.map((evaluation) => (
+                    <Card key={evaluation.id} className="border border-border">
+                      <CardHeader className="pb-2">
+                        <div className="flex justify-between items-start">
+                          <div>
+                            <CardTitle className="text-lg">
+                              {evaluation.application?.autoCode || "Unknown Application"}
+                            </CardTitle>
+                            <CardDescription>
+                              Evaluated by {evaluation.evaluator?.fullName || "Unknown"}
+                            </CardDescription>
+                          </div>
+                          <Badge className={
+                            evaluation.decision === "preporučeno" 
+                              ? "bg-green-100 text-green-800" 
+                              : evaluation.decision === "odbijeno"
+                                ? "bg-red-100 text-red-800"
+                                : "bg-yellow-100 text-yellow-800"
+                          }>
+                            {evaluation.decision}
+                          </Badge>
                         </div>
-                        <Badge className={
-                          evaluation.decision === "preporučeno" 
-                            ? "bg-green-100 text-green-800" 
-                            : evaluation.decision === "odbijeno"
-                              ? "bg-red-100 text-red-800"
-                              : "bg-yellow-100 text-yellow-800"
-                        }>
-                          {evaluation.decision}
-                        </Badge>
-                      </div>
-                    </CardHeader>
-                    <CardContent className="pb-2 space-y-2 text-sm">
-                      <div className="grid grid-cols-2 gap-2">
-                        <div>
-                          <span className="block text-muted-foreground">Score</span>
-                          <span>{evaluation.score || "N/A"}</span>
+                      </CardHeader>
+                      <CardContent className="pb-2 space-y-2 text-sm">
+                        <div className="grid grid-cols-2 gap-2">
+                          <div>
+                            <span className="block text-muted-foreground">Score</span>
+                            <span>{evaluation.score || "N/A"}</span>
+                          </div>
+                          <div>
+                            <span className="block text-muted-foreground">Date</span>
+                            <span>{formatDate(evaluation.createdAt)}</span>
+                          </div>
                         </div>
+                      
                         <div>
-                          <span className="block text-muted-foreground">Date</span>
-                          <span>{formatDate(evaluation.createdAt)}</span>
+                          <span className="block text-muted-foreground">Comment</span>
+                          <p>{evaluation.comment}</p>
                         </div>
-                      </div>
-                      
-                      <div>
-                        <span className="block text-muted-foreground">Comment</span>
-                        <p>{evaluation.comment}</p>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+                <Pager page={teamPage} total={teamEvaluationPage?.total ?? 0} onPageChange={setTeamPage} />
+              </>
             ) : (
               <Card>
                 <CardContent className="p-8 text-center">
@@ -14,7 +14,7 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/use-auth";
-import { Message, User, Application } from "@shared/schema";
+import { Message, User, Application, ApplicationPage } from "@shared/schema";
 import { Send, Search } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -42,8 +42,9 @@ export default function MessagesPage() {
   });
 
   // Fetch applications
-  const { data: applications, isLoading: applicationsLoading } = useQuery<Application[]>({
-    queryKey: ["/api/applications"],
+  const { data: applications, isLoading: applicationsLoading } = useQuery<ApplicationPage, Error, Application[]>({
+    queryKey: ["/api/applications", { limit: 100 }],
+    select: (page) => page.items,
   });
 
   // Fetch messages by application
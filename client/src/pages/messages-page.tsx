@@ -14,7 +14,9 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/use-auth";
-import { Message, User, Application } from "@shared/schema";
+import { useApplicationsById } from "@/hooks/use-applications";
+import ApplicationPicker from "@/components/applications/application-picker";
+import { Message, User } from "@shared/schema";
 import { Send, Search } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -27,7 +29,7 @@ export default function MessagesPage() {
   const { toast } = useToast();
   const [activeConversation, setActiveConversation] = useState<number | null>(null);
   const [newMessage, setNewMessage] = useState("");
-  const [selectedApplication, setSelectedApplication] = useState<string>("");
+  const [selectedApplication, setSelectedApplication] = useState<number | null>(null);
   const [selectedReceiver, setSelectedReceiver] = useState<string>("");
   const [searchQuery, setSearchQuery] = useState("");
 
@@ -41,10 +43,13 @@ export default function MessagesPage() {
     queryKey: ["/api/users"],
   });
 
-  // Fetch applications
-  const { data: applications, isLoading: applicationsLoading } = useQuery<Application[]>({
-    queryKey: ["/api/applications"],
-  });
+  // Only the applications the messages and the open conversation are about
+  const { getApplication, isLoading: applicationsLoading } = useApplicationsById([
+    ...(messagesData?.received ?? []).map((msg) => msg.applicationId),
+    ...(messagesData?.sent ?? []).map((msg) => msg.applicationId),
+    activeConversation,
+    selectedApplication,
+  ]);
 
   // Fetch messages by application
   const { data: conversationMessages, isLoading: conversationLoading } = useQuery<Message[]>({
@@ -95,8 +100,7 @@ export default function MessagesPage() {
 
   // Get application by ID
   const getApplicationById = (appId: number | null) => {
-    if (!appId || !applications) return null;
-    const app = applications.find(a => a.id === appId);
+    const app = getApplication(appId);
     
     // If we found the application but it's missing summary, add one
     if (app) {
@@ -197,8 +201,7 @@ export default function MessagesPage() {
   const startNewConversation = () => {
     if (!selectedApplication) return;
 
-    const applicationId = parseInt(selectedApplication);
-    if (isNaN(applicationId)) return;
+    const applicationId = selectedApplication;
 
     setActiveConversation(applicationId);
 
@@ -219,17 +222,6 @@ export default function MessagesPage() {
     }
   };
 
-  // Get potential applications for conversation
-  const getAvailableApplications = () => {
-    if (!applications) return [];
-
-    if (user?.role === 'applicant') {
-      return applications.filter(app => app.applicantId === user.id);
-    } else {
-      return applications;
-    }
-  };
-
   // Get potential receivers for messages
   const getPotentialReceivers = () => {
     if (!users || !activeConversation) return [];
@@ -256,21 +248,14 @@ export default function MessagesPage() {
             <CardHeader className="px-6 py-4 border-b border-neutral-200 flex-shrink-0">
               <div className="flex justify-between items-center">
                 <CardTitle className="text-lg font-semibold text-neutral-900">Messages</CardTitle>
-                <Select
+                <ApplicationPicker
                   value={selectedApplication}
-                  onValueChange={setSelectedApplication}
-                >
-                  <SelectTrigger className="w-[180px]">
-                    <SelectValue placeholder="New message" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {getAvailableApplications().filter(app => app && app.id).map(app => (
-                      <SelectItem key={app.id} value={app.id.toString()}>
-                        {app.summary || `Application ${app.id}`}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                  onChange={setSelectedApplication}
+                  placeholder="New message"
+                  // Applicants write about their own applications
+                  filters={user?.role === 'applicant' ? { applicantId: user.id } : undefined}
+                  className="w-[180px]"
+                />
               </div>
               <div className="relative mt-2">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-neutral-400" size={16} />
@@ -4,8 +4,10 @@ import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient, uploadFile } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { ApplicantType, RegistrationOverview, VerificationDocument } from "@shared/schema";
+import { DOCUMENT_TYPE_LABELS } from "@shared/constants";
 
 import { Card, CardHeader, CardContent, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -16,14 +18,21 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, Upload, Check, X } from "lucide-react";
 
-// Document upload type for state management
+// Upload state of one required document
 type DocumentUpload = {
   id: string;
-  file: File | null;
-  status: "pending" | "uploaded" | "verified" | "rejected";
+  document?: VerificationDocument;
+  status: "pending" | "uploading" | "uploaded" | "verified" | "rejected";
   message?: string;
 };
 
+function documentStatus(document?: VerificationDocument): DocumentUpload["status"] {
+  if (!document) return "pending";
+  if (document.verificationStatus === "approved") return "verified";
+  if (document.verificationStatus === "pending") return "uploaded";
+  return "rejected";
+}
+
 // Define the onboarding schema
 const FormSchema = z.object({
   fullName: z.string().min(3, "Full name must be at least 3 characters"),
@@ -33,17 +42,11 @@ const FormSchema = z.object({
   phoneNumber: z.string().min(9, "Phone number must be at least 9 characters"),
   bio: z.string().min(10, "Bio must be at least 10 characters").max(500, "Bio must be at most 500 characters"),
   
+  postalCode: z.string().optional(),
+  
   // Optional fields based on applicant type
-  companyName: z.string().optional(),
-  companyRegistrationNumber: z.string().optional(),
-  companyAddress: z.string().optional(),
-  website: z.string().url("Please enter a valid URL").optional(),
-  representativePosition: z.string().optional(),
+  website: z.string().url("Please enter a valid URL").or(z.literal("")).optional(),
   organizationName: z.string().optional(),
-  organizationType: z.string().optional(),
-  organizationRegistrationNumber: z.string().optional(),
-  organizationDescription: z.string().optional(),
-  organizationEstablished: z.string().optional(),
   organizationPosition: z.string().optional(),
 });
 
@@ -52,34 +55,46 @@ export default function OnboardingPage() {
   const [_, setLocation] = useLocation();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("profile");
-  const [documents, setDocuments] = useState<DocumentUpload[]>([]);
-  const [applicantType, setApplicantType] = useState<any>(null);
-  const [isComplete, setIsComplete] = useState(false);
+  const [applicantType, setApplicantType] = useState<ApplicantType | null>(null);
+  const [uploading, setUploading] = useState<string | null>(null);
   
   // Query to get applicant type details
-  const { data: applicantTypeData, isLoading: isApplicantTypeLoading } = useQuery({
+  const { data: applicantTypeData, isLoading: isApplicantTypeLoading } = useQuery<ApplicantType[], Error, ApplicantType | undefined>({
     queryKey: ["/api/applicant-types"],
-    select: (data) => data.find((type: any) => type.id === Number(applicantTypeId)),
+    select: (data) => data.find((type) => type.id === Number(applicantTypeId)),
     enabled: !!applicantTypeId,
   });
   
+  // The user's registration process; it is started when the profile is first saved
+  const { data: registration, isLoading: isRegistrationLoading } = useQuery<RegistrationOverview | null>({
+    queryKey: ["/api/registration"],
+    queryFn: async () => {
+      const res = await fetch("/api/registration", { credentials: "include" });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      return await res.json();
+    },
+  });
+  
   // Update applicant type state when data is loaded
   useEffect(() => {
     if (applicantTypeData) {
       setApplicantType(applicantTypeData);
-      
-      // Initialize document uploads based on required documents
-      if (applicantTypeData.requiredDocuments) {
-        const initialDocuments = applicantTypeData.requiredDocuments.map((doc: string) => ({
-          id: doc,
-          file: null,
-          status: "pending"
-        }));
-        setDocuments(initialDocuments);
-      }
     }
   }, [applicantTypeData]);
   
+  const documents: DocumentUpload[] = (registration?.requiredDocuments ?? []).map((type) => {
+    const document = registration?.documents.find((doc) => doc.documentType === type);
+    return {
+      id: type,
+      document,
+      status: uploading === type ? "uploading" : documentStatus(document),
+      message: document?.rejectionReason ?? undefined,
+    };
+  });
+  const isComplete = !!registration && registration.pendingDocuments.length === 0;
+  const isSubmitted = registration?.process.status === "pending_verification" || registration?.process.status === "verified";
+  
   // Form setup for profile info
   type FormValues = z.infer<typeof FormSchema>;
   
@@ -92,16 +107,9 @@ export default function OnboardingPage() {
       country: "",
       phoneNumber: "",
       bio: "",
-      companyName: "",
-      companyRegistrationNumber: "",
-      companyAddress: "",
+      postalCode: "",
       website: "",
-      representativePosition: "",
       organizationName: "",
-      organizationType: "",
-      organizationRegistrationNumber: "",
-      organizationDescription: "",
-      organizationEstablished: "",
       organizationPosition: "",
     },
   });
@@ -109,15 +117,19 @@ export default function OnboardingPage() {
   // Mutation for saving profile
   const profileMutation = useMutation({
     mutationFn: async (values: FormValues) => {
+      // Optional fields left blank are cleared
       const payload = {
-        ...values,
+        ...Object.fromEntries(Object.entries(values).map(([key, value]) => [key, value?.trim() || null])),
         applicantTypeId: Number(applicantTypeId),
       };
       
       const response = await apiRequest("POST", "/api/onboarding/profile", payload);
       return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { registration: RegistrationOverview }) => {
+      queryClient.setQueryData(["/api/registration"], data.registration);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      
       toast({
         title: "Profile saved successfully!",
         description: "You can now upload your documents",
@@ -138,42 +150,19 @@ export default function OnboardingPage() {
   // Mutation for document upload
   const uploadMutation = useMutation({
     mutationFn: async ({ docId, file }: { docId: string, file: File }) => {
-      // In a real app, we would upload the file to a server
-      // For this mockup, we'll just simulate a successful upload
-      
-      // Create form data for file upload
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('documentId', docId);
-      formData.append('applicantTypeId', applicantTypeId || '');
-      
-      console.log(`Uploading document ${docId}`);
-      
-      // Simulate API call with delay
-      return new Promise((resolve) => {
-        setTimeout(() => {
-          resolve({ success: true, message: "Document uploaded successfully" });
-        }, 1500);
-      });
+      setUploading(docId);
+      const response = await uploadFile("/api/registration/documents", file, { documentType: docId });
+      return await response.json();
     },
-    onSuccess: (_, variables) => {
-      const { docId } = variables;
-      
-      // Update document status
-      setDocuments(prev => prev.map(doc => 
-        doc.id === docId ? { ...doc, status: "verified" } : doc
-      ));
-      
+    onSettled: () => {
+      setUploading(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/registration"] });
+    },
+    onSuccess: () => {
       toast({
         title: "Document uploaded",
-        description: "Your document has been uploaded and verified",
+        description: "Your document will be reviewed once you complete the registration",
       });
-      
-      // Check if all documents are uploaded
-      const allUploaded = documents.every(doc => doc.status === "verified");
-      if (allUploaded) {
-        setIsComplete(true);
-      }
     },
     onError: (error: Error) => {
       toast({
@@ -187,15 +176,15 @@ export default function OnboardingPage() {
   // Mutation for completing onboarding
   const completeMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/onboarding/complete", { 
-        applicantTypeId: Number(applicantTypeId)
-      });
+      const response = await apiRequest("POST", "/api/onboarding/complete");
       return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: RegistrationOverview) => {
+      queryClient.setQueryData(["/api/registration"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
       toast({
         title: "Onboarding completed!",
-        description: "Your account is now fully set up. You can start using the platform.",
+        description: "Your registration has been submitted for verification.",
       });
       
       // Redirect to dashboard
@@ -217,14 +206,10 @@ export default function OnboardingPage() {
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>, docId: string) => {
     const file = event.target.files?.[0];
     if (file) {
-      // Update document status and file
-      setDocuments(prev => prev.map(doc => 
-        doc.id === docId ? { ...doc, file, status: "uploaded" } : doc
-      ));
-      
-      // Upload the file
       uploadMutation.mutate({ docId, file });
     }
+    // Lets the same file be chosen again after a failed upload
+    event.target.value = "";
   };
   
   const handleCompleteOnboarding = () => {
@@ -232,7 +217,7 @@ export default function OnboardingPage() {
   };
 
   // Loading state
-  if (isApplicantTypeLoading) {
+  if (isApplicantTypeLoading || isRegistrationLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -275,7 +260,7 @@ export default function OnboardingPage() {
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
             <TabsList className="w-full">
               <TabsTrigger value="profile" className="flex-1">Profile Information</TabsTrigger>
-              <TabsTrigger value="documents" className="flex-1" disabled={!form.formState.isSubmitSuccessful}>
+              <TabsTrigger value="documents" className="flex-1" disabled={!registration}>
                 Document Upload
               </TabsTrigger>
             </TabsList>
@@ -354,11 +339,25 @@ export default function OnboardingPage() {
                       )}
                     />
                     
+                    <FormField
+                      control={form.control}
+                      name="postalCode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Postal Code</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Enter your postal code" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
                     {applicantType?.name === "CORPORATION" && (
                       <>
                         <FormField
                           control={form.control}
-                          name="companyName"
+                          name="organizationName"
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel>Company Name</FormLabel>
@@ -372,26 +371,12 @@ export default function OnboardingPage() {
                         
                         <FormField
                           control={form.control}
-                          name="companyRegistrationNumber"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Company Registration Number</FormLabel>
-                              <FormControl>
-                                <Input placeholder="Enter registration number" {...field} />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-                        
-                        <FormField
-                          control={form.control}
-                          name="companyAddress"
+                          name="organizationPosition"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>Company Address</FormLabel>
+                              <FormLabel>Your Position in the Company</FormLabel>
                               <FormControl>
-                                <Input placeholder="Enter company address" {...field} />
+                                <Input placeholder="e.g. CEO, CFO, Director" {...field} />
                               </FormControl>
                               <FormMessage />
                             </FormItem>
@@ -411,20 +396,6 @@ export default function OnboardingPage() {
                             </FormItem>
                           )}
                         />
-                        
-                        <FormField
-                          control={form.control}
-                          name="representativePosition"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Your Position in the Company</FormLabel>
-                              <FormControl>
-                                <Input placeholder="e.g. CEO, CFO, Director" {...field} />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
                       </>
                     )}
                     
@@ -444,48 +415,6 @@ export default function OnboardingPage() {
                           )}
                         />
                         
-                        <FormField
-                          control={form.control}
-                          name="organizationType"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Organization Type</FormLabel>
-                              <FormControl>
-                                <Input placeholder="e.g. NGO, Foundation, Association" {...field} />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-                        
-                        <FormField
-                          control={form.control}
-                          name="organizationRegistrationNumber"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Organization Registration Number</FormLabel>
-                              <FormControl>
-                                <Input placeholder="Enter registration number" {...field} />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-                        
-                        <FormField
-                          control={form.control}
-                          name="organizationEstablished"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Year Established</FormLabel>
-                              <FormControl>
-                                <Input placeholder="e.g. 2010" {...field} />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-                        
                         <FormField
                           control={form.control}
                           name="organizationPosition"
@@ -567,7 +496,9 @@ export default function OnboardingPage() {
                 <div className="space-y-6">
                   <Alert>
                     <AlertDescription>
-                      <span className="font-medium">For this demo:</span> All document uploads will be automatically verified.
+                      {isSubmitted
+                        ? "Your registration has been submitted and is being verified."
+                        : "Documents are verified after you complete the registration. You can replace a document until then."}
                     </AlertDescription>
                   </Alert>
                   
@@ -576,12 +507,13 @@ export default function OnboardingPage() {
                       <Card key={doc.id} className="overflow-hidden">
                         <div className="flex items-center p-4 border-b">
                           <div className="flex-1">
-                            <h3 className="font-medium">{doc.id}</h3>
+                            <h3 className="font-medium">{DOCUMENT_TYPE_LABELS[doc.id] ?? doc.id}</h3>
                             <p className="text-sm text-muted-foreground">
                               {doc.status === "pending" && "Please upload this document"}
-                              {doc.status === "uploaded" && "Processing your document..."}
+                              {doc.status === "uploading" && "Uploading your document..."}
+                              {doc.status === "uploaded" && "Uploaded, awaiting verification"}
                               {doc.status === "verified" && "Document verified successfully"}
-                              {doc.status === "rejected" && doc.message}
+                              {doc.status === "rejected" && (doc.message || "Please upload this document again")}
                             </p>
                           </div>
                           <div className="ml-4">
@@ -590,11 +522,16 @@ export default function OnboardingPage() {
                                 <Upload className="h-4 w-4" />
                               </div>
                             )}
-                            {doc.status === "uploaded" && (
+                            {doc.status === "uploading" && (
                               <div className="flex items-center justify-center w-8 h-8 rounded-full bg-blue-100">
                                 <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
                               </div>
                             )}
+                            {doc.status === "uploaded" && (
+                              <div className="flex items-center justify-center w-8 h-8 rounded-full bg-blue-100">
+                                <Check className="h-4 w-4 text-blue-500" />
+                              </div>
+                            )}
                             {doc.status === "verified" && (
                               <div className="flex items-center justify-center w-8 h-8 rounded-full bg-green-100">
                                 <Check className="h-4 w-4 text-green-500" />
@@ -614,21 +551,21 @@ export default function OnboardingPage() {
                               id={`file-${doc.id}`}
                               className="hidden"
                               onChange={(e) => handleFileChange(e, doc.id)}
-                              disabled={doc.status === "verified" || doc.status === "uploaded"}
+                              disabled={isSubmitted || doc.status === "verified" || doc.status === "uploading"}
                             />
                             <label
                               htmlFor={`file-${doc.id}`}
                               className={`flex items-center justify-center px-4 py-2 rounded text-sm font-medium cursor-pointer ${
-                                doc.status === "verified"
+                                isSubmitted || doc.status === "verified"
                                   ? "bg-muted text-muted-foreground"
                                   : "bg-primary text-primary-foreground hover:bg-primary/90"
                               }`}
                             >
-                              {doc.status === "verified" ? "Uploaded" : "Choose File"}
+                              {doc.document ? (isSubmitted ? "Uploaded" : "Replace File") : "Choose File"}
                             </label>
-                            {doc.file && (
+                            {doc.document && (
                               <span className="ml-3 text-sm text-muted-foreground">
-                                {doc.file.name}
+                                {doc.document.fileName}
                               </span>
                             )}
                           </div>
@@ -640,7 +577,7 @@ export default function OnboardingPage() {
                   <Button
                     onClick={handleCompleteOnboarding}
                     className="w-full"
-                    disabled={!isComplete || completeMutation.isPending}
+                    disabled={!isComplete || isSubmitted || completeMutation.isPending}
                   >
                     {completeMutation.isPending ? (
                       <>
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { passwordSchema } from "@shared/schema";
+
+import { Card, CardHeader, CardContent, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2 } from "lucide-react";
+
+const forgotSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+const resetSchema = z.object({
+  password: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type ForgotFormValues = z.infer<typeof forgotSchema>;
+type ResetFormValues = z.infer<typeof resetSchema>;
+
+// Asks for the email address, or for the new password when opened from the emailed link
+export default function PasswordResetPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token"));
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const forgotForm = useForm<ForgotFormValues>({
+    resolver: zodResolver(forgotSchema),
+    defaultValues: { email: "" },
+  });
+
+  const resetForm = useForm<ResetFormValues>({
+    resolver: zodResolver(resetSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const forgotMutation = useMutation({
+    mutationFn: async (values: ForgotFormValues) => {
+      await apiRequest("POST", "/api/password/forgot", values);
+      return values.email;
+    },
+    onSuccess: (email) => setSentTo(email),
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Could not send the link", description: error.message });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (values: ResetFormValues) => {
+      await apiRequest("POST", "/api/password/reset", { token, password: values.password });
+    },
+    onSuccess: () => {
+      toast({ title: "Password reset", description: "Sign in with your new password" });
+      setLocation("/auth");
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Password reset failed", description: error.message });
+    },
+  });
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{token ? "Choose a New Password" : "Reset Your Password"}</CardTitle>
+          <CardDescription>
+            {token
+              ? "Use at least 8 characters with a number or a symbol. You will be signed out everywhere else."
+              : "Enter the email address of your account and we'll send you a link to choose a new password."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {token ? (
+            <Form {...resetForm}>
+              <form onSubmit={resetForm.handleSubmit((values) => resetMutation.mutate(values))} className="space-y-4">
+                <FormField
+                  control={resetForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={resetForm.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm new password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={resetMutation.isPending}>
+                  {resetMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Reset password
+                </Button>
+              </form>
+            </Form>
+          ) : sentTo ? (
+            <p className="text-sm text-muted-foreground">
+              If an account uses {sentTo}, a reset link is on its way. The link works once and expires in an hour.
+            </p>
+          ) : (
+            <Form {...forgotForm}>
+              <form onSubmit={forgotForm.handleSubmit((values) => forgotMutation.mutate(values))} className="space-y-4">
+                <FormField
+                  control={forgotForm.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" autoComplete="email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={forgotMutation.isPending}>
+                  {forgotMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send reset link
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button variant="outline" className="w-full" onClick={() => setLocation("/auth")}>
+            Return to Login
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
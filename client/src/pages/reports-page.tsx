@@ -11,7 +11,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Application, Program, BudgetTracking, User } from "@shared/schema";
+import { ApplicationPage, Program, BudgetTracking, SubmissionReport, User } from "@shared/schema";
 import { BarChart, LineChart, PieChart } from "recharts";
 import { BarChart2, LineChart as LineChartIcon, PieChart as PieChartIcon, Download, Table as TableIcon, FileText } from "lucide-react";
 import { Bar, Line, Pie } from "react-chartjs-2";
@@ -41,15 +41,23 @@ Chart.register(
   ArcElement
 );
 
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
 export default function ReportsPage() {
   const [reportType, setReportType] = useState("applications");
   const [timeframe, setTimeframe] = useState("monthly");
   const [year, setYear] = useState("2025");
   const [viewMode, setViewMode] = useState("chart");
 
-  // Fetch applications
-  const { data: applications, isLoading: applicationsLoading } = useQuery<Application[]>({
-    queryKey: ["/api/applications"],
+  // Status totals come from the server; one row is enough to get them
+  const { data: applicationSummary, isLoading: applicationsLoading } = useQuery<ApplicationPage>({
+    queryKey: ["/api/applications", { limit: 1 }],
+  });
+
+  // Submissions per month of the selected year, counted on the server
+  const { data: submissionReport } = useQuery<SubmissionReport>({
+    queryKey: ["/api/reports/submissions", { year }],
+    enabled: reportType === "trend",
   });
 
   // Fetch programs
@@ -71,7 +79,7 @@ export default function ReportsPage() {
 
   // Generate application status report data
   const getApplicationStatusData = () => {
-    if (!applications) return null;
+    if (!applicationSummary) return null;
     
     const statuses = {
       draft: 0,
@@ -83,11 +91,9 @@ export default function ReportsPage() {
       "completed": 0,
     };
     
-    applications.forEach(app => {
-      if (app.status in statuses) {
-        statuses[app.status as keyof typeof statuses]++;
-      }
-    });
+    for (const status of Object.keys(statuses) as (keyof typeof statuses)[]) {
+      statuses[status] = applicationSummary.statusCounts[status as keyof ApplicationPage["statusCounts"]] || 0;
+    }
     
     return {
       labels: Object.keys(statuses).map(status => 
@@ -154,28 +160,14 @@ export default function ReportsPage() {
 
   // Generate application trend data
   const getApplicationTrendData = () => {
-    if (!applications) return null;
-    
-    // Group applications by month
-    const monthlyData: { [key: string]: number } = {
-      "Jan": 0, "Feb": 0, "Mar": 0, "Apr": 0, "May": 0, "Jun": 0, 
-      "Jul": 0, "Aug": 0, "Sep": 0, "Oct": 0, "Nov": 0, "Dec": 0
-    };
-    
-    applications.forEach(app => {
-      if (app.submittedAt) {
-        const date = new Date(app.submittedAt);
-        const month = date.toLocaleString('en-US', { month: 'short' });
-        monthlyData[month]++;
-      }
-    });
+    if (!submissionReport) return null;
     
     return {
-      labels: Object.keys(monthlyData),
+      labels: MONTHS,
       datasets: [
         {
           label: 'Applications',
-          data: Object.values(monthlyData),
+          data: submissionReport.months,
           borderColor: 'rgba(63, 81, 181, 1)',
           backgroundColor: 'rgba(63, 81, 181, 0.2)',
           tension: 0.4,
@@ -233,17 +225,12 @@ export default function ReportsPage() {
   const getTableData = () => {
     switch (reportType) {
       case "applications":
-        if (!applications) return [];
-        
-        const statusCounts: Record<string, number> = {};
-        applications.forEach(app => {
-          statusCounts[app.status] = (statusCounts[app.status] || 0) + 1;
-        });
+        if (!applicationSummary) return [];
         
-        return Object.entries(statusCounts).map(([status, count]) => ({
+        return Object.entries(applicationSummary.statusCounts).map(([status, count = 0]) => ({
           status: status.charAt(0).toUpperCase() + status.slice(1),
           count,
-          percentage: Math.round((count / applications.length) * 100),
+          percentage: Math.round((count / applicationSummary.total) * 100),
         }));
         
       case "budget":
@@ -260,24 +247,11 @@ export default function ReportsPage() {
         }));
         
       case "trend":
-        if (!applications) return [];
-        
-        const monthlyData: Record<string, number> = {
-          "Jan": 0, "Feb": 0, "Mar": 0, "Apr": 0, "May": 0, "Jun": 0, 
-          "Jul": 0, "Aug": 0, "Sep": 0, "Oct": 0, "Nov": 0, "Dec": 0
-        };
+        if (!submissionReport) return [];
         
-        applications.forEach(app => {
-          if (app.submittedAt) {
-            const date = new Date(app.submittedAt);
-            const month = date.toLocaleString('en-US', { month: 'short' });
-            monthlyData[month]++;
-          }
-        });
-        
-        return Object.entries(monthlyData).map(([month, count]) => ({
+        return MONTHS.map((month, index) => ({
           month,
-          count,
+          count: submissionReport.months[index],
         }));
         
       default:
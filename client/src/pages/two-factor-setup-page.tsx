@@ -0,0 +1,31 @@
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { TwoFactorSetup } from "@/components/layout/two-factor-dialog";
+
+// Shown instead of every page to users whose role requires two-factor
+// authentication until they have set it up
+export default function TwoFactorSetupPage() {
+  const { logoutMutation } = useAuth();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-neutral-50 p-4">
+      <Card className="w-full max-w-md shadow-md">
+        <CardHeader>
+          <CardTitle className="text-2xl font-poppins">Set up two-factor authentication</CardTitle>
+          <CardDescription>
+            Your role requires a code from an authenticator app in addition to your password.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* The rest of the app was refused until now */}
+          <TwoFactorSetup onDone={() => queryClient.invalidateQueries()} />
+          <Button variant="link" className="px-0" onClick={() => logoutMutation.mutate()}>
+            Sign out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
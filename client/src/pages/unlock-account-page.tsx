@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import { Card, CardHeader, CardContent, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+// Opened from the link mailed when an account is locked after failed sign-ins
+export default function UnlockAccountPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token"));
+
+  const unlockMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/account/unlock", { token });
+    },
+    onSuccess: () => {
+      toast({ title: "Account unlocked", description: "You can sign in again" });
+      setLocation("/auth");
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Account not unlocked", description: error.message });
+    },
+  });
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Unlock Your Account</CardTitle>
+          <CardDescription>
+            Your account was locked after several failed sign-ins. If they were yours, unlock it to sign in again
+            right away. If not, consider changing your password once you are signed in.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {token ? (
+            <Button className="w-full" onClick={() => unlockMutation.mutate()} disabled={unlockMutation.isPending}>
+              {unlockMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Unlock my account
+            </Button>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              This link is incomplete. Open the link from the email again, or wait until the lockout ends.
+            </p>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button variant="outline" className="w-full" onClick={() => setLocation("/auth")}>
+            Return to Login
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -1,22 +1,21 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useParams, useLocation } from "wouter";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 import { Card, CardHeader, CardContent, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2 } from "lucide-react";
 
 // Define the verification schema
 const verificationSchema = z.object({
-  verificationCode: z.string().min(6, "Verification code must be at least 6 characters"),
+  verificationCode: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from the email"),
 });
 
 type VerificationFormValues = z.infer<typeof verificationSchema>;
@@ -52,20 +51,15 @@ export default function VerificationPage() {
     },
   });
 
-  // Mutation for verifying the code
+  // Confirms with the typed code or the token of the emailed link; the
+  // account is created and signed in on success
   const verifyMutation = useMutation({
-    mutationFn: async (values: VerificationFormValues) => {
-      // Combine the verification code with the email and applicant type
-      const payload = {
-        ...values,
-        email,
-        applicantTypeId: Number(applicantTypeId),
-      };
-      
-      const response = await apiRequest("POST", "/api/mock-verification", payload);
+    mutationFn: async (proof: { code: string } | { token: string }) => {
+      const response = await apiRequest("POST", "/api/register/verify", { email, ...proof });
       return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
       toast({
         title: "Verification successful!",
         description: "You can now complete your profile",
@@ -83,8 +77,38 @@ export default function VerificationPage() {
     },
   });
 
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/register/resend", { email });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Code sent",
+        description: `A new verification code was sent to ${email}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Could not send a new code",
+        description: error.message,
+      });
+    },
+  });
+
+  // Opened from the link in the email
+  const linkConfirmed = useRef(false);
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (email && token && !linkConfirmed.current) {
+      linkConfirmed.current = true;
+      verifyMutation.mutate({ token });
+    }
+  }, [email]);
+
   function onSubmit(values: VerificationFormValues) {
-    verifyMutation.mutate(values);
+    verifyMutation.mutate({ code: values.verificationCode });
   }
 
   // Display a message if no email is found
@@ -118,12 +142,6 @@ export default function VerificationPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Alert className="mb-4 bg-muted">
-            <AlertDescription>
-              <span className="font-medium">For this demo:</span> The verification code is <span className="font-bold">123456</span>
-            </AlertDescription>
-          </Alert>
-          
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <FormField
@@ -165,6 +183,14 @@ export default function VerificationPage() {
           <div className="text-sm text-muted-foreground">
             Didn't receive a code? Check your spam folder or request a new code.
           </div>
+          <Button
+            variant="ghost"
+            className="w-full"
+            disabled={resendMutation.isPending}
+            onClick={() => resendMutation.mutate()}
+          >
+            {resendMutation.isPending ? "Sending..." : "Send a new code"}
+          </Button>
           <Button variant="outline" className="w-full" onClick={() => setLocation("/auth")}>
             Return to Login
           </Button>
@@ -0,0 +1,311 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import MainLayout from "@/components/layout/main-layout";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { VerificationDocument, VerificationQueueItem } from "@shared/schema";
+import { DOCUMENT_TYPE_LABELS, HIGH_CONFIDENCE_SCORE } from "@shared/constants";
+import { Check, Eye, RotateCcw, ShieldCheck, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+
+type DocumentDecision = "approved" | "rejected" | "requires_resubmission";
+
+// A decision waiting for the reason the applicant will read
+type PendingDecision =
+  | { kind: "document"; document: VerificationDocument; status: Exclude<DocumentDecision, "approved"> }
+  | { kind: "registration"; item: VerificationQueueItem };
+
+const STATUS_BADGES: Record<VerificationDocument["verificationStatus"], { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-neutral-100 text-neutral-700" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Rejected", className: "bg-red-100 text-red-800" },
+  requires_resubmission: { label: "Resubmission requested", className: "bg-amber-100 text-amber-800" },
+};
+
+function scoreClass(score: number | null) {
+  if (score === null) return "bg-neutral-100 text-neutral-600";
+  if (score >= HIGH_CONFIDENCE_SCORE) return "bg-green-100 text-green-800";
+  if (score >= 60) return "bg-amber-100 text-amber-800";
+  return "bg-red-100 text-red-800";
+}
+
+// What the document verifier could not confirm
+function verifierIssues(document: VerificationDocument): string[] {
+  if (!document.aiVerificationResult) return [];
+  try {
+    return JSON.parse(document.aiVerificationResult).issues ?? [];
+  } catch {
+    return [];
+  }
+}
+
+// Registrations the bulk approval would accept
+function isHighConfidence(item: VerificationQueueItem) {
+  return item.documents.every((doc) =>
+    doc.verificationStatus === "approved" ||
+    (doc.verificationStatus === "pending" && (doc.aiVerificationScore ?? -1) >= HIGH_CONFIDENCE_SCORE));
+}
+
+export default function VerificationQueuePage() {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<number[]>([]);
+  const [pendingDecision, setPendingDecision] = useState<PendingDecision | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: queue, isLoading } = useQuery<VerificationQueueItem[]>({
+    queryKey: ["/api/verification/queue"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const closeDecision = () => {
+    setPendingDecision(null);
+    setReason("");
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ document, status, reason }: { document: VerificationDocument; status: DocumentDecision; reason?: string }) => {
+      const res = await apiRequest("PATCH", `/api/verification/documents/${document.id}`, { status, reason });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/verification/queue"] });
+      closeDecision();
+    },
+    onError: onError("Review failed"),
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ item, approved, reason }: { item: VerificationQueueItem; approved: boolean; reason?: string }) => {
+      const res = await apiRequest("POST", `/api/verification/registrations/${item.process.id}/decision`, { approved, reason });
+      return await res.json();
+    },
+    onSuccess: (_, { item, approved }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/verification/queue"] });
+      setSelected((ids) => ids.filter((id) => id !== item.process.id));
+      closeDecision();
+      toast({
+        title: approved ? "Registration verified" : "Registration rejected",
+        description: `${item.applicant.fullName} has been notified`,
+      });
+    },
+    onError: onError("Decision failed"),
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: async (registrationIds: number[]) => {
+      const res = await apiRequest("POST", "/api/verification/bulk-approve", { registrationIds });
+      return await res.json() as { approved: number[]; skipped: { id: number; reason: string }[] };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/verification/queue"] });
+      setSelected([]);
+      toast({
+        title: `${result.approved.length} registration(s) verified`,
+        description: result.skipped.length > 0
+          ? `${result.skipped.length} skipped: ${result.skipped.map((item) => item.reason).join("; ")}`
+          : undefined,
+      });
+    },
+    onError: onError("Bulk approval failed"),
+  });
+
+  const highConfidence = queue?.filter(isHighConfidence) ?? [];
+
+  const submitDecision = () => {
+    if (!pendingDecision) return;
+    if (pendingDecision.kind === "document") {
+      reviewMutation.mutate({ document: pendingDecision.document, status: pendingDecision.status, reason: reason.trim() });
+    } else {
+      decisionMutation.mutate({ item: pendingDecision.item, approved: false, reason: reason.trim() });
+    }
+  };
+
+  return (
+    <MainLayout title="Registration Verification">
+      <div className="container mx-auto">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+          <p className="text-sm text-neutral-600">
+            Registrations awaiting verification, the most confident AI scores first.
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={highConfidence.length === 0}
+              onClick={() => setSelected(highConfidence.map((item) => item.process.id))}
+            >
+              Select high-confidence ({highConfidence.length})
+            </Button>
+            <Button
+              disabled={selected.length === 0 || bulkMutation.isPending}
+              onClick={() => bulkMutation.mutate(selected)}
+            >
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              {bulkMutation.isPending ? "Approving..." : `Approve selected (${selected.length})`}
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <div className="loader"></div>
+          </div>
+        ) : queue?.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center text-neutral-500">
+              No registrations are awaiting verification.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {queue?.map((item) => {
+              const allApproved = item.documents.every((doc) => doc.verificationStatus === "approved");
+              return (
+                <Card key={item.process.id}>
+                  <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div className="flex items-start space-x-3">
+                      <Checkbox
+                        className="mt-1"
+                        checked={selected.includes(item.process.id)}
+                        onCheckedChange={(checked) => setSelected((ids) =>
+                          checked ? [...ids, item.process.id] : ids.filter((id) => id !== item.process.id))}
+                      />
+                      <div>
+                        <CardTitle className="text-base">
+                          {item.applicant.organizationName || item.applicant.fullName}
+                        </CardTitle>
+                        <p className="text-sm text-neutral-500">
+                          {item.applicant.fullName} · {item.applicant.email} · {item.applicantType.toLowerCase()}
+                          {item.process.updatedAt && ` · submitted ${formatDistanceToNow(new Date(item.process.updatedAt), { addSuffix: true })}`}
+                        </p>
+                      </div>
+                    </div>
+                    <Badge className={scoreClass(item.aiScore)} title="Lowest AI score of the documents">
+                      AI {item.aiScore ?? "–"}
+                    </Badge>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="divide-y divide-neutral-200">
+                      {item.documents.map((document) => (
+                        <li key={document.id} className="py-3 flex flex-col md:flex-row md:items-center justify-between gap-2">
+                          <div className="space-y-1">
+                            <div className="flex items-center space-x-2">
+                              <span className="text-sm font-medium text-neutral-900">
+                                {DOCUMENT_TYPE_LABELS[document.documentType] ?? document.documentType}
+                              </span>
+                              <Badge className={STATUS_BADGES[document.verificationStatus].className}>
+                                {STATUS_BADGES[document.verificationStatus].label}
+                              </Badge>
+                              <Badge className={scoreClass(document.aiVerificationScore)}>
+                                AI {document.aiVerificationScore ?? "–"}
+                              </Badge>
+                            </div>
+                            <p className="text-xs text-neutral-500">{document.fileName}</p>
+                            {verifierIssues(document).map((issue) => (
+                              <p key={issue} className="text-xs text-amber-700">{issue}</p>
+                            ))}
+                            {document.rejectionReason && (
+                              <p className="text-xs text-neutral-600">{document.rejectionReason}</p>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-1">
+                            <Button variant="ghost" size="sm" title="Preview" asChild>
+                              <a href={`/api/registration/documents/${document.id}/preview`} target="_blank" rel="noreferrer">
+                                <Eye className="h-4 w-4" />
+                              </a>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Approve"
+                              disabled={document.verificationStatus === "approved" || reviewMutation.isPending}
+                              onClick={() => reviewMutation.mutate({ document, status: "approved" })}
+                            >
+                              <Check className="h-4 w-4 text-green-600" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Request resubmission"
+                              onClick={() => setPendingDecision({ kind: "document", document, status: "requires_resubmission" })}
+                            >
+                              <RotateCcw className="h-4 w-4 text-amber-600" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Reject"
+                              disabled={document.verificationStatus === "rejected"}
+                              onClick={() => setPendingDecision({ kind: "document", document, status: "rejected" })}
+                            >
+                              <X className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex justify-end space-x-2 pt-4 border-t border-neutral-200">
+                      <Button variant="outline" onClick={() => setPendingDecision({ kind: "registration", item })}>
+                        Reject registration
+                      </Button>
+                      <Button
+                        disabled={!allApproved || decisionMutation.isPending}
+                        title={allApproved ? undefined : "Approve every document first"}
+                        onClick={() => decisionMutation.mutate({ item, approved: true })}
+                      >
+                        <ShieldCheck className="mr-2 h-4 w-4" />
+                        Verify registration
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <Dialog open={!!pendingDecision} onOpenChange={(open) => !open && closeDecision()}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>
+                {pendingDecision?.kind === "registration"
+                  ? `Reject the registration of ${pendingDecision.item.applicant.fullName}?`
+                  : pendingDecision?.status === "requires_resubmission"
+                    ? "Request a new upload"
+                    : "Reject the document"}
+              </DialogTitle>
+            </DialogHeader>
+            <div className="space-y-2 py-2">
+              <p className="text-sm text-neutral-600">
+                {pendingDecision?.kind === "document" && pendingDecision.status === "requires_resubmission"
+                  ? "The registration is reopened and the applicant is asked to upload the document again."
+                  : "The applicant will see this reason."}
+              </p>
+              <Textarea placeholder="Reason (required)" value={reason} onChange={(e) => setReason(e.target.value)} />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={closeDecision}>
+                Cancel
+              </Button>
+              <Button
+                variant={pendingDecision?.kind === "document" && pendingDecision.status === "requires_resubmission" ? "default" : "destructive"}
+                disabled={!reason.trim() || reviewMutation.isPending || decisionMutation.isPending}
+                onClick={submitDecision}
+              >
+                Confirm
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,158 @@
+CREATE TABLE "applicant_types" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"required_documents" text[],
+	"registration_steps" text[],
+	"verification_requirements" text[]
+);
+--> statement-breakpoint
+CREATE TABLE "applications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"applicant_id" integer NOT NULL,
+	"program_id" integer NOT NULL,
+	"applicant_type_id" integer,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"submitted_at" timestamp,
+	"auto_code" text NOT NULL,
+	"summary" text NOT NULL,
+	"requested_amount" integer,
+	"project_duration" integer,
+	"organization" text,
+	"description" text,
+	"legal_structure" text,
+	"year_established" integer,
+	"tax_id" text,
+	"registration_number" text,
+	"number_of_employees" integer,
+	"annual_budget" integer,
+	"profit_last_year" integer
+);
+--> statement-breakpoint
+CREATE TABLE "budget_tracking" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"program_id" integer NOT NULL,
+	"reserved" integer DEFAULT 0,
+	"approved" integer DEFAULT 0,
+	"spent" integer DEFAULT 0,
+	"available" integer,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "documents" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"application_id" integer NOT NULL,
+	"file_name" text NOT NULL,
+	"file_type" text NOT NULL,
+	"file_path" text NOT NULL,
+	"uploaded_at" timestamp DEFAULT now(),
+	"uploaded_by" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "evaluations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"application_id" integer NOT NULL,
+	"evaluated_by" integer NOT NULL,
+	"score" integer,
+	"decision" text,
+	"comment" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"application_id" integer NOT NULL,
+	"sender_id" integer NOT NULL,
+	"receiver_id" integer NOT NULL,
+	"content" text NOT NULL,
+	"read" boolean DEFAULT false,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "programs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"budget_total" integer NOT NULL,
+	"year" integer NOT NULL,
+	"description" text,
+	"active" boolean DEFAULT true,
+	"eligible_applicant_types" text[]
+);
+--> statement-breakpoint
+CREATE TABLE "registration_processes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"applicant_type_id" integer NOT NULL,
+	"status" text DEFAULT 'incomplete' NOT NULL,
+	"current_step" integer DEFAULT 1,
+	"total_steps" integer NOT NULL,
+	"completed_steps" text[],
+	"verification_date" timestamp,
+	"rejection_reason" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"full_name" text NOT NULL,
+	"email" text NOT NULL,
+	"password" text NOT NULL,
+	"role" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"applicant_type_id" integer,
+	"is_verified" boolean DEFAULT false,
+	"profile_complete" boolean DEFAULT false,
+	"phone_number" text,
+	"address" text,
+	"city" text,
+	"country" text,
+	"postal_code" text,
+	"organization_name" text,
+	"organization_position" text,
+	"website" text,
+	"avatar_url" text,
+	"bio" text,
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email"),
+	CONSTRAINT "users_role_check" CHECK ("users"."role" in ('administrator', 'applicant', 'reviewer', 'donor'))
+);
+--> statement-breakpoint
+CREATE TABLE "verification_documents" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"registration_process_id" integer,
+	"document_type" text NOT NULL,
+	"file_name" text NOT NULL,
+	"file_type" text NOT NULL,
+	"file_path" text NOT NULL,
+	"uploaded_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"verification_status" text DEFAULT 'pending' NOT NULL,
+	"verified_at" timestamp,
+	"verified_by" integer,
+	"rejection_reason" text,
+	"ai_verified" boolean DEFAULT false,
+	"ai_verification_result" text,
+	"ai_verification_score" integer
+);
+--> statement-breakpoint
+ALTER TABLE "applications" ADD CONSTRAINT "applications_applicant_id_users_id_fk" FOREIGN KEY ("applicant_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "applications" ADD CONSTRAINT "applications_program_id_programs_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."programs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "applications" ADD CONSTRAINT "applications_applicant_type_id_applicant_types_id_fk" FOREIGN KEY ("applicant_type_id") REFERENCES "public"."applicant_types"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "budget_tracking" ADD CONSTRAINT "budget_tracking_program_id_programs_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."programs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_application_id_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."applications"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_uploaded_by_users_id_fk" FOREIGN KEY ("uploaded_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "evaluations" ADD CONSTRAINT "evaluations_application_id_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."applications"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "evaluations" ADD CONSTRAINT "evaluations_evaluated_by_users_id_fk" FOREIGN KEY ("evaluated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_application_id_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."applications"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_sender_id_users_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_receiver_id_users_id_fk" FOREIGN KEY ("receiver_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "registration_processes" ADD CONSTRAINT "registration_processes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "registration_processes" ADD CONSTRAINT "registration_processes_applicant_type_id_applicant_types_id_fk" FOREIGN KEY ("applicant_type_id") REFERENCES "public"."applicant_types"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_applicant_type_id_applicant_types_id_fk" FOREIGN KEY ("applicant_type_id") REFERENCES "public"."applicant_types"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "verification_documents" ADD CONSTRAINT "verification_documents_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "verification_documents" ADD CONSTRAINT "verification_documents_registration_process_id_registration_processes_id_fk" FOREIGN KEY ("registration_process_id") REFERENCES "public"."registration_processes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "verification_documents" ADD CONSTRAINT "verification_documents_verified_by_users_id_fk" FOREIGN KEY ("verified_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
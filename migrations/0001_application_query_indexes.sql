@@ -0,0 +1,4 @@
+CREATE INDEX "applications_program_id_idx" ON "applications" USING btree ("program_id");--> statement-breakpoint
+CREATE INDEX "applications_applicant_id_idx" ON "applications" USING btree ("applicant_id");--> statement-breakpoint
+CREATE INDEX "applications_status_idx" ON "applications" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "applications_submitted_at_idx" ON "applications" USING btree ("submitted_at");
\ No newline at end of file
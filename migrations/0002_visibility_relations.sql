@@ -0,0 +1,24 @@
+CREATE TABLE "program_donors" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"program_id" integer NOT NULL,
+	"donor_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "program_donors_program_donor_unique" UNIQUE("program_id","donor_id")
+);
+--> statement-breakpoint
+CREATE TABLE "reviewer_assignments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"application_id" integer NOT NULL,
+	"reviewer_id" integer NOT NULL,
+	"assigned_by" integer,
+	"assigned_at" timestamp DEFAULT now(),
+	CONSTRAINT "reviewer_assignments_application_reviewer_unique" UNIQUE("application_id","reviewer_id")
+);
+--> statement-breakpoint
+ALTER TABLE "program_donors" ADD CONSTRAINT "program_donors_program_id_programs_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."programs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "program_donors" ADD CONSTRAINT "program_donors_donor_id_users_id_fk" FOREIGN KEY ("donor_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reviewer_assignments" ADD CONSTRAINT "reviewer_assignments_application_id_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."applications"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reviewer_assignments" ADD CONSTRAINT "reviewer_assignments_reviewer_id_users_id_fk" FOREIGN KEY ("reviewer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reviewer_assignments" ADD CONSTRAINT "reviewer_assignments_assigned_by_users_id_fk" FOREIGN KEY ("assigned_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "program_donors_donor_id_idx" ON "program_donors" USING btree ("donor_id");--> statement-breakpoint
+CREATE INDEX "reviewer_assignments_reviewer_id_idx" ON "reviewer_assignments" USING btree ("reviewer_id");
\ No newline at end of file
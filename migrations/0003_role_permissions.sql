@@ -0,0 +1,23 @@
+CREATE TABLE "role_permissions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"role" text NOT NULL,
+	"permission" text NOT NULL,
+	CONSTRAINT "role_permissions_role_permission_unique" UNIQUE("role","permission")
+);
+--> statement-breakpoint
+-- Default matrix, mirrors DEFAULT_ROLE_PERMISSIONS in shared/permissions.ts
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+	('administrator', 'application.manage'),
+	('administrator', 'application.evaluate'),
+	('administrator', 'application.assign'),
+	('administrator', 'budget.view'),
+	('administrator', 'report.view'),
+	('administrator', 'program.manage'),
+	('administrator', 'user.manage'),
+	('administrator', 'permission.manage'),
+	('reviewer', 'application.manage'),
+	('reviewer', 'application.evaluate'),
+	('reviewer', 'budget.view'),
+	('reviewer', 'report.view'),
+	('donor', 'budget.view'),
+	('donor', 'report.view');
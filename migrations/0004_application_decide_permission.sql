@@ -0,0 +1,3 @@
+-- Administrators get the permission introduced with the application lifecycle
+INSERT INTO "role_permissions" ("role", "permission") VALUES ('administrator', 'application.decide')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,31 @@
+CREATE TABLE "application_amendments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"application_id" integer NOT NULL,
+	"requested_by" integer NOT NULL,
+	"changes" jsonb NOT NULL,
+	"reason" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"reviewed_by" integer,
+	"reviewed_at" timestamp,
+	"review_comment" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "application_snapshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"application_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"content" jsonb NOT NULL,
+	"amendment_id" integer,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "application_snapshots_application_version_unique" UNIQUE("application_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "application_amendments" ADD CONSTRAINT "application_amendments_application_id_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."applications"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "application_amendments" ADD CONSTRAINT "application_amendments_requested_by_users_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "application_amendments" ADD CONSTRAINT "application_amendments_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "application_snapshots" ADD CONSTRAINT "application_snapshots_application_id_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."applications"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "application_snapshots" ADD CONSTRAINT "application_snapshots_amendment_id_application_amendments_id_fk" FOREIGN KEY ("amendment_id") REFERENCES "public"."application_amendments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "application_snapshots" ADD CONSTRAINT "application_snapshots_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "application_amendments_application_id_idx" ON "application_amendments" USING btree ("application_id");
\ No newline at end of file
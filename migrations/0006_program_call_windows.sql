@@ -0,0 +1,4 @@
+ALTER TABLE "programs" ADD COLUMN "opens_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "programs" ADD COLUMN "closes_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "programs" ADD COLUMN "timezone" text DEFAULT 'Europe/Sarajevo' NOT NULL;--> statement-breakpoint
+ALTER TABLE "programs" ADD COLUMN "grace_period_minutes" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "programs" ADD COLUMN "eligibility_rules" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "applications" ADD COLUMN "answers" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "attachment_key" text;--> statement-breakpoint
+ALTER TABLE "programs" ADD COLUMN "form_schema" jsonb;
\ No newline at end of file
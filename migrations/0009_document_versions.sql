@@ -0,0 +1,23 @@
+CREATE TABLE "document_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"file_name" text NOT NULL,
+	"file_type" text NOT NULL,
+	"file_path" text NOT NULL,
+	"size" integer,
+	"checksum" text,
+	"change_note" text,
+	"uploaded_by" integer NOT NULL,
+	"uploaded_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "document_versions_document_version_unique" UNIQUE("document_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "current_version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "size" integer;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "checksum" text;--> statement-breakpoint
+ALTER TABLE "document_versions" ADD CONSTRAINT "document_versions_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "document_versions" ADD CONSTRAINT "document_versions_uploaded_by_users_id_fk" FOREIGN KEY ("uploaded_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Existing documents become version 1 of themselves
+INSERT INTO "document_versions" ("document_id", "version", "file_name", "file_type", "file_path", "uploaded_by", "uploaded_at")
+SELECT "id", 1, "file_name", "file_type", "file_path", "uploaded_by", coalesce("uploaded_at", now()) FROM "documents";
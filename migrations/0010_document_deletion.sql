@@ -0,0 +1,16 @@
+CREATE TABLE "document_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"action" text NOT NULL,
+	"actor_id" integer NOT NULL,
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "deleted_by" integer;--> statement-breakpoint
+ALTER TABLE "document_events" ADD CONSTRAINT "document_events_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "document_events" ADD CONSTRAINT "document_events_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "document_events_document_id_idx" ON "document_events" USING btree ("document_id");--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "documents_application_id_idx" ON "documents" USING btree ("application_id");
\ No newline at end of file
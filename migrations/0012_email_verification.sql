@@ -0,0 +1,13 @@
+CREATE TABLE "pending_registrations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"email" text NOT NULL,
+	"username" text NOT NULL,
+	"account" jsonb NOT NULL,
+	"code_hash" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"send_count" integer DEFAULT 1 NOT NULL,
+	"last_sent_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "pending_registrations_email_unique" UNIQUE("email")
+);
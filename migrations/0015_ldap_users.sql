@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "auth_provider" text DEFAULT 'local' NOT NULL;
\ No newline at end of file
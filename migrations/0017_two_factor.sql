@@ -0,0 +1,19 @@
+CREATE TABLE "role_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"role" text NOT NULL,
+	"two_factor_required" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "role_settings_role_unique" UNIQUE("role")
+);
+--> statement-breakpoint
+CREATE TABLE "two_factor_credentials" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"secret" text NOT NULL,
+	"enabled_at" timestamp,
+	"recovery_code_hashes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"last_used_step" integer,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "two_factor_credentials_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "two_factor_credentials" ADD CONSTRAINT "two_factor_credentials_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,34 @@
+CREATE TABLE "account_lockouts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"failed_attempts" integer DEFAULT 0 NOT NULL,
+	"lockouts" integer DEFAULT 0 NOT NULL,
+	"locked_until" timestamp,
+	"unlock_token_hash" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "account_lockouts_user_id_unique" UNIQUE("user_id"),
+	CONSTRAINT "account_lockouts_unlock_token_hash_unique" UNIQUE("unlock_token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "rate_limit_counters" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"key" text NOT NULL,
+	"window_start" timestamp NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "rate_limit_counters_key_window_start_unique" UNIQUE("key","window_start")
+);
+--> statement-breakpoint
+CREATE TABLE "rate_limit_policies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"limit" integer NOT NULL,
+	"window_seconds" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "rate_limit_policies_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "account_lockouts" ADD CONSTRAINT "account_lockouts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "rate_limit_counters_window_start_idx" ON "rate_limit_counters" USING btree ("window_start");--> statement-breakpoint
+-- Administrators get the permission introduced with rate limits
+INSERT INTO "role_permissions" ("role", "permission") VALUES ('administrator', 'security.manage')
+ON CONFLICT DO NOTHING;
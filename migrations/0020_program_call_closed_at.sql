@@ -0,0 +1,4 @@
+ALTER TABLE "programs" ADD COLUMN "call_closed_at" timestamp with time zone;--> statement-breakpoint
+-- Record the calls the scheduler used to close by deactivating their program.
+-- Whether those programs are active again is left to administrators.
+UPDATE "programs" SET "call_closed_at" = now() WHERE "active" = false AND "closes_at" + "grace_period_minutes" * interval '1 minute' < now();
@@ -0,0 +1,20 @@
+-- Access to applications is granted by permission rather than by role. The
+-- defaults keep what each role could already see.
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+	('administrator', 'application.view'),
+	('administrator', 'application.view_all'),
+	('administrator', 'document.access'),
+	('administrator', 'evaluation.view'),
+	('administrator', 'message.access'),
+	('applicant', 'application.view'),
+	('applicant', 'document.access'),
+	('applicant', 'message.access'),
+	('reviewer', 'application.view'),
+	('reviewer', 'document.access'),
+	('reviewer', 'evaluation.view'),
+	('reviewer', 'message.access'),
+	('donor', 'application.view'),
+	('donor', 'document.access'),
+	('donor', 'evaluation.view'),
+	('donor', 'message.access')
+ON CONFLICT DO NOTHING;
\ No newline at end of file
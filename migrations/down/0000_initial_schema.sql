@@ -0,0 +1,10 @@
+DROP TABLE "messages";--> statement-breakpoint
+DROP TABLE "evaluations";--> statement-breakpoint
+DROP TABLE "documents";--> statement-breakpoint
+DROP TABLE "budget_tracking";--> statement-breakpoint
+DROP TABLE "applications";--> statement-breakpoint
+DROP TABLE "verification_documents";--> statement-breakpoint
+DROP TABLE "registration_processes";--> statement-breakpoint
+DROP TABLE "users";--> statement-breakpoint
+DROP TABLE "programs";--> statement-breakpoint
+DROP TABLE "applicant_types";
@@ -0,0 +1,4 @@
+DROP INDEX "applications_submitted_at_idx";--> statement-breakpoint
+DROP INDEX "applications_status_idx";--> statement-breakpoint
+DROP INDEX "applications_applicant_id_idx";--> statement-breakpoint
+DROP INDEX "applications_program_id_idx";
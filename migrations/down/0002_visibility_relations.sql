@@ -0,0 +1,2 @@
+DROP TABLE "reviewer_assignments";--> statement-breakpoint
+DROP TABLE "program_donors";
\ No newline at end of file
@@ -0,0 +1 @@
+DELETE FROM "role_permissions" WHERE "permission" = 'application.decide';
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP TABLE "application_snapshots";--> statement-breakpoint
+DROP TABLE "application_amendments";
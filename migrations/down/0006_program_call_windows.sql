@@ -0,0 +1,4 @@
+ALTER TABLE "programs" DROP COLUMN "grace_period_minutes";--> statement-breakpoint
+ALTER TABLE "programs" DROP COLUMN "timezone";--> statement-breakpoint
+ALTER TABLE "programs" DROP COLUMN "closes_at";--> statement-breakpoint
+ALTER TABLE "programs" DROP COLUMN "opens_at";
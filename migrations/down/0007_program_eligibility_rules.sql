@@ -0,0 +1 @@
+ALTER TABLE "programs" DROP COLUMN "eligibility_rules";
@@ -0,0 +1,3 @@
+ALTER TABLE "programs" DROP COLUMN "form_schema";--> statement-breakpoint
+ALTER TABLE "documents" DROP COLUMN "attachment_key";--> statement-breakpoint
+ALTER TABLE "applications" DROP COLUMN "answers";
@@ -0,0 +1,4 @@
+DROP TABLE "document_versions";--> statement-breakpoint
+ALTER TABLE "documents" DROP COLUMN "current_version";--> statement-breakpoint
+ALTER TABLE "documents" DROP COLUMN "size";--> statement-breakpoint
+ALTER TABLE "documents" DROP COLUMN "checksum";
@@ -0,0 +1,5 @@
+DROP TABLE "document_events";--> statement-breakpoint
+DROP INDEX "documents_application_id_idx";--> statement-breakpoint
+ALTER TABLE "documents" DROP CONSTRAINT "documents_deleted_by_users_id_fk";--> statement-breakpoint
+ALTER TABLE "documents" DROP COLUMN "deleted_by";--> statement-breakpoint
+ALTER TABLE "documents" DROP COLUMN "deleted_at";
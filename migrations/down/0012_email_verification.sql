@@ -0,0 +1 @@
+DROP TABLE "pending_registrations";
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP TABLE "password_reset_tokens";--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN "auth_version";
\ No newline at end of file
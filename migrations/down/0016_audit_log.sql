@@ -0,0 +1,3 @@
+DELETE FROM "role_permissions" WHERE "permission" = 'audit.view';--> statement-breakpoint
+DROP TABLE "audit_log";--> statement-breakpoint
+DROP FUNCTION "audit_log_append_only"();
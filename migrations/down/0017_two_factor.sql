@@ -0,0 +1,2 @@
+DROP TABLE "two_factor_credentials";--> statement-breakpoint
+DROP TABLE "role_settings";
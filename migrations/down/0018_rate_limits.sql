@@ -0,0 +1,4 @@
+DELETE FROM "role_permissions" WHERE "permission" = 'security.manage';--> statement-breakpoint
+DROP TABLE "account_lockouts";--> statement-breakpoint
+DROP TABLE "rate_limit_counters";--> statement-breakpoint
+DROP TABLE "rate_limit_policies";
@@ -0,0 +1 @@
+ALTER TABLE "programs" DROP COLUMN "call_closed_at";
\ No newline at end of file
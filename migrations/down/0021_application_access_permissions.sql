@@ -0,0 +1 @@
+DELETE FROM "role_permissions" WHERE "permission" IN ('application.view', 'application.view_all', 'document.access', 'evaluation.view', 'message.access');
\ No newline at end of file
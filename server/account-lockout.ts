@@ -0,0 +1,103 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { mailTransport } from "./mail";
+import { recordAudit } from "./audit";
+import { getRateLimitPolicies } from "./rate-limit";
+import { User } from "@shared/schema";
+
+/**
+ * Progressive lockout of accounts under password guessing. The policy
+ * login.lockout sets how many failed sign-ins in a row lock an account and
+ * for how long; each further lockout lasts twice as long as the one before,
+ * up to a day. Every lockout mails the owner a link that lifts it, and a
+ * successful sign-in forgets the failures.
+ */
+
+const MAX_LOCKOUT_SECONDS = 24 * 60 * 60;
+
+export class AccountLockoutError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "AccountLockoutError";
+  }
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Seconds until the account is unlocked, or undefined when it is not locked
+export async function lockedFor(user: User): Promise<number | undefined> {
+  const lockout = await storage.getAccountLockout(user.id);
+  if (!lockout?.lockedUntil) return undefined;
+  const remaining = Math.ceil((lockout.lockedUntil.getTime() - Date.now()) / 1000);
+  return remaining > 0 ? remaining : undefined;
+}
+
+/**
+ * Counts a failed sign-in of the account, locking it when that makes one
+ * too many in a row. Returns the seconds the new lockout lasts, if any.
+ */
+export async function recordFailedLogin(user: User, baseUrl: string): Promise<number | undefined> {
+  const lockout = await storage.incrementFailedLogins(user.id);
+  const policy = (await getRateLimitPolicies())["login.lockout"];
+  if (lockout.failedAttempts < policy.limit) return undefined;
+
+  const seconds = Math.min(policy.windowSeconds * 2 ** lockout.lockouts, MAX_LOCKOUT_SECONDS);
+  const token = randomBytes(32).toString("base64url");
+  await storage.updateAccountLockout(user.id, {
+    failedAttempts: 0,
+    lockouts: lockout.lockouts + 1,
+    lockedUntil: new Date(Date.now() + seconds * 1000),
+    unlockTokenHash: hashToken(token),
+  });
+  await recordAudit({
+    action: "auth.account_locked",
+    actorId: null,
+    entityType: "user",
+    entityId: user.id,
+    after: { failedAttempts: lockout.failedAttempts, lockedForSeconds: seconds },
+  });
+
+  // The lockout holds whether or not the mail goes out; a failure to send it
+  // must not turn the answer to the sign-in into an error
+  await mailTransport.send({
+    to: user.email,
+    subject: "Your account was locked",
+    text: [
+      `Hello ${user.fullName},`,
+      "",
+      `After ${lockout.failedAttempts} failed sign-ins in a row, your account is locked for ${describeDuration(seconds)}.`,
+      "If these were you, open this link to unlock it now:",
+      `${baseUrl}/unlock-account?token=${token}`,
+      "",
+      "If they were not, someone may be guessing your password; consider changing it once you are signed in.",
+    ].join("\n"),
+  }).catch((error) => console.error(`Failed to mail the unlock link to user ${user.id}:`, error));
+  return seconds;
+}
+
+// A successful sign-in starts the count again, and the next lockout short
+export async function clearFailedLogins(user: User) {
+  await storage.deleteAccountLockout(user.id);
+}
+
+// Lifts the lockout with the emailed link; returns the unlocked user
+export async function unlockAccount(token: string): Promise<User> {
+  const lockout = await storage.getAccountLockoutByUnlockTokenHash(hashToken(token));
+  const user = lockout && (await storage.getUser(lockout.userId));
+  if (!user) {
+    throw new AccountLockoutError("This unlock link is invalid or was already used", 400);
+  }
+
+  await storage.updateAccountLockout(user.id, { failedAttempts: 0, lockedUntil: null, unlockTokenHash: null });
+  await recordAudit({ action: "auth.account_unlocked", actorId: null, entityType: "user", entityId: user.id });
+  return user;
+}
+
+function describeDuration(seconds: number) {
+  const [amount, unit] = seconds < 60 ? [seconds, "second"]
+    : seconds < 60 * 60 ? [Math.round(seconds / 60), "minute"]
+    : [Math.round(seconds / 60 / 60), "hour"];
+  return `${amount} ${unit}${amount === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,154 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Application, Program } from "@shared/schema";
+import { startTestServer, type TestServer } from "./test-server";
+
+describe("application lifecycle", () => {
+  let server: TestServer;
+  let program: Program;
+
+  const request = (username: string | null, path: string, init?: RequestInit) =>
+    server.request(username, path, init);
+
+  const transition = (username: string, application: Application, to: string) =>
+    request(username, `/api/applications/${application.id}/transitions`, {
+      method: "POST",
+      body: JSON.stringify({ to }),
+    });
+
+  async function createApplication(applicantId: number, requestedAmount?: number) {
+    return server.storage.createApplication({ applicantId, programId: program.id, summary: "Lifecycle project", requestedAmount });
+  }
+
+  before(async () => {
+    server = await startTestServer();
+    await server.createUser("lifecycle_admin", "administrator");
+    await server.createUser("lifecycle_reviewer", "reviewer");
+    await server.createUser("lifecycle_applicant", "applicant");
+
+    program = await server.storage.createProgram({ name: "Lifecycle", type: "donacija", budgetTotal: 1000, year: 2025 });
+    await server.storage.createBudgetTracking({ programId: program.id, available: 300 });
+  });
+
+  after(() => server.close());
+
+  async function userId(username: string) {
+    const user = await server.storage.getUserByUsername(username);
+    return user!.id;
+  }
+
+  it("lists the transitions the current user may make", async () => {
+    const application = await createApplication(await userId("lifecycle_applicant"), 100);
+
+    const res = await request("lifecycle_applicant", `/api/applications/${application.id}/transitions`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), [{ to: "submitted", label: "Submit" }]);
+  });
+
+  it("guards submission and rejects submitting twice", async () => {
+    const application = await createApplication(await userId("lifecycle_applicant"));
+
+    let res = await request("lifecycle_applicant", `/api/applications/${application.id}/submit`, { method: "POST" });
+    assert.equal(res.status, 400);
+
+    res = await request("lifecycle_applicant", `/api/applications/${application.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ requestedAmount: 500, status: "odobreno" }),
+    });
+    assert.equal(res.status, 409);
+    // The refused transition leaves the content unsaved too
+    const unchanged = (await server.storage.getApplication(application.id))!;
+    assert.equal(unchanged.status, "draft");
+    assert.equal(unchanged.requestedAmount, application.requestedAmount);
+
+    // Who applied, to which program and the assigned fields are not editable
+    for (const body of [{ applicantId: 1 }, { programId: 1 }, { autoCode: "X-1" }, { id: 999 }, { submittedAt: new Date() }]) {
+      res = await request("lifecycle_applicant", `/api/applications/${application.id}`, {
+        method: "PATCH",
+        body: JSON.stringify(body),
+      });
+      assert.equal(res.status, 400);
+    }
+    assert.deepEqual(await server.storage.getApplication(application.id), unchanged);
+
+    res = await request("lifecycle_applicant", `/api/applications/${application.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ requestedAmount: 500 }),
+    });
+    assert.equal(res.status, 200);
+
+    res = await request("lifecycle_applicant", `/api/applications/${application.id}/submit`, { method: "POST" });
+    assert.equal(res.status, 200);
+    const submitted = await res.json() as Application;
+    assert.equal(submitted.status, "submitted");
+    assert.ok(submitted.submittedAt);
+
+    res = await request("lifecycle_applicant", `/api/applications/${application.id}/submit`, { method: "POST" });
+    assert.equal(res.status, 409);
+  });
+
+  it("only lets permitted users make each transition", async () => {
+    const application = await createApplication(await userId("lifecycle_applicant"), 100);
+    await server.storage.updateApplication(application.id, { status: "submitted" });
+
+    let res = await transition("lifecycle_applicant", application, "preporučeno");
+    assert.equal(res.status, 403);
+
+    res = await transition("lifecycle_admin", application, "completed");
+    assert.equal(res.status, 409);
+
+    res = await transition("lifecycle_admin", application, "u obradi");
+    assert.equal(res.status, 200);
+    assert.equal((await res.json() as Application).status, "u obradi");
+  });
+
+  it("applies evaluation decisions through the transition table", async () => {
+    // Reviewers evaluate the applications assigned to them
+    const assign = (applicationId: number) =>
+      userId("lifecycle_reviewer").then((reviewerId) => server.storage.createReviewerAssignment({ applicationId, reviewerId }));
+    const draft = await createApplication(await userId("lifecycle_applicant"), 100);
+    await assign(draft.id);
+    let res = await request("lifecycle_reviewer", `/api/applications/${draft.id}/evaluations`, {
+      method: "POST",
+      body: JSON.stringify({ score: 80, decision: "preporučeno" }),
+    });
+    assert.equal(res.status, 409);
+    assert.deepEqual(await server.storage.getEvaluationsByApplication(draft.id), []);
+
+    const application = await createApplication(await userId("lifecycle_applicant"), 100);
+    await server.storage.updateApplication(application.id, { status: "submitted" });
+    await assign(application.id);
+    res = await request("lifecycle_reviewer", `/api/applications/${application.id}/evaluations`, {
+      method: "POST",
+      body: JSON.stringify({ score: 80, decision: "preporučeno" }),
+    });
+    assert.equal(res.status, 201);
+    assert.equal((await server.storage.getApplication(application.id))!.status, "preporučeno");
+  });
+
+  it("checks and commits the program budget on approval", async () => {
+    const application = await createApplication(await userId("lifecycle_applicant"), 500);
+    await server.storage.updateApplication(application.id, { status: "preporučeno" });
+    await server.storage.createReviewerAssignment({
+      applicationId: application.id,
+      reviewerId: await userId("lifecycle_reviewer"),
+    });
+
+    // Reviewers recommend, but deciding is up to administrators
+    let res = await transition("lifecycle_reviewer", application, "odobreno");
+    assert.equal(res.status, 403);
+
+    res = await transition("lifecycle_admin", application, "odobreno");
+    assert.equal(res.status, 400);
+
+    const budget = await server.storage.getBudgetTrackingByProgram(program.id);
+    await server.storage.updateBudgetTracking(budget!.id, { available: 800 });
+
+    res = await transition("lifecycle_admin", application, "odobreno");
+    assert.equal(res.status, 200);
+
+    const updated = await server.storage.getBudgetTrackingByProgram(program.id);
+    assert.equal(updated!.approved, 500);
+    assert.equal(updated!.available, 300);
+  });
+});
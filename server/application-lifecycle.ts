@@ -0,0 +1,161 @@
+import { storage } from "./storage";
+import { getUserPermissions } from "./permissions";
+import { checkEligibility, describeIneligibility } from "./eligibility";
+import { Application, User } from "@shared/schema";
+import {
+  ApplicationStatus,
+  ApplicationTransition,
+  canPerformTransition,
+  findTransition,
+} from "@shared/application-lifecycle";
+import { acceptsApplications, describeClosedCall } from "@shared/program-calls";
+import { answersSchema, describeAnswerIssues, missingAttachments } from "@shared/program-forms";
+
+/**
+ * Every status change of an application goes through transitionApplication.
+ *
+ * The transition table (shared/application-lifecycle.ts) says who may move an
+ * application from which status to which. Guards below add conditions on the
+ * application itself, and hooks run after the new status is saved.
+ */
+
+export class TransitionError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "TransitionError";
+  }
+}
+
+export interface TransitionContext {
+  application: Application;
+  from: ApplicationStatus;
+  to: ApplicationStatus;
+  actor: User;
+  reason?: string;
+}
+
+// Returns a message explaining why the transition cannot happen, if it cannot
+type TransitionGuard = (context: TransitionContext) => Promise<string | undefined>;
+
+export type TransitionHook = (context: TransitionContext, updated: Application) => Promise<void>;
+
+const guards: Partial<Record<ApplicationStatus, TransitionGuard[]>> = {
+  submitted: [
+    async ({ application }) => {
+      if (!application.summary.trim()) return "A summary is required before submitting";
+      if (!application.requestedAmount || application.requestedAmount <= 0) {
+        return "A requested amount is required before submitting";
+      }
+    },
+    // The call window applies to first submissions; changes requested by
+    // reviewers may be resubmitted after the call closes
+    async ({ application, from }) => {
+      if (from !== "draft") return;
+      const program = await storage.getProgram(application.programId);
+      if (!program) return "Program not found";
+      if (!acceptsApplications(program)) return describeClosedCall(program);
+    },
+    async ({ application }) => {
+      const applicant = await storage.getUser(application.applicantId);
+      const program = await storage.getProgram(application.programId);
+      if (!applicant || !program) return "Application not found";
+      const eligibility = await checkEligibility(applicant, program, application, "submit");
+      if (!eligibility.eligible) return describeIneligibility(eligibility);
+    },
+    // Required answers and attachments of the program's own form
+    async ({ application }) => {
+      const program = await storage.getProgram(application.programId);
+      if (!program?.formSchema) return;
+      const answers = answersSchema(program.formSchema, "submit").safeParse(application.answers);
+      if (!answers.success) {
+        return `The application form is incomplete: ${describeAnswerIssues(program.formSchema, answers.error).join("; ")}`;
+      }
+      const documents = await storage.getDocumentsByApplication(application.id);
+      const missing = missingAttachments(program.formSchema, documents);
+      if (missing.length > 0) {
+        return `Missing required attachments: ${missing.map((attachment) => attachment.label).join(", ")}`;
+      }
+    },
+  ],
+  odobreno: [
+    async ({ application }) => {
+      const budget = await storage.getBudgetTrackingByProgram(application.programId);
+      const available = budget?.available;
+      if (available !== null && available !== undefined && (application.requestedAmount ?? 0) > available) {
+        return `The program has only ${available} available, ${application.requestedAmount} was requested`;
+      }
+    },
+  ],
+};
+
+const hooks: TransitionHook[] = [
+  // Approving an application commits the requested amount from the program budget
+  async ({ to }, updated) => {
+    if (to !== "odobreno" || !updated.requestedAmount) return;
+    const budget = await storage.getBudgetTrackingByProgram(updated.programId);
+    if (!budget) return;
+    await storage.updateBudgetTracking(budget.id, {
+      approved: (budget.approved ?? 0) + updated.requestedAmount,
+      available: budget.available === null ? null : budget.available - updated.requestedAmount,
+    });
+  },
+];
+
+/**
+ * Registers a hook that runs after every successful transition
+ */
+export function onApplicationTransition(hook: TransitionHook) {
+  hooks.push(hook);
+}
+
+/**
+ * Throws a TransitionError unless `actor` may move the application to `to`
+ */
+export async function checkTransition(
+  application: Application,
+  to: ApplicationStatus,
+  actor: User,
+  reason?: string,
+): Promise<ApplicationTransition> {
+  const transition = findTransition(application.status, to);
+  if (!transition) {
+    throw new TransitionError(`An application cannot move from "${application.status}" to "${to}"`, 409);
+  }
+
+  const permissions = await getUserPermissions(actor);
+  if (!canPerformTransition(transition, application, actor, permissions)) {
+    throw new TransitionError(`You are not allowed to move this application to "${to}"`, 403);
+  }
+
+  const context: TransitionContext = { application, from: application.status, to, actor, reason };
+  for (const guard of guards[to] ?? []) {
+    const problem = await guard(context);
+    if (problem) throw new TransitionError(problem, 400);
+  }
+
+  return transition;
+}
+
+export async function transitionApplication(
+  application: Application,
+  to: ApplicationStatus,
+  actor: User,
+  reason?: string,
+): Promise<Application> {
+  await checkTransition(application, to, actor, reason);
+
+  const update: Partial<Application> = { status: to };
+  if (to === "submitted") update.submittedAt = new Date();
+
+  const updated = await storage.updateApplication(application.id, update);
+  if (!updated) {
+    throw new TransitionError("Application not found", 404);
+  }
+
+  const context: TransitionContext = { application, from: application.status, to, actor, reason };
+  for (const hook of hooks) {
+    await hook(context, updated);
+  }
+
+  return updated;
+}
@@ -0,0 +1,128 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Application, ApplicationAmendment, ApplicationSnapshot, User } from "@shared/schema";
+import type { SnapshotDiff } from "@shared/application-snapshots";
+import { startTestServer, type TestServer } from "./test-server";
+
+describe("submission snapshots and amendments", () => {
+  let server: TestServer;
+  let applicant: User;
+  let reviewer: User;
+  let application: Application;
+
+  const request = (username: string | null, path: string, init?: RequestInit) =>
+    server.request(username, path, init);
+
+  const post = (username: string, path: string, body: unknown = {}) =>
+    request(username, path, { method: "POST", body: JSON.stringify(body) });
+
+  before(async () => {
+    server = await startTestServer();
+    applicant = await server.createUser("snapshot_applicant", "applicant");
+    reviewer = await server.createUser("snapshot_reviewer", "reviewer");
+
+    const program = await server.storage.createProgram({ name: "Snapshots", type: "donacija", budgetTotal: 1000, year: 2025 });
+    application = await server.storage.createApplication({
+      applicantId: applicant.id,
+      programId: program.id,
+      summary: "Snapshot project",
+      requestedAmount: 500,
+    });
+    await server.storage.createReviewerAssignment({ applicationId: application.id, reviewerId: reviewer.id });
+    await server.storage.createDocument({
+      applicationId: application.id,
+      fileName: "plan.pdf",
+      fileType: "pdf",
+      filePath: `/uploads/${application.id}/plan.pdf`,
+      uploadedBy: applicant.id,
+    });
+  });
+
+  after(() => server.close());
+
+  it("does not accept amendments before submission", async () => {
+    const res = await post("snapshot_applicant", `/api/applications/${application.id}/amendments`, {
+      changes: { summary: "Too early" },
+    });
+    assert.equal(res.status, 409);
+  });
+
+  it("freezes the application and its documents on submission", async () => {
+    const res = await post("snapshot_applicant", `/api/applications/${application.id}/submit`);
+    assert.equal(res.status, 200);
+
+    const versions = await (await request("snapshot_applicant", `/api/applications/${application.id}/versions`)).json() as ApplicationSnapshot[];
+    assert.equal(versions.length, 1);
+    assert.equal(versions[0].version, 1);
+    assert.equal(versions[0].content.application.status, "submitted");
+    assert.equal(versions[0].content.application.requestedAmount, 500);
+    assert.deepEqual(versions[0].content.documents.map((doc) => doc.fileName), ["plan.pdf"]);
+  });
+
+  it("locks submitted applications against direct edits", async () => {
+    for (const username of ["snapshot_applicant", "snapshot_reviewer"]) {
+      const res = await request(username, `/api/applications/${application.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ requestedAmount: 900 }),
+      });
+      assert.equal(res.status, 409);
+    }
+    assert.equal((await server.storage.getApplication(application.id))!.requestedAmount, 500);
+  });
+
+  it("applies approved amendments as a new version", async () => {
+    let res = await post("snapshot_applicant", `/api/applications/${application.id}/amendments`, {
+      changes: { applicantId: reviewer.id },
+    });
+    assert.equal(res.status, 400);
+
+    res = await post("snapshot_applicant", `/api/applications/${application.id}/amendments`, {
+      changes: { requestedAmount: 800 },
+      reason: "Updated quote",
+    });
+    assert.equal(res.status, 201);
+    const amendment = await res.json() as ApplicationAmendment;
+    assert.equal(amendment.status, "pending");
+    assert.equal((await server.storage.getApplication(application.id))!.requestedAmount, 500);
+
+    res = await post("snapshot_applicant", `/api/applications/${application.id}/amendments/${amendment.id}/approve`);
+    assert.equal(res.status, 403);
+
+    res = await post("snapshot_reviewer", `/api/applications/${application.id}/amendments/${amendment.id}/approve`);
+    assert.equal(res.status, 200);
+    const result = await res.json() as { amendment: ApplicationAmendment; snapshot: ApplicationSnapshot };
+    assert.equal(result.amendment.status, "approved");
+    assert.equal(result.amendment.reviewedBy, reviewer.id);
+    assert.equal(result.snapshot.version, 2);
+    assert.equal(result.snapshot.amendmentId, amendment.id);
+    assert.equal((await server.storage.getApplication(application.id))!.requestedAmount, 800);
+
+    res = await post("snapshot_reviewer", `/api/applications/${application.id}/amendments/${amendment.id}/reject`);
+    assert.equal(res.status, 409);
+  });
+
+  it("leaves the application untouched when an amendment is rejected", async () => {
+    let res = await post("snapshot_applicant", `/api/applications/${application.id}/amendments`, {
+      changes: { summary: "Different project" },
+    });
+    const amendment = await res.json() as ApplicationAmendment;
+
+    res = await post("snapshot_reviewer", `/api/applications/${application.id}/amendments/${amendment.id}/reject`, {
+      comment: "Out of scope",
+    });
+    assert.equal(res.status, 200);
+    assert.equal((await server.storage.getApplication(application.id))!.summary, "Snapshot project");
+    assert.equal((await server.storage.getApplicationSnapshots(application.id)).length, 2);
+  });
+
+  it("diffs two versions field by field", async () => {
+    const res = await request("snapshot_applicant", `/api/applications/${application.id}/diff?from=1&to=2`);
+    assert.equal(res.status, 200);
+    const diff = await res.json() as SnapshotDiff;
+    assert.deepEqual(diff.fields, [{ field: "requestedAmount", from: 500, to: 800 }]);
+    assert.deepEqual(diff.documents, { added: [], removed: [], changed: [] });
+
+    const missing = await request("snapshot_applicant", `/api/applications/${application.id}/diff?from=1&to=5`);
+    assert.equal(missing.status, 404);
+  });
+});
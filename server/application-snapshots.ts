@@ -0,0 +1,118 @@
+import { storage } from "./storage";
+import { hasPermission } from "./permissions";
+import { onApplicationTransition } from "./application-lifecycle";
+import {
+  Application,
+  ApplicationAmendment,
+  ApplicationAmendmentChanges,
+  ApplicationSnapshot,
+  ApplicationSnapshotContent,
+  User,
+} from "@shared/schema";
+import { isApplicationEditable } from "@shared/application-lifecycle";
+import { answersSchema, describeAnswerIssues } from "@shared/program-forms";
+
+/**
+ * Submitted applications are immutable. Every submission freezes the
+ * application and its documents into a numbered snapshot; after that the
+ * content only changes through an approved amendment, which produces the
+ * next snapshot.
+ */
+
+export class AmendmentError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "AmendmentError";
+  }
+}
+
+export async function snapshotApplication(
+  application: Application,
+  actor: User,
+  amendmentId?: number,
+): Promise<ApplicationSnapshot> {
+  const documents = await storage.getDocumentsByApplication(application.id);
+  // Round-trip through JSON so every driver stores the same shape
+  const content: ApplicationSnapshotContent = JSON.parse(JSON.stringify({ application, documents }));
+
+  return await storage.createApplicationSnapshot({
+    applicationId: application.id,
+    content,
+    amendmentId: amendmentId ?? null,
+    createdBy: actor.id,
+  });
+}
+
+// Freeze what the applicant actually submitted
+onApplicationTransition(async ({ to, actor }, updated) => {
+  if (to === "submitted") {
+    await snapshotApplication(updated, actor);
+  }
+});
+
+export async function requestAmendment(
+  application: Application,
+  actor: User,
+  changes: ApplicationAmendmentChanges,
+  reason?: string | null,
+): Promise<ApplicationAmendment> {
+  if (application.applicantId !== actor.id && !(await hasPermission(actor, "application.manage"))) {
+    throw new AmendmentError("Forbidden", 403);
+  }
+  if (isApplicationEditable(application)) {
+    throw new AmendmentError("This application has not been submitted; edit it directly", 409);
+  }
+
+  // Amended answers replace the old ones and must still be complete
+  if (changes.answers) {
+    const program = await storage.getProgram(application.programId);
+    const answers = answersSchema(program?.formSchema, "submit").safeParse(changes.answers);
+    if (!answers.success) {
+      throw new AmendmentError(describeAnswerIssues(program?.formSchema, answers.error).join("; "), 400);
+    }
+    changes = { ...changes, answers: answers.data };
+  }
+
+  return await storage.createApplicationAmendment({
+    applicationId: application.id,
+    requestedBy: actor.id,
+    changes,
+    reason: reason ?? null,
+  });
+}
+
+/**
+ * Approves or rejects a pending amendment. Approval applies the changes and
+ * records them as a new snapshot version.
+ */
+export async function reviewAmendment(
+  amendment: ApplicationAmendment,
+  actor: User,
+  approve: boolean,
+  comment?: string | null,
+): Promise<{ amendment: ApplicationAmendment; snapshot?: ApplicationSnapshot }> {
+  if (!(await hasPermission(actor, "application.manage"))) {
+    throw new AmendmentError("Forbidden", 403);
+  }
+  if (amendment.status !== "pending") {
+    throw new AmendmentError(`This amendment was already ${amendment.status}`, 409);
+  }
+
+  let snapshot: ApplicationSnapshot | undefined;
+  if (approve) {
+    const application = await storage.updateApplication(amendment.applicationId, amendment.changes);
+    if (!application) {
+      throw new AmendmentError("Application not found", 404);
+    }
+    snapshot = await snapshotApplication(application, actor, amendment.id);
+  }
+
+  const reviewed = await storage.updateApplicationAmendment(amendment.id, {
+    status: approve ? "approved" : "rejected",
+    reviewedBy: actor.id,
+    reviewedAt: new Date(),
+    reviewComment: comment ?? null,
+  });
+
+  return { amendment: reviewed!, snapshot };
+}
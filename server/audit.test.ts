@@ -0,0 +1,113 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AuditLogEntry, AuditLogPage, Program, User } from "@shared/schema";
+import { startTestServer, TEST_PASSWORD, type TestServer } from "./test-server";
+
+describe("audit log", () => {
+  let server: TestServer;
+  let program: Program;
+  let applicant: User;
+
+  const post = (username: string | null, path: string, body: object) =>
+    server.request(username, path, {
+      method: "POST",
+      body: JSON.stringify(body),
+      headers: { "User-Agent": "audit-test/1.0" },
+    });
+
+  const auditLog = async (query: string) => {
+    const res = await server.request("audit_admin", `/api/audit-log?${query}`);
+    assert.equal(res.status, 200);
+    return await res.json() as AuditLogPage;
+  };
+
+  before(async () => {
+    server = await startTestServer();
+    await server.createUser("audit_admin", "administrator");
+    await server.createUser("audit_reviewer", "reviewer");
+    applicant = await server.createUser("audit_applicant", "applicant");
+    program = await server.storage.createProgram({ name: "Audited", type: "donacija", budgetTotal: 1000, year: 2025 });
+  });
+
+  after(() => server.close());
+
+  it("records logins, failed logins and logouts with the client", async () => {
+    assert.equal((await post(null, "/api/login", { username: "audit_reviewer", password: "wrong" })).status, 401);
+    assert.equal((await post(null, "/api/login", { username: "nobody", password: "wrong" })).status, 401);
+    const login = await post(null, "/api/login", { username: "audit_reviewer", password: TEST_PASSWORD });
+    assert.equal(login.status, 200);
+    const cookie = login.headers.getSetCookie().map((value) => value.split(";")[0]).join("; ");
+    await server.request(null, "/api/logout", { method: "POST", headers: { Cookie: cookie } });
+
+    const reviewer = (await server.storage.getUserByUsername("audit_reviewer"))!;
+    const { items } = await auditLog(`entityType=user&entityId=${reviewer.id}`);
+    // Newest first, down to the sign-in of the test server
+    assert.deepEqual(items.map((entry) => entry.action), ["auth.logout", "auth.login", "auth.login_failed", "auth.login"]);
+    assert.equal(items[0].actorId, reviewer.id);
+    assert.equal(items[1].userAgent, "audit-test/1.0");
+    assert.ok(items[1].ipAddress);
+    assert.equal(items[2].actorId, null);
+    assert.equal(items[2].after?.reason, "Invalid username or password");
+
+    const unknown = await auditLog("action=auth.login_failed");
+    assert.ok(unknown.items.some((entry) => entry.after?.username === "nobody" && entry.entityId === null));
+  });
+
+  it("records role changes, status changes, evaluations and uploads", async () => {
+    const admin = (await server.storage.getUserByUsername("audit_admin"))!;
+    const res = await server.request("audit_admin", `/api/users/${applicant.id}/role`, {
+      method: "PATCH",
+      body: JSON.stringify({ role: "donor" }),
+    });
+    assert.equal(res.status, 200);
+    const [roleChange] = (await auditLog("action=user.role_changed")).items;
+    assert.equal(roleChange.actorId, admin.id);
+    assert.deepEqual([roleChange.before, roleChange.after], [{ role: "applicant" }, { role: "donor" }]);
+    await server.storage.updateUser(applicant.id, { role: "applicant" });
+
+    const application = await server.storage.createApplication({
+      applicantId: applicant.id,
+      programId: program.id,
+      summary: "Audited project",
+      requestedAmount: 100,
+    });
+    await server.storage.updateApplication(application.id, { status: "submitted" });
+    const reviewer = (await server.storage.getUserByUsername("audit_reviewer"))!;
+    await server.storage.createReviewerAssignment({ applicationId: application.id, reviewerId: reviewer.id });
+    const evaluation = await post("audit_reviewer", `/api/applications/${application.id}/evaluations`, { score: 70, decision: "revisit" });
+    assert.equal(evaluation.status, 201);
+
+    const form = new FormData();
+    form.set("file", new Blob([Buffer.from("%PDF-1.4\n%%EOF\n")]), "budget.pdf");
+    const upload = await server.request("audit_applicant", `/api/applications/${application.id}/documents`, { method: "POST", body: form });
+    assert.equal(upload.status, 201);
+
+    const entries = (await auditLog("action=application.status_changed,evaluation.created,document.uploaded")).items;
+    const byAction = (action: AuditLogEntry["action"]) => entries.find((entry) => entry.action === action)!;
+    assert.deepEqual(byAction("application.status_changed").before, { status: "submitted" });
+    assert.deepEqual(byAction("application.status_changed").after, { status: "revisit" });
+    assert.equal(byAction("application.status_changed").entityId, application.id);
+    assert.equal(byAction("evaluation.created").after?.score, 70);
+    assert.equal(byAction("document.uploaded").actorId, applicant.id);
+    assert.equal(byAction("document.uploaded").after?.fileName, "budget.pdf");
+  });
+
+  it("filters, pages and exports the log for permitted users only", async () => {
+    assert.equal((await server.request("audit_reviewer", "/api/audit-log")).status, 403);
+    assert.equal((await server.request("audit_admin", "/api/audit-log?action=unknown")).status, 400);
+
+    const page = await auditLog("limit=2&offset=1");
+    assert.equal(page.items.length, 2);
+    assert.ok(page.total > 3);
+    assert.deepEqual(await auditLog(`from=${new Date(Date.now() + 60_000).toISOString()}`), { items: [], total: 0, limit: 50, offset: 0 });
+
+    const res = await server.request("audit_admin", "/api/audit-log/export?action=auth.login_failed");
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get("content-type")!, /text\/csv/);
+    assert.match(res.headers.get("content-disposition")!, /attachment; filename="audit-log-/);
+    const lines = (await res.text()).trim().split("\r\n");
+    assert.equal(lines[0], "id,createdAt,action,actorId,ipAddress,userAgent,entityType,entityId,before,after");
+    assert.equal(lines.length, 3);
+    assert.ok(lines.slice(1).every((line) => line.includes(",auth.login_failed,")));
+  });
+});
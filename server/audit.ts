@@ -0,0 +1,72 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { NextFunction, Request, Response } from "express";
+import { storage } from "./storage";
+import { onApplicationTransition } from "./application-lifecycle";
+import { AuditLogEntry, InsertAuditLogEntry } from "@shared/schema";
+
+/**
+ * The audit log: logins, logouts and the changes that matter for grant
+ * decisions, with who made them and from where. Routes and hooks call
+ * recordAudit with what happened; the request being served supplies the
+ * actor, IP address and user agent, so code far from the route, such as the
+ * lifecycle hooks, records the same details.
+ */
+
+// Most entries an export returns, newest first
+export const AUDIT_EXPORT_LIMIT = 10000;
+
+const requestContext = new AsyncLocalStorage<Request>();
+
+// Runs the rest of the request with the request available to recordAudit
+export function auditRequestContext(req: Request, _res: Response, next: NextFunction) {
+  requestContext.run(req, next);
+}
+
+export type AuditEvent = Omit<InsertAuditLogEntry, "ipAddress" | "userAgent">;
+
+/**
+ * Appends an entry. The actor defaults to the signed-in user. A failure to
+ * write is logged rather than thrown, since the change it describes has
+ * already happened.
+ */
+export async function recordAudit(event: AuditEvent): Promise<void> {
+  const req = requestContext.getStore();
+  try {
+    await storage.createAuditLogEntry({
+      ...event,
+      actorId: event.actorId !== undefined ? event.actorId : req?.user?.id ?? null,
+      ipAddress: req?.ip ?? null,
+      userAgent: req?.get("user-agent") ?? null,
+    });
+  } catch (error) {
+    console.error(`Failed to record audit entry ${event.action}:`, error);
+  }
+}
+
+onApplicationTransition(async ({ application, from, to, actor, reason }) => {
+  await recordAudit({
+    action: "application.status_changed",
+    actorId: actor.id,
+    entityType: "application",
+    entityId: application.id,
+    before: { status: from },
+    after: reason ? { status: to, reason } : { status: to },
+  });
+});
+
+const CSV_COLUMNS: (keyof AuditLogEntry)[] = [
+  "id", "createdAt", "action", "actorId", "ipAddress", "userAgent", "entityType", "entityId", "before", "after",
+];
+
+function csvValue(value: unknown) {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Spreadsheets would run a value such as a typed username as a formula
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditLogToCsv(entries: AuditLogEntry[]) {
+  const rows = entries.map((entry) => CSV_COLUMNS.map((column) => csvValue(entry[column])).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
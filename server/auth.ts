@@ -1,40 +1,222 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Strategy as BearerStrategy } from "passport-http-bearer";
+import LdapStrategy from "passport-ldapauth";
+import { Express, NextFunction, Request, Response } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
-import { promisify } from "util";
 import { storage } from "./storage";
-import { User } from "@shared/schema";
+import {
+  User as SelectUser,
+  accountUnlockSchema,
+  insertUserSchema,
+  passwordChangeSchema,
+  passwordResetSchema,
+  twoFactorCodeSchema,
+} from "@shared/schema";
 import { validateEmailForApplicantType } from "./registration-utils";
+import {
+  EmailVerificationError,
+  confirmEmail,
+  resendVerificationCode,
+  startEmailVerification,
+  verificationPath,
+} from "./email-verification";
+import {
+  PasswordError,
+  changePassword,
+  comparePasswords,
+  hashPassword,
+  requestPasswordReset,
+  resetPassword,
+} from "./passwords";
+import { TokenError, createTokens, refreshTokens, revokeRefreshToken, revokeTokenFamily, verifyAccessToken } from "./tokens";
+import { LdapEntry, LdapLoginError, ldapConfigFromEnv, provisionLdapUser } from "./ldap";
+import { auditRequestContext, recordAudit } from "./audit";
+import {
+  MAX_TWO_FACTOR_ATTEMPTS,
+  PENDING_LOGIN_TTL_MINUTES,
+  TwoFactorError,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes,
+  startTwoFactorEnrollment,
+  verifySecondFactor,
+} from "./two-factor";
+import { checkRateLimit, hitRateLimit, rateLimit, sendTooManyRequests } from "./rate-limit";
+import { AccountLockoutError, clearFailedLogins, lockedFor, recordFailedLogin, unlockAccount } from "./account-lockout";
+import { z } from "zod";
 
 declare global {
   namespace Express {
-    interface User extends User {}
+    interface User extends SelectUser {}
+    // Set for requests authenticated with an access token
+    interface AuthInfo {
+      sid?: string;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // A password login waiting for its second factor
+    pendingTwoFactor?: { userId: number; authVersion: number; expiresAt: number; attempts: number };
   }
 }
 
-const scryptAsync = promisify(scrypt);
+export { hashPassword, comparePasswords } from "./passwords";
+
+const verifyEmailSchema = z.object({
+  email: z.string().email(),
+  code: z.string().min(1).optional(),
+  token: z.string().min(1).optional(),
+}).refine((body) => body.code !== undefined || body.token !== undefined);
+
+// Links in emails point here; behind a proxy set APP_URL to the public address
+function appUrl(req: Request) {
+  return process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+}
 
-export async function hashPassword(password: string) {
-  const salt = randomBytes(16).toString("hex");
-  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
-  return `${buf.toString("hex")}.${salt}`;
+// With several strategies passport reports one failure per strategy; the
+// last one that says why wins. A failure that is an Error is a directory
+// outage, logged where it happened, whose details stay on the server
+function loginFailureMessage(info: unknown) {
+  const failures = (Array.isArray(info) ? info : [info]) as ({ message?: string } | undefined)[];
+  const failure = [...failures].reverse().find((failure) => failure?.message);
+  if (failure instanceof Error) return "The staff directory is unavailable; try again later";
+  return failure?.message || "Authentication failed";
 }
 
-export async function comparePasswords(supplied: string, stored: string) {
-  // Check if the stored password contains a salt (has a period)
-  if (!stored || !stored.includes('.')) {
-    // For backward compatibility (old passwords may not be hashed properly)
-    // Handle this case by checking if passwords match directly (not recommended for security)
-    console.warn("Password without proper hash format detected");
-    return false;
+type LoginDetails = {
+  failure?: string;
+  // The user whose second factor failed
+  attempted?: SelectUser;
+  secondFactor?: "code" | "recovery_code";
+};
+
+// Records a login, or the attempt when it failed
+async function auditLogin(req: Request, user: SelectUser | false, via: "session" | "token", details: LoginDetails = {}) {
+  if (user) {
+    const after = { via, provider: user.authProvider, ...(details.secondFactor && { secondFactor: details.secondFactor }) };
+    return recordAudit({ action: "auth.login", actorId: user.id, entityType: "user", entityId: user.id, after });
   }
-  
-  const [hashed, salt] = stored.split(".");
-  const hashedBuf = Buffer.from(hashed, "hex");
-  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
-  return timingSafeEqual(hashedBuf, suppliedBuf);
+  const failure = details.failure;
+  const username = details.attempted?.username ?? (typeof req.body?.username === "string" ? req.body.username : null);
+  const known = details.attempted ?? (username ? await storage.getUserByUsername(username) : undefined);
+  await recordAudit({
+    action: "auth.login_failed",
+    actorId: null,
+    entityType: known ? "user" : null,
+    entityId: known?.id ?? null,
+    after: { via, username, reason: failure },
+  });
+}
+
+function requestedUsername(req: Request): string | undefined {
+  return typeof req.body?.username === "string" ? req.body.username : undefined;
+}
+
+// The same answer whether the IP address, the username or the account is
+// held back, so it does not tell which accounts exist
+const LOGIN_THROTTLED_MESSAGE =
+  "Too many failed sign-ins. Try again later, or use the unlock link sent to the account's email address.";
+
+// Sends 429 and returns true when sign-ins from the IP address or to the
+// account are held back; checked before the password
+async function loginThrottled(req: Request, res: Response, user?: SelectUser) {
+  const username = user?.username ?? requestedUsername(req);
+  const account = user ?? (username !== undefined ? await storage.getUserByUsername(username) : undefined);
+  const waits = [
+    await checkRateLimit("login.ip", req.ip ?? "unknown"),
+    username !== undefined ? await checkRateLimit("login.account", username.toLowerCase()) : undefined,
+    account ? await lockedFor(account) : undefined,
+  ].filter((wait): wait is number => wait !== undefined);
+  if (waits.length === 0) return false;
+  sendTooManyRequests(res, Math.max(...waits), LOGIN_THROTTLED_MESSAGE);
+  return true;
+}
+
+async function throttleLogins(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!(await loginThrottled(req, res))) next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Records a failed sign-in and counts it towards the limits and the lockout
+async function failLogin(req: Request, via: "session" | "token", details: LoginDetails) {
+  await auditLogin(req, false, via, details);
+  await countFailedAttempt(req, details.attempted?.username ?? requestedUsername(req), details.attempted);
+}
+
+async function countFailedAttempt(req: Request, username: string | undefined, account?: SelectUser) {
+  await hitRateLimit("login.ip", req.ip ?? "unknown");
+  if (username === undefined) return;
+  await hitRateLimit("login.account", username.toLowerCase());
+  account ??= await storage.getUserByUsername(username);
+  if (account) await recordFailedLogin(account, appUrl(req));
+}
+
+/**
+ * Runs a change that a signed-in user confirms with their second factor.
+ * Wrong codes count like failed sign-ins, so guessing them here runs into the
+ * same limits and lockout as at the second step of a sign-in.
+ */
+async function withSecondFactor(req: Request, res: Response, next: NextFunction, change: (user: SelectUser) => Promise<void>) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const user = req.user;
+  try {
+    if (await loginThrottled(req, res, user)) return;
+    await change(user);
+  } catch (error) {
+    if (error instanceof TwoFactorError && error.wrongCode) {
+      try {
+        await countFailedAttempt(req, user.username, user);
+      } catch (countError) {
+        return next(countError);
+      }
+    }
+    sendTwoFactorError(res, next, error);
+  }
+}
+
+// Records a sign-in that passed every step
+async function succeedLogin(req: Request, user: SelectUser, via: "session" | "token", details: LoginDetails = {}) {
+  await clearFailedLogins(user);
+  await auditLogin(req, user, via, details);
+}
+
+function secondFactorUsed(proof: { code?: string }) {
+  return proof.code !== undefined ? "code" : "recovery_code";
+}
+
+// Paths a user whose role requires two-factor authentication can reach
+// before setting it up, besides the setup itself
+const TWO_FACTOR_SETUP_PATHS = ["/user", "/user/permissions", "/login", "/logout"];
+
+function isTwoFactorSetupPath(path: string) {
+  return TWO_FACTOR_SETUP_PATHS.includes(path) || path === "/user/two-factor" || path.startsWith("/user/two-factor/");
+}
+
+function sendTwoFactorError(res: Response, next: NextFunction, error: unknown) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+  }
+  if (error instanceof TwoFactorError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  next(error);
+}
+
+function sendVerificationError(res: Response, error: EmailVerificationError) {
+  if (error.retryAfter) res.set("Retry-After", String(error.retryAfter));
+  return res.status(error.status).json({ message: error.message });
 }
 
 export function setupAuth(app: Express) {
@@ -52,12 +234,13 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(auditRequestContext);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       try {
         const user = await storage.getUserByUsername(username);
-        if (!user || !(await comparePasswords(password, user.password))) {
+        if (!user || user.authProvider !== "local" || !(await comparePasswords(password, user.password))) {
           return done(null, false, { message: "Invalid username or password" });
         } else {
           return done(null, user);
@@ -68,98 +251,478 @@ export function setupAuth(app: Express) {
     }),
   );
 
-  passport.serializeUser((user, done) => done(null, user.id));
-  passport.deserializeUser(async (id: number, done) => {
+  // Strategies tried in order by the password logins; the directory is asked
+  // only when the credentials do not match a local account
+  const loginStrategies = ["local"];
+  const ldap = ldapConfigFromEnv();
+  if (ldap) {
+    passport.use(
+      new LdapStrategy(
+        {
+          server: ldap.server,
+          // An unreachable directory fails the login instead of erroring the request
+          handleErrorsAsFailures: true,
+          failureErrorCallback: (error) => console.error("LDAP sign-in failed:", error),
+        },
+        async (entry: LdapEntry, done: LdapStrategy.VerifyDoneCallback) => {
+          try {
+            return done(null, await provisionLdapUser(ldap, entry));
+          } catch (error) {
+            if (error instanceof LdapLoginError) return done(null, false, { message: error.message });
+            return done(error);
+          }
+        },
+      ),
+    );
+    loginStrategies.push("ldapauth");
+  }
+
+  passport.use(
+    new BearerStrategy(async (token, done) => {
+      try {
+        const verified = await verifyAccessToken(token);
+        if (!verified) return done(null, false);
+        const info = { scope: "api", sid: verified.claims.sid };
+        return done(null, verified.user, info);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  // Requests with a bearer token authenticate with it instead of the session
+  // cookie; either way the routes see the user as req.user
+  app.use("/api", (req, res, next) => {
+    if (!req.headers.authorization?.startsWith("Bearer ")) return next();
+
+    passport.authenticate("bearer", { session: false }, (err: unknown, user: SelectUser | false, info: Express.AuthInfo) => {
+      if (err) return next(err);
+      if (!user) {
+        res.set("WWW-Authenticate", 'Bearer error="invalid_token"');
+        return res.status(401).json({ message: "Invalid or expired access token" });
+      }
+      req.authInfo = info;
+      req.login(user, { session: false }, next);
+    })(req, res, next);
+  });
+
+  // Until users whose role requires two-factor authentication have set it
+  // up, the API answers only what the setup needs
+  app.use("/api", async (req, res, next) => {
+    if (!req.user || isTwoFactorSetupPath(req.path)) return next();
+    try {
+      if ((await isTwoFactorRequired(req.user)) && !(await isTwoFactorEnabled(req.user))) {
+        return res.status(403).json({ message: "Set up two-factor authentication to continue" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Every API request counts towards a general limit: per user once signed
+  // in, per IP address before
+  const userRequestLimit = rateLimit("api.user", (req) => `user:${req.user!.id}`);
+  const anonymousRequestLimit = rateLimit("api.anonymous");
+  app.use("/api", (req, res, next) => (req.user ? userRequestLimit : anonymousRequestLimit)(req, res, next));
+
+  // Registration and the emailed codes and links are held to stricter limits
+  const verificationLimit = rateLimit("verification.ip");
+
+  // Sessions remember the authVersion they signed in under; changing the
+  // password bumps it and so ends the sessions opened before
+  passport.serializeUser((user, done) => done(null, { id: user.id, authVersion: user.authVersion }));
+  passport.deserializeUser(async (session: number | { id: number; authVersion: number }, done) => {
     try {
+      // Sessions from before authVersion hold the bare id
+      const { id, authVersion } = typeof session === "number" ? { id: session, authVersion: 0 } : session;
       const user = await storage.getUser(id);
-      done(null, user);
+      done(null, user && user.authVersion === authVersion ? user : false);
     } catch (error) {
       done(error);
     }
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", rateLimit("register.ip"), async (req, res, next) => {
     try {
+      // Staff accounts are not self-service; sign-ups are always applicants
+      const account = insertUserSchema.parse({ ...req.body, role: "applicant" });
+
       // Check if user already exists
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const existingUser = await storage.getUserByUsername(account.username);
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
-      const existingEmail = await storage.getUserByEmail(req.body.email);
+      const existingEmail = await storage.getUserByEmail(account.email);
       if (existingEmail) {
         return res.status(400).json({ message: "Email already exists" });
       }
       
-      // Validate email format based on applicant type if role is applicant
-      if (req.body.role === 'applicant' && req.body.applicantTypeId) {
-        // Get the applicant type name
-        const applicantType = await storage.getApplicantType(req.body.applicantTypeId);
-        if (!applicantType) {
-          console.error(`Invalid applicant type ID: ${req.body.applicantTypeId}`);
-          return res.status(400).json({ message: "Invalid applicant type" });
-        }
-        
-        console.log(`Processing registration for ${req.body.email} with applicant type: ${applicantType.name} (ID: ${applicantType.id})`);
-        
-        // Validate email for this applicant type
-        const emailValidation = validateEmailForApplicantType(
-          req.body.email, 
-          applicantType.name
-        );
-        
-        if (!emailValidation.valid) {
-          console.log(`Registration rejected due to email validation: ${emailValidation.message}`);
-          return res.status(400).json({ 
-            message: emailValidation.message || "Email is not valid for this applicant type"
-          });
-        }
-        
-        console.log(`Email validation passed for ${req.body.email}`);
+      if (!account.applicantTypeId) {
+        return res.status(400).json({ message: "Choose an applicant type" });
       }
-
-      // For mockup - store in session and redirect to verification instead of creating user
-      // In a real application, we would send a verification email with a code at this point
-      
-      // Store verification data in session if available
-      if (req.session) {
-        req.session.verificationData = {
-          ...req.body,
-          password: await hashPassword(req.body.password),
-          pendingVerification: true
-        };
-        console.log("Stored verification data in session");
+      const applicantType = await storage.getApplicantType(account.applicantTypeId);
+      if (!applicantType) {
+        console.error(`Invalid applicant type ID: ${account.applicantTypeId}`);
+        return res.status(400).json({ message: "Invalid applicant type" });
       }
       
-      // Create a base64 encoded email for URL safety
-      const encodedEmail = Buffer.from(req.body.email).toString('base64');
+      console.log(`Processing registration for ${account.email} with applicant type: ${applicantType.name} (ID: ${applicantType.id})`);
+      
+      // Validate email for this applicant type
+      const emailValidation = validateEmailForApplicantType(
+        account.email, 
+        applicantType.name
+      );
+      
+      if (!emailValidation.valid) {
+        console.log(`Registration rejected due to email validation: ${emailValidation.message}`);
+        return res.status(400).json({ 
+          message: emailValidation.message || "Email is not valid for this applicant type"
+        });
+      }
+
+      // The account is created once the emailed code comes back
+      const pending = await startEmailVerification(
+        { ...account, password: await hashPassword(account.password) },
+        appUrl(req)
+      );
       
-      // Return success with redirection information
       return res.status(200).json({
         success: true,
         message: "Verification code sent to email. Please check your inbox.",
-        redirectUrl: `/verification/${encodedEmail}/${req.body.applicantTypeId}`
+        redirectUrl: verificationPath(pending)
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid registration data", errors: error.errors });
+      }
+      if (error instanceof EmailVerificationError) {
+        return sendVerificationError(res, error);
+      }
       next(error);
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err, user, info) => {
-      if (err) return next(err);
-      if (!user) return res.status(401).json({ message: info?.message || "Authentication failed" });
+  // Confirms a sign-up with the emailed code or link token and signs the new user in
+  app.post("/api/register/verify", verificationLimit, async (req, res, next) => {
+    try {
+      const { email, code, token } = verifyEmailSchema.parse(req.body);
+      const user = await confirmEmail(email, code !== undefined ? { code } : { token: token! });
 
       req.login(user, (loginErr) => {
         if (loginErr) return next(loginErr);
-        // Remove password from response
         const { password, ...userWithoutPassword } = user;
-        return res.status(200).json(userWithoutPassword);
+        return res.status(201).json(userWithoutPassword);
       });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Enter the verification code", errors: error.errors });
+      }
+      if (error instanceof EmailVerificationError) {
+        return sendVerificationError(res, error);
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/register/resend", verificationLimit, async (req, res, next) => {
+    try {
+      const { email } = z.object({ email: z.string().email() }).parse(req.body);
+      await resendVerificationCode(email, appUrl(req));
+      res.json({ message: "A new verification code was sent" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid email address", errors: error.errors });
+      }
+      if (error instanceof EmailVerificationError) {
+        return sendVerificationError(res, error);
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/login", throttleLogins, (req, res, next) => {
+    passport.authenticate(loginStrategies, (err: unknown, user: SelectUser | false, info: unknown) => {
+      if (err) return next(err);
+      if (!user) {
+        const message = loginFailureMessage(info);
+        return failLogin(req, "session", { failure: message }).then(() => res.status(401).json({ message }), next);
+      }
+
+      // With two-factor authentication on, the session waits for the code
+      // instead of signing in
+      isTwoFactorEnabled(user).then((enabled) => {
+        if (enabled) {
+          req.session.pendingTwoFactor = {
+            userId: user.id,
+            authVersion: user.authVersion,
+            expiresAt: Date.now() + PENDING_LOGIN_TTL_MINUTES * 60 * 1000,
+            attempts: 0,
+          };
+          return res.status(200).json({ twoFactorRequired: true });
+        }
+
+        req.login(user, async (loginErr) => {
+          if (loginErr) return next(loginErr);
+          try {
+            await succeedLogin(req, user, "session");
+            // Remove password from response
+            const { password, ...userWithoutPassword } = user;
+            return res.status(200).json(userWithoutPassword);
+          } catch (error) {
+            next(error);
+          }
+        });
+      }, next);
     })(req, res, next);
   });
 
-  app.post("/api/logout", (req, res, next) => {
+  // Second step of a password login with two-factor authentication on
+  app.post("/api/login/two-factor", async (req, res, next) => {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt <= Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: "Sign in again to enter a new code" });
+    }
+
+    try {
+      const proof = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.authVersion !== pending.authVersion) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Sign in again to enter a new code" });
+      }
+      if (await loginThrottled(req, res, user)) {
+        delete req.session.pendingTwoFactor;
+        return;
+      }
+
+      if (!(await verifySecondFactor(user, proof))) {
+        pending.attempts += 1;
+        const exhausted = pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS;
+        if (exhausted) delete req.session.pendingTwoFactor;
+        const message = exhausted ? "Too many wrong codes; sign in again" : "The code is not correct";
+        await failLogin(req, "session", { failure: message, attempted: user });
+        return res.status(401).json({ message });
+      }
+
+      delete req.session.pendingTwoFactor;
+      req.login(user, async (loginErr) => {
+        if (loginErr) return next(loginErr);
+        try {
+          await succeedLogin(req, user, "session", { secondFactor: secondFactorUsed(proof) });
+          const { password, ...userWithoutPassword } = user;
+          res.json(userWithoutPassword);
+        } catch (error) {
+          next(error);
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Token login for API clients, with the same credentials as /api/login
+  app.post("/api/token", throttleLogins, (req, res, next) => {
+    passport.authenticate(loginStrategies, { session: false }, async (err: unknown, user: SelectUser | false, info: unknown) => {
+      if (err) return next(err);
+      if (!user) {
+        const message = loginFailureMessage(info);
+        return failLogin(req, "token", { failure: message }).then(() => res.status(401).json({ message }), next);
+      }
+
+      try {
+        // Token clients send the second factor along with the password
+        let secondFactor: LoginDetails["secondFactor"];
+        if (await isTwoFactorEnabled(user)) {
+          if (req.body?.code === undefined && req.body?.recoveryCode === undefined) {
+            return res.status(401).json({ message: "Enter the code from your authenticator app", twoFactorRequired: true });
+          }
+          const proof = twoFactorCodeSchema.parse(req.body);
+          if (!(await verifySecondFactor(user, proof))) {
+            await failLogin(req, "token", { failure: "The code is not correct", attempted: user });
+            return res.status(401).json({ message: "The code is not correct", twoFactorRequired: true });
+          }
+          secondFactor = secondFactorUsed(proof);
+        }
+
+        await succeedLogin(req, user, "token", { secondFactor });
+        const { password, ...userWithoutPassword } = user;
+        res.json({ ...(await createTokens(user)), user: userWithoutPassword });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+        }
+        next(error);
+      }
+    })(req, res, next);
+  });
+
+  app.post("/api/token/refresh", async (req, res, next) => {
+    try {
+      const { refreshToken } = z.object({ refreshToken: z.string().min(1) }).parse(req.body);
+      res.json(await refreshTokens(refreshToken));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "refreshToken is required", errors: error.errors });
+      }
+      if (error instanceof TokenError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/password/forgot", verificationLimit, async (req, res, next) => {
+    try {
+      const { email } = z.object({ email: z.string().email() }).parse(req.body);
+      await requestPasswordReset(email, appUrl(req));
+      res.json({ message: "If an account uses this address, a reset link is on its way" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid email address", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/password/reset", verificationLimit, async (req, res, next) => {
+    try {
+      const { token, password } = passwordResetSchema.parse(req.body);
+      await resetPassword(token, password);
+      res.json({ message: "Your password was reset. Sign in with the new password." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      if (error instanceof PasswordError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Lifts a lockout with the link mailed when it started
+  app.post("/api/account/unlock", verificationLimit, async (req, res, next) => {
+    try {
+      const { token } = accountUnlockSchema.parse(req.body);
+      await unlockAccount(token);
+      res.json({ message: "Your account is unlocked. You can sign in again." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "The unlock link is incomplete", errors: error.errors });
+      }
+      if (error instanceof AccountLockoutError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/user/password", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { currentPassword, newPassword } = passwordChangeSchema.parse(req.body);
+      const user = await changePassword(req.user, currentPassword, newPassword);
+
+      // Token clients get a new family, as the old tokens end with the password
+      if (req.authInfo?.sid) {
+        await revokeTokenFamily(req.authInfo.sid);
+        return res.json({ message: "Your password was changed", ...(await createTokens(user)) });
+      }
+
+      // Keep this session under the new authVersion; the others end
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json({ message: "Your password was changed" });
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      if (error instanceof PasswordError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.get("/api/user/two-factor", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      res.json(await getTwoFactorStatus(req.user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/two-factor/setup", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      res.json(await startTwoFactorEnrollment(req.user));
+    } catch (error) {
+      sendTwoFactorError(res, next, error);
+    }
+  });
+
+  // Confirms the setup with a first code and hands out the recovery codes
+  app.post("/api/user/two-factor/enable", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      if (code === undefined) {
+        return res.status(400).json({ message: "Enter the 6-digit code from your authenticator app" });
+      }
+      res.json({ recoveryCodes: await confirmTwoFactorEnrollment(req.user, code) });
+    } catch (error) {
+      sendTwoFactorError(res, next, error);
+    }
+  });
+
+  // Turning it off and new recovery codes both ask for a current code
+  app.post("/api/user/two-factor/disable", (req, res, next) =>
+    withSecondFactor(req, res, next, async (user) => {
+      await disableTwoFactor(user, twoFactorCodeSchema.parse(req.body));
+      res.json({ message: "Two-factor authentication is off" });
+    }));
+
+  app.post("/api/user/two-factor/recovery-codes", (req, res, next) =>
+    withSecondFactor(req, res, next, async (user) => {
+      res.json({ recoveryCodes: await regenerateRecoveryCodes(user, twoFactorCodeSchema.parse(req.body)) });
+    }));
+
+  app.post("/api/logout", async (req, res, next) => {
+    // API clients end their token family, named by the refresh token or the access token
+    try {
+      if (req.user) {
+        await recordAudit({ action: "auth.logout", entityType: "user", entityId: req.user.id, after: { via: req.authInfo?.sid ? "token" : "session" } });
+      }
+      if (typeof req.body?.refreshToken === "string") await revokeRefreshToken(req.body.refreshToken);
+      if (req.authInfo?.sid) {
+        await revokeTokenFamily(req.authInfo.sid);
+        return res.sendStatus(200);
+      }
+    } catch (error) {
+      return next(error);
+    }
+
     req.logout((err) => {
       if (err) return next(err);
       res.sendStatus(200);
@@ -171,7 +734,7 @@ export function setupAuth(app: Express) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     // Remove password from response
-    const { password, ...userWithoutPassword } = req.user as User;
+    const { password, ...userWithoutPassword } = req.user as SelectUser;
     res.json(userWithoutPassword);
   });
   
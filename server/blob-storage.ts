@@ -0,0 +1,134 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+
+/**
+ * Where uploaded files live. Documents store the key returned by put() in
+ * their filePath column; the bytes are kept by one of the drivers below.
+ *
+ * BLOB_DRIVER selects the driver:
+ *  - "local" (default): files under UPLOAD_DIR, ./uploads if unset
+ *  - "s3": an S3-compatible bucket (AWS, MinIO, ...), configured with
+ *    S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID and
+ *    S3_SECRET_ACCESS_KEY
+ */
+
+export interface BlobStore {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // undefined when there is no blob under the key
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly root: string) {}
+
+  // Keys are generated by the server, but never let one escape the root
+  private resolve(key: string) {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, body: Buffer) {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+  }
+
+  async get(key: string) {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+export interface S3BlobStoreOptions {
+  bucket: string;
+  region?: string;
+  // Set for S3-compatible services such as MinIO
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export class S3BlobStore implements BlobStore {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor(options: S3BlobStoreOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region ?? "us-east-1",
+      endpoint: options.endpoint,
+      // MinIO and most self-hosted services do not support bucket subdomains
+      forcePathStyle: !!options.endpoint,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string) {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : undefined;
+    } catch (error) {
+      if (error instanceof NoSuchKey) return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+export function createBlobStore(env: NodeJS.ProcessEnv = process.env): BlobStore {
+  const driver = env.BLOB_DRIVER || "local";
+
+  if (driver === "local") {
+    return new LocalBlobStore(env.UPLOAD_DIR || path.resolve("uploads"));
+  }
+
+  if (driver === "s3") {
+    if (!env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when BLOB_DRIVER is s3");
+    }
+    return new S3BlobStore({
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION,
+      endpoint: env.S3_ENDPOINT,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  throw new Error(`Unknown BLOB_DRIVER "${driver}"`);
+}
+
+export const blobStore = createBlobStore();
@@ -0,0 +1,1300 @@
+import { users, User, InsertUser, programs, Program, InsertProgram,
+  applicantTypes, ApplicantType, InsertApplicantType,
+  registrationProcesses, RegistrationProcess, InsertRegistrationProcess,
+  pendingRegistrations, PendingRegistration, InsertPendingRegistration,
+  passwordResetTokens, PasswordResetToken, InsertPasswordResetToken,
+  refreshTokens, RefreshToken, InsertRefreshToken,
+  twoFactorCredentials, TwoFactorCredential, InsertTwoFactorCredential,
+  accountLockouts, AccountLockout,
+  verificationDocuments, VerificationDocument, InsertVerificationDocument,
+  applications, Application, InsertApplication, documents, Document, InsertDocument,
+  documentVersions, DocumentVersion, InsertDocumentVersion,
+  documentEvents, DocumentEvent, DocumentQuery, DocumentPage,
+  evaluations, Evaluation, InsertEvaluation, EvaluationQuery, EvaluationPage, messages, Message, InsertMessage,
+  notifications, Notification, InsertNotification,
+  budgetTracking, BudgetTracking, InsertBudgetTracking,
+  programDonors, ProgramDonor, InsertProgramDonor,
+  reviewerAssignments, ReviewerAssignment, InsertReviewerAssignment,
+  rolePermissions, RolePermission, roleSettings, RoleSetting,
+  rateLimitPolicies, RateLimitPolicy, RateLimitUpdate, rateLimitCounters, RateLimitCounter,
+  applicationSnapshots, ApplicationSnapshot, InsertApplicationSnapshot,
+  applicationAmendments, ApplicationAmendment, InsertApplicationAmendment,
+  auditLog, AuditLogEntry, InsertAuditLogEntry, AuditLogQuery, AuditLogPage,
+  ApplicationQuery, ApplicationPage, ApplicationScope } from "@shared/schema";
+import type { Role } from "@shared/permissions";
+import session from "express-session";
+import { and, asc, count, desc, eq, gte, ilike, inArray, isNotNull, isNull, lt, lte, ne, or, sql, type SQL } from "drizzle-orm";
+import type { IStorage } from "./storage";
+import type { Database } from "./db";
+import {
+  SEED_PASSWORD,
+  hashSeedPassword,
+  seedUsers,
+  seedPrograms,
+  seedApplicantTypes,
+  seedBudgetTracking,
+  seedApplications,
+  seedEvaluations,
+  seedDocuments,
+  seedMessages,
+  seedProgramDonors,
+  seedReviewerAssignments,
+} from "./seed-data";
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(readonly db: Database, sessionStore: session.Store) {
+    this.sessionStore = sessionStore;
+  }
+
+  /**
+   * Inserts the shared fixtures. Safe to run on every startup: rows are
+   * matched on their natural keys (username, program and applicant type
+   * name, application code) and only missing ones are inserted.
+   */
+  async seedInitialData() {
+    const hashedPassword = await hashSeedPassword(SEED_PASSWORD);
+
+    // Fixture id (1-based position) -> row id
+    const userIds = new Map<number, number>();
+    const applicantTypeIds = new Map<number, number>();
+    const programIds = new Map<number, number>();
+    const applicationIds = new Map<number, number>();
+    // Also covers applications that were seeded on an earlier run
+    const knownApplicationIds = new Map<number, number>();
+
+    // Applicant types come first, users refer to them
+    const existingApplicantTypes = await this.getApplicantTypes();
+    for (let index = 0; index < seedApplicantTypes.length; index++) {
+      const fixture = seedApplicantTypes[index];
+      const type = existingApplicantTypes.find((t) => t.name === fixture.name)
+        ?? await this.createApplicantType(fixture);
+      applicantTypeIds.set(index + 1, type.id);
+    }
+
+    for (let index = 0; index < seedUsers.length; index++) {
+      const fixture = seedUsers[index];
+      const user = await this.getUserByUsername(fixture.username)
+        ?? await this.createUser({
+          ...fixture,
+          applicantTypeId: fixture.applicantTypeId ? applicantTypeIds.get(fixture.applicantTypeId) : null,
+          password: hashedPassword,
+        });
+      userIds.set(index + 1, user.id);
+    }
+
+    const existingPrograms = await this.getPrograms();
+    for (let index = 0; index < seedPrograms.length; index++) {
+      const fixture = seedPrograms[index];
+      const program = existingPrograms.find((p) => p.name === fixture.name)
+        ?? await this.createProgram(fixture);
+      programIds.set(index + 1, program.id);
+    }
+
+    for (const fixture of seedBudgetTracking) {
+      const programId = programIds.get(fixture.programId)!;
+      if (!(await this.getBudgetTrackingByProgram(programId))) {
+        await this.createBudgetTracking({ ...fixture, programId });
+      }
+    }
+
+    // Applications keep their fixed codes; children are only inserted
+    // together with a newly inserted application
+    for (let index = 0; index < seedApplications.length; index++) {
+      const fixture = seedApplications[index];
+      const [existing] = await this.db
+        .select()
+        .from(applications)
+        .where(eq(applications.autoCode, fixture.autoCode));
+      if (existing) {
+        knownApplicationIds.set(index + 1, existing.id);
+        continue;
+      }
+
+      const [application] = await this.db
+        .insert(applications)
+        .values({
+          ...fixture,
+          applicantId: userIds.get(fixture.applicantId)!,
+          programId: programIds.get(fixture.programId)!,
+        })
+        .returning();
+      applicationIds.set(index + 1, application.id);
+      knownApplicationIds.set(index + 1, application.id);
+    }
+
+    for (const fixture of seedEvaluations) {
+      const applicationId = applicationIds.get(fixture.applicationId);
+      if (!applicationId) continue;
+      await this.db.insert(evaluations).values({
+        ...fixture,
+        applicationId,
+        evaluatedBy: userIds.get(fixture.evaluatedBy)!,
+      });
+    }
+
+    for (const fixture of seedDocuments) {
+      const applicationId = applicationIds.get(fixture.applicationId);
+      if (!applicationId) continue;
+      const [document] = await this.db.insert(documents).values({
+        ...fixture,
+        applicationId,
+        uploadedBy: userIds.get(fixture.uploadedBy)!,
+      }).returning();
+      await this.db.insert(documentVersions).values({
+        documentId: document.id,
+        version: 1,
+        fileName: document.fileName,
+        fileType: document.fileType,
+        filePath: document.filePath,
+        uploadedBy: document.uploadedBy,
+        uploadedAt: document.uploadedAt ?? undefined,
+      });
+    }
+
+    for (const fixture of seedMessages) {
+      const applicationId = applicationIds.get(fixture.applicationId);
+      if (!applicationId) continue;
+      await this.db.insert(messages).values({
+        ...fixture,
+        applicationId,
+        senderId: userIds.get(fixture.senderId)!,
+        receiverId: userIds.get(fixture.receiverId)!,
+      });
+    }
+
+    for (const fixture of seedProgramDonors) {
+      await this.db
+        .insert(programDonors)
+        .values({
+          programId: programIds.get(fixture.programId)!,
+          donorId: userIds.get(fixture.donorId)!,
+        })
+        .onConflictDoNothing();
+    }
+
+    for (const fixture of seedReviewerAssignments) {
+      const applicationId = knownApplicationIds.get(fixture.applicationId);
+      if (!applicationId) continue;
+      await this.db
+        .insert(reviewerAssignments)
+        .values({
+          applicationId,
+          reviewerId: userIds.get(fixture.reviewerId)!,
+          assignedBy: fixture.assignedBy ? userIds.get(fixture.assignedBy)! : null,
+        })
+        .onConflictDoNothing();
+    }
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return await this.db.select().from(users).orderBy(users.id);
+  }
+
+  async updateUser(id: number, userUpdate: Partial<User>): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set(userUpdate)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Program methods
+  async getProgram(id: number): Promise<Program | undefined> {
+    const [program] = await this.db.select().from(programs).where(eq(programs.id, id));
+    return program;
+  }
+
+  async getPrograms(): Promise<Program[]> {
+    return await this.db.select().from(programs).orderBy(programs.id);
+  }
+
+  async createProgram(insertProgram: InsertProgram): Promise<Program> {
+    const [program] = await this.db.insert(programs).values(insertProgram).returning();
+    return program;
+  }
+
+  async updateProgram(id: number, programUpdate: Partial<Program>): Promise<Program | undefined> {
+    const [program] = await this.db
+      .update(programs)
+      .set(programUpdate)
+      .where(eq(programs.id, id))
+      .returning();
+    return program;
+  }
+
+  // Applicant Type methods
+  async getApplicantType(id: number): Promise<ApplicantType | undefined> {
+    const [applicantType] = await this.db
+      .select()
+      .from(applicantTypes)
+      .where(eq(applicantTypes.id, id));
+    return applicantType;
+  }
+
+  async getApplicantTypes(): Promise<ApplicantType[]> {
+    return await this.db.select().from(applicantTypes).orderBy(applicantTypes.id);
+  }
+
+  async createApplicantType(insertApplicantType: InsertApplicantType): Promise<ApplicantType> {
+    const [applicantType] = await this.db
+      .insert(applicantTypes)
+      .values(insertApplicantType)
+      .returning();
+    return applicantType;
+  }
+
+  async updateApplicantType(id: number, applicantTypeUpdate: Partial<ApplicantType>): Promise<ApplicantType | undefined> {
+    const [applicantType] = await this.db
+      .update(applicantTypes)
+      .set(applicantTypeUpdate)
+      .where(eq(applicantTypes.id, id))
+      .returning();
+    return applicantType;
+  }
+
+  // Registration Process methods
+  async getRegistrationProcess(id: number): Promise<RegistrationProcess | undefined> {
+    const [registrationProcess] = await this.db
+      .select()
+      .from(registrationProcesses)
+      .where(eq(registrationProcesses.id, id));
+    return registrationProcess;
+  }
+
+  async getRegistrationProcessByUser(userId: number): Promise<RegistrationProcess | undefined> {
+    const [registrationProcess] = await this.db
+      .select()
+      .from(registrationProcesses)
+      .where(eq(registrationProcesses.userId, userId));
+    return registrationProcess;
+  }
+
+  async getRegistrationProcesses(): Promise<RegistrationProcess[]> {
+    return await this.db
+      .select()
+      .from(registrationProcesses)
+      .orderBy(registrationProcesses.id);
+  }
+
+  async createRegistrationProcess(insertRegistrationProcess: InsertRegistrationProcess): Promise<RegistrationProcess> {
+    const [registrationProcess] = await this.db
+      .insert(registrationProcesses)
+      .values(insertRegistrationProcess)
+      .returning();
+    return registrationProcess;
+  }
+
+  async updateRegistrationProcess(id: number, registrationProcessUpdate: Partial<RegistrationProcess>): Promise<RegistrationProcess | undefined> {
+    const [registrationProcess] = await this.db
+      .update(registrationProcesses)
+      .set({ ...registrationProcessUpdate, updatedAt: new Date() })
+      .where(eq(registrationProcesses.id, id))
+      .returning();
+    return registrationProcess;
+  }
+
+  // Pending registration methods
+  async getPendingRegistrationByEmail(email: string): Promise<PendingRegistration | undefined> {
+    const [pendingRegistration] = await this.db
+      .select()
+      .from(pendingRegistrations)
+      .where(eq(pendingRegistrations.email, email));
+    return pendingRegistration;
+  }
+
+  async createPendingRegistration(insertPendingRegistration: InsertPendingRegistration): Promise<PendingRegistration> {
+    const [pendingRegistration] = await this.db
+      .insert(pendingRegistrations)
+      .values(insertPendingRegistration)
+      .returning();
+    return pendingRegistration;
+  }
+
+  async updatePendingRegistration(id: number, pendingRegistrationUpdate: Partial<PendingRegistration>): Promise<PendingRegistration | undefined> {
+    const [pendingRegistration] = await this.db
+      .update(pendingRegistrations)
+      .set(pendingRegistrationUpdate)
+      .where(eq(pendingRegistrations.id, id))
+      .returning();
+    return pendingRegistration;
+  }
+
+  async deletePendingRegistration(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(pendingRegistrations)
+      .where(eq(pendingRegistrations.id, id))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Password reset token methods
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await this.db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [token] = await this.db
+      .insert(passwordResetTokens)
+      .values(insertToken)
+      .returning();
+    return token;
+  }
+
+  async markPasswordResetTokensUsed(userId: number): Promise<number> {
+    const used = await this.db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)))
+      .returning();
+    return used.length;
+  }
+
+  // Refresh token methods
+  async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined> {
+    const [token] = await this.db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getRefreshTokensByFamily(familyId: string): Promise<RefreshToken[]> {
+    return await this.db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.familyId, familyId))
+      .orderBy(asc(refreshTokens.id));
+  }
+
+  async createRefreshToken(insertToken: InsertRefreshToken): Promise<RefreshToken> {
+    const [token] = await this.db
+      .insert(refreshTokens)
+      .values(insertToken)
+      .returning();
+    return token;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<number> {
+    const revoked = await this.db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.familyId, familyId), isNull(refreshTokens.revokedAt)))
+      .returning();
+    return revoked.length;
+  }
+
+  async revokeRefreshToken(id: number): Promise<boolean> {
+    const revoked = await this.db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.id, id), isNull(refreshTokens.revokedAt)))
+      .returning();
+    return revoked.length > 0;
+  }
+
+  // Two-factor credential methods
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await this.db
+      .select()
+      .from(twoFactorCredentials)
+      .where(eq(twoFactorCredentials.userId, userId));
+    return credential;
+  }
+
+  async replaceTwoFactorCredential(insertCredential: InsertTwoFactorCredential): Promise<TwoFactorCredential> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, insertCredential.userId));
+      const [credential] = await tx
+        .insert(twoFactorCredentials)
+        .values(insertCredential)
+        .returning();
+      return credential;
+    });
+  }
+
+  async updateTwoFactorCredential(userId: number, updates: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined> {
+    const { id, userId: _userId, ...values } = updates;
+    const [credential] = await this.db
+      .update(twoFactorCredentials)
+      .set(values)
+      .where(eq(twoFactorCredentials.userId, userId))
+      .returning();
+    return credential;
+  }
+
+  async deleteTwoFactorCredential(userId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(twoFactorCredentials)
+      .where(eq(twoFactorCredentials.userId, userId))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async advanceTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const advanced = await this.db
+      .update(twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        or(isNull(twoFactorCredentials.lastUsedStep), sql`${twoFactorCredentials.lastUsedStep} < ${step}`),
+      ))
+      .returning();
+    return advanced.length > 0;
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const consumed = await this.db
+      .update(twoFactorCredentials)
+      .set({ recoveryCodeHashes: sql`${twoFactorCredentials.recoveryCodeHashes} - ${codeHash}::text` })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        sql`${twoFactorCredentials.recoveryCodeHashes} @> ${JSON.stringify([codeHash])}::jsonb`,
+      ))
+      .returning();
+    return consumed.length > 0;
+  }
+
+  // Account lockout methods
+  async getAccountLockout(userId: number): Promise<AccountLockout | undefined> {
+    const [lockout] = await this.db
+      .select()
+      .from(accountLockouts)
+      .where(eq(accountLockouts.userId, userId));
+    return lockout;
+  }
+
+  async getAccountLockoutByUnlockTokenHash(tokenHash: string): Promise<AccountLockout | undefined> {
+    const [lockout] = await this.db
+      .select()
+      .from(accountLockouts)
+      .where(eq(accountLockouts.unlockTokenHash, tokenHash));
+    return lockout;
+  }
+
+  async incrementFailedLogins(userId: number): Promise<AccountLockout> {
+    const [lockout] = await this.db
+      .insert(accountLockouts)
+      .values({ userId, failedAttempts: 1 })
+      .onConflictDoUpdate({
+        target: accountLockouts.userId,
+        set: { failedAttempts: sql`${accountLockouts.failedAttempts} + 1`, updatedAt: new Date() },
+      })
+      .returning();
+    return lockout;
+  }
+
+  async updateAccountLockout(userId: number, updates: Partial<AccountLockout>): Promise<AccountLockout | undefined> {
+    const { id, userId: _userId, ...values } = updates;
+    const [lockout] = await this.db
+      .update(accountLockouts)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(accountLockouts.userId, userId))
+      .returning();
+    return lockout;
+  }
+
+  async deleteAccountLockout(userId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(accountLockouts)
+      .where(eq(accountLockouts.userId, userId))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Verification Document methods
+  async getVerificationDocument(id: number): Promise<VerificationDocument | undefined> {
+    const [verificationDocument] = await this.db
+      .select()
+      .from(verificationDocuments)
+      .where(eq(verificationDocuments.id, id));
+    return verificationDocument;
+  }
+
+  async getVerificationDocumentsByUser(userId: number): Promise<VerificationDocument[]> {
+    return await this.db
+      .select()
+      .from(verificationDocuments)
+      .where(eq(verificationDocuments.userId, userId))
+      .orderBy(verificationDocuments.id);
+  }
+
+  async getVerificationDocumentsByRegistrationProcess(registrationProcessId: number): Promise<VerificationDocument[]> {
+    return await this.db
+      .select()
+      .from(verificationDocuments)
+      .where(eq(verificationDocuments.registrationProcessId, registrationProcessId))
+      .orderBy(verificationDocuments.id);
+  }
+
+  async createVerificationDocument(insertVerificationDocument: InsertVerificationDocument): Promise<VerificationDocument> {
+    const [verificationDocument] = await this.db
+      .insert(verificationDocuments)
+      .values(insertVerificationDocument)
+      .returning();
+    return verificationDocument;
+  }
+
+  async updateVerificationDocument(id: number, verificationDocumentUpdate: Partial<VerificationDocument>): Promise<VerificationDocument | undefined> {
+    const [verificationDocument] = await this.db
+      .update(verificationDocuments)
+      .set({ ...verificationDocumentUpdate, updatedAt: new Date() })
+      .where(eq(verificationDocuments.id, id))
+      .returning();
+    return verificationDocument;
+  }
+
+  // Application methods
+  async getApplication(id: number): Promise<Application | undefined> {
+    const [application] = await this.db
+      .select()
+      .from(applications)
+      .where(eq(applications.id, id));
+    return application;
+  }
+
+  async getApplications(): Promise<Application[]> {
+    return await this.db.select().from(applications).orderBy(applications.id);
+  }
+
+  async getApplicationsByApplicant(applicantId: number): Promise<Application[]> {
+    return await this.db
+      .select()
+      .from(applications)
+      .where(eq(applications.applicantId, applicantId))
+      .orderBy(applications.id);
+  }
+
+  async getApplicationsByProgram(programId: number): Promise<Application[]> {
+    return await this.db
+      .select()
+      .from(applications)
+      .where(eq(applications.programId, programId))
+      .orderBy(applications.id);
+  }
+
+  private applicationFilters(query: ApplicationQuery, ignoreStatus = false): SQL | undefined {
+    const conditions: (SQL | undefined)[] = [];
+
+    if (!ignoreStatus && query.status) conditions.push(inArray(applications.status, query.status));
+    if (query.programId !== undefined) conditions.push(eq(applications.programId, query.programId));
+    if (query.applicantId !== undefined) conditions.push(eq(applications.applicantId, query.applicantId));
+    if (query.applicantTypeId !== undefined) conditions.push(eq(applications.applicantTypeId, query.applicantTypeId));
+    if (query.ids) conditions.push(inArray(applications.id, query.ids));
+    if (query.submittedFrom) conditions.push(gte(applications.submittedAt, query.submittedFrom));
+    if (query.submittedTo) conditions.push(lte(applications.submittedAt, query.submittedTo));
+    if (query.minAmount !== undefined) conditions.push(gte(applications.requestedAmount, query.minAmount));
+    if (query.maxAmount !== undefined) conditions.push(lte(applications.requestedAmount, query.maxAmount));
+
+    if (query.q) {
+      // Match the text literally, not as a LIKE pattern
+      const pattern = `%${query.q.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+      conditions.push(or(
+        ilike(applications.summary, pattern),
+        ilike(applications.autoCode, pattern),
+        ilike(applications.organization, pattern),
+        ilike(applications.description, pattern),
+      ));
+    }
+
+    return and(...conditions);
+  }
+
+  private applicationScope(scope: ApplicationScope): SQL {
+    const conditions: SQL[] = [];
+
+    if (scope.applicantId !== undefined) conditions.push(eq(applications.applicantId, scope.applicantId));
+    if (scope.programIds?.length) conditions.push(inArray(applications.programId, scope.programIds));
+    if (scope.applicationIds?.length) conditions.push(inArray(applications.id, scope.applicationIds));
+
+    // An empty scope grants nothing
+    return or(...conditions) ?? sql`false`;
+  }
+
+  async queryApplications(query: ApplicationQuery, scope?: ApplicationScope): Promise<ApplicationPage> {
+    const scopeCondition = scope ? this.applicationScope(scope) : undefined;
+    const where = and(scopeCondition, this.applicationFilters(query));
+    const direction = query.order === "asc" ? sql`asc` : sql`desc`;
+
+    const items = await this.db
+      .select()
+      .from(applications)
+      .where(where)
+      .orderBy(sql`${applications[query.sort]} ${direction} nulls last`, asc(applications.id))
+      .limit(query.limit)
+      .offset(query.offset);
+
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(applications)
+      .where(where);
+
+    const counts = await this.db
+      .select({ status: applications.status, total: count() })
+      .from(applications)
+      .where(and(scopeCondition, this.applicationFilters(query, true)))
+      .groupBy(applications.status);
+
+    const statusCounts: ApplicationPage["statusCounts"] = {};
+    counts.forEach((row) => {
+      statusCounts[row.status] = row.total;
+    });
+
+    return { items, total, limit: query.limit, offset: query.offset, statusCounts };
+  }
+
+  async countSubmissionsByMonth(year: number, scope?: ApplicationScope): Promise<number[]> {
+    const month = sql<number>`extract(month from ${applications.submittedAt})::int`;
+    const rows = await this.db
+      .select({ month, total: count() })
+      .from(applications)
+      .where(and(
+        scope ? this.applicationScope(scope) : undefined,
+        gte(applications.submittedAt, new Date(Date.UTC(year, 0, 1))),
+        lt(applications.submittedAt, new Date(Date.UTC(year + 1, 0, 1))),
+      ))
+      .groupBy(month);
+
+    const months = new Array<number>(12).fill(0);
+    rows.forEach((row) => {
+      months[row.month - 1] = row.total;
+    });
+    return months;
+  }
+
+  async createApplication(insertApplication: InsertApplication): Promise<Application> {
+    // The code embeds the row id, so it is filled in right after the insert
+    return await this.db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(applications)
+        .values({ ...insertApplication, status: "draft", autoCode: "" })
+        .returning();
+
+      const date = new Date();
+      const month = (date.getMonth() + 1).toString().padStart(2, '0');
+      const year = date.getFullYear();
+      const autoCode = `${inserted.id.toString().padStart(4, '0')}/${month}/${year}`;
+
+      const [application] = await tx
+        .update(applications)
+        .set({ autoCode })
+        .where(eq(applications.id, inserted.id))
+        .returning();
+      return application;
+    });
+  }
+
+  async updateApplication(id: number, applicationUpdate: Partial<Application>): Promise<Application | undefined> {
+    const application = await this.getApplication(id);
+    if (!application) return undefined;
+
+    // If status is changing to submitted, add submittedAt date
+    if (applicationUpdate.status === "submitted" && application.status === "draft") {
+      applicationUpdate.submittedAt = new Date();
+    }
+
+    const [updatedApplication] = await this.db
+      .update(applications)
+      .set(applicationUpdate)
+      .where(eq(applications.id, id))
+      .returning();
+    return updatedApplication;
+  }
+
+  // Document methods
+  async getDocument(id: number): Promise<Document | undefined> {
+    const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getDocumentsByApplication(applicationId: number): Promise<Document[]> {
+    return await this.db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.applicationId, applicationId), isNull(documents.deletedAt)))
+      .orderBy(documents.id);
+  }
+
+  private documentFilters(query: DocumentQuery): SQL | undefined {
+    const conditions: (SQL | undefined)[] = [
+      query.deleted ? isNotNull(documents.deletedAt) : isNull(documents.deletedAt),
+    ];
+
+    if (query.applicationId !== undefined) conditions.push(eq(documents.applicationId, query.applicationId));
+    if (query.fileType) conditions.push(inArray(documents.fileType, query.fileType));
+    if (query.uploadedBy !== undefined) conditions.push(eq(documents.uploadedBy, query.uploadedBy));
+    if (query.uploadedFrom) conditions.push(gte(documents.uploadedAt, query.uploadedFrom));
+    if (query.uploadedTo) conditions.push(lte(documents.uploadedAt, query.uploadedTo));
+    if (query.q) {
+      const pattern = `%${query.q.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+      conditions.push(ilike(documents.fileName, pattern));
+    }
+
+    return and(...conditions);
+  }
+
+  async queryDocuments(query: DocumentQuery, scope?: ApplicationScope): Promise<DocumentPage> {
+    // Documents are visible where their application is
+    const scopeCondition = scope
+      ? inArray(documents.applicationId, this.db.select({ id: applications.id }).from(applications).where(this.applicationScope(scope)))
+      : undefined;
+    const where = and(scopeCondition, this.documentFilters(query));
+
+    const items = await this.db
+      .select()
+      .from(documents)
+      .where(where)
+      .orderBy(sql`${documents.uploadedAt} desc nulls last`, desc(documents.id))
+      .limit(query.limit)
+      .offset(query.offset);
+
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(documents)
+      .where(where);
+
+    return { items, total, limit: query.limit, offset: query.offset };
+  }
+
+  async createDocument(insertDocument: InsertDocument): Promise<Document> {
+    return await this.db.transaction(async (tx) => {
+      const [document] = await tx.insert(documents).values(insertDocument).returning();
+      await tx.insert(documentVersions).values({
+        documentId: document.id,
+        version: 1,
+        fileName: document.fileName,
+        fileType: document.fileType,
+        filePath: document.filePath,
+        size: document.size,
+        checksum: document.checksum,
+        uploadedBy: document.uploadedBy,
+        uploadedAt: document.uploadedAt ?? undefined,
+      });
+      return document;
+    });
+  }
+
+  async deleteDocument(id: number, actorId: number, reason?: string | null): Promise<Document | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [document] = await tx
+        .update(documents)
+        .set({ deletedAt: new Date(), deletedBy: actorId })
+        .where(eq(documents.id, id))
+        .returning();
+      if (!document) return undefined;
+
+      await tx.insert(documentEvents).values({ documentId: id, action: "deleted", actorId, reason: reason ?? null });
+      return document;
+    });
+  }
+
+  async restoreDocument(id: number, actorId: number, reason?: string | null): Promise<Document | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [document] = await tx
+        .update(documents)
+        .set({ deletedAt: null, deletedBy: null })
+        .where(eq(documents.id, id))
+        .returning();
+      if (!document) return undefined;
+
+      await tx.insert(documentEvents).values({ documentId: id, action: "restored", actorId, reason: reason ?? null });
+      return document;
+    });
+  }
+
+  async getDocumentEvents(documentId: number): Promise<DocumentEvent[]> {
+    return await this.db
+      .select()
+      .from(documentEvents)
+      .where(eq(documentEvents.documentId, documentId))
+      .orderBy(documentEvents.id);
+  }
+
+  // Document version methods
+  async getDocumentVersions(documentId: number): Promise<DocumentVersion[]> {
+    return await this.db
+      .select()
+      .from(documentVersions)
+      .where(eq(documentVersions.documentId, documentId))
+      .orderBy(documentVersions.version);
+  }
+
+  async getDocumentVersion(documentId: number, version: number): Promise<DocumentVersion | undefined> {
+    const [documentVersion] = await this.db
+      .select()
+      .from(documentVersions)
+      .where(and(
+        eq(documentVersions.documentId, documentId),
+        eq(documentVersions.version, version),
+      ));
+    return documentVersion;
+  }
+
+  async createDocumentVersion(insertVersion: InsertDocumentVersion): Promise<DocumentVersion> {
+    return await this.db.transaction(async (tx) => {
+      // As with snapshots, the unique (document_id, version) constraint
+      // rejects a concurrent duplicate
+      const [documentVersion] = await tx
+        .insert(documentVersions)
+        .values({
+          ...insertVersion,
+          version: sql<number>`(
+            select coalesce(max(${documentVersions.version}), 0) + 1
+            from ${documentVersions}
+            where ${documentVersions.documentId} = ${insertVersion.documentId}
+          )`,
+        })
+        .returning();
+
+      await tx
+        .update(documents)
+        .set({
+          fileName: documentVersion.fileName,
+          fileType: documentVersion.fileType,
+          filePath: documentVersion.filePath,
+          size: documentVersion.size,
+          checksum: documentVersion.checksum,
+          currentVersion: documentVersion.version,
+        })
+        .where(eq(documents.id, documentVersion.documentId));
+      return documentVersion;
+    });
+  }
+
+  // Evaluation methods
+  async getEvaluation(id: number): Promise<Evaluation | undefined> {
+    const [evaluation] = await this.db
+      .select()
+      .from(evaluations)
+      .where(eq(evaluations.id, id));
+    return evaluation;
+  }
+
+  async getEvaluationsByApplication(applicationId: number): Promise<Evaluation[]> {
+    return await this.db
+      .select()
+      .from(evaluations)
+      .where(eq(evaluations.applicationId, applicationId))
+      .orderBy(evaluations.id);
+  }
+
+  async queryEvaluations(query: EvaluationQuery, scope?: ApplicationScope): Promise<EvaluationPage> {
+    // Evaluations are visible where their application is
+    const where = and(
+      scope
+        ? inArray(evaluations.applicationId, this.db.select({ id: applications.id }).from(applications).where(this.applicationScope(scope)))
+        : undefined,
+      query.applicationId !== undefined ? eq(evaluations.applicationId, query.applicationId) : undefined,
+      query.evaluatedBy !== undefined ? eq(evaluations.evaluatedBy, query.evaluatedBy) : undefined,
+      query.excludeEvaluatedBy !== undefined ? ne(evaluations.evaluatedBy, query.excludeEvaluatedBy) : undefined,
+    );
+
+    const items = await this.db
+      .select()
+      .from(evaluations)
+      .where(where)
+      .orderBy(sql`${evaluations.createdAt} desc nulls last`, desc(evaluations.id))
+      .limit(query.limit)
+      .offset(query.offset);
+
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(evaluations)
+      .where(where);
+
+    return { items, total, limit: query.limit, offset: query.offset };
+  }
+
+  async createEvaluation(insertEvaluation: InsertEvaluation): Promise<Evaluation> {
+    const [evaluation] = await this.db.insert(evaluations).values(insertEvaluation).returning();
+    return evaluation;
+  }
+
+  // Message methods
+  async getMessage(id: number): Promise<Message | undefined> {
+    const [message] = await this.db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  async getMessagesByApplication(applicationId: number): Promise<Message[]> {
+    return await this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.applicationId, applicationId))
+      .orderBy(messages.id);
+  }
+
+  async getMessagesBySender(senderId: number): Promise<Message[]> {
+    return await this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.senderId, senderId))
+      .orderBy(messages.id);
+  }
+
+  async getMessagesByReceiver(receiverId: number): Promise<Message[]> {
+    return await this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.receiverId, receiverId))
+      .orderBy(messages.id);
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    const [message] = await this.db
+      .insert(messages)
+      .values({ ...insertMessage, read: false })
+      .returning();
+    return message;
+  }
+
+  async markMessageAsRead(id: number): Promise<Message | undefined> {
+    const [message] = await this.db
+      .update(messages)
+      .set({ read: true })
+      .where(eq(messages.id, id))
+      .returning();
+    return message;
+  }
+
+  // Notification methods
+  async getNotificationsByUser(userId: number): Promise<Notification[]> {
+    return await this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.id));
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db
+      .insert(notifications)
+      .values(insertNotification)
+      .returning();
+    return notification;
+  }
+
+  async markNotificationAsRead(id: number): Promise<Notification | undefined> {
+    const [notification] = await this.db
+      .update(notifications)
+      .set({ read: true })
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+
+  // Budget tracking methods
+  async getBudgetTracking(id: number): Promise<BudgetTracking | undefined> {
+    const [tracking] = await this.db
+      .select()
+      .from(budgetTracking)
+      .where(eq(budgetTracking.id, id));
+    return tracking;
+  }
+
+  async getBudgetTrackingByProgram(programId: number): Promise<BudgetTracking | undefined> {
+    const [tracking] = await this.db
+      .select()
+      .from(budgetTracking)
+      .where(eq(budgetTracking.programId, programId));
+    return tracking;
+  }
+
+  async createBudgetTracking(insertBudgetTracking: InsertBudgetTracking): Promise<BudgetTracking> {
+    const [tracking] = await this.db
+      .insert(budgetTracking)
+      .values(insertBudgetTracking)
+      .returning();
+    return tracking;
+  }
+
+  async updateBudgetTracking(id: number, budgetTrackingUpdate: Partial<BudgetTracking>): Promise<BudgetTracking | undefined> {
+    const [tracking] = await this.db
+      .update(budgetTracking)
+      .set({ ...budgetTrackingUpdate, updatedAt: new Date() })
+      .where(eq(budgetTracking.id, id))
+      .returning();
+    return tracking;
+  }
+
+  // Program donor methods
+  async getProgramDonorsByProgram(programId: number): Promise<ProgramDonor[]> {
+    return await this.db
+      .select()
+      .from(programDonors)
+      .where(eq(programDonors.programId, programId))
+      .orderBy(programDonors.id);
+  }
+
+  async getProgramDonorsByDonor(donorId: number): Promise<ProgramDonor[]> {
+    return await this.db
+      .select()
+      .from(programDonors)
+      .where(eq(programDonors.donorId, donorId))
+      .orderBy(programDonors.id);
+  }
+
+  async createProgramDonor(insertProgramDonor: InsertProgramDonor): Promise<ProgramDonor> {
+    const [programDonor] = await this.db
+      .insert(programDonors)
+      .values(insertProgramDonor)
+      .returning();
+    return programDonor;
+  }
+
+  async deleteProgramDonor(programId: number, donorId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(programDonors)
+      .where(and(eq(programDonors.programId, programId), eq(programDonors.donorId, donorId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Reviewer assignment methods
+  async getReviewerAssignmentsByApplication(applicationId: number): Promise<ReviewerAssignment[]> {
+    return await this.db
+      .select()
+      .from(reviewerAssignments)
+      .where(eq(reviewerAssignments.applicationId, applicationId))
+      .orderBy(reviewerAssignments.id);
+  }
+
+  async getReviewerAssignmentsByReviewer(reviewerId: number): Promise<ReviewerAssignment[]> {
+    return await this.db
+      .select()
+      .from(reviewerAssignments)
+      .where(eq(reviewerAssignments.reviewerId, reviewerId))
+      .orderBy(reviewerAssignments.id);
+  }
+
+  async createReviewerAssignment(insertAssignment: InsertReviewerAssignment): Promise<ReviewerAssignment> {
+    const [assignment] = await this.db
+      .insert(reviewerAssignments)
+      .values(insertAssignment)
+      .returning();
+    return assignment;
+  }
+
+  async deleteReviewerAssignment(applicationId: number, reviewerId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(reviewerAssignments)
+      .where(and(
+        eq(reviewerAssignments.applicationId, applicationId),
+        eq(reviewerAssignments.reviewerId, reviewerId),
+      ))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Role permission methods
+  async getRolePermissions(): Promise<RolePermission[]> {
+    return await this.db.select().from(rolePermissions).orderBy(rolePermissions.id);
+  }
+
+  async getPermissionsByRole(role: Role): Promise<string[]> {
+    const rows = await this.db
+      .select({ permission: rolePermissions.permission })
+      .from(rolePermissions)
+      .where(eq(rolePermissions.role, role))
+      .orderBy(rolePermissions.id);
+    return rows.map((row) => row.permission);
+  }
+
+  async setRolePermissions(role: Role, permissions: string[]): Promise<string[]> {
+    const unique = Array.from(new Set(permissions));
+    await this.db.transaction(async (tx) => {
+      await tx.delete(rolePermissions).where(eq(rolePermissions.role, role));
+      if (unique.length > 0) {
+        await tx.insert(rolePermissions).values(unique.map((permission) => ({ role, permission })));
+      }
+    });
+    return unique;
+  }
+
+  // Role setting methods
+  async getRoleSettings(): Promise<RoleSetting[]> {
+    return await this.db.select().from(roleSettings);
+  }
+
+  async setRoleTwoFactorRequired(role: Role, required: boolean): Promise<RoleSetting> {
+    const [setting] = await this.db
+      .insert(roleSettings)
+      .values({ role, twoFactorRequired: required })
+      .onConflictDoUpdate({ target: roleSettings.role, set: { twoFactorRequired: required } })
+      .returning();
+    return setting;
+  }
+
+  // Rate limit methods
+  async getRateLimitPolicies(): Promise<RateLimitPolicy[]> {
+    return await this.db.select().from(rateLimitPolicies);
+  }
+
+  async setRateLimitPolicy(name: string, update: RateLimitUpdate): Promise<RateLimitPolicy> {
+    const values = { limit: update.limit, windowSeconds: update.windowSeconds, updatedAt: new Date() };
+    const [policy] = await this.db
+      .insert(rateLimitPolicies)
+      .values({ name, ...values })
+      .onConflictDoUpdate({ target: rateLimitPolicies.name, set: values })
+      .returning();
+    return policy;
+  }
+
+  async getRateLimitCount(key: string, windowStart: Date): Promise<number> {
+    const [counter] = await this.db
+      .select({ count: rateLimitCounters.count })
+      .from(rateLimitCounters)
+      .where(and(eq(rateLimitCounters.key, key), eq(rateLimitCounters.windowStart, windowStart)));
+    return counter?.count ?? 0;
+  }
+
+  async incrementRateLimitCounter(key: string, windowStart: Date): Promise<number> {
+    const [counter] = await this.db
+      .insert(rateLimitCounters)
+      .values({ key, windowStart, count: 1 })
+      .onConflictDoUpdate({
+        target: [rateLimitCounters.key, rateLimitCounters.windowStart],
+        set: { count: sql`${rateLimitCounters.count} + 1` },
+      })
+      .returning({ count: rateLimitCounters.count });
+    return counter.count;
+  }
+
+  async deleteRateLimitCountersBefore(before: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(rateLimitCounters)
+      .where(lt(rateLimitCounters.windowStart, before))
+      .returning({ id: rateLimitCounters.id });
+    return deleted.length;
+  }
+
+  // Application snapshot methods
+  async getApplicationSnapshots(applicationId: number): Promise<ApplicationSnapshot[]> {
+    return await this.db
+      .select()
+      .from(applicationSnapshots)
+      .where(eq(applicationSnapshots.applicationId, applicationId))
+      .orderBy(applicationSnapshots.version);
+  }
+
+  async getApplicationSnapshot(applicationId: number, version: number): Promise<ApplicationSnapshot | undefined> {
+    const [snapshot] = await this.db
+      .select()
+      .from(applicationSnapshots)
+      .where(and(
+        eq(applicationSnapshots.applicationId, applicationId),
+        eq(applicationSnapshots.version, version),
+      ));
+    return snapshot;
+  }
+
+  async createApplicationSnapshot(insertSnapshot: InsertApplicationSnapshot): Promise<ApplicationSnapshot> {
+    // The next version is computed in the insert itself; the unique
+    // (application_id, version) constraint rejects a concurrent duplicate
+    const [snapshot] = await this.db
+      .insert(applicationSnapshots)
+      .values({
+        ...insertSnapshot,
+        version: sql<number>`(
+          select coalesce(max(${applicationSnapshots.version}), 0) + 1
+          from ${applicationSnapshots}
+          where ${applicationSnapshots.applicationId} = ${insertSnapshot.applicationId}
+        )`,
+      })
+      .returning();
+    return snapshot;
+  }
+
+  // Application amendment methods
+  async getApplicationAmendment(id: number): Promise<ApplicationAmendment | undefined> {
+    const [amendment] = await this.db
+      .select()
+      .from(applicationAmendments)
+      .where(eq(applicationAmendments.id, id));
+    return amendment;
+  }
+
+  async getApplicationAmendments(applicationId: number): Promise<ApplicationAmendment[]> {
+    return await this.db
+      .select()
+      .from(applicationAmendments)
+      .where(eq(applicationAmendments.applicationId, applicationId))
+      .orderBy(applicationAmendments.id);
+  }
+
+  async createApplicationAmendment(insertAmendment: InsertApplicationAmendment): Promise<ApplicationAmendment> {
+    const [amendment] = await this.db
+      .insert(applicationAmendments)
+      .values(insertAmendment)
+      .returning();
+    return amendment;
+  }
+
+  async updateApplicationAmendment(id: number, amendmentUpdate: Partial<ApplicationAmendment>): Promise<ApplicationAmendment | undefined> {
+    const [amendment] = await this.db
+      .update(applicationAmendments)
+      .set(amendmentUpdate)
+      .where(eq(applicationAmendments.id, id))
+      .returning();
+    return amendment;
+  }
+
+  // Audit log methods
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [created] = await this.db.insert(auditLog).values(entry).returning();
+    return created;
+  }
+
+  async queryAuditLog(query: AuditLogQuery): Promise<AuditLogPage> {
+    const conditions: (SQL | undefined)[] = [];
+    if (query.action) conditions.push(inArray(auditLog.action, query.action));
+    if (query.actorId !== undefined) conditions.push(eq(auditLog.actorId, query.actorId));
+    if (query.entityType) conditions.push(eq(auditLog.entityType, query.entityType));
+    if (query.entityId !== undefined) conditions.push(eq(auditLog.entityId, query.entityId));
+    if (query.from) conditions.push(gte(auditLog.createdAt, query.from));
+    if (query.to) conditions.push(lte(auditLog.createdAt, query.to));
+    const where = and(...conditions);
+
+    const items = await this.db
+      .select()
+      .from(auditLog)
+      .where(where)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(query.limit)
+      .offset(query.offset);
+
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(auditLog)
+      .where(where);
+
+    return { items, total, limit: query.limit, offset: query.offset };
+  }
+}
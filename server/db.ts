@@ -0,0 +1,16 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Postgres-flavoured Drizzle database built over the shared schema
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  const db = drizzle({ client: pool, schema });
+  return { pool, db };
+}
@@ -0,0 +1,98 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "module";
+import PDFDocument from "pdfkit";
+import { LocalDocumentVerifier, createDocumentVerifier, findDates, normalizeText } from "./document-verification";
+
+const require = createRequire(import.meta.url);
+const FONT = require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans.ttf");
+
+function pdf(text: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument();
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    doc.font(FONT).text(text);
+    doc.end();
+  });
+}
+
+describe("local document verifier", () => {
+  const verifier = new LocalDocumentVerifier(undefined, () => new Date("2025-06-01T12:00:00Z"));
+  const applicant = { fullName: "Amra Hodžić", organizationName: null };
+
+  const verify = async (documentType: string, text: string) =>
+    verifier.verify({ content: await pdf(text), fileType: "application/pdf", documentType, applicant });
+
+  it("normalizes diacritics and finds dates", () => {
+    assert.equal(normalizeText("Đurđa  HODŽIĆ"), "durda hodzic");
+    assert.deepEqual(
+      findDates("Issued 01.02.2020, valid until 2030-12-31, not 31.02.2021").map((found) => found.date.toISOString().slice(0, 10)),
+      ["2020-02-01", "2030-12-31"],
+    );
+  });
+
+  it("confirms an identity document that names the applicant and has not expired", async () => {
+    const result = await verify("id_card_passport",
+      "BOSNA I HERCEGOVINA - LIČNA KARTA\nIme i prezime: AMRA HODZIC\nBroj: A12345678\nIzdao: MUP KS Sarajevo\nDatum izdavanja: 01.02.2020\nVrijedi do: 01.02.2030");
+
+    assert.equal(result.score, 100);
+    assert.equal(result.verified, true);
+    assert.deepEqual(result.issues, []);
+    assert.equal(result.extractedFields.full_name, "Amra Hodžić");
+    assert.equal(result.extractedFields.expiry_date, "2030-02-01");
+    assert.equal(result.extractedFields.document_number, "A12345678");
+  });
+
+  it("reports an expired document and a different name", async () => {
+    const result = await verify("id_card_passport",
+      "Passport\nName: Emir Begić\nNo. AB1234567\nIssued by Ministry of Civil Affairs\nDate of expiry: 15.03.2024");
+
+    assert.equal(result.verified, false);
+    assert.equal(result.score, 60);
+    assert.deepEqual(result.issues, [
+      'The name "Amra Hodžić" does not appear in the document',
+      "The document expired on 2024-03-15",
+    ]);
+  });
+
+  it("counts the words of letters and CVs", async () => {
+    const short = await verify("motivation_letter", "The purpose of this grant is to reach our goals.");
+    assert.equal(short.score, 67);
+    assert.match(short.issues[0], /has 10 words, 300 are required/);
+
+    const long = await verify("motivation_letter", `Purpose and goals. ${"We plan to grow. ".repeat(80)}`);
+    assert.equal(long.score, 100);
+  });
+
+  it("scores files without text at zero", async () => {
+    const result = await verifier.verify({
+      content: Buffer.from([0xff, 0xd8, 0xff]),
+      fileType: "image/jpeg",
+      documentType: "signed_declaration",
+      applicant,
+    });
+    assert.equal(result.score, 0);
+    assert.equal(result.verified, false);
+    assert.ok(result.checks.every((check) => check.passed === null));
+    assert.match(result.issues[0], /check the document by eye/);
+  });
+
+  it("applies the rules configured per document type", async () => {
+    const strict = new LocalDocumentVerifier({
+      signed_declaration: { requirements: ["full_name", "date"], maxAgeDays: 30 },
+    }, () => new Date("2025-06-01T12:00:00Z"));
+    const result = await strict.verify({
+      content: Buffer.from("Izjava\nAmra Hodžić\nSarajevo, 02.01.2025"),
+      fileType: "text/plain",
+      documentType: "signed_declaration",
+      applicant,
+    });
+    assert.deepEqual(result.checks.map((check) => [check.requirement, check.passed]), [["full_name", true], ["date", false]]);
+    assert.match(result.issues[0], /more than 30 days ago/);
+
+    assert.throws(() => createDocumentVerifier({ DOCUMENT_VERIFIER: "cloud" }), /Unknown DOCUMENT_VERIFIER/);
+  });
+});
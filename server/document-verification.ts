@@ -0,0 +1,305 @@
+import { readFileSync } from "fs";
+import { extractText, getDocumentProxy } from "unpdf";
+import type { User } from "@shared/schema";
+import { HIGH_CONFIDENCE_SCORE, VERIFICATION_REQUIREMENTS } from "@shared/constants";
+
+/**
+ * Automated checks of registration documents. A verifier reads a document,
+ * extracts the fields its type requires (VERIFICATION_REQUIREMENTS) and
+ * scores how many of them it could confirm. Admins still take the decision;
+ * the score orders their queue.
+ *
+ * DOCUMENT_VERIFIER selects the provider:
+ *  - "local" (default): text extraction and heuristics in this process. The
+ *    rules per document type can be adjusted with a JSON file named by
+ *    DOCUMENT_VERIFICATION_RULES_FILE, keyed by document type.
+ */
+
+export interface DocumentVerificationInput {
+  content: Buffer;
+  fileType: string;
+  documentType: string;
+  // The applicant, whose names the document should mention
+  applicant: Pick<User, "fullName" | "organizationName">;
+}
+
+export interface RequirementCheck {
+  requirement: string;
+  // null when the verifier has no check for the requirement
+  passed: boolean | null;
+  detail?: string;
+}
+
+export interface DocumentVerificationResult {
+  verified: boolean;
+  // Share of the checked requirements that passed, 0-100
+  score: number;
+  extractedFields: Record<string, string>;
+  checks: RequirementCheck[];
+  issues: string[];
+  message: string;
+}
+
+export interface DocumentVerifier {
+  verify(input: DocumentVerificationInput): Promise<DocumentVerificationResult>;
+}
+
+export interface DocumentRules {
+  // Requirements to check; defaults to VERIFICATION_REQUIREMENTS of the type
+  requirements?: string[];
+  // Phrases that satisfy a requirement when one of them appears in the text
+  keywords?: Record<string, string[]>;
+  // How old the newest date in the document may be, for statements and certificates
+  maxAgeDays?: number;
+  // Score from which the document counts as verified
+  minScore?: number;
+}
+
+const DEFAULT_KEYWORDS: Record<string, string[]> = {
+  document_type: ["identity card", "id card", "passport", "lična karta", "licna karta", "osobna iskaznica", "pasoš", "pasos"],
+  issuing_authority: ["issued by", "ministry", "ministarstvo", "mup", "izdao", "izdaje", "court", "sud", "agency", "agencija"],
+  education: ["education", "university", "faculty", "school", "obrazovanje", "fakultet", "univerzitet", "škola"],
+  experience: ["experience", "employment", "worked", "iskustvo", "zaposlenje", "radno"],
+  purpose: ["purpose", "aim", "objective", "mission", "svrha", "cilj", "misija"],
+  goals: ["goal", "objective", "plan", "cilj", "ciljevi"],
+  signature: ["signature", "signed", "potpis", "potpisano", "m.p."],
+  signatures: ["signature", "signed", "potpis", "potpisano"],
+  governance_structure: ["assembly", "board", "president", "skupština", "upravni odbor", "predsjednik"],
+  meeting_reference: ["meeting", "session", "sjednica", "sastanak"],
+  position: ["director", "president", "secretary", "manager", "direktor", "predsjednik", "sekretar"],
+  bank_name: ["bank", "banka"],
+  legal_structure: ["d.o.o", "d.d.", "limited", "llc", "ltd", "društvo", "obrt"],
+};
+
+const DEFAULT_RULES: Record<string, DocumentRules> = {
+  bank_statement: { maxAgeDays: 180 },
+  tax_id_document: { maxAgeDays: 365 * 5 },
+};
+
+// Fields naming the applicant, and which profile name they should match
+const NAME_FIELDS: Record<string, "person" | "entity"> = {
+  full_name: "person",
+  organization_name: "entity",
+  company_name: "entity",
+  entity_name: "entity",
+  account_holder_name: "entity",
+};
+
+const DATE_FIELDS = ["date", "issue_date", "registration_date", "decision_date", "statement_date"];
+
+const PATTERN_FIELDS: Record<string, RegExp> = {
+  document_number: /\b[A-Z]{0,3}\d{6,10}\b/,
+  tax_id_number: /\b\d{12,13}\b/,
+  registration_number: /\b(?:\d{1,3}-\d{1,2}-\d{3,6}(?:-\d{1,3})?|\d{2,3}\/\d{2,4}(?:\/\d{2,4})?)\b/,
+  account_number: /\b(?:[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}|\d{3}-?\d{3}-?\d{8}-?\d{2})\b/,
+};
+
+const EXPIRY_MARKERS = /(expir\w*|valid until|vrijedi do|važi do|vazi do|datum isteka)/i;
+
+// Lower case without diacritics, so "Hodžić" matches "HODZIC"
+export function normalizeText(text: string) {
+  return text
+    .replace(/[đĐ]/g, "d")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+}
+
+interface FoundDate {
+  date: Date;
+  index: number;
+}
+
+// Dates written as 31.12.2030, 31/12/2030 or 2030-12-31
+export function findDates(text: string): FoundDate[] {
+  const found: FoundDate[] = [];
+  const patterns: [RegExp, (match: RegExpExecArray) => [number, number, number]][] = [
+    [/\b(\d{1,2})[./](\d{1,2})[./](\d{4})\b/g, (m) => [+m[3], +m[2], +m[1]]],
+    [/\b(\d{4})-(\d{2})-(\d{2})\b/g, (m) => [+m[1], +m[2], +m[3]]],
+  ];
+  for (const [pattern, parts] of patterns) {
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      const [year, month, day] = parts(match);
+      const date = new Date(Date.UTC(year, month - 1, day));
+      if (date.getUTCMonth() === month - 1 && date.getUTCDate() === day) {
+        found.push({ date, index: match.index });
+      }
+    }
+  }
+  return found.sort((a, b) => a.index - b.index);
+}
+
+function isoDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function nameMatches(text: string, name: string | null | undefined) {
+  const parts = normalizeText(name ?? "").split(/[^a-z0-9]+/).filter((part) => part.length > 1);
+  return parts.length > 0 && parts.every((part) => new RegExp(`\\b${part}\\b`).test(text));
+}
+
+/**
+ * Reads the text of a document; undefined for formats without a text layer
+ */
+export async function readDocumentText(content: Buffer, fileType: string): Promise<string | undefined> {
+  if (fileType === "application/pdf") {
+    const pdf = await getDocumentProxy(new Uint8Array(content));
+    const { text } = await extractText(pdf, { mergePages: true });
+    return text;
+  }
+  if (fileType.startsWith("text/")) {
+    return content.toString("utf8");
+  }
+  return undefined;
+}
+
+export class LocalDocumentVerifier implements DocumentVerifier {
+  constructor(
+    private readonly rules: Record<string, DocumentRules> = DEFAULT_RULES,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  async verify(input: DocumentVerificationInput): Promise<DocumentVerificationResult> {
+    const rules = this.rules[input.documentType] ?? {};
+    const requirements = rules.requirements ??
+      VERIFICATION_REQUIREMENTS[input.documentType as keyof typeof VERIFICATION_REQUIREMENTS] ?? [];
+
+    let text: string | undefined;
+    let unreadable: string | undefined;
+    try {
+      text = await readDocumentText(input.content, input.fileType);
+      if (text === undefined) unreadable = "Text cannot be read from this file type; check the document by eye";
+    } catch {
+      unreadable = "The document could not be read";
+    }
+    if (!unreadable && !text?.trim()) {
+      unreadable = "No text could be read from the document; it may be a scan without a text layer";
+    }
+
+    if (unreadable || !text) {
+      return {
+        verified: false,
+        score: 0,
+        extractedFields: {},
+        checks: requirements.map((requirement) => ({ requirement, passed: null })),
+        issues: [unreadable!],
+        message: unreadable!,
+      };
+    }
+
+    const normalized = normalizeText(text);
+    const extractedFields: Record<string, string> = {};
+    const checks = requirements.map((requirement) =>
+      this.check(requirement, text, normalized, input, rules, extractedFields));
+
+    const checked = checks.filter((check) => check.passed !== null);
+    const passed = checked.filter((check) => check.passed);
+    const score = checked.length === 0 ? 0 : Math.round((passed.length / checked.length) * 100);
+    const issues = checked
+      .filter((check) => !check.passed)
+      .map((check) => check.detail ?? `Could not confirm ${check.requirement.replace(/_/g, " ")}`);
+    const verified = issues.length === 0 && score >= (rules.minScore ?? HIGH_CONFIDENCE_SCORE);
+
+    return {
+      verified,
+      score,
+      extractedFields,
+      checks,
+      issues,
+      message: verified
+        ? "All checked requirements were found in the document."
+        : `${passed.length} of ${checked.length} checked requirements were confirmed.`,
+    };
+  }
+
+  private check(
+    requirement: string,
+    text: string,
+    normalized: string,
+    input: DocumentVerificationInput,
+    rules: DocumentRules,
+    extractedFields: Record<string, string>,
+  ): RequirementCheck {
+    const minWords = /^min_length_words_(\d+)$/.exec(requirement);
+    if (minWords) {
+      const words = normalized.split(" ").filter((word) => /[a-z0-9]/.test(word)).length;
+      const passed = words >= parseInt(minWords[1], 10);
+      return { requirement, passed, detail: passed ? undefined : `The document has ${words} words, ${minWords[1]} are required` };
+    }
+
+    if (requirement in NAME_FIELDS) {
+      const { fullName, organizationName } = input.applicant;
+      const name = NAME_FIELDS[requirement] === "person" ? fullName : organizationName || fullName;
+      const passed = nameMatches(normalized, name);
+      if (passed) extractedFields[requirement] = name!;
+      return { requirement, passed, detail: passed ? undefined : `The name "${name}" does not appear in the document` };
+    }
+
+    if (requirement === "expiry_date") {
+      const dates = findDates(text);
+      const marker = EXPIRY_MARKERS.exec(text);
+      // The first date after an expiry marker, else the latest date
+      const expiry = (marker && dates.find((found) => found.index > marker.index)) ||
+        dates.slice().sort((a, b) => b.date.getTime() - a.date.getTime())[0];
+      if (!expiry) return { requirement, passed: false, detail: "No expiry date was found" };
+
+      extractedFields[requirement] = isoDate(expiry.date);
+      const passed = expiry.date.getTime() > this.now().getTime();
+      return { requirement, passed, detail: passed ? undefined : `The document expired on ${isoDate(expiry.date)}` };
+    }
+
+    if (DATE_FIELDS.includes(requirement)) {
+      const dates = findDates(text);
+      if (dates.length === 0) return { requirement, passed: false, detail: "No date was found" };
+
+      const newest = dates.reduce((a, b) => (b.date > a.date ? b : a)).date;
+      extractedFields[requirement] = isoDate(newest);
+      if (rules.maxAgeDays !== undefined) {
+        const age = (this.now().getTime() - newest.getTime()) / 86_400_000;
+        if (age > rules.maxAgeDays) {
+          return { requirement, passed: false, detail: `The document is dated ${isoDate(newest)}, more than ${rules.maxAgeDays} days ago` };
+        }
+      }
+      return { requirement, passed: true };
+    }
+
+    const pattern = PATTERN_FIELDS[requirement];
+    if (pattern) {
+      const match = pattern.exec(text);
+      if (match) extractedFields[requirement] = match[0];
+      return { requirement, passed: !!match };
+    }
+
+    const keywords = rules.keywords?.[requirement] ?? DEFAULT_KEYWORDS[requirement];
+    if (keywords) {
+      const found = keywords.find((keyword) => normalized.includes(normalizeText(keyword)));
+      if (found) extractedFields[requirement] = found;
+      return { requirement, passed: !!found };
+    }
+
+    return { requirement, passed: null };
+  }
+}
+
+function loadRules(file: string | undefined): Record<string, DocumentRules> {
+  if (!file) return DEFAULT_RULES;
+  const overrides = JSON.parse(readFileSync(file, "utf8")) as Record<string, DocumentRules>;
+  const rules = { ...DEFAULT_RULES };
+  for (const [documentType, documentRules] of Object.entries(overrides)) {
+    rules[documentType] = { ...rules[documentType], ...documentRules };
+  }
+  return rules;
+}
+
+export function createDocumentVerifier(env: NodeJS.ProcessEnv = process.env): DocumentVerifier {
+  const provider = env.DOCUMENT_VERIFIER || "local";
+
+  if (provider === "local") {
+    return new LocalDocumentVerifier(loadRules(env.DOCUMENT_VERIFICATION_RULES_FILE));
+  }
+
+  throw new Error(`Unknown DOCUMENT_VERIFIER "${provider}"`);
+}
+
+export const documentVerifier = createDocumentVerifier();
@@ -0,0 +1,118 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Application, Document, DocumentEvent, DocumentPage, User } from "@shared/schema";
+import { startTestServer, type TestServer } from "./test-server";
+
+const FILE_XLSX = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+describe("document index and deletion", () => {
+  let server: TestServer;
+  let applicant: User;
+  let draft: Application;
+  let submitted: Application;
+  let draftDocument: Document;
+  let submittedDocument: Document;
+  let otherDocument: Document;
+
+  // Ids of this suite's documents in the listing; the test storage also holds seed data
+  const list = async (username: string, query = "") => {
+    const res = await server.request(username, `/api/documents${query}`);
+    assert.equal(res.status, 200);
+    const ours = [draftDocument.id, submittedDocument.id, otherDocument.id];
+    return (await res.json() as DocumentPage).items.map((doc) => doc.id).filter((id) => ours.includes(id));
+  };
+
+  const remove = (username: string, document: Document, reason?: string) =>
+    server.request(username, `/api/documents/${document.id}`, {
+      method: "DELETE",
+      body: JSON.stringify(reason ? { reason } : {}),
+    });
+
+  before(async () => {
+    server = await startTestServer();
+    applicant = await server.createUser("docs_applicant", "applicant");
+    const other = await server.createUser("docs_other", "applicant");
+    const reviewer = await server.createUser("docs_reviewer", "reviewer");
+    await server.createUser("docs_admin", "administrator");
+
+    const program = await server.storage.createProgram({ name: "Documents", type: "donacija", budgetTotal: 1000, year: 2025 });
+    const create = (applicantId: number, summary: string) =>
+      server.storage.createApplication({ applicantId, programId: program.id, summary, requestedAmount: 100 });
+    const attach = (application: Application, uploadedBy: number, fileName: string, fileType: string) =>
+      server.storage.createDocument({ applicationId: application.id, fileName, fileType, filePath: `/uploads/${fileName}`, uploadedBy });
+
+    draft = await create(applicant.id, "Draft");
+    submitted = await create(applicant.id, "Submitted");
+    const foreign = await create(other.id, "Foreign");
+
+    draftDocument = await attach(draft, applicant.id, "draft-plan.pdf", "application/pdf");
+    submittedDocument = await attach(submitted, applicant.id, "budget.xlsx", FILE_XLSX);
+    otherDocument = await attach(foreign, other.id, "other.pdf", "application/pdf");
+
+    await server.storage.updateApplication(submitted.id, { status: "submitted" });
+    await server.storage.createReviewerAssignment({ applicationId: submitted.id, reviewerId: reviewer.id });
+  });
+
+  after(() => server.close());
+
+  it("lists the documents of visible applications only", async () => {
+    assert.deepEqual(await list("docs_applicant"), [submittedDocument.id, draftDocument.id]);
+    assert.deepEqual(await list("docs_reviewer"), [submittedDocument.id]);
+    assert.deepEqual(await list("docs_admin"), [otherDocument.id, submittedDocument.id, draftDocument.id]);
+
+    assert.equal((await server.request(null, "/api/documents")).status, 401);
+    assert.equal((await server.request("docs_admin", "/api/documents?limit=0")).status, 400);
+  });
+
+  it("filters by application, type, uploader and date", async () => {
+    assert.deepEqual(await list("docs_admin", `?applicationId=${draft.id}`), [draftDocument.id]);
+    assert.deepEqual(await list("docs_admin", "?fileType=application/pdf"), [otherDocument.id, draftDocument.id]);
+    assert.deepEqual(await list("docs_admin", `?uploadedBy=${applicant.id}`), [submittedDocument.id, draftDocument.id]);
+    assert.deepEqual(await list("docs_admin", "?uploadedTo=2000-01-01"), []);
+    assert.deepEqual(await list("docs_admin", "?q=BUDGET"), [submittedDocument.id]);
+  });
+
+  it("lets applicants delete documents of drafts only", async () => {
+    assert.equal((await remove("docs_other", draftDocument)).status, 403);
+    assert.equal((await remove("docs_applicant", otherDocument)).status, 403);
+
+    const locked = await remove("docs_applicant", submittedDocument);
+    assert.equal(locked.status, 409);
+
+    const res = await remove("docs_applicant", draftDocument);
+    assert.equal(res.status, 200);
+    assert.ok((await res.json() as Document).deletedAt);
+
+    assert.deepEqual(await list("docs_applicant"), [submittedDocument.id]);
+    assert.equal((await server.request("docs_applicant", `/api/documents/${draftDocument.id}/download`)).status, 404);
+    assert.equal((await remove("docs_applicant", draftDocument)).status, 404);
+  });
+
+  it("requires a reason to delete documents of submitted applications", async () => {
+    assert.equal((await remove("docs_reviewer", submittedDocument)).status, 400);
+    assert.equal((await remove("docs_reviewer", submittedDocument, "Duplicate of the signed budget")).status, 200);
+    assert.equal((await remove("docs_reviewer", submittedDocument, "Again")).status, 409);
+  });
+
+  it("lets managers list and restore deleted documents", async () => {
+    assert.equal((await server.request("docs_applicant", "/api/documents?deleted=true")).status, 403);
+    assert.deepEqual(await list("docs_admin", "?deleted=true"), [submittedDocument.id, draftDocument.id]);
+
+    assert.equal((await server.request("docs_applicant", `/api/documents/${draftDocument.id}/restore`, { method: "POST" })).status, 403);
+    const res = await server.request("docs_admin", `/api/documents/${submittedDocument.id}/restore`, {
+      method: "POST",
+      body: JSON.stringify({ reason: "Still needed" }),
+    });
+    assert.equal(res.status, 200);
+    assert.equal((await res.json() as Document).deletedAt, null);
+    assert.equal((await server.request("docs_admin", `/api/documents/${submittedDocument.id}/restore`, { method: "POST" })).status, 409);
+
+    assert.deepEqual(await list("docs_applicant"), [submittedDocument.id]);
+
+    const events = await (await server.request("docs_admin", `/api/documents/${submittedDocument.id}/events`)).json() as DocumentEvent[];
+    assert.deepEqual(events.map((event) => [event.action, event.reason]), [
+      ["deleted", "Duplicate of the signed budget"],
+      ["restored", "Still needed"],
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { inflateRawSync } from "zlib";
+import type { Application, Evaluation, Program } from "@shared/schema";
+import { startTestServer, type TestServer } from "./test-server";
+
+const PDF = Buffer.from("%PDF-1.4\n1 0 obj << >> endobj\ntrailer << >>\n%%EOF\n");
+
+// Entries of a ZIP archive by name, read through its central directory
+function readZip(zip: Buffer) {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+
+  const entries = new Map<string, Buffer>();
+  for (let i = 0; i < count; i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, method === 8 ? inflateRawSync(data) : data);
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+describe("application dossiers", () => {
+  let server: TestServer;
+  let program: Program;
+  let submitted: Application;
+  let draft: Application;
+
+  const download = async (username: string, path: string) => {
+    const res = await server.request(username, path);
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "application/zip");
+    return readZip(Buffer.from(await res.arrayBuffer()));
+  };
+
+  before(async () => {
+    server = await startTestServer();
+    const applicant = await server.createUser("dossier_applicant", "applicant");
+    const reviewer = await server.createUser("dossier_reviewer", "reviewer");
+    await server.createUser("dossier_other", "applicant");
+    await server.createUser("dossier_admin", "administrator");
+
+    program = await server.storage.createProgram({ name: "Kultura Šibenik", type: "donacija", budgetTotal: 1000, year: 2025 });
+    const create = (summary: string) =>
+      server.storage.createApplication({ applicantId: applicant.id, programId: program.id, summary, requestedAmount: 300 });
+    submitted = await create("Ljetni festival čitanja");
+    draft = await create("Unfinished");
+    await server.storage.updateApplication(submitted.id, { status: "submitted" });
+    await server.storage.createReviewerAssignment({ applicationId: submitted.id, reviewerId: reviewer.id });
+
+    const upload = new FormData();
+    upload.set("file", new Blob([PDF]), "budžet.pdf");
+    const res = await server.request("dossier_applicant", `/api/applications/${submitted.id}/documents`, { method: "POST", body: upload });
+    assert.equal(res.status, 201);
+
+    await server.storage.createEvaluation({
+      applicationId: submitted.id,
+      evaluatedBy: reviewer.id,
+      score: 8,
+      decision: "preporučeno",
+      comment: "Well planned",
+    });
+    await server.storage.createMessage({
+      applicationId: submitted.id,
+      senderId: reviewer.id,
+      receiverId: applicant.id,
+      content: "Please confirm the venue",
+    });
+  });
+
+  after(() => server.close());
+
+  it("packs the summary, documents and evaluations of an application", async () => {
+    const entries = await download("dossier_reviewer", `/api/applications/${submitted.id}/dossier`);
+    assert.deepEqual(Array.from(entries.keys()).sort(), ["documents/budžet.pdf", "evaluations.json", "summary.pdf"]);
+    assert.equal(entries.get("summary.pdf")!.subarray(0, 5).toString(), "%PDF-");
+    assert.deepEqual(entries.get("documents/budžet.pdf"), PDF);
+
+    const evaluations = JSON.parse(entries.get("evaluations.json")!.toString()) as (Evaluation & { evaluatedByName: string })[];
+    assert.deepEqual(evaluations.map((evaluation) => [evaluation.score, evaluation.evaluatedByName]), [[8, "dossier_reviewer"]]);
+  });
+
+  it("leaves evaluations out for applicants and refuses other users", async () => {
+    const entries = await download("dossier_applicant", `/api/applications/${submitted.id}/dossier`);
+    assert.ok(!entries.has("evaluations.json"));
+    assert.ok(entries.has("summary.pdf"));
+
+    assert.equal((await server.request("dossier_other", `/api/applications/${submitted.id}/dossier`)).status, 403);
+    assert.equal((await server.request(null, `/api/applications/${submitted.id}/dossier`)).status, 401);
+  });
+
+  it("exports the submitted applications of a program in one archive", async () => {
+    const res = await server.request("dossier_admin", `/api/programs/${program.id}/dossiers`);
+    assert.match(res.headers.get("content-disposition")!, /filename\*=UTF-8''dossiers-Kultura%20%C5%A0ibenik-2025\.zip/);
+
+    const entries = readZip(Buffer.from(await res.arrayBuffer()));
+    const folder = `dossier-${submitted.autoCode.replace(/\//g, "-")}`;
+    assert.deepEqual(Array.from(entries.keys()).sort(), [
+      `${folder}/documents/budžet.pdf`,
+      `${folder}/evaluations.json`,
+      `${folder}/summary.pdf`,
+    ]);
+    assert.ok(!Array.from(entries.keys()).some((name) => name.includes(draft.autoCode.replace(/\//g, "-"))));
+
+    assert.equal((await server.request("dossier_other", `/api/programs/${program.id}/dossiers`)).status, 404);
+    assert.equal((await server.request("dossier_admin", `/api/programs/${program.id + 1000}/dossiers`)).status, 404);
+  });
+});
@@ -0,0 +1,265 @@
+import type { Response } from "express";
+import { createRequire } from "module";
+import path from "path";
+import archiver, { type Archiver } from "archiver";
+import PDFDocument from "pdfkit";
+import { storage } from "./storage";
+import { blobStore } from "./blob-storage";
+import { contentDisposition } from "./uploads";
+import { canAccessApplication } from "./policy";
+import {
+  ApplicantType,
+  Application,
+  Document,
+  Evaluation,
+  Message,
+  Program,
+  User,
+} from "@shared/schema";
+import { formatAnswer, visibleFields } from "@shared/program-forms";
+
+/**
+ * Application dossiers: a ZIP with a PDF summary of the application, its
+ * documents and its evaluation history, for reading offline.
+ *
+ * A dossier only holds what its reader may see through the API; evaluations
+ * are left out for applicants, like on GET /api/applications/:id/evaluations.
+ */
+
+export interface Dossier {
+  application: Application;
+  program?: Program;
+  applicant?: User;
+  applicantType?: ApplicantType;
+  documents: Document[];
+  // undefined when the reader may not see evaluations
+  evaluations?: Evaluation[];
+  messages: Message[];
+  // Names of the users mentioned above, by id
+  userNames: Map<number, string>;
+}
+
+export async function loadDossier(application: Application, reader: User): Promise<Dossier> {
+  const [program, applicant, documents, evaluations, messages] = await Promise.all([
+    storage.getProgram(application.programId),
+    storage.getUser(application.applicantId),
+    canAccessApplication(reader, application, "documents").then((allowed) =>
+      allowed ? storage.getDocumentsByApplication(application.id) : []),
+    canAccessApplication(reader, application, "evaluations").then((allowed) =>
+      allowed ? storage.getEvaluationsByApplication(application.id) : undefined),
+    canAccessApplication(reader, application, "messages").then((allowed) =>
+      allowed ? storage.getMessagesByApplication(application.id) : []),
+  ]);
+
+  const typeId = application.applicantTypeId ?? applicant?.applicantTypeId;
+  const applicantType = typeId ? await storage.getApplicantType(typeId) : undefined;
+
+  const userIds = new Set<number>([
+    application.applicantId,
+    ...(evaluations ?? []).map((evaluation) => evaluation.evaluatedBy),
+    ...messages.flatMap((message) => [message.senderId, message.receiverId]),
+  ]);
+  const userNames = new Map<number, string>();
+  for (const id of Array.from(userIds)) {
+    const user = id === applicant?.id ? applicant : await storage.getUser(id);
+    if (user) userNames.set(id, user.fullName);
+  }
+
+  return { application, program, applicant, applicantType, documents, evaluations, messages, userNames };
+}
+
+// DejaVu covers the Latin Extended letters (č, ć, đ, š, ž) the standard PDF fonts lack
+const require = createRequire(import.meta.url);
+const FONTS = {
+  regular: require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans.ttf"),
+  bold: require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf"),
+};
+
+const APPLICATION_FIELDS: [keyof Application, string][] = [
+  ["requestedAmount", "Requested amount"],
+  ["projectDuration", "Project duration"],
+  ["organization", "Organization"],
+  ["legalStructure", "Legal structure"],
+  ["yearEstablished", "Year established"],
+  ["taxId", "Tax ID"],
+  ["registrationNumber", "Registration number"],
+  ["numberOfEmployees", "Number of employees"],
+  ["annualBudget", "Annual budget"],
+  ["profitLastYear", "Profit last year"],
+  ["description", "Description"],
+];
+
+const APPLICANT_FIELDS: [keyof User, string][] = [
+  ["fullName", "Name"],
+  ["email", "Email"],
+  ["phoneNumber", "Phone"],
+  ["address", "Address"],
+  ["city", "City"],
+  ["postalCode", "Postal code"],
+  ["country", "Country"],
+  ["organizationName", "Organization"],
+  ["organizationPosition", "Position"],
+  ["website", "Website"],
+];
+
+function formatDate(value: Date | string | null | undefined) {
+  return value ? new Date(value).toISOString().slice(0, 16).replace("T", " ") : "—";
+}
+
+/**
+ * Renders the summary PDF of a dossier
+ */
+export function renderDossierPdf(dossier: Dossier): Promise<Buffer> {
+  const { application, program, applicant, applicantType, userNames } = dossier;
+  const nameOf = (id: number) => userNames.get(id) ?? `User ${id}`;
+
+  const pdf = new PDFDocument({
+    size: "A4",
+    margin: 50,
+    info: { Title: `${application.autoCode} ${application.summary}`, Creator: "Grants" },
+  });
+  pdf.registerFont("regular", FONTS.regular);
+  pdf.registerFont("bold", FONTS.bold);
+
+  const chunks: Buffer[] = [];
+  pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+  });
+
+  const heading = (text: string) => {
+    pdf.moveDown(1).font("bold").fontSize(13).text(text).moveDown(0.3);
+  };
+  const row = (label: string, value: unknown) => {
+    if (value === null || value === undefined || value === "") return;
+    pdf.font("bold").fontSize(10).text(`${label}: `, { continued: true })
+      .font("regular").text(String(value));
+  };
+  const paragraph = (text: string) => {
+    pdf.font("regular").fontSize(10).text(text).moveDown(0.5);
+  };
+
+  pdf.font("bold").fontSize(18).text(application.summary);
+  pdf.font("regular").fontSize(11).fillColor("#555555")
+    .text(`${application.autoCode} · ${application.status} · submitted ${formatDate(application.submittedAt)}`)
+    .fillColor("black");
+
+  heading("Program");
+  row("Name", program?.name);
+  row("Type", program?.type);
+  row("Year", program?.year);
+
+  heading("Application");
+  for (const [field, label] of APPLICATION_FIELDS) row(label, application[field]);
+
+  if (program?.formSchema) {
+    const shown = new Set(visibleFields(program.formSchema, application.answers).map((field) => field.key));
+    for (const section of program.formSchema.sections) {
+      const fields = section.fields.filter((field) => shown.has(field.key));
+      if (fields.length === 0) continue;
+      heading(section.title);
+      for (const field of fields) row(field.label, formatAnswer(field, application.answers[field.key]));
+    }
+  }
+
+  heading("Applicant");
+  if (applicant) {
+    for (const [field, label] of APPLICANT_FIELDS) row(label, applicant[field]);
+  }
+  row("Applicant type", applicantType?.name);
+
+  heading("Documents");
+  if (dossier.documents.length === 0) paragraph("No documents.");
+  for (const document of dossier.documents) {
+    paragraph(`${document.fileName} (version ${document.currentVersion}, uploaded ${formatDate(document.uploadedAt)})`);
+  }
+
+  if (dossier.evaluations) {
+    heading("Evaluations");
+    if (dossier.evaluations.length === 0) paragraph("No evaluations.");
+    for (const evaluation of dossier.evaluations) {
+      row(nameOf(evaluation.evaluatedBy), formatDate(evaluation.createdAt));
+      row("Score", evaluation.score);
+      row("Decision", evaluation.decision);
+      if (evaluation.comment) paragraph(evaluation.comment);
+      pdf.moveDown(0.3);
+    }
+  }
+
+  heading("Messages");
+  if (dossier.messages.length === 0) paragraph("No messages.");
+  for (const message of dossier.messages) {
+    row(`${nameOf(message.senderId)} → ${nameOf(message.receiverId)}`, formatDate(message.createdAt));
+    paragraph(message.content);
+  }
+
+  pdf.moveDown(2).font("regular").fontSize(8).fillColor("#777777")
+    .text(`Generated ${formatDate(new Date())} UTC`);
+  pdf.end();
+  return done;
+}
+
+// Keeps archive entry names portable: no separators or control characters
+function safeName(name: string) {
+  return name.replace(/[\\/:*?"<>|\x00-\x1f]/g, "_").trim() || "file";
+}
+
+// An application's folder name in a batch export; autoCodes contain slashes
+export function dossierName(application: Application) {
+  return `dossier-${application.autoCode.replace(/\//g, "-")}`;
+}
+
+/**
+ * Adds a dossier to an archive under `folder`: summary.pdf, the documents in
+ * documents/ and evaluations.json when the reader may see evaluations
+ */
+export async function appendDossier(archive: Archiver, dossier: Dossier, folder = "") {
+  const prefix = folder ? `${folder}/` : "";
+  archive.append(await renderDossierPdf(dossier), { name: `${prefix}summary.pdf` });
+
+  const used = new Set<string>();
+  for (const document of dossier.documents) {
+    const content = await blobStore.get(document.filePath);
+    // Files that never made it to the blob store are listed in the summary only
+    if (!content) continue;
+
+    const extension = path.extname(document.fileName);
+    const base = safeName(path.basename(document.fileName, extension));
+    let name = `${base}${extension}`;
+    for (let copy = 2; used.has(name.toLowerCase()); copy++) name = `${base} (${copy})${extension}`;
+    used.add(name.toLowerCase());
+
+    archive.append(content, { name: `${prefix}documents/${name}`, date: document.uploadedAt ?? undefined });
+  }
+
+  if (dossier.evaluations) {
+    const history = dossier.evaluations.map((evaluation) => ({
+      ...evaluation,
+      evaluatedByName: dossier.userNames.get(evaluation.evaluatedBy) ?? null,
+    }));
+    archive.append(JSON.stringify(history, null, 2), { name: `${prefix}evaluations.json` });
+  }
+}
+
+/**
+ * Streams a ZIP to the response. `fill` adds the entries; once streaming has
+ * started a failure can only abort the download.
+ */
+export async function sendZip(res: Response, fileName: string, fill: (archive: Archiver) => Promise<void>) {
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  archive.on("error", () => res.destroy());
+
+  res.setHeader("Content-Type", "application/zip");
+  res.setHeader("Content-Disposition", contentDisposition("attachment", `${safeName(fileName)}.zip`));
+  archive.pipe(res);
+
+  try {
+    await fill(archive);
+    await archive.finalize();
+  } catch (error) {
+    archive.abort();
+    res.destroy();
+    throw error;
+  }
+}
@@ -0,0 +1,160 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Program, User } from "@shared/schema";
+import { EligibilityContext, EligibilityRule, ProgramEligibility, evaluateEligibility } from "@shared/eligibility";
+import { startTestServer, type TestServer } from "./test-server";
+
+describe("eligibility rules", () => {
+  const context = (overrides: Partial<EligibilityContext> = {}): EligibilityContext => ({
+    user: { isVerified: true, country: "Bosna i Hercegovina", city: "Sarajevo" },
+    applicantType: "ORGANIZATION",
+    application: { yearEstablished: 2015, requestedAmount: 5000 },
+    priorGrants: [],
+    now: new Date("2025-06-01T12:00:00Z"),
+    ...overrides,
+  });
+
+  const reasons = (rules: EligibilityRule[], ctx: EligibilityContext, phase: "create" | "submit" = "submit") =>
+    evaluateEligibility(rules, ctx, phase).reasons;
+
+  it("passes when every rule is met", () => {
+    const result = evaluateEligibility([
+      { type: "applicantType", types: ["organization"] },
+      { type: "verified" },
+      { type: "location", countries: ["bosna i hercegovina"], cities: ["Sarajevo", "Mostar"] },
+      { type: "organizationAge", minYears: 5 },
+      { type: "maxRequestedAmount", amount: 5000 },
+      { type: "priorGrants", max: 0 },
+    ], context(), "submit");
+
+    assert.equal(result.eligible, true);
+    assert.deepEqual(result.reasons, []);
+    assert.ok(result.checks.every((check) => check.passed === true));
+  });
+
+  it("explains each failed rule", () => {
+    assert.equal(reasons([{ type: "applicantType", types: ["INDIVIDUAL"] }], context()).length, 1);
+    assert.equal(reasons([{ type: "verified" }], context({ user: { isVerified: false, country: null, city: null } })).length, 1);
+    assert.equal(reasons([{ type: "location", cities: ["Mostar"] }], context()).length, 1);
+    assert.equal(reasons([{ type: "organizationAge", minYears: 20 }], context()).length, 1);
+    assert.equal(reasons([{ type: "maxRequestedAmount", amount: 1000 }], context()).length, 1);
+  });
+
+  it("counts prior grants within the configured period", () => {
+    const priorGrants = [{ submittedAt: new Date("2019-01-01") }, { submittedAt: new Date("2024-09-01") }];
+
+    assert.equal(reasons([{ type: "priorGrants", max: 1 }], context({ priorGrants })).length, 1);
+    assert.deepEqual(reasons([{ type: "priorGrants", max: 1, withinYears: 3 }], context({ priorGrants })), []);
+    assert.equal(reasons([{ type: "priorGrants", max: 0, withinYears: 3 }], context({ priorGrants })).length, 1);
+  });
+
+  it("lets drafts through when information is still missing", () => {
+    const rules: EligibilityRule[] = [{ type: "organizationAge", minYears: 5 }, { type: "maxRequestedAmount", amount: 1000 }];
+    const draft = context({ application: {} });
+
+    assert.deepEqual(reasons(rules, draft, "create"), []);
+    assert.equal(reasons(rules, draft, "submit").length, 2);
+  });
+});
+
+describe("eligibility enforcement", () => {
+  let server: TestServer;
+  let individual: User;
+  let organizationOnly: Program;
+  let capped: Program;
+
+  const post = (username: string, path: string, body: unknown = {}) =>
+    server.request(username, path, { method: "POST", body: JSON.stringify(body) });
+
+  before(async () => {
+    server = await startTestServer();
+    const { storage } = server;
+
+    individual = await server.createUser("eligibility_individual", "applicant");
+    const types = await storage.getApplicantTypes();
+    await storage.updateUser(individual.id, { applicantTypeId: types.find((type) => type.name === "INDIVIDUAL")!.id });
+
+    organizationOnly = await storage.createProgram({
+      name: "Organizations only",
+      type: "donacija",
+      budgetTotal: 1000,
+      year: 2025,
+      eligibleApplicantTypes: ["ORGANIZATION"],
+    });
+    capped = await storage.createProgram({
+      name: "Small grants",
+      type: "donacija",
+      budgetTotal: 1000,
+      year: 2025,
+      eligibilityRules: [{ type: "maxRequestedAmount", amount: 500 }],
+    });
+  });
+
+  after(() => server.close());
+
+  it("refuses to create applications the applicant is not eligible for", async () => {
+    const res = await post("eligibility_individual", "/api/applications", { programId: organizationOnly.id, summary: "Mine" });
+    assert.equal(res.status, 400);
+    const body = await res.json() as { reasons: string[] };
+    assert.deepEqual(body.reasons, ["This program is open to ORGANIZATION applicants only"]);
+  });
+
+  it("checks the applicant type stored on the account, not one sent along", async () => {
+    const types = await server.storage.getApplicantTypes();
+    const organizationTypeId = types.find((type) => type.name === "ORGANIZATION")!.id;
+
+    const spoofed = await post("eligibility_individual", "/api/applications", {
+      programId: organizationOnly.id,
+      summary: "Mine",
+      applicantTypeId: organizationTypeId,
+    });
+    assert.equal(spoofed.status, 400);
+
+    const application = await server.storage.createApplication({
+      applicantId: individual.id,
+      programId: organizationOnly.id,
+      applicantTypeId: organizationTypeId,
+      summary: "Drafted with the wrong type",
+      requestedAmount: 100,
+    });
+    const patch = await server.request("eligibility_individual", `/api/applications/${application.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ applicantTypeId: organizationTypeId }),
+    });
+    assert.equal(patch.status, 400);
+    assert.equal((await post("eligibility_individual", `/api/applications/${application.id}/submit`)).status, 400);
+  });
+
+  it("checks the rules again on submission", async () => {
+    const res = await post("eligibility_individual", "/api/applications", {
+      programId: capped.id,
+      summary: "Too big",
+      requestedAmount: 900,
+    });
+    assert.equal(res.status, 400);
+
+    const application = await server.storage.createApplication({
+      applicantId: individual.id,
+      programId: capped.id,
+      summary: "Too big later",
+      requestedAmount: 400,
+    });
+    await server.storage.updateApplication(application.id, { requestedAmount: 900 });
+
+    const eligibility = await (await server.request("eligibility_individual", `/api/applications/${application.id}/eligibility`)).json();
+    assert.equal(eligibility.eligible, false);
+
+    const submit = await post("eligibility_individual", `/api/applications/${application.id}/submit`);
+    assert.equal(submit.status, 400);
+    assert.match((await submit.json()).message, /may not exceed 500/);
+  });
+
+  it("lists the programs the current user may apply to", async () => {
+    const res = await server.request("eligibility_individual", "/api/user/eligibility");
+    assert.equal(res.status, 200);
+    const results = await res.json() as ProgramEligibility[];
+
+    assert.equal(results.find((result) => result.programId === organizationOnly.id)?.eligible, false);
+    assert.equal(results.find((result) => result.programId === capped.id)?.eligible, true);
+  });
+});
@@ -0,0 +1,39 @@
+import { storage } from "./storage";
+import { Application, Program, User } from "@shared/schema";
+import {
+  EligibilityPhase,
+  EligibilityResult,
+  evaluateEligibility,
+  programEligibilityRules,
+} from "@shared/eligibility";
+
+/**
+ * Checks whether `applicant` may apply to `program`, gathering what the
+ * rules in shared/eligibility.ts need from storage. `application` is the
+ * draft being created or the application being submitted. The applicant
+ * type is always the one stored on the applicant's account.
+ */
+export async function checkEligibility(
+  applicant: User,
+  program: Program,
+  application: Partial<Application>,
+  phase: EligibilityPhase,
+): Promise<EligibilityResult> {
+  const applicantType = applicant.applicantTypeId ? await storage.getApplicantType(applicant.applicantTypeId) : undefined;
+
+  const priorGrants = (await storage.getApplicationsByApplicant(applicant.id)).filter((other) =>
+    other.id !== application.id && (other.status === "odobreno" || other.status === "completed"),
+  );
+
+  return evaluateEligibility(programEligibilityRules(program), {
+    user: applicant,
+    applicantType: applicantType?.name ?? null,
+    application,
+    priorGrants,
+    now: new Date(),
+  }, phase);
+}
+
+export function describeIneligibility(result: EligibilityResult) {
+  return `Not eligible for this program: ${result.reasons.join("; ")}`;
+}
@@ -0,0 +1,172 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { User } from "@shared/schema";
+import { startTestServer, TEST_PASSWORD, type TestServer } from "./test-server";
+
+describe("email verification", () => {
+  let server: TestServer;
+  let individualTypeId: number;
+  let MAX_CODE_ATTEMPTS: number;
+
+  const register = (username: string, extra: object = {}) =>
+    server.request(null, "/api/register", {
+      method: "POST",
+      body: JSON.stringify({
+        username,
+        fullName: `Test ${username}`,
+        email: `${username}@example.org`,
+        password: TEST_PASSWORD,
+        role: "applicant",
+        applicantTypeId: individualTypeId,
+        ...extra,
+      }),
+    });
+
+  const verify = (username: string, proof: object) =>
+    server.request(null, "/api/register/verify", {
+      method: "POST",
+      body: JSON.stringify({ email: `${username}@example.org`, ...proof }),
+    });
+
+  const resend = (username: string) =>
+    server.request(null, "/api/register/resend", {
+      method: "POST",
+      body: JSON.stringify({ email: `${username}@example.org` }),
+    });
+
+  // The code and link token of the newest mail to the user
+  const lastMail = async (username: string) => {
+    const mails = await server.inbox(`${username}@example.org`);
+    const { text } = mails[mails.length - 1];
+    return {
+      count: mails.length,
+      code: /code is (\d{6})/.exec(text)![1],
+      link: new URL(/^http\S+$/m.exec(text)![0]),
+    };
+  };
+
+  // Lets the resend throttle pass without waiting
+  const backdate = async (username: string) => {
+    const pending = await server.storage.getPendingRegistrationByEmail(`${username}@example.org`);
+    await server.storage.updatePendingRegistration(pending!.id, { lastSentAt: new Date(0) });
+  };
+
+  before(async () => {
+    server = await startTestServer();
+    // Loaded after the test server has picked the drivers of the singletons
+    ({ MAX_CODE_ATTEMPTS } = await import("./email-verification"));
+    individualTypeId = (await server.storage.getApplicantTypes()).find((type) => type.name === "INDIVIDUAL")!.id;
+  });
+
+  after(() => server.close());
+
+  it("creates the account only once the emailed code is confirmed", async () => {
+    const res = await register("mail_code", { role: "administrator" });
+    assert.equal(res.status, 200);
+    const { redirectUrl } = await res.json();
+    assert.equal(redirectUrl, `/verification/${Buffer.from("mail_code@example.org").toString("base64")}/${individualTypeId}`);
+    assert.equal(await server.storage.getUserByUsername("mail_code"), undefined);
+
+    const { code, link } = await lastMail("mail_code");
+    assert.equal(link.pathname, redirectUrl);
+
+    const wrong = code === "000000" ? "111111" : "000000";
+    const rejected = await verify("mail_code", { code: wrong });
+    assert.equal(rejected.status, 400);
+    assert.match((await rejected.json()).message, new RegExp(`${MAX_CODE_ATTEMPTS - 1} attempt`));
+
+    const confirmed = await verify("mail_code", { code });
+    assert.equal(confirmed.status, 201);
+    assert.ok(confirmed.headers.getSetCookie().some((cookie) => cookie.startsWith("connect.sid=")));
+    const user = await confirmed.json() as User;
+    assert.equal(user.role, "applicant");
+    assert.equal(user.applicantTypeId, individualTypeId);
+    assert.equal("password" in user, false);
+    // The address is confirmed; approving the registration is still up to an administrator
+    assert.ok(user.emailVerifiedAt);
+    assert.equal(user.isVerified, false);
+
+    const login = await server.request(null, "/api/login", {
+      method: "POST",
+      body: JSON.stringify({ username: "mail_code", password: TEST_PASSWORD }),
+    });
+    assert.equal(login.status, 200);
+    assert.equal((await verify("mail_code", { code })).status, 404);
+    assert.equal((await register("mail_code")).status, 400);
+  });
+
+  it("confirms with the signed link of the newest code only", async () => {
+    assert.equal((await register("mail_link")).status, 200);
+    const first = await lastMail("mail_link");
+
+    assert.equal((await resend("mail_link")).status, 429);
+    await backdate("mail_link");
+    assert.equal((await resend("mail_link")).status, 200);
+    const second = await lastMail("mail_link");
+    assert.equal(second.count, 2);
+
+    assert.equal((await verify("mail_link", { token: first.link.searchParams.get("token") })).status, 400);
+    assert.equal((await verify("mail_link", { token: `${second.link.searchParams.get("token")}x` })).status, 400);
+    assert.equal((await verify("mail_link", { token: second.link.searchParams.get("token") })).status, 201);
+    assert.ok(await server.storage.getUserByUsername("mail_link"));
+  });
+
+  it("limits wrong codes and rejects expired ones", async () => {
+    assert.equal((await register("mail_limit")).status, 200);
+    const { code } = await lastMail("mail_limit");
+    const wrong = code === "000000" ? "111111" : "000000";
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      assert.equal((await verify("mail_limit", { code: wrong })).status, 400);
+    }
+    assert.equal((await verify("mail_limit", { code })).status, 429);
+
+    // A new code resets the attempts but expires like any other
+    await backdate("mail_limit");
+    assert.equal((await resend("mail_limit")).status, 200);
+    const pending = await server.storage.getPendingRegistrationByEmail("mail_limit@example.org");
+    assert.equal(pending!.attempts, 0);
+    await server.storage.updatePendingRegistration(pending!.id, { expiresAt: new Date(Date.now() - 1000) });
+    assert.equal((await verify("mail_limit", { code: (await lastMail("mail_limit")).code })).status, 410);
+    assert.equal(await server.storage.getUserByUsername("mail_limit"), undefined);
+  });
+
+  it("keeps the waiting account when the address is registered again", async () => {
+    assert.equal((await register("mail_owner")).status, 200);
+    await backdate("mail_owner");
+
+    const again = await register("mail_intruder", {
+      email: "mail_owner@example.org",
+      fullName: "Intruder",
+      password: "intruder-password",
+    });
+    assert.equal(again.status, 200);
+    const { code, count } = await lastMail("mail_owner");
+    assert.equal(count, 2);
+
+    assert.equal((await verify("mail_owner", { code })).status, 201);
+    assert.equal(await server.storage.getUserByUsername("mail_intruder"), undefined);
+    const user = await server.storage.getUserByUsername("mail_owner");
+    assert.equal(user!.fullName, "Test mail_owner");
+
+    const login = (username: string, password: string) =>
+      server.request(null, "/api/login", { method: "POST", body: JSON.stringify({ username, password }) });
+    assert.equal((await login("mail_owner", "intruder-password")).status, 401);
+    assert.equal((await login("mail_owner", TEST_PASSWORD)).status, 200);
+  });
+
+  it("throttles resends, each wait longer than the last", async () => {
+    assert.equal((await register("mail_throttle")).status, 200);
+    const throttled = await register("mail_throttle");
+    assert.equal(throttled.status, 429);
+    assert.equal(throttled.headers.get("retry-after"), "60");
+
+    const pending = await server.storage.getPendingRegistrationByEmail("mail_throttle@example.org");
+    await server.storage.updatePendingRegistration(pending!.id, { lastSentAt: new Date(Date.now() - 61_000) });
+    assert.equal((await resend("mail_throttle")).status, 200);
+
+    const again = await resend("mail_throttle");
+    assert.equal(again.status, 429);
+    assert.equal(again.headers.get("retry-after"), "120");
+    assert.equal((await resend("mail_nobody")).status, 404);
+  });
+});
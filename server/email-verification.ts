@@ -0,0 +1,174 @@
+import { createHmac, randomInt, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { mailTransport } from "./mail";
+import { InsertUser, PendingRegistration, User } from "@shared/schema";
+
+/**
+ * Email confirmation of new sign-ups. Registering stores the account as a
+ * pending registration and mails a one-time code together with a signed link
+ * to the verification page; the account is created only once the code or
+ * the link is presented before it expires.
+ */
+
+export const CODE_TTL_MINUTES = 15;
+export const MAX_CODE_ATTEMPTS = 5;
+// Each resend waits this much longer than the one before
+export const RESEND_INTERVAL_SECONDS = 60;
+
+export class EmailVerificationError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfter?: number) {
+    super(message);
+    this.name = "EmailVerificationError";
+  }
+}
+
+export type EmailProof = { code: string } | { token: string };
+
+function secret() {
+  return process.env.EMAIL_VERIFICATION_SECRET || process.env.SESSION_SECRET || "grant-management-secret";
+}
+
+function hashCode(email: string, code: string) {
+  return createHmac("sha256", secret()).update(`code:${email}:${code}`).digest("hex");
+}
+
+// Signs the current code and its expiry, so a new code invalidates older links
+function linkToken(pending: PendingRegistration) {
+  return createHmac("sha256", secret())
+    .update(`link:${pending.id}:${pending.codeHash}:${pending.expiresAt.getTime()}`)
+    .digest("base64url");
+}
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function newCode() {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+export function verificationPath(pending: Pick<PendingRegistration, "email" | "account">) {
+  const encodedEmail = Buffer.from(pending.email).toString("base64");
+  return `/verification/${encodedEmail}/${pending.account.applicantTypeId ?? ""}`;
+}
+
+function secondsUntilResend(pending: PendingRegistration, now: Date) {
+  const next = pending.lastSentAt.getTime() + pending.sendCount * RESEND_INTERVAL_SECONDS * 1000;
+  return Math.max(0, Math.ceil((next - now.getTime()) / 1000));
+}
+
+async function sendCode(pending: PendingRegistration, code: string, baseUrl: string) {
+  const link = `${baseUrl}${verificationPath(pending)}?token=${linkToken(pending)}`;
+  await mailTransport.send({
+    to: pending.email,
+    subject: "Confirm your email address",
+    text: [
+      `Hello ${pending.account.fullName},`,
+      "",
+      `Your verification code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes.`,
+      "",
+      "You can also confirm your address by opening this link:",
+      link,
+      "",
+      "If you did not sign up, you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+// Issues a fresh code for a pending registration, within the resend throttle
+async function issueCode(
+  existing: PendingRegistration | undefined,
+  account: InsertUser,
+  baseUrl: string
+): Promise<PendingRegistration> {
+  const now = new Date();
+  if (existing) {
+    const wait = secondsUntilResend(existing, now);
+    if (wait > 0) {
+      throw new EmailVerificationError(`Wait ${wait} seconds before requesting another code`, 429, wait);
+    }
+  }
+
+  const code = newCode();
+  const fields = {
+    username: account.username,
+    account,
+    codeHash: hashCode(account.email, code),
+    expiresAt: new Date(now.getTime() + CODE_TTL_MINUTES * 60 * 1000),
+    lastSentAt: now,
+  };
+  const pending = existing
+    ? (await storage.updatePendingRegistration(existing.id, { ...fields, attempts: 0, sendCount: existing.sendCount + 1 }))!
+    : await storage.createPendingRegistration({ email: account.email, ...fields });
+
+  await sendCode(pending, code, baseUrl);
+  return pending;
+}
+
+/**
+ * Holds a new account until its email address is confirmed. Registering the
+ * same address again only sends a new code for the waiting account; the
+ * account data sent along is ignored, so nobody else can swap in their own
+ * username or password before the owner of the address confirms it.
+ */
+export async function startEmailVerification(account: InsertUser, baseUrl: string) {
+  const existing = await storage.getPendingRegistrationByEmail(account.email);
+  return issueCode(existing, existing?.account ?? account, baseUrl);
+}
+
+export async function resendVerificationCode(email: string, baseUrl: string) {
+  const pending = await storage.getPendingRegistrationByEmail(email);
+  if (!pending) {
+    throw new EmailVerificationError("No registration is waiting for this email address", 404);
+  }
+  return issueCode(pending, pending.account, baseUrl);
+}
+
+/**
+ * Checks a code or link token and creates the account with its email address
+ * marked as confirmed. The account still waits for an administrator to
+ * approve its registration (isVerified). Wrong codes count against the
+ * attempt limit; after that only a new code helps.
+ */
+export async function confirmEmail(email: string, proof: EmailProof): Promise<User> {
+  const pending = await storage.getPendingRegistrationByEmail(email);
+  if (!pending) {
+    throw new EmailVerificationError("No registration is waiting for this email address", 404);
+  }
+  if (pending.attempts >= MAX_CODE_ATTEMPTS) {
+    throw new EmailVerificationError("Too many wrong codes. Request a new code.", 429);
+  }
+  if (pending.expiresAt.getTime() <= Date.now()) {
+    throw new EmailVerificationError("The code has expired. Request a new code.", 410);
+  }
+
+  const valid = "code" in proof
+    ? safeEqual(hashCode(pending.email, proof.code.trim()), pending.codeHash)
+    : safeEqual(linkToken(pending), proof.token);
+  if (!valid) {
+    const attempts = pending.attempts + 1;
+    await storage.updatePendingRegistration(pending.id, { attempts });
+    const remaining = MAX_CODE_ATTEMPTS - attempts;
+    throw new EmailVerificationError(
+      "code" in proof
+        ? `Invalid verification code. ${remaining} attempt(s) left.`
+        : "The verification link is invalid or has been replaced by a newer one",
+      400
+    );
+  }
+
+  // The username or address may have been taken while the code was on its way
+  if (await storage.getUserByUsername(pending.account.username)) {
+    throw new EmailVerificationError("Username already exists", 409);
+  }
+  if (await storage.getUserByEmail(pending.email)) {
+    throw new EmailVerificationError("Email already exists", 409);
+  }
+
+  const created = await storage.createUser(pending.account);
+  const user = (await storage.updateUser(created.id, { emailVerifiedAt: new Date() }))!;
+  await storage.deletePendingRegistration(pending.id);
+  return user;
+}
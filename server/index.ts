@@ -1,11 +1,24 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { DatabaseStorage } from "./database-storage";
+import { migrateUp } from "./migrate";
+import { startCallScheduler } from "./program-calls";
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Secrets some responses carry, such as the two-factor setup and the token
+// endpoints; the request log shows them as "[redacted]". The QR code encodes
+// the two-factor secret too
+const REDACTED_RESPONSE_FIELDS = new Set(["secret", "otpauthUrl", "qrCode", "recoveryCodes", "accessToken", "refreshToken"]);
+
+function redactSecrets(key: string, value: unknown) {
+  return REDACTED_RESPONSE_FIELDS.has(key) ? "[redacted]" : value;
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -22,7 +35,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, redactSecrets)}`;
       }
 
       if (logLine.length > 80) {
@@ -37,8 +50,23 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Database-backed storage is migrated and seeded explicitly; both steps
+  // are idempotent. Set MIGRATE_ON_START=false to run `npm run db:migrate`
+  // as a separate release step instead.
+  if (storage instanceof DatabaseStorage) {
+    if (process.env.MIGRATE_ON_START !== "false") {
+      const applied = await migrateUp(storage.db);
+      if (applied.length > 0) {
+        log(`applied migrations: ${applied.join(", ")}`);
+      }
+    }
+    await storage.seedInitialData();
+  }
+
   const server = await registerRoutes(app);
 
+  startCallScheduler((program) => log(`closed the call for program ${program.id} (${program.name})`));
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -0,0 +1,192 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import ldap from "ldapjs";
+import type { User } from "@shared/schema";
+import { startTestServer, TEST_PASSWORD, type TestServer } from "./test-server";
+
+const BASE = "dc=example,dc=org";
+const SERVICE_DN = `cn=service,${BASE}`;
+const ADMINS = `cn=grant-admins,ou=groups,${BASE}`;
+const REVIEWERS = `cn=grant-reviewers,ou=groups,${BASE}`;
+
+type Attributes = Record<string, string | string[]>;
+
+// What the stand-in directory's handlers use of the requests ldapjs passes
+// them; @types/ldapjs leaves the server side mostly untyped
+type BindRequest = { dn: ldap.DN; credentials: string };
+type SearchRequest = ldap.SearchRequest & { dn: ldap.DN };
+type BindResponse = { end(): void };
+type SearchResponse = BindResponse & { attributes: string[]; send(entry: { dn: string; attributes: Attributes }): void };
+type Next = (error?: unknown) => void;
+
+// A directory small enough to read: people with passwords, and groups listing their members
+const people: Record<string, { password: string; attributes: Attributes }> = {
+  alice: { password: "alice-pass", attributes: { cn: "Alice Admin", mail: "alice@staff.example.org", memberOf: ADMINS } },
+  bob: { password: "bob-pass", attributes: { cn: "Bob Reviewer", mail: "bob@staff.example.org" } },
+  carol: { password: "carol-pass", attributes: { cn: "Carol Outsider", mail: "carol@staff.example.org" } },
+  dave: { password: "dave-pass", attributes: { cn: "Dave Moved", mail: "dave@example.org", memberOf: REVIEWERS } },
+  erin: { password: "erin-pass", attributes: { cn: "Erin Other", mail: "erin@staff.example.org", memberOf: REVIEWERS } },
+};
+const groups: Record<string, string[]> = { [ADMINS]: [], [REVIEWERS]: ["bob"] };
+
+const personDn = (uid: string) => `uid=${uid},ou=people,${BASE}`;
+
+function entries(): { dn: string; attributes: Attributes }[] {
+  return [
+    ...Object.entries(people).map(([uid, { attributes }]) => ({
+      dn: personDn(uid),
+      attributes: { objectclass: "person", uid, ...attributes },
+    })),
+    ...Object.entries(groups).map(([dn, members]) => ({
+      dn,
+      attributes: { objectclass: "groupOfNames", cn: dn.split(",")[0].slice(3), member: members.map(personDn) },
+    })),
+  ];
+}
+
+function startDirectory() {
+  const directory = ldap.createServer();
+
+  directory.bind(BASE, (req: BindRequest, res: BindResponse, next: Next) => {
+    const dn = req.dn.toString().replace(/\s/g, "");
+    const uid = Object.keys(people).find((name) => personDn(name) === dn);
+    const password = dn === SERVICE_DN ? "service-secret" : uid && people[uid].password;
+    if (!password || req.credentials !== password) return next(new ldap.InvalidCredentialsError());
+    res.end();
+    return next();
+  });
+
+  directory.search(BASE, (req: SearchRequest, res: SearchResponse, next: Next) => {
+    const base = req.dn.toString().replace(/\s/g, "");
+    // ldapjs compares the requested attributes lowercased, as directories treat their names
+    res.attributes = res.attributes.map((name) => name.toLowerCase());
+    for (const entry of entries()) {
+      if (entry.dn.endsWith(base) && req.filter.matches(entry.attributes)) res.send(entry);
+    }
+    res.end();
+    return next();
+  });
+
+  return new Promise<typeof directory>((resolve) => directory.listen(0, "127.0.0.1", () => resolve(directory)));
+}
+
+describe("LDAP sign-in", () => {
+  let server: TestServer;
+  let directory: Awaited<ReturnType<typeof startDirectory>>;
+
+  const login = (username: string, password: string) =>
+    server.request(null, "/api/login", { method: "POST", body: JSON.stringify({ username, password }) });
+
+  before(async () => {
+    directory = await startDirectory();
+    process.env.LDAP_URL = `ldap://127.0.0.1:${(directory.address() as AddressInfo).port}`;
+    process.env.LDAP_BIND_DN = SERVICE_DN;
+    process.env.LDAP_BIND_CREDENTIALS = "service-secret";
+    process.env.LDAP_SEARCH_BASE = `ou=people,${BASE}`;
+    process.env.LDAP_GROUP_SEARCH_BASE = `ou=groups,${BASE}`;
+    process.env.LDAP_GROUP_ROLES = JSON.stringify({
+      "CN=Grant-Admins, OU=Groups, DC=example, DC=org": "administrator",
+      [REVIEWERS]: "reviewer",
+    });
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+    directory.close();
+  });
+
+  it("creates directory users on first sign-in with the role of their groups", async () => {
+    assert.equal((await login("alice", "wrong")).status, 401);
+
+    const res = await login("alice", "alice-pass");
+    assert.equal(res.status, 200);
+    const alice = await res.json() as User;
+    assert.equal(alice.role, "administrator");
+    assert.equal(alice.authProvider, "ldap");
+    assert.equal(alice.fullName, "Alice Admin");
+    assert.equal(alice.email, "alice@staff.example.org");
+
+    const token = await server.request(null, "/api/token", { method: "POST", body: JSON.stringify({ username: "alice", password: "alice-pass" }) });
+    assert.equal(token.status, 200);
+    assert.equal((await token.json()).user.id, alice.id);
+
+    // Local accounts keep signing in with their own password
+    await server.createUser("local_applicant", "applicant");
+    assert.equal((await login("local_applicant", TEST_PASSWORD)).status, 200);
+  });
+
+  it("updates the user from the directory on every sign-in", async () => {
+    const first = await login("bob", "bob-pass");
+    assert.equal(first.status, 200);
+    assert.equal((await first.json() as User).role, "reviewer");
+
+    groups[ADMINS].push("bob");
+    people.bob.attributes.mail = "robert@staff.example.org";
+    const again = await login("bob", "bob-pass");
+    const bob = await again.json() as User;
+    assert.equal(bob.role, "administrator");
+    assert.equal(bob.email, "robert@staff.example.org");
+    assert.equal((await server.storage.getUserByUsername("bob"))!.role, "administrator");
+  });
+
+  it("refuses directory users outside the mapped groups", async () => {
+    const res = await login("carol", "carol-pass");
+    assert.equal(res.status, 401);
+    assert.match((await res.json()).message, /no access/);
+    assert.equal(await server.storage.getUserByUsername("carol"), undefined);
+  });
+
+  it("takes over a local account only when the email matches", async () => {
+    await server.createUser("dave", "applicant");
+    const res = await login("dave", "dave-pass");
+    assert.equal(res.status, 200);
+    assert.equal((await res.json() as User).role, "reviewer");
+    assert.equal((await login("dave", TEST_PASSWORD)).status, 401);
+    assert.equal((await server.request("dave", "/api/user")).status, 401);
+
+    await server.createUser("erin", "applicant");
+    const refused = await login("erin", "erin-pass");
+    assert.equal(refused.status, 401);
+    assert.match((await refused.json()).message, /local account already uses this username/);
+    assert.equal((await server.storage.getUserByUsername("erin"))!.authProvider, "local");
+  });
+
+  it("leaves passwords of directory users to the directory", async () => {
+    const res = await login("alice", "alice-pass");
+    const cookie = res.headers.getSetCookie().map((value) => value.split(";")[0]).join("; ");
+
+    const change = await server.request(null, "/api/user/password", {
+      method: "POST",
+      body: JSON.stringify({ currentPassword: "alice-pass", newPassword: "local-pass-1" }),
+      headers: { Cookie: cookie },
+    });
+    assert.equal(change.status, 400);
+    assert.match((await change.json()).message, /managed by the staff directory/);
+
+    await server.request(null, "/api/password/forgot", { method: "POST", body: JSON.stringify({ email: "alice@staff.example.org" }) });
+    assert.deepEqual(await server.inbox("alice@staff.example.org"), []);
+  });
+});
+
+describe("ldapConfigFromEnv", () => {
+  it("is off without LDAP_URL and rejects unknown roles", async () => {
+    const { ldapConfigFromEnv, roleForGroups } = await import("./ldap");
+    assert.equal(ldapConfigFromEnv({}), undefined);
+    assert.throws(
+      () => ldapConfigFromEnv({ LDAP_URL: "ldap://x", LDAP_SEARCH_BASE: BASE, LDAP_GROUP_ROLES: '{"cn=a":"owner"}' }),
+      /unknown role "owner"/,
+    );
+
+    const config = ldapConfigFromEnv({
+      LDAP_URL: "ldap://x",
+      LDAP_SEARCH_BASE: BASE,
+      LDAP_GROUP_ROLES: JSON.stringify({ [ADMINS]: "administrator", [REVIEWERS]: "reviewer" }),
+      LDAP_DEFAULT_ROLE: "donor",
+    })!;
+    assert.equal(config.server.searchFilter, "(uid={{username}})");
+    assert.equal(roleForGroups(config, [REVIEWERS, ADMINS.toUpperCase()]), "administrator");
+    assert.equal(roleForGroups(config, []), "donor");
+  });
+});
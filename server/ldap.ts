@@ -0,0 +1,159 @@
+import { randomBytes } from "crypto";
+import type { Options as LdapAuthOptions } from "ldapauth-fork";
+import { storage } from "./storage";
+import { hashPassword } from "./passwords";
+import { User } from "@shared/schema";
+
+/**
+ * Staff sign-in against an LDAP directory. The strategy binds as a service
+ * account, finds the user with the search filter and binds as them to check
+ * the password; their groups decide the role. Directory users get a row in
+ * users on their first sign-in, which later sign-ins keep up to date.
+ *
+ * Enabled by LDAP_URL. LDAP_BIND_DN and LDAP_BIND_CREDENTIALS name the
+ * service account; LDAP_SEARCH_BASE and LDAP_SEARCH_FILTER find users, where
+ * {{username}} is the name typed at login. Groups come from the memberOf
+ * attribute and, when LDAP_GROUP_SEARCH_BASE is set, from a search with
+ * LDAP_GROUP_SEARCH_FILTER ({{dn}} is the user's DN). LDAP_GROUP_ROLES is a
+ * JSON object of group DNs to roles; users in none of the groups are refused
+ * unless LDAP_DEFAULT_ROLE is set.
+ */
+
+type Role = User["role"];
+
+const ROLES: Role[] = ["administrator", "reviewer", "donor", "applicant"];
+
+export interface LdapConfig {
+  server: LdapAuthOptions;
+  usernameAttribute: string;
+  nameAttribute: string;
+  emailAttribute: string;
+  // Keyed by normalized group DN
+  groupRoles: Map<string, Role>;
+  defaultRole?: Role;
+}
+
+// The directory entry passport-ldapauth hands to the verify callback
+export type LdapEntry = Record<string, unknown> & {
+  dn: string;
+  _groups?: { dn: string }[];
+};
+
+export class LdapLoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LdapLoginError";
+  }
+}
+
+function parseRole(value: unknown, setting: string): Role {
+  if (!ROLES.includes(value as Role)) {
+    throw new Error(`${setting} has unknown role "${value}"; use one of ${ROLES.join(", ")}`);
+  }
+  return value as Role;
+}
+
+// DNs compare case-insensitively and without the spaces around separators
+function normalizeDn(dn: string) {
+  return dn.toLowerCase().replace(/\s*([,=+])\s*/g, "$1").trim();
+}
+
+function values(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+export function ldapConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LdapConfig | undefined {
+  if (!env.LDAP_URL) return undefined;
+  if (!env.LDAP_SEARCH_BASE) {
+    throw new Error("LDAP_SEARCH_BASE must be set when LDAP_URL is set");
+  }
+
+  const groupRoles = new Map<string, Role>();
+  if (env.LDAP_GROUP_ROLES) {
+    let mapping: Record<string, unknown>;
+    try {
+      mapping = JSON.parse(env.LDAP_GROUP_ROLES);
+    } catch {
+      throw new Error("LDAP_GROUP_ROLES must be a JSON object of group DNs to roles");
+    }
+    for (const [group, role] of Object.entries(mapping)) {
+      groupRoles.set(normalizeDn(group), parseRole(role, "LDAP_GROUP_ROLES"));
+    }
+  }
+
+  const usernameAttribute = env.LDAP_USERNAME_ATTRIBUTE || "uid";
+  const nameAttribute = env.LDAP_NAME_ATTRIBUTE || "cn";
+  const emailAttribute = env.LDAP_EMAIL_ATTRIBUTE || "mail";
+
+  return {
+    server: {
+      url: env.LDAP_URL,
+      bindDN: env.LDAP_BIND_DN,
+      bindCredentials: env.LDAP_BIND_CREDENTIALS,
+      searchBase: env.LDAP_SEARCH_BASE,
+      searchFilter: env.LDAP_SEARCH_FILTER || `(${usernameAttribute}={{username}})`,
+      searchAttributes: ["dn", usernameAttribute, nameAttribute, emailAttribute, "memberOf"],
+      groupSearchBase: env.LDAP_GROUP_SEARCH_BASE,
+      groupSearchFilter: env.LDAP_GROUP_SEARCH_BASE ? env.LDAP_GROUP_SEARCH_FILTER || "(member={{dn}})" : undefined,
+      groupSearchAttributes: ["dn"],
+      starttls: env.LDAP_STARTTLS === "true",
+    },
+    usernameAttribute,
+    nameAttribute,
+    emailAttribute,
+    groupRoles,
+    defaultRole: env.LDAP_DEFAULT_ROLE ? parseRole(env.LDAP_DEFAULT_ROLE, "LDAP_DEFAULT_ROLE") : undefined,
+  };
+}
+
+// The most privileged role any of the user's groups maps to
+export function roleForGroups(config: LdapConfig, groupDns: string[]): Role | undefined {
+  const roles = new Set(groupDns.map((dn) => config.groupRoles.get(normalizeDn(dn))));
+  return ROLES.find((role) => roles.has(role)) ?? config.defaultRole;
+}
+
+/**
+ * Creates or updates the users row of a directory user who has just signed
+ * in. A local account with the same username is taken over only when its
+ * email matches the directory's.
+ */
+export async function provisionLdapUser(config: LdapConfig, entry: LdapEntry): Promise<User> {
+  const username = values(entry[config.usernameAttribute])[0];
+  const email = values(entry[config.emailAttribute])[0];
+  if (!username || !email) {
+    throw new LdapLoginError(`The directory entry has no ${!username ? config.usernameAttribute : config.emailAttribute}`);
+  }
+  const fullName = values(entry[config.nameAttribute])[0] || username;
+
+  const groups = [...values(entry.memberOf), ...(entry._groups ?? []).map((group) => group.dn)];
+  const role = roleForGroups(config, groups);
+  if (!role) {
+    throw new LdapLoginError("Your directory account has no access to this application");
+  }
+
+  const existing = await storage.getUserByUsername(username);
+  if (existing && existing.authProvider !== "ldap" && existing.email.toLowerCase() !== email.toLowerCase()) {
+    throw new LdapLoginError("A local account already uses this username");
+  }
+  const emailOwner = await storage.getUserByEmail(email);
+  if (emailOwner && emailOwner.id !== existing?.id) {
+    throw new LdapLoginError("Another account already uses the directory email address");
+  }
+
+  if (existing) {
+    // Taking over a local account ends the sessions opened with its password
+    const authVersion = existing.authProvider === "ldap" ? existing.authVersion : existing.authVersion + 1;
+    return (await storage.updateUser(existing.id, { fullName, email, role, authProvider: "ldap", authVersion }))!;
+  }
+
+  // The random password is never told to anyone; local sign-in refuses directory accounts anyway
+  const user = await storage.createUser({
+    username,
+    fullName,
+    email,
+    role,
+    password: await hashPassword(randomBytes(32).toString("hex")),
+  });
+  return (await storage.updateUser(user.id, { authProvider: "ldap" }))!;
+}
@@ -0,0 +1,78 @@
+import { createDatabase } from "./db";
+import {
+  baselineMigrations,
+  getAppliedMigrations,
+  loadMigrations,
+  migrateDown,
+  migrateUp,
+} from "./migrate";
+
+/**
+ * Usage:
+ *   tsx server/migrate-cli.ts up           apply pending migrations
+ *   tsx server/migrate-cli.ts down [steps] roll back the last migration(s)
+ *   tsx server/migrate-cli.ts status       list applied and pending migrations
+ *   tsx server/migrate-cli.ts baseline <tag>
+ *                                           mark migrations up to <tag> as applied
+ */
+async function main() {
+  const [command = "up", arg] = process.argv.slice(2);
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set to run migrations");
+  }
+
+  const { pool, db } = createDatabase(process.env.DATABASE_URL);
+
+  try {
+    switch (command) {
+      case "up": {
+        const applied = await migrateUp(db);
+        console.log(applied.length
+          ? `Applied ${applied.length} migration(s): ${applied.join(", ")}`
+          : "Database is up to date");
+        break;
+      }
+      case "down": {
+        const steps = arg ? parseInt(arg) : 1;
+        if (isNaN(steps) || steps < 1) {
+          throw new Error(`Invalid number of steps: ${arg}`);
+        }
+        const rolledBack = await migrateDown(db, steps);
+        console.log(rolledBack.length
+          ? `Rolled back ${rolledBack.length} migration(s): ${rolledBack.join(", ")}`
+          : "Nothing to roll back");
+        break;
+      }
+      case "status": {
+        const applied = new Map(
+          (await getAppliedMigrations(db)).map((migration) => [migration.tag, migration]),
+        );
+        for (const migration of loadMigrations()) {
+          const record = applied.get(migration.tag);
+          console.log(record
+            ? `[applied ${record.appliedAt.toISOString()}] ${migration.tag}`
+            : `[pending] ${migration.tag}`);
+        }
+        break;
+      }
+      case "baseline": {
+        if (!arg) {
+          throw new Error("Usage: baseline <tag>");
+        }
+        const baselined = await baselineMigrations(db, arg);
+        console.log(`Marked ${baselined.length} migration(s) as applied`);
+        break;
+      }
+      default:
+        throw new Error(`Unknown command "${command}", expected up, down, status or baseline`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error("Migration failed:", error.message);
+  process.exit(1);
+});
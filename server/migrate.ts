@@ -0,0 +1,204 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { sql } from "drizzle-orm";
+import type { Database } from "./db";
+
+/**
+ * Versioned SQL migrations.
+ *
+ * Migrations are generated by `drizzle-kit generate` into ./migrations and
+ * applied in journal order. Each applied migration is recorded in the
+ * schema_migrations table together with a checksum of its SQL. A migration
+ * can be rolled back when it ships a matching ./migrations/down/<tag>.sql.
+ */
+
+const MIGRATIONS_TABLE = "schema_migrations";
+// Arbitrary key for pg_advisory_xact_lock so concurrent runners queue up
+const MIGRATION_LOCK_KEY = 72_310_415;
+const STATEMENT_BREAKPOINT = "--> statement-breakpoint";
+
+export interface Migration {
+  tag: string;
+  upPath: string;
+  downPath: string;
+}
+
+export interface AppliedMigration {
+  tag: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+export function getMigrationsFolder() {
+  return path.resolve(process.cwd(), process.env.MIGRATIONS_DIR || "migrations");
+}
+
+/**
+ * Lists the migrations known to the drizzle-kit journal, oldest first
+ */
+export function loadMigrations(folder = getMigrationsFolder()): Migration[] {
+  const journalPath = path.join(folder, "meta", "_journal.json");
+  if (!fs.existsSync(journalPath)) {
+    throw new Error(`Migration journal not found at ${journalPath}`);
+  }
+
+  const journal = JSON.parse(fs.readFileSync(journalPath, "utf8")) as {
+    entries: { idx: number; tag: string }[];
+  };
+
+  return journal.entries
+    .sort((a, b) => a.idx - b.idx)
+    .map(({ tag }) => ({
+      tag,
+      upPath: path.join(folder, `${tag}.sql`),
+      downPath: path.join(folder, "down", `${tag}.sql`),
+    }));
+}
+
+function checksum(contents: string) {
+  return createHash("sha256").update(contents).digest("hex");
+}
+
+function splitStatements(contents: string) {
+  return contents
+    .split(STATEMENT_BREAKPOINT)
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+}
+
+// Neon, node-postgres and PGlite all return `{ rows }` from execute()
+function rowsOf(result: unknown) {
+  return (result as { rows: Record<string, unknown>[] }).rows;
+}
+
+async function ensureMigrationsTable(db: Database) {
+  await db.execute(sql.raw(`
+    CREATE TABLE IF NOT EXISTS "${MIGRATIONS_TABLE}" (
+      "tag" text PRIMARY KEY NOT NULL,
+      "checksum" text NOT NULL,
+      "applied_at" timestamp DEFAULT now() NOT NULL
+    )
+  `));
+}
+
+export async function getAppliedMigrations(db: Database): Promise<AppliedMigration[]> {
+  await ensureMigrationsTable(db);
+  const result = await db.execute(sql.raw(
+    `SELECT "tag", "checksum", "applied_at" FROM "${MIGRATIONS_TABLE}" ORDER BY "tag"`
+  ));
+
+  return rowsOf(result).map((row) => ({
+    tag: row.tag as string,
+    checksum: row.checksum as string,
+    appliedAt: new Date(row.applied_at as string),
+  }));
+}
+
+/**
+ * Applies every pending migration, each in its own transaction.
+ * Returns the tags that were applied.
+ */
+export async function migrateUp(db: Database, folder = getMigrationsFolder()): Promise<string[]> {
+  const migrations = loadMigrations(folder);
+  const applied = new Map(
+    (await getAppliedMigrations(db)).map((migration) => [migration.tag, migration]),
+  );
+  const appliedNow: string[] = [];
+
+  for (const migration of migrations) {
+    const contents = fs.readFileSync(migration.upPath, "utf8");
+    const hash = checksum(contents);
+    const existing = applied.get(migration.tag);
+
+    if (existing) {
+      if (existing.checksum !== hash) {
+        throw new Error(`Migration ${migration.tag} was modified after it was applied`);
+      }
+      continue;
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_KEY})`);
+
+      // Another runner may have applied it while we waited for the lock
+      const already = await tx.execute(sql`
+        SELECT 1 FROM ${sql.identifier(MIGRATIONS_TABLE)} WHERE "tag" = ${migration.tag}
+      `);
+      if (rowsOf(already).length > 0) return;
+
+      for (const statement of splitStatements(contents)) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.execute(sql`
+        INSERT INTO ${sql.identifier(MIGRATIONS_TABLE)} ("tag", "checksum")
+        VALUES (${migration.tag}, ${hash})
+      `);
+      appliedNow.push(migration.tag);
+    });
+  }
+
+  return appliedNow;
+}
+
+/**
+ * Rolls back the most recently applied migrations using their down scripts.
+ * Returns the tags that were rolled back.
+ */
+export async function migrateDown(db: Database, steps = 1, folder = getMigrationsFolder()): Promise<string[]> {
+  const migrations = loadMigrations(folder);
+  const applied = new Set((await getAppliedMigrations(db)).map((migration) => migration.tag));
+  const toRollBack = migrations
+    .filter((migration) => applied.has(migration.tag))
+    .reverse()
+    .slice(0, steps);
+  const rolledBack: string[] = [];
+
+  for (const migration of toRollBack) {
+    if (!fs.existsSync(migration.downPath)) {
+      throw new Error(`Migration ${migration.tag} has no down script at ${migration.downPath}`);
+    }
+    const contents = fs.readFileSync(migration.downPath, "utf8");
+
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_KEY})`);
+      for (const statement of splitStatements(contents)) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.execute(sql`
+        DELETE FROM ${sql.identifier(MIGRATIONS_TABLE)} WHERE "tag" = ${migration.tag}
+      `);
+    });
+    rolledBack.push(migration.tag);
+  }
+
+  return rolledBack;
+}
+
+/**
+ * Records migrations up to and including `tag` as applied without running
+ * them. Used once for databases that were created with `drizzle-kit push`
+ * before versioned migrations existed.
+ */
+export async function baselineMigrations(db: Database, tag: string, folder = getMigrationsFolder()): Promise<string[]> {
+  const migrations = loadMigrations(folder);
+  const index = migrations.findIndex((migration) => migration.tag === tag);
+  if (index === -1) {
+    throw new Error(`Unknown migration ${tag}`);
+  }
+
+  const applied = new Set((await getAppliedMigrations(db)).map((migration) => migration.tag));
+  const baselined: string[] = [];
+
+  for (const migration of migrations.slice(0, index + 1)) {
+    if (applied.has(migration.tag)) continue;
+    const hash = checksum(fs.readFileSync(migration.upPath, "utf8"));
+    await db.execute(sql`
+      INSERT INTO ${sql.identifier(MIGRATIONS_TABLE)} ("tag", "checksum")
+      VALUES (${migration.tag}, ${hash})
+    `);
+    baselined.push(migration.tag);
+  }
+
+  return baselined;
+}
@@ -0,0 +1,103 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import { startTestServer, TEST_PASSWORD, type TestServer } from "./test-server";
+
+describe("password reset and change", () => {
+  let server: TestServer;
+
+  const post = (username: string | null, path: string, body: object, cookie?: string) =>
+    server.request(username, path, {
+      method: "POST",
+      body: JSON.stringify(body),
+      headers: cookie ? { Cookie: cookie } : undefined,
+    });
+
+  // Signs in again, next to the session the test server keeps
+  const login = async (username: string, password: string) => {
+    const res = await post(null, "/api/login", { username, password });
+    return res.status === 200
+      ? res.headers.getSetCookie().map((cookie) => cookie.split(";")[0]).join("; ")
+      : undefined;
+  };
+
+  const currentUser = (cookie: string) =>
+    server.request(null, "/api/user", { headers: { Cookie: cookie } });
+
+  const resetToken = async (username: string) => {
+    const mails = await server.inbox(`${username}@example.org`);
+    const reset = mails.filter((mail) => mail.subject === "Reset your password");
+    return new URL(/^http\S+$/m.exec(reset[reset.length - 1].text)![0]).searchParams.get("token")!;
+  };
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(() => server.close());
+
+  it("resets a password once with the emailed token and ends open sessions", async () => {
+    await server.createUser("reset_user", "applicant");
+    const session = (await login("reset_user", TEST_PASSWORD))!;
+
+    const unknown = await post(null, "/api/password/forgot", { email: "nobody@example.org" });
+    assert.equal(unknown.status, 200);
+    assert.deepEqual(await server.inbox("nobody@example.org"), []);
+
+    assert.equal((await post(null, "/api/password/forgot", { email: "reset_user@example.org" })).status, 200);
+    const stale = await resetToken("reset_user");
+    assert.equal((await post(null, "/api/password/forgot", { email: "reset_user@example.org" })).status, 200);
+    const token = await resetToken("reset_user");
+    assert.notEqual(token, stale);
+
+    const weak = await post(null, "/api/password/reset", { token, password: "short" });
+    assert.equal(weak.status, 400);
+    assert.match((await weak.json()).message, /at least 8 characters/);
+    assert.equal((await post(null, "/api/password/reset", { token: stale, password: "new-password-1" })).status, 400);
+
+    assert.equal((await post(null, "/api/password/reset", { token, password: "new-password-1" })).status, 200);
+    assert.equal((await post(null, "/api/password/reset", { token, password: "new-password-2" })).status, 400);
+
+    assert.equal((await currentUser(session)).status, 401);
+    assert.equal((await server.request("reset_user", "/api/user")).status, 401);
+    assert.equal(await login("reset_user", TEST_PASSWORD), undefined);
+    assert.ok(await login("reset_user", "new-password-1"));
+
+    const mails = await server.inbox("reset_user@example.org");
+    assert.equal(mails[mails.length - 1].subject, "Your password was changed");
+  });
+
+  it("rejects expired reset tokens", async () => {
+    const user = await server.createUser("reset_expired", "applicant");
+    await server.storage.createPasswordResetToken({
+      userId: user.id,
+      tokenHash: createHash("sha256").update("expired-token").digest("hex"),
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    assert.equal((await post(null, "/api/password/reset", { token: "expired-token", password: "new-password-1" })).status, 400);
+    assert.ok(await login("reset_expired", TEST_PASSWORD));
+  });
+
+  it("changes the password of the signed-in user and keeps only their session", async () => {
+    await server.createUser("change_user", "applicant");
+    const current = (await login("change_user", TEST_PASSWORD))!;
+    const change = (newPassword: string, currentPassword = TEST_PASSWORD) =>
+      post(null, "/api/user/password", { currentPassword, newPassword }, current);
+
+    assert.equal((await post(null, "/api/user/password", { currentPassword: TEST_PASSWORD, newPassword: "changed-1" })).status, 401);
+    const wrong = await change("changed-pass-1", "not-it");
+    assert.equal(wrong.status, 400);
+    assert.match((await wrong.json()).message, /current password is incorrect/);
+    assert.equal((await change("onlyletters")).status, 400);
+
+    const res = await change("changed-pass-1");
+    assert.equal(res.status, 200);
+
+    // The session is renewed under the new password, the others end
+    const renewed = res.headers.getSetCookie().map((cookie) => cookie.split(";")[0]).join("; ");
+    assert.equal((await currentUser(renewed)).status, 200);
+    assert.equal((await server.request("change_user", "/api/user")).status, 401);
+    assert.ok(await login("change_user", "changed-pass-1"));
+    assert.equal((await server.storage.getUserByUsername("change_user"))!.authVersion, 1);
+  });
+});
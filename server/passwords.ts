@@ -0,0 +1,127 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { mailTransport } from "./mail";
+import { User } from "@shared/schema";
+
+/**
+ * Password hashing and the two ways to replace a password: a reset through
+ * a single-use emailed link, and a change by a signed-in user who knows the
+ * current one. Both bump the user's authVersion, which ends every session
+ * signed in under the old password.
+ */
+
+export const RESET_TOKEN_TTL_MINUTES = 60;
+
+export class PasswordError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "PasswordError";
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string) {
+  // Check if the stored password contains a salt (has a period)
+  if (!stored || !stored.includes('.')) {
+    // For backward compatibility (old passwords may not be hashed properly)
+    // Handle this case by checking if passwords match directly (not recommended for security)
+    console.warn("Password without proper hash format detected");
+    return false;
+  }
+
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+async function setPassword(user: User, password: string): Promise<User> {
+  const updated = (await storage.updateUser(user.id, {
+    password: await hashPassword(password),
+    authVersion: user.authVersion + 1,
+  }))!;
+
+  await mailTransport.send({
+    to: user.email,
+    subject: "Your password was changed",
+    text: [
+      `Hello ${user.fullName},`,
+      "",
+      "The password of your account was just changed and you were signed out on your other devices.",
+      "If you did not do this, reset your password right away and contact the administrators.",
+    ].join("\n"),
+  });
+  return updated;
+}
+
+/**
+ * Mails a reset link to the owner of the address. Unknown addresses get the
+ * same response, so the endpoint does not reveal which accounts exist.
+ */
+export async function requestPasswordReset(email: string, baseUrl: string): Promise<void> {
+  const user = await storage.getUserByEmail(email);
+  // Directory accounts change their password in the directory
+  if (!user || user.authProvider !== "local") return;
+
+  // Only the newest link works
+  await storage.markPasswordResetTokensUsed(user.id);
+  const token = randomBytes(32).toString("base64url");
+  await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+  });
+
+  await mailTransport.send({
+    to: user.email,
+    subject: "Reset your password",
+    text: [
+      `Hello ${user.fullName},`,
+      "",
+      "Open this link to choose a new password:",
+      `${baseUrl}/reset-password?token=${token}`,
+      "",
+      `The link works once and expires in ${RESET_TOKEN_TTL_MINUTES} minutes.`,
+      "If you did not ask for a new password, you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+export async function resetPassword(token: string, password: string): Promise<User> {
+  const stored = await storage.getPasswordResetTokenByHash(hashToken(token));
+  if (!stored || stored.usedAt || stored.expiresAt.getTime() <= Date.now()) {
+    throw new PasswordError("The reset link is invalid or has expired. Request a new one.", 400);
+  }
+
+  await storage.markPasswordResetTokensUsed(stored.userId);
+  const user = await storage.getUser(stored.userId);
+  if (!user || user.authProvider !== "local") {
+    throw new PasswordError("The reset link is invalid or has expired. Request a new one.", 400);
+  }
+  return setPassword(user, password);
+}
+
+export async function changePassword(user: User, currentPassword: string, newPassword: string): Promise<User> {
+  if (user.authProvider !== "local") {
+    throw new PasswordError("Your password is managed by the staff directory", 400);
+  }
+  if (!(await comparePasswords(currentPassword, user.password))) {
+    throw new PasswordError("Your current password is incorrect", 400);
+  }
+  if (currentPassword === newPassword) {
+    throw new PasswordError("Choose a password different from the current one", 400);
+  }
+  return setPassword(user, newPassword);
+}
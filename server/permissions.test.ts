@@ -0,0 +1,81 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { User } from "@shared/schema";
+import { DEFAULT_ROLE_PERMISSIONS } from "@shared/permissions";
+import { startTestServer, type TestServer } from "./test-server";
+
+describe("permission matrix", () => {
+  let server: TestServer;
+
+  let adminUser: User;
+  let applicant: User;
+  let reviewer: User;
+  let donor: User;
+
+  const request = (username: string | null, path: string, init?: RequestInit) =>
+    server.request(username, path, init);
+
+  const setPermissions = (username: string, role: string, permissions: string[]) =>
+    request(username, `/api/permissions/${role}`, {
+      method: "PUT",
+      body: JSON.stringify({ permissions }),
+    });
+
+  before(async () => {
+    server = await startTestServer();
+    adminUser = await server.createUser("perm_admin", "administrator");
+    applicant = await server.createUser("perm_applicant", "applicant");
+    reviewer = await server.createUser("perm_reviewer", "reviewer");
+    donor = await server.createUser("perm_donor", "donor");
+  });
+
+  after(() => server.close());
+
+  it("reports the current user's permissions", async () => {
+    assert.equal((await request(null, "/api/user/permissions")).status, 401);
+
+    const res = await request(reviewer.username, "/api/user/permissions");
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), DEFAULT_ROLE_PERMISSIONS.reviewer);
+  });
+
+  it("enforces permissions on routes", async () => {
+    assert.equal((await request(null, "/api/budget")).status, 401);
+    assert.equal((await request(applicant.username, "/api/budget")).status, 403);
+    assert.equal((await request(donor.username, "/api/budget")).status, 200);
+
+    assert.equal((await request(donor.username, "/api/evaluations")).status, 403);
+    assert.equal((await request(reviewer.username, "/api/evaluations")).status, 200);
+  });
+
+  it("only lets permission managers read and edit the matrix", async () => {
+    assert.equal((await request(reviewer.username, "/api/permissions")).status, 403);
+    assert.equal((await setPermissions(reviewer.username, "reviewer", [])).status, 403);
+
+    const res = await request(adminUser.username, "/api/permissions");
+    assert.equal(res.status, 200);
+    const matrix = await res.json();
+    assert.ok("budget.view" in matrix.permissions);
+    assert.deepEqual(matrix.roles.donor, DEFAULT_ROLE_PERMISSIONS.donor);
+  });
+
+  it("applies edits to the matrix immediately", async () => {
+    const res = await setPermissions(adminUser.username, "applicant", ["budget.view", "budget.view"]);
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { role: "applicant", permissions: ["budget.view"] });
+    assert.equal((await request(applicant.username, "/api/budget")).status, 200);
+
+    await setPermissions(adminUser.username, "applicant", []);
+    assert.equal((await request(applicant.username, "/api/budget")).status, 403);
+  });
+
+  it("rejects invalid edits", async () => {
+    assert.equal((await setPermissions(adminUser.username, "superuser", [])).status, 400);
+    assert.equal((await setPermissions(adminUser.username, "donor", ["budget.delete"])).status, 400);
+
+    // Administrators cannot lock themselves out of the matrix
+    const lockout = await setPermissions(adminUser.username, "administrator", ["user.manage"]);
+    assert.equal(lockout.status, 400);
+    assert.equal((await request(adminUser.username, "/api/permissions")).status, 200);
+  });
+});
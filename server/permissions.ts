@@ -0,0 +1,38 @@
+import type { NextFunction, Request, Response } from "express";
+import { storage } from "./storage";
+import { User } from "@shared/schema";
+import { Permission, isPermission } from "@shared/permissions";
+
+/**
+ * Permissions currently granted to a user through their role. Unknown
+ * permission names left in the table are ignored.
+ */
+export async function getUserPermissions(user: User): Promise<Permission[]> {
+  const permissions = await storage.getPermissionsByRole(user.role);
+  return permissions.filter(isPermission);
+}
+
+export async function hasPermission(user: User, permission: Permission): Promise<boolean> {
+  return (await getUserPermissions(user)).includes(permission);
+}
+
+/**
+ * Express middleware: 401 when not logged in, 403 unless the user's role
+ * grants the permission
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      if (!(await hasPermission(req.user, permission))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
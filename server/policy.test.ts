@@ -0,0 +1,214 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Application, User } from "@shared/schema";
+import { DEFAULT_ROLE_PERMISSIONS } from "@shared/permissions";
+import { startTestServer, type TestServer } from "./test-server";
+
+describe("application visibility policy", () => {
+  let server: TestServer;
+
+  let adminUser: User;
+  let applicantA: User;
+  let applicantB: User;
+  let donor: User;
+  let reviewer: User;
+  let applicationA: Application;
+  let applicationB: Application;
+
+  const request = (username: string | null, path: string, init?: RequestInit) =>
+    server.request(username, path, init);
+
+  async function listIds(username: string) {
+    const res = await request(username, "/api/applications?limit=100");
+    assert.equal(res.status, 200);
+    const page = await res.json() as { items: Application[] };
+    return page.items.map((application) => application.id);
+  }
+
+  before(async () => {
+    server = await startTestServer();
+    const { storage, createUser } = server;
+
+    adminUser = await createUser("policy_admin", "administrator");
+    applicantA = await createUser("policy_applicant_a", "applicant");
+    applicantB = await createUser("policy_applicant_b", "applicant");
+    donor = await createUser("policy_donor", "donor");
+    reviewer = await createUser("policy_reviewer", "reviewer");
+
+    const fundedProgram = await storage.createProgram({ name: "Funded", type: "donacija", budgetTotal: 1000, year: 2025 });
+    const otherProgram = await storage.createProgram({ name: "Other", type: "donacija", budgetTotal: 1000, year: 2025 });
+    await storage.createProgramDonor({ programId: fundedProgram.id, donorId: donor.id });
+
+    applicationA = await storage.createApplication({ applicantId: applicantA.id, programId: otherProgram.id, summary: "A's project" });
+    applicationB = await storage.createApplication({ applicantId: applicantB.id, programId: fundedProgram.id, summary: "B's project" });
+    await storage.createReviewerAssignment({ applicationId: applicationB.id, reviewerId: reviewer.id });
+
+    for (const application of [applicationA, applicationB]) {
+      await storage.createDocument({
+        applicationId: application.id,
+        fileName: "budget.pdf",
+        fileType: "pdf",
+        filePath: `/uploads/${application.id}/budget.pdf`,
+        uploadedBy: application.applicantId,
+      });
+      await storage.createEvaluation({ applicationId: application.id, evaluatedBy: adminUser.id, score: 70 });
+    }
+  });
+
+  after(() => server.close());
+
+  it("requires authentication for application reads", async () => {
+    for (const path of [
+      "/api/applications",
+      `/api/applications/${applicationA.id}`,
+      `/api/applications/${applicationA.id}/documents`,
+      `/api/applications/${applicationA.id}/evaluations`,
+    ]) {
+      assert.equal((await request(null, path)).status, 401, path);
+    }
+  });
+
+  it("lets an applicant read their own dossier", async () => {
+    const username = applicantA.username;
+
+    assert.deepEqual(await listIds(username), [applicationA.id]);
+    assert.equal((await request(username, `/api/applications/${applicationA.id}`)).status, 200);
+
+    const documents = await (await request(username, `/api/applications/${applicationA.id}/documents`)).json();
+    assert.equal(documents.length, 1);
+    assert.equal((await request(username, `/api/applications/${applicationA.id}/messages`)).status, 200);
+  });
+
+  it("does not let applicant A read applicant B's dossier", async () => {
+    const username = applicantA.username;
+
+    assert.ok(!(await listIds(username)).includes(applicationB.id));
+
+    for (const path of [
+      `/api/applications/${applicationB.id}`,
+      `/api/applications/${applicationB.id}/documents`,
+      `/api/applications/${applicationB.id}/evaluations`,
+      `/api/applications/${applicationB.id}/messages`,
+    ]) {
+      assert.equal((await request(username, path)).status, 403, path);
+    }
+
+    // Filtering by someone else's id does not widen the scope
+    assert.deepEqual(
+      (await (await request(username, `/api/applications?applicantId=${applicantB.id}`)).json()).items,
+      [],
+    );
+  });
+
+  it("hides evaluations from applicants, even on their own applications", async () => {
+    const res = await request(applicantA.username, `/api/applications/${applicationA.id}/evaluations`);
+    assert.equal(res.status, 403);
+  });
+
+  it("shows donors only the programs they fund", async () => {
+    const username = donor.username;
+
+    assert.deepEqual(await listIds(username), [applicationB.id]);
+    assert.equal((await request(username, `/api/applications/${applicationB.id}/documents`)).status, 200);
+    assert.equal((await request(username, `/api/applications/${applicationA.id}`)).status, 403);
+
+    // Looking up applications by id and the monthly report stay within the scope
+    const byId = await (await request(username, `/api/applications?ids=${applicationA.id},${applicationB.id}`)).json();
+    assert.deepEqual(byId.items.map((application: Application) => application.id), [applicationB.id]);
+    await server.storage.updateApplication(applicationA.id, { submittedAt: new Date("2025-05-10T10:00:00Z") });
+    await server.storage.updateApplication(applicationB.id, { submittedAt: new Date("2025-05-20T10:00:00Z") });
+    const report = await (await request(username, "/api/reports/submissions?year=2025")).json();
+    assert.equal(report.months[4], 1);
+    const all = await (await request(adminUser.username, "/api/reports/submissions?year=2025")).json();
+    assert.equal(all.months[4], 2);
+    assert.equal((await request(applicantA.username, "/api/reports/submissions?year=2025")).status, 403);
+    assert.equal((await request(adminUser.username, "/api/reports/submissions")).status, 400);
+  });
+
+  it("shows reviewers only the applications assigned to them", async () => {
+    const username = reviewer.username;
+
+    assert.deepEqual(await listIds(username), [applicationB.id]);
+    assert.equal((await request(username, `/api/applications/${applicationB.id}/evaluations`)).status, 200);
+    assert.equal((await request(username, `/api/applications/${applicationA.id}/documents`)).status, 403);
+
+    const evaluations = await (await request(username, "/api/evaluations")).json() as { items: { applicationId: number }[]; total: number };
+    assert.deepEqual(evaluations.items.map((evaluation) => evaluation.applicationId), [applicationB.id]);
+    assert.equal(evaluations.total, 1);
+    assert.equal((await request(username, "/api/evaluations?limit=0")).status, 400);
+
+    // Evaluating, with or without the AI suggestion, stays within the assignments
+    const post = (path: string, body: object = {}) => request(username, path, { method: "POST", body: JSON.stringify(body) });
+    assert.equal((await post(`/api/applications/${applicationA.id}/ai-evaluation`)).status, 403);
+    assert.equal((await post(`/api/applications/${applicationA.id}/evaluations`, { score: 90, decision: "revisit" })).status, 403);
+    assert.equal((await post(`/api/applications/${applicationA.id + 1000}/evaluations`, { score: 90 })).status, 404);
+    assert.equal((await server.storage.getEvaluationsByApplication(applicationA.id)).length, 1);
+    assert.equal((await post(`/api/applications/${applicationB.id}/ai-evaluation`)).status, 200);
+  });
+
+  it("lets administrators see everything and manage assignments", async () => {
+    const ids = await listIds(adminUser.username);
+    assert.ok(ids.includes(applicationA.id) && ids.includes(applicationB.id));
+
+    // Only administrators assign reviewers
+    const forbidden = await request(applicantA.username, `/api/applications/${applicationA.id}/reviewers`, {
+      method: "POST",
+      body: JSON.stringify({ reviewerId: reviewer.id }),
+    });
+    assert.equal(forbidden.status, 403);
+
+    const notReviewer = await request(adminUser.username, `/api/applications/${applicationA.id}/reviewers`, {
+      method: "POST",
+      body: JSON.stringify({ reviewerId: applicantB.id }),
+    });
+    assert.equal(notReviewer.status, 400);
+
+    const assigned = await request(adminUser.username, `/api/applications/${applicationA.id}/reviewers`, {
+      method: "POST",
+      body: JSON.stringify({ reviewerId: reviewer.id }),
+    });
+    assert.equal(assigned.status, 201);
+    assert.deepEqual(await listIds(reviewer.username), [applicationA.id, applicationB.id]);
+
+    const removed = await request(adminUser.username, `/api/applications/${applicationA.id}/reviewers/${reviewer.id}`, {
+      method: "DELETE",
+    });
+    assert.equal(removed.status, 204);
+    assert.deepEqual(await listIds(reviewer.username), [applicationB.id]);
+  });
+
+  it("follows the permission matrix rather than roles", async () => {
+    const { storage } = server;
+    const donorDefaults = await storage.getPermissionsByRole("donor");
+    const reviewerDefaults = await storage.getPermissionsByRole("reviewer");
+    const evaluationsOfB = `/api/applications/${applicationB.id}/evaluations`;
+
+    try {
+      // Without evaluation.view, donors no longer read evaluations of the programs they fund
+      assert.equal((await request(donor.username, evaluationsOfB)).status, 200);
+      await storage.setRolePermissions("donor", donorDefaults.filter((permission) => permission !== "evaluation.view"));
+      assert.equal((await request(donor.username, evaluationsOfB)).status, 403);
+      assert.equal((await request(donor.username, `/api/applications/${applicationB.id}`)).status, 200);
+
+      // Without application.view, they see no application at all
+      await storage.setRolePermissions("donor", []);
+      assert.deepEqual(await listIds(donor.username), []);
+      assert.equal((await request(donor.username, `/api/applications/${applicationB.id}`)).status, 403);
+
+      // With application.view_all, reviewers see applications they are not assigned to
+      await storage.setRolePermissions("reviewer", [...reviewerDefaults, "application.view_all"]);
+      const ids = await listIds(reviewer.username);
+      assert.ok(ids.includes(applicationA.id) && ids.includes(applicationB.id));
+      assert.equal((await request(reviewer.username, `/api/applications/${applicationA.id}/documents`)).status, 200);
+
+      // And applicants read evaluations once given evaluation.view
+      assert.equal((await request(applicantA.username, `/api/applications/${applicationA.id}/evaluations`)).status, 403);
+      await storage.setRolePermissions("applicant", [...await storage.getPermissionsByRole("applicant"), "evaluation.view"]);
+      assert.equal((await request(applicantA.username, `/api/applications/${applicationA.id}/evaluations`)).status, 200);
+    } finally {
+      await storage.setRolePermissions("donor", donorDefaults);
+      await storage.setRolePermissions("reviewer", reviewerDefaults);
+      await storage.setRolePermissions("applicant", DEFAULT_ROLE_PERMISSIONS.applicant);
+    }
+  });
+});
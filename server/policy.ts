@@ -0,0 +1,129 @@
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { hasPermission } from "./permissions";
+import { Application, ApplicationScope, Document, User } from "@shared/schema";
+import { Permission } from "@shared/permissions";
+
+/**
+ * Who may read what.
+ *
+ * Users with application.view_all see every application. Users with
+ * application.view see the applications they submitted, plus:
+ *  - donors: applications to the programs they fund (program_donors)
+ *  - reviewers: applications they are assigned to (reviewer_assignments)
+ * Each action on an application additionally needs its own permission.
+ *
+ * Every read route goes through this module, either by scoping a list with
+ * getApplicationScope or by loading a single record with
+ * loadAuthorizedApplication.
+ */
+
+export type ApplicationAction = "view" | "documents" | "evaluations" | "messages";
+
+// The permission an action needs, on applications within the user's scope
+const actionPermissions: Record<ApplicationAction, Permission> = {
+  view: "application.view",
+  documents: "document.access",
+  evaluations: "evaluation.view",
+  messages: "message.access",
+};
+
+/**
+ * The applications a user may see, or undefined when they may see all of them
+ */
+export async function getApplicationScope(user: User): Promise<ApplicationScope | undefined> {
+  if (await hasPermission(user, "application.view_all")) return undefined;
+  // An empty scope matches no application
+  if (!(await hasPermission(user, "application.view"))) return {};
+
+  const scope: ApplicationScope = { applicantId: user.id };
+
+  if (user.role === "donor") {
+    const funded = await storage.getProgramDonorsByDonor(user.id);
+    scope.programIds = funded.map((pd) => pd.programId);
+  }
+
+  if (user.role === "reviewer") {
+    const assignments = await storage.getReviewerAssignmentsByReviewer(user.id);
+    scope.applicationIds = assignments.map((ra) => ra.applicationId);
+  }
+
+  return scope;
+}
+
+export function isInScope(application: Application, scope: ApplicationScope | undefined) {
+  if (!scope) return true;
+  return (
+    application.applicantId === scope.applicantId ||
+    (scope.programIds?.includes(application.programId) ?? false) ||
+    (scope.applicationIds?.includes(application.id) ?? false)
+  );
+}
+
+export async function canAccessApplication(
+  user: User,
+  application: Application,
+  action: ApplicationAction,
+): Promise<boolean> {
+  if (!(await hasPermission(user, actionPermissions[action]))) return false;
+  return isInScope(application, await getApplicationScope(user));
+}
+
+/**
+ * Loads the application named by req.params.id for an action, answering the
+ * request with 401, 404 or 403 when it cannot be used. Returns undefined in
+ * that case.
+ */
+export async function loadAuthorizedApplication(
+  req: Request,
+  res: Response,
+  action: ApplicationAction,
+): Promise<Application | undefined> {
+  if (!req.isAuthenticated()) {
+    res.status(401).json({ message: "Unauthorized" });
+    return undefined;
+  }
+
+  const application = await storage.getApplication(parseInt(req.params.id));
+  if (!application) {
+    res.status(404).json({ message: "Application not found" });
+    return undefined;
+  }
+
+  if (!(await canAccessApplication(req.user, application, action))) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+
+  return application;
+}
+
+/**
+ * Loads the document named by req.params.id if the user may see the documents
+ * of its application, answering the request otherwise. Deleted documents are
+ * only found by users who manage applications.
+ */
+export async function loadAuthorizedDocument(
+  req: Request,
+  res: Response,
+): Promise<Document | undefined> {
+  if (!req.isAuthenticated()) {
+    res.status(401).json({ message: "Unauthorized" });
+    return undefined;
+  }
+
+  const document = await storage.getDocument(parseInt(req.params.id));
+  const application = document && await storage.getApplication(document.applicationId);
+  if (!document || !application ||
+      (document.deletedAt && !(await hasPermission(req.user, "application.manage")))) {
+    res.status(404).json({ message: "Document not found" });
+    return undefined;
+  }
+
+  if (!(await canAccessApplication(req.user, application, "documents"))) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+
+  return document;
+}
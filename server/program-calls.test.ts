@@ -0,0 +1,128 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Program, User } from "@shared/schema";
+import { dateToZonedInput, getCallStatus, zonedTimeToDate } from "@shared/program-calls";
+import { startTestServer, type TestServer } from "./test-server";
+
+const HOUR = 60 * 60_000;
+
+describe("call windows", () => {
+  const callWindow = (overrides: Partial<Program>) => ({
+    active: true,
+    opensAt: null,
+    closesAt: null,
+    timezone: "Europe/Sarajevo",
+    gracePeriodMinutes: 0,
+    ...overrides,
+  });
+
+  it("derives the call status from the window and grace period", () => {
+    const now = new Date("2025-03-31T12:00:00Z");
+    const closesAt = new Date("2025-03-31T11:30:00Z");
+
+    assert.equal(getCallStatus(callWindow({}), now), "open");
+    assert.equal(getCallStatus(callWindow({ active: false }), now), "closed");
+    assert.equal(getCallStatus(callWindow({ opensAt: new Date("2025-04-01T00:00:00Z") }), now), "upcoming");
+    assert.equal(getCallStatus(callWindow({ closesAt: new Date("2025-03-31T13:00:00Z") }), now), "open");
+    assert.equal(getCallStatus(callWindow({ closesAt }), now), "closed");
+    assert.equal(getCallStatus(callWindow({ closesAt, gracePeriodMinutes: 60 }), now), "grace");
+  });
+
+  it("converts wall-clock times in the program's time zone", () => {
+    // Sarajevo is UTC+1 in winter and UTC+2 in summer
+    assert.equal(zonedTimeToDate("2025-01-15T23:59", "Europe/Sarajevo").toISOString(), "2025-01-15T22:59:00.000Z");
+    assert.equal(zonedTimeToDate("2025-07-15T23:59", "Europe/Sarajevo").toISOString(), "2025-07-15T21:59:00.000Z");
+    assert.equal(zonedTimeToDate("2025-07-15T23:59", "UTC").toISOString(), "2025-07-15T23:59:00.000Z");
+    assert.equal(dateToZonedInput("2025-07-15T21:59:00.000Z", "Europe/Sarajevo"), "2025-07-15T23:59");
+  });
+});
+
+describe("call window enforcement", () => {
+  let server: TestServer;
+  let applicant: User;
+
+  const post = (username: string, path: string, body: unknown = {}) =>
+    server.request(username, path, { method: "POST", body: JSON.stringify(body) });
+
+  function createProgram(overrides: Partial<Program>) {
+    return server.storage.createProgram({ name: "Call", type: "donacija", budgetTotal: 1000, year: 2025, ...overrides });
+  }
+
+  before(async () => {
+    server = await startTestServer();
+    applicant = await server.createUser("call_applicant", "applicant");
+    await server.createUser("call_admin", "administrator");
+  });
+
+  after(() => server.close());
+
+  it("refuses new applications outside the window", async () => {
+    const upcoming = await createProgram({ opensAt: new Date(Date.now() + HOUR) });
+    const closed = await createProgram({ closesAt: new Date(Date.now() - HOUR) });
+    const open = await createProgram({ closesAt: new Date(Date.now() + HOUR) });
+
+    for (const program of [upcoming, closed]) {
+      const res = await post("call_applicant", "/api/applications", { programId: program.id, summary: "Late" });
+      assert.equal(res.status, 400);
+    }
+
+    const res = await post("call_applicant", "/api/applications", { programId: open.id, summary: "On time" });
+    assert.equal(res.status, 201);
+  });
+
+  it("accepts submissions during the grace period only", async () => {
+    const inGrace = await createProgram({ closesAt: new Date(Date.now() - HOUR), gracePeriodMinutes: 120 });
+    const expired = await createProgram({ closesAt: new Date(Date.now() - HOUR), gracePeriodMinutes: 30 });
+
+    for (const [program, status] of [[inGrace, 200], [expired, 400]] as const) {
+      const application = await server.storage.createApplication({
+        applicantId: applicant.id,
+        programId: program.id,
+        summary: "Drafted in time",
+        requestedAmount: 100,
+      });
+      const res = await post("call_applicant", `/api/applications/${application.id}/submit`);
+      assert.equal(res.status, status);
+    }
+  });
+
+  it("closes calls once their deadline passes", async () => {
+    const { closeExpiredCalls } = await import("./program-calls");
+    const expired = await createProgram({ closesAt: new Date(Date.now() - 2 * HOUR), gracePeriodMinutes: 60 });
+    const inGrace = await createProgram({ closesAt: new Date(Date.now() - HOUR), gracePeriodMinutes: 120 });
+
+    const closed = await closeExpiredCalls();
+    assert.ok(closed.some((program) => program.id === expired.id));
+    assert.ok(!closed.some((program) => program.id === inGrace.id));
+    assert.ok((await server.storage.getProgram(expired.id))!.callClosedAt);
+    assert.equal((await server.storage.getProgram(inGrace.id))!.callClosedAt, null);
+    assert.ok(!(await closeExpiredCalls()).some((program) => program.id === expired.id));
+
+    // Closing the call leaves the program active, so extending the window reopens it
+    assert.equal((await server.storage.getProgram(expired.id))!.active, true);
+    const extended = await server.request("call_admin", `/api/programs/${expired.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ closesAt: new Date(Date.now() + HOUR).toISOString() }),
+    });
+    assert.equal(extended.status, 200);
+    assert.equal((await extended.json() as Program).callClosedAt, null);
+    const res = await post("call_applicant", "/api/applications", { programId: expired.id, summary: "After the extension" });
+    assert.equal(res.status, 201);
+  });
+
+  it("validates call windows on program updates", async () => {
+    const program = await createProgram({ closesAt: new Date("2025-06-30T22:00:00Z") });
+    const patch = (body: unknown) =>
+      server.request("call_admin", `/api/programs/${program.id}`, { method: "PATCH", body: JSON.stringify(body) });
+
+    assert.equal((await patch({ opensAt: "2025-07-01T00:00:00Z" })).status, 400);
+    assert.equal((await patch({ timezone: "Mars/Olympus" })).status, 400);
+
+    const res = await patch({ opensAt: "2025-06-01T00:00:00Z", timezone: "UTC", gracePeriodMinutes: 15 });
+    assert.equal(res.status, 200);
+    const updated = await res.json() as Program;
+    assert.equal(updated.timezone, "UTC");
+    assert.equal(updated.gracePeriodMinutes, 15);
+    assert.equal(new Date(updated.opensAt!).toISOString(), "2025-06-01T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,43 @@
+import { storage } from "./storage";
+import { Program } from "@shared/schema";
+import { callDeadline } from "@shared/program-calls";
+
+// How often the scheduler looks for calls past their deadline
+const CALL_SCHEDULER_INTERVAL_MS = 60_000;
+
+/**
+ * Records the closing of every active program's call whose deadline (closing
+ * date plus grace period) has passed since the last run. The program stays
+ * active; it accepts applications again once its window is moved. Returns the
+ * programs whose calls it closed.
+ */
+export async function closeExpiredCalls(now: Date = new Date()): Promise<Program[]> {
+  const closed: Program[] = [];
+
+  for (const program of await storage.getPrograms()) {
+    const deadline = callDeadline(program);
+    if (!program.active || program.callClosedAt || !deadline || deadline >= now) continue;
+
+    const updated = await storage.updateProgram(program.id, { callClosedAt: now });
+    if (updated) closed.push(updated);
+  }
+
+  return closed;
+}
+
+/**
+ * Closes expired calls now and then once a minute, for the life of the process
+ */
+export function startCallScheduler(onClosed: (program: Program) => void) {
+  const run = () => {
+    closeExpiredCalls()
+      .then((closed) => closed.forEach(onClosed))
+      .catch((error) => console.error("Failed to close expired calls:", error));
+  };
+
+  run();
+  const timer = setInterval(run, CALL_SCHEDULER_INTERVAL_MS);
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,170 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Program, User } from "@shared/schema";
+import { ProgramForm, answersSchema, missingAttachments, programFormSchema } from "@shared/program-forms";
+import { startTestServer, type TestServer } from "./test-server";
+
+const form: ProgramForm = programFormSchema.parse({
+  sections: [
+    {
+      key: "project",
+      title: "Project",
+      fields: [
+        { key: "category", label: "Category", type: "select", required: true, options: [
+          { value: "culture", label: "Culture" },
+          { value: "sport", label: "Sport" },
+        ] },
+        { key: "participants", label: "Participants", type: "number", validation: { min: 1, max: 500 } },
+        { key: "venue", label: "Venue", type: "text", required: true, visibleWhen: { field: "category", equals: "sport" } },
+      ],
+    },
+    {
+      key: "partners",
+      title: "Partners",
+      fields: [
+        { key: "hasPartners", label: "We work with partners", type: "checkbox" },
+        { key: "partnerNames", label: "Partner names", type: "textarea", required: true, visibleWhen: { field: "hasPartners" } },
+      ],
+    },
+  ],
+  attachments: [{ key: "budget", label: "Budget", accept: [".xlsx"] }],
+});
+
+describe("program forms", () => {
+  it("rejects malformed form definitions", () => {
+    const invalid = programFormSchema.safeParse({
+      sections: [{
+        key: "main",
+        title: "Main",
+        fields: [
+          { key: "choice", label: "Choice", type: "select" },
+          { key: "later", label: "Later", type: "text", visibleWhen: { field: "missing" } },
+          { key: "later", label: "Again", type: "text" },
+        ],
+      }],
+    });
+
+    assert.equal(invalid.success, false);
+    assert.deepEqual(invalid.error!.issues.map((issue) => issue.path.join(".")), [
+      "sections.0.fields.0.options",
+      "sections.0.fields.1.visibleWhen",
+      "sections.0.fields.2.key",
+    ]);
+  });
+
+  it("validates typed answers and only requires them on submission", () => {
+    const draft = answersSchema(form, "draft");
+    const submit = answersSchema(form, "submit");
+
+    assert.equal(draft.safeParse({}).success, true);
+    assert.equal(submit.safeParse({}).success, false);
+    assert.equal(draft.safeParse({ category: "music" }).success, false);
+    assert.equal(draft.safeParse({ participants: 1000 }).success, false);
+    assert.equal(draft.safeParse({ participants: "12" }).success, false);
+    assert.deepEqual(submit.parse({ category: "culture", participants: 12 }), { category: "culture", participants: 12 });
+  });
+
+  it("applies conditional fields", () => {
+    const submit = answersSchema(form, "submit");
+
+    const sport = submit.safeParse({ category: "sport" });
+    assert.equal(sport.success, false);
+    assert.deepEqual(sport.error!.issues.map((issue) => issue.path), [["venue"]]);
+
+    assert.equal(submit.safeParse({ category: "culture", hasPartners: true }).success, false);
+    // Answers to fields that are not shown are dropped
+    assert.deepEqual(submit.parse({ category: "culture", venue: "Stadium", hasPartners: false, partnerNames: "A" }), {
+      category: "culture",
+      hasPartners: false,
+    });
+  });
+
+  it("lists required attachments that were not uploaded", () => {
+    assert.deepEqual(missingAttachments(form, []).map((attachment) => attachment.key), ["budget"]);
+    assert.deepEqual(missingAttachments(form, [{ attachmentKey: "budget" }]), []);
+    assert.deepEqual(missingAttachments(null, []), []);
+  });
+});
+
+describe("program form enforcement", () => {
+  let server: TestServer;
+  let applicant: User;
+  let program: Program;
+
+  const post = (username: string, path: string, body: unknown = {}) =>
+    server.request(username, path, { method: "POST", body: JSON.stringify(body) });
+
+  before(async () => {
+    server = await startTestServer();
+    applicant = await server.createUser("form_applicant", "applicant");
+    await server.createUser("form_admin", "administrator");
+    program = await server.storage.createProgram({ name: "Form program", type: "donacija", budgetTotal: 1000, year: 2025 });
+  });
+
+  after(() => server.close());
+
+  it("lets administrators define the form", async () => {
+    const patch = (body: unknown) =>
+      server.request("form_admin", `/api/programs/${program.id}`, { method: "PATCH", body: JSON.stringify(body) });
+
+    assert.equal((await patch({ formSchema: { sections: [{ key: "x", title: "X", fields: [{ key: "1a", label: "A", type: "text" }] }] } })).status, 400);
+
+    const res = await patch({ formSchema: form });
+    assert.equal(res.status, 200);
+    assert.deepEqual((await res.json() as Program).formSchema, form);
+  });
+
+  it("validates answers on create and update", async () => {
+    const invalid = await post("form_applicant", "/api/applications", {
+      programId: program.id,
+      summary: "Wrong category",
+      answers: { category: "music" },
+    });
+    assert.equal(invalid.status, 400);
+
+    const res = await post("form_applicant", "/api/applications", {
+      programId: program.id,
+      summary: "Started",
+      answers: { category: "sport" },
+    });
+    assert.equal(res.status, 201);
+    const application = await res.json();
+    assert.deepEqual(application.answers, { category: "sport" });
+
+    const update = (answers: unknown) =>
+      server.request("form_applicant", `/api/applications/${application.id}`, { method: "PATCH", body: JSON.stringify({ answers }) });
+    assert.equal((await update({ participants: -1 })).status, 400);
+    assert.equal((await update({ category: "sport", venue: "Arena" })).status, 200);
+  });
+
+  it("requires complete answers and attachments on submission", async () => {
+    const application = await server.storage.createApplication({
+      applicantId: applicant.id,
+      programId: program.id,
+      summary: "Incomplete",
+      requestedAmount: 100,
+      answers: { category: "sport" },
+    });
+    const submit = () => post("form_applicant", `/api/applications/${application.id}/submit`);
+
+    let res = await submit();
+    assert.equal(res.status, 400);
+    assert.match((await res.json()).message, /Venue: Required/);
+
+    await server.storage.updateApplication(application.id, { answers: { category: "sport", venue: "Arena" } });
+    res = await submit();
+    assert.equal(res.status, 400);
+    assert.match((await res.json()).message, /Missing required attachments: Budget/);
+
+    await server.storage.createDocument({
+      applicationId: application.id,
+      fileName: "budget.xlsx",
+      fileType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      filePath: "/uploads/budget.xlsx",
+      uploadedBy: applicant.id,
+      attachmentKey: "budget",
+    });
+    res = await submit();
+    assert.equal(res.status, 200);
+  });
+});
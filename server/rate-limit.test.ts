@@ -0,0 +1,143 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AuditLogPage } from "@shared/schema";
+import { RATE_LIMIT_POLICIES } from "@shared/rate-limits";
+import { startTestServer, TEST_PASSWORD, type TestServer } from "./test-server";
+
+describe("rate limits and account lockout", () => {
+  let server: TestServer;
+
+  const post = (username: string | null, path: string, body: object) =>
+    server.request(username, path, { method: "POST", body: JSON.stringify(body) });
+  const login = (username: string, password: string) => post(null, "/api/login", { username, password });
+  const setPolicy = (name: string, body: object) =>
+    server.request("rl_admin", `/api/rate-limits/${name}`, { method: "PUT", body: JSON.stringify(body) });
+
+  // Fails the sign-in as many times as the lockout allows, which locks the account
+  async function lockOut(username: string) {
+    for (let attempt = 0; attempt < RATE_LIMIT_POLICIES["login.lockout"].limit; attempt++) {
+      assert.equal((await login(username, "wrong-password")).status, 401);
+    }
+  }
+
+  async function unlockToken(username: string) {
+    const mails = await server.inbox(`${username}@example.org`);
+    const mail = mails[mails.length - 1];
+    assert.equal(mail.subject, "Your account was locked");
+    return mail.text.match(/unlock-account\?token=(\S+)/)![1];
+  }
+
+  before(async () => {
+    server = await startTestServer();
+    await server.createUser("rl_admin", "administrator");
+    await server.createUser("rl_reviewer", "reviewer");
+    await server.createUser("rl_locked", "applicant");
+    await server.createUser("rl_repeat", "applicant");
+    await server.createUser("rl_unmailed", "applicant");
+  });
+
+  after(() => server.close());
+
+  it("locks an account after failed sign-ins in a row until the emailed link unlocks it", async () => {
+    await lockOut("rl_locked");
+    const locked = await login("rl_locked", TEST_PASSWORD);
+    assert.equal(locked.status, 429);
+    const retryAfter = Number(locked.headers.get("Retry-After"));
+    assert.ok(retryAfter > 0 && retryAfter <= RATE_LIMIT_POLICIES["login.lockout"].windowSeconds);
+    assert.match((await locked.json()).message, /Too many failed sign-ins/);
+    // Token clients are held back the same way
+    assert.equal((await post(null, "/api/token", { username: "rl_locked", password: TEST_PASSWORD })).status, 429);
+
+    const token = await unlockToken("rl_locked");
+    assert.equal((await post(null, "/api/account/unlock", { token })).status, 200);
+    assert.equal((await post(null, "/api/account/unlock", { token })).status, 400);
+    assert.equal((await login("rl_locked", TEST_PASSWORD)).status, 200);
+    const user = (await server.storage.getUserByUsername("rl_locked"))!;
+    assert.equal(await server.storage.getAccountLockout(user.id), undefined);
+
+    const { items } = await (await server.request("rl_admin", "/api/audit-log?action=auth.account_locked,auth.account_unlocked")).json() as AuditLogPage;
+    assert.deepEqual(items.map((entry) => [entry.action, entry.entityId]), [
+      ["auth.account_unlocked", user.id],
+      ["auth.account_locked", user.id],
+    ]);
+  });
+
+  it("locks for twice as long each time until a successful sign-in", async () => {
+    await lockOut("rl_repeat");
+    assert.equal((await post(null, "/api/account/unlock", { token: await unlockToken("rl_repeat") })).status, 200);
+
+    await lockOut("rl_repeat");
+    assert.equal((await login("rl_repeat", TEST_PASSWORD)).status, 429);
+    const user = (await server.storage.getUserByUsername("rl_repeat"))!;
+    const lockout = (await server.storage.getAccountLockout(user.id))!;
+    assert.equal(lockout.lockouts, 2);
+    const seconds = (lockout.lockedUntil!.getTime() - Date.now()) / 1000;
+    const firstLockout = RATE_LIMIT_POLICIES["login.lockout"].windowSeconds;
+    assert.ok(seconds > firstLockout && seconds <= 2 * firstLockout);
+  });
+
+  it("locks an account even when the unlock link cannot be mailed", async () => {
+    // Loaded after the test server has picked the drivers of the singletons
+    const { mailTransport } = await import("./mail");
+    const send = mailTransport.send;
+    mailTransport.send = async () => {
+      throw new Error("Mail server unavailable");
+    };
+    try {
+      await lockOut("rl_unmailed");
+    } finally {
+      mailTransport.send = send;
+    }
+    assert.equal((await login("rl_unmailed", TEST_PASSWORD)).status, 429);
+  });
+
+  it("limits failed sign-ins per account and per IP address under policies admins change", async () => {
+    assert.equal((await server.request("rl_reviewer", "/api/rate-limits")).status, 403);
+    assert.equal((await setPolicy("login.nothing", { limit: 1, windowSeconds: 60 })).status, 404);
+    assert.equal((await setPolicy("login.account", { limit: 0, windowSeconds: 60 })).status, 400);
+
+    const changed = await setPolicy("login.account", { limit: 2, windowSeconds: 600 });
+    assert.deepEqual(await changed.json(), { name: "login.account", limit: 2, windowSeconds: 600 });
+    const policies = await (await server.request("rl_admin", "/api/rate-limits")).json();
+    assert.deepEqual(policies["login.account"], { limit: 2, windowSeconds: 600 });
+    assert.deepEqual(policies["login.ip"], { limit: RATE_LIMIT_POLICIES["login.ip"].limit, windowSeconds: RATE_LIMIT_POLICIES["login.ip"].windowSeconds });
+
+    // Unknown usernames are limited like accounts, without saying they do not exist
+    assert.equal((await login("nobody", "guess-1")).status, 401);
+    assert.equal((await login("Nobody", "guess-2")).status, 401);
+    const throttled = await login("nobody", "guess-3");
+    assert.equal(throttled.status, 429);
+    assert.ok(Number(throttled.headers.get("Retry-After")) > 0);
+    assert.match((await throttled.json()).message, /Too many failed sign-ins/);
+
+    // This address has failed more often than that by now
+    const { windowSeconds } = RATE_LIMIT_POLICIES["login.ip"];
+    await setPolicy("login.ip", { limit: 2, windowSeconds });
+    assert.equal((await login("rl_reviewer", TEST_PASSWORD)).status, 429);
+    await setPolicy("login.ip", { limit: 100, windowSeconds });
+    assert.equal((await login("rl_reviewer", TEST_PASSWORD)).status, 200);
+  });
+
+  it("holds registration to its own limit, apart from signed-in API traffic", async () => {
+    await setPolicy("register.ip", { limit: 2, windowSeconds: 3600 });
+    assert.equal((await post(null, "/api/register", {})).status, 400);
+    assert.equal((await post(null, "/api/register", {})).status, 400);
+    const throttled = await post(null, "/api/register", {});
+    assert.equal(throttled.status, 429);
+    assert.ok(Number(throttled.headers.get("Retry-After")) > 0);
+    assert.equal((await server.request("rl_admin", "/api/user")).status, 200);
+
+    // Anonymous requests share a limit per IP address; signed-in users have their own
+    await setPolicy("api.anonymous", { limit: 1, windowSeconds: 60 });
+    assert.equal((await server.request(null, "/api/user")).status, 429);
+    assert.equal((await server.request("rl_reviewer", "/api/user")).status, 200);
+  });
+
+  it("lets no more requests through than the limit when they arrive together", async () => {
+    const { consumeRateLimit } = await import("./rate-limit");
+    await setPolicy("api.user", { limit: 3, windowSeconds: 600 });
+    const waits = await Promise.all(Array.from({ length: 6 }, () => consumeRateLimit("api.user", "burst")));
+    assert.equal(waits.filter((wait) => wait === undefined).length, 3);
+    assert.ok(waits.every((wait) => wait === undefined || wait > 0));
+  });
+});
@@ -0,0 +1,147 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { storage } from "./storage";
+import { RateLimitPolicy, RateLimitUpdate } from "@shared/schema";
+import {
+  MAX_RATE_LIMIT_WINDOW_SECONDS,
+  RATE_LIMIT_POLICIES,
+  RateLimitPolicyName,
+  RateLimitSettings,
+  rateLimitPolicyNames,
+} from "@shared/rate-limits";
+
+/**
+ * Sliding-window rate limits. Requests are counted per policy and client in
+ * fixed windows of the policy's length; the sliding count adds the share of
+ * the previous window that still falls within the last `windowSeconds`. The
+ * counters are kept in the storage, so every server process sees the same.
+ *
+ * Policies start from the defaults in shared/rate-limits.ts; administrators
+ * change them through setRateLimitPolicy.
+ */
+
+// Policies changed elsewhere apply after this long
+const POLICY_CACHE_MS = 30_000;
+// How often old counters are removed
+const COUNTER_SWEEP_INTERVAL_MS = 10 * 60_000;
+
+let cachedPolicies: { loadedAt: number; policies: Record<RateLimitPolicyName, RateLimitSettings> } | undefined;
+let lastSweep = 0;
+
+export async function getRateLimitPolicies(): Promise<Record<RateLimitPolicyName, RateLimitSettings>> {
+  if (cachedPolicies && Date.now() - cachedPolicies.loadedAt < POLICY_CACHE_MS) {
+    return cachedPolicies.policies;
+  }
+
+  const stored = await storage.getRateLimitPolicies();
+  const policies = {} as Record<RateLimitPolicyName, RateLimitSettings>;
+  for (const name of rateLimitPolicyNames) {
+    const { limit, windowSeconds } = stored.find((policy) => policy.name === name) ?? RATE_LIMIT_POLICIES[name];
+    policies[name] = { limit, windowSeconds };
+  }
+  cachedPolicies = { loadedAt: Date.now(), policies };
+  return policies;
+}
+
+// A new window length starts the policy's counts afresh
+export async function setRateLimitPolicy(name: RateLimitPolicyName, update: RateLimitUpdate): Promise<RateLimitPolicy> {
+  const policy = await storage.setRateLimitPolicy(name, update);
+  cachedPolicies = undefined;
+  return policy;
+}
+
+// The policy's limit and the fixed window that now falls in
+async function currentWindow(name: RateLimitPolicyName, now: number) {
+  const { limit, windowSeconds } = (await getRateLimitPolicies())[name];
+  const windowMs = windowSeconds * 1000;
+  return { limit, windowMs, windowStart: Math.floor(now / windowMs) * windowMs };
+}
+
+// Seconds until another request fits under the limit, given the counts of
+// the previous and the current window, or undefined when one fits now
+function secondsUntilAllowed(
+  { limit, windowMs, windowStart }: Awaited<ReturnType<typeof currentWindow>>,
+  previous: number,
+  current: number,
+  now: number,
+): number | undefined {
+  const previousShare = 1 - (now - windowStart) / windowMs;
+  if (previous * previousShare + current < limit) return undefined;
+
+  // Under the limit once enough of the previous window has slid out, or,
+  // when the current one alone is over it, enough of the current one
+  const allowedAt = current < limit
+    ? windowStart + (1 - (limit - current) / previous) * windowMs
+    : windowStart + windowMs + (1 - limit / current) * windowMs;
+  return Math.max(1, Math.ceil((allowedAt - now) / 1000));
+}
+
+// Counters stop mattering once a window of the longest length has passed them
+function sweepCounters(now: number) {
+  if (now - lastSweep <= COUNTER_SWEEP_INTERVAL_MS) return;
+  lastSweep = now;
+  storage.deleteRateLimitCountersBefore(new Date(now - 2 * MAX_RATE_LIMIT_WINDOW_SECONDS * 1000))
+    .catch((error) => console.error("Failed to remove old rate limit counters:", error));
+}
+
+/**
+ * Seconds until the client may make the next request under the policy, or
+ * undefined when it may now. Does not count a request.
+ */
+export async function checkRateLimit(name: RateLimitPolicyName, key: string): Promise<number | undefined> {
+  const now = Date.now();
+  const window = await currentWindow(name, now);
+  const previous = await storage.getRateLimitCount(`${name}:${key}`, new Date(window.windowStart - window.windowMs));
+  const current = await storage.getRateLimitCount(`${name}:${key}`, new Date(window.windowStart));
+  return secondsUntilAllowed(window, previous, current, now);
+}
+
+// Counts a request of the client under the policy
+export async function hitRateLimit(name: RateLimitPolicyName, key: string): Promise<void> {
+  const now = Date.now();
+  const { windowStart } = await currentWindow(name, now);
+  await storage.incrementRateLimitCounter(`${name}:${key}`, new Date(windowStart));
+  sweepCounters(now);
+}
+
+/**
+ * Counts a request of the client under the policy and decides on it: seconds
+ * to wait when it is one too many, undefined when it may go ahead. The count
+ * is taken and read back in one storage call, so concurrent requests cannot
+ * all pass a check before any of them is counted. Requests turned away count
+ * too.
+ */
+export async function consumeRateLimit(name: RateLimitPolicyName, key: string): Promise<number | undefined> {
+  const now = Date.now();
+  const window = await currentWindow(name, now);
+  const current = await storage.incrementRateLimitCounter(`${name}:${key}`, new Date(window.windowStart));
+  sweepCounters(now);
+  const previous = await storage.getRateLimitCount(`${name}:${key}`, new Date(window.windowStart - window.windowMs));
+
+  // The request fits if it did before it was counted
+  if (secondsUntilAllowed(window, previous, current - 1, now) === undefined) return undefined;
+  return secondsUntilAllowed(window, previous, current, now);
+}
+
+export function sendTooManyRequests(res: Response, retryAfter: number, message = "Too many requests; try again later") {
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({ message });
+}
+
+/**
+ * Counts the request and answers 429 with Retry-After once the client is
+ * over the policy's limit. keyOf names the client, by default its IP address.
+ */
+export function rateLimit(
+  name: RateLimitPolicyName,
+  keyOf: (req: Request) => string = (req) => req.ip ?? "unknown",
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const retryAfter = await consumeRateLimit(name, keyOf(req));
+      if (retryAfter !== undefined) return sendTooManyRequests(res, retryAfter);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,20 +1,68 @@
 import { 
   ApplicantType, 
   RegistrationProcess, 
+  RegistrationOverview,
   VerificationDocument,
-  InsertRegistrationProcess
+  InsertRegistrationProcess,
+  InsertVerificationDocument
 } from "../shared/schema";
 import { storage } from "./storage";
+import { blobStore } from "./blob-storage";
+import { documentVerifier } from "./document-verification";
 import { 
   APPLICANT_TYPE, 
   REGISTRATION_STEPS, 
   REQUIRED_DOCUMENTS,
-  VERIFICATION_REQUIREMENTS,
   REGISTRATION_STATUS,
   DOCUMENT_VERIFICATION_STATUS,
   EMAIL_VALIDATION
 } from "../shared/constants";
 
+export class RegistrationError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "RegistrationError";
+  }
+}
+
+// Applicant type names are stored in upper case, the constants are keyed in lower case
+function applicantTypeKey(applicantType: ApplicantType) {
+  return applicantType.name.toLowerCase() as keyof typeof REGISTRATION_STEPS;
+}
+
+export function getRegistrationSteps(applicantType: ApplicantType): string[] {
+  return REGISTRATION_STEPS[applicantTypeKey(applicantType)] ?? [];
+}
+
+export function getRequiredDocuments(applicantType: ApplicantType): string[] {
+  return REQUIRED_DOCUMENTS[applicantTypeKey(applicantType)] ?? [];
+}
+
+// Steps in which applicants upload their verification documents
+const DOCUMENT_STEPS = ["identity_verification", "documentation"];
+
+/**
+ * The steps covered by the onboarding profile: everything before the
+ * documents, or everything but the final submission step
+ */
+export function getProfileSteps(steps: string[]): string[] {
+  const documentStep = steps.findIndex((step) => DOCUMENT_STEPS.includes(step));
+  return documentStep === -1 ? steps.slice(0, -1) : steps.slice(0, documentStep);
+}
+
+export function getDocumentSteps(steps: string[]): string[] {
+  return steps.filter((step) => DOCUMENT_STEPS.includes(step));
+}
+
+/**
+ * Rejects changes to a registration that is awaiting or has passed verification
+ */
+export function assertRegistrationEditable(process: RegistrationProcess) {
+  if (process.status === REGISTRATION_STATUS.PENDING_VERIFICATION || process.status === REGISTRATION_STATUS.VERIFIED) {
+    throw new RegistrationError("The registration has already been submitted for verification", 409);
+  }
+}
+
 /**
  * Creates a new registration process for a user based on applicant type
  */
@@ -29,16 +77,7 @@ export async function createRegistrationProcess(
   }
   
   // Determine the total steps based on applicant type
-  let totalSteps = 0;
-  if (applicantType.name === APPLICANT_TYPE.INDIVIDUAL) {
-    totalSteps = REGISTRATION_STEPS[APPLICANT_TYPE.INDIVIDUAL].length;
-  } else if (applicantType.name === APPLICANT_TYPE.ORGANIZATION) {
-    totalSteps = REGISTRATION_STEPS[APPLICANT_TYPE.ORGANIZATION].length;
-  } else if (applicantType.name === APPLICANT_TYPE.CORPORATION) {
-    totalSteps = REGISTRATION_STEPS[APPLICANT_TYPE.CORPORATION].length;
-  } else {
-    totalSteps = 5; // Default number of steps
-  }
+  const totalSteps = getRegistrationSteps(applicantType).length || 5; // Default number of steps
   
   // Create the registration process
   const registrationProcess: InsertRegistrationProcess = {
@@ -82,6 +121,24 @@ export async function updateRegistrationStep(
   });
 }
 
+/**
+ * Marks the given steps as completed, moving the current step to the first
+ * step still open
+ */
+export async function completeRegistrationSteps(
+  process: RegistrationProcess,
+  steps: string[],
+  completed: string[]
+): Promise<RegistrationProcess> {
+  let updated = process;
+  for (const step of completed) {
+    const done = new Set([...(updated.completedSteps || []), step]);
+    const next = steps.findIndex((name) => !done.has(name));
+    updated = (await updateRegistrationStep(process.id, next === -1 ? steps.length : next + 1, step))!;
+  }
+  return updated;
+}
+
 /**
  * Verifies a registration process based on document verification
  */
@@ -112,43 +169,7 @@ export async function verifyRegistrationProcess(
 }
 
 /**
- * AI-based verification of document information
- * This function would use AI to extract information from the document
- * and verify it against the requirements
- */
-export function performAIDocumentVerification(
-  documentPath: string,
-  documentType: string
-): { 
-  verified: boolean; 
-  score: number; 
-  extractedFields: Record<string, string>;
-  issues?: string[];
-  message?: string;
-} {
-  // This is a placeholder for actual AI verification logic
-  // In a real implementation, this would use an AI service to analyze the document
-  
-  // Simulate AI verification by returning a successful result
-  // In production, this would actually analyze the image, extract text, etc.
-  const extractedFields: Record<string, string> = {};
-  const requirements = VERIFICATION_REQUIREMENTS[documentType as keyof typeof VERIFICATION_REQUIREMENTS] || [];
-  
-  // Just for simulation - pretend we extracted these fields
-  requirements.forEach(field => {
-    extractedFields[field] = `Sample ${field.replace('_', ' ')}`;
-  });
-  
-  return {
-    verified: true,
-    score: 87, // Example score
-    extractedFields,
-    message: "Document appears to be valid and all required information was successfully extracted."
-  };
-}
-
-/**
- * Validates a document using AI and updates its verification status
+ * Runs the document verifier on a document and records its result
  */
 export async function validateDocumentWithAI(
   documentId: number
@@ -158,28 +179,27 @@ export async function validateDocumentWithAI(
     throw new Error("Document not found");
   }
   
-  // Perform AI verification on the document
-  const aiVerificationResult = performAIDocumentVerification(
-    document.filePath,
-    document.documentType
-  );
-  
-  // Determine verification status based on AI score
-  let verificationStatus = DOCUMENT_VERIFICATION_STATUS.PENDING;
-  if (aiVerificationResult.score >= 85) {
-    verificationStatus = DOCUMENT_VERIFICATION_STATUS.APPROVED;
-  } else if (aiVerificationResult.score >= 60) {
-    verificationStatus = DOCUMENT_VERIFICATION_STATUS.PENDING; // Human review needed
-  } else {
-    verificationStatus = DOCUMENT_VERIFICATION_STATUS.REQUIRES_RESUBMISSION;
+  const [user, content] = await Promise.all([
+    storage.getUser(document.userId),
+    blobStore.get(document.filePath)
+  ]);
+  if (!user || !content) {
+    throw new Error("Document file not found");
   }
+
+  const aiVerificationResult = await documentVerifier.verify({
+    content,
+    fileType: document.fileType,
+    documentType: document.documentType,
+    applicant: user
+  });
   
-  // Update the document with AI verification results
+  // Admins take the verification decision; the score orders their queue and
+  // marks documents they may approve in bulk
   return await storage.updateVerificationDocument(documentId, {
     aiVerified: true,
     aiVerificationResult: JSON.stringify(aiVerificationResult),
-    aiVerificationScore: aiVerificationResult.score,
-    verificationStatus: aiVerificationResult.score >= 85 ? DOCUMENT_VERIFICATION_STATUS.APPROVED : verificationStatus
+    aiVerificationScore: aiVerificationResult.score
   });
 }
 
@@ -273,7 +293,7 @@ export async function checkDocumentVerificationStatus(
   const documents = await storage.getVerificationDocumentsByRegistrationProcess(registrationProcessId);
   
   // Get the list of required documents for this applicant type
-  const requiredDocs = REQUIRED_DOCUMENTS[applicantType.name as keyof typeof REQUIRED_DOCUMENTS] || [];
+  const requiredDocs = getRequiredDocuments(applicantType);
   
   // Check which documents are uploaded and verified
   const uploadedDocTypes = documents.map(doc => doc.documentType);
@@ -289,8 +309,85 @@ export async function checkDocumentVerificationStatus(
   
   return {
     allUploaded: pendingDocuments.length === 0,
-    allVerified: verifiedDocTypes.length === requiredDocs.length,
+    allVerified: requiredDocs.every(doc => verifiedDocTypes.includes(doc)),
     pendingDocuments,
     rejectedDocuments
   };
-}
\ No newline at end of file
+}
+
+/**
+ * A registration process with the steps and documents of its applicant type
+ */
+export async function describeRegistration(process: RegistrationProcess): Promise<RegistrationOverview> {
+  const applicantType = await storage.getApplicantType(process.applicantTypeId);
+  if (!applicantType) {
+    throw new Error("Applicant type not found");
+  }
+
+  const [documents, status] = await Promise.all([
+    storage.getVerificationDocumentsByRegistrationProcess(process.id),
+    checkDocumentVerificationStatus(process.id),
+  ]);
+
+  return {
+    process,
+    steps: getRegistrationSteps(applicantType),
+    requiredDocuments: getRequiredDocuments(applicantType),
+    documents,
+    pendingDocuments: status.pendingDocuments,
+    rejectedDocuments: status.rejectedDocuments,
+  };
+}
+
+/**
+ * Attaches a verification document to a registration process. A new upload
+ * of a document type replaces the previous one and resets its verification.
+ * Once every required document is in, the document steps are completed.
+ */
+export async function attachVerificationDocument(
+  process: RegistrationProcess,
+  document: Omit<InsertVerificationDocument, "userId" | "registrationProcessId">
+): Promise<VerificationDocument> {
+  assertRegistrationEditable(process);
+
+  const applicantType = await storage.getApplicantType(process.applicantTypeId);
+  if (!applicantType) {
+    throw new Error("Applicant type not found");
+  }
+  const requiredDocuments = getRequiredDocuments(applicantType);
+  if (!requiredDocuments.includes(document.documentType)) {
+    throw new RegistrationError(
+      `Documents of type "${document.documentType}" are not part of this registration`, 400
+    );
+  }
+
+  const existing = (await storage.getVerificationDocumentsByRegistrationProcess(process.id))
+    .find((doc) => doc.documentType === document.documentType);
+
+  const attached = existing
+    ? (await storage.updateVerificationDocument(existing.id, {
+        ...document,
+        uploadedAt: new Date(),
+        verificationStatus: DOCUMENT_VERIFICATION_STATUS.PENDING as VerificationDocument["verificationStatus"],
+        verifiedAt: null,
+        verifiedBy: null,
+        rejectionReason: null,
+        aiVerified: false,
+        aiVerificationResult: null,
+        aiVerificationScore: null,
+      }))!
+    : await storage.createVerificationDocument({
+        ...document,
+        userId: process.userId,
+        registrationProcessId: process.id,
+      });
+
+  const status = await checkDocumentVerificationStatus(process.id);
+  if (status.allUploaded) {
+    const steps = getRegistrationSteps(applicantType);
+    const open = getDocumentSteps(steps).filter((step) => !process.completedSteps?.includes(step));
+    await completeRegistrationSteps(process, steps, open);
+  }
+
+  return attached;
+}
@@ -0,0 +1,189 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Notification, RegistrationProcess, VerificationDocument, VerificationQueueItem } from "@shared/schema";
+import { startTestServer, type TestServer } from "./test-server";
+
+const PDF = Buffer.from("%PDF-1.4\n1 0 obj << >> endobj\ntrailer << >>\n%%EOF\n");
+const DOCUMENTS = ["id_card_passport", "resume_cv", "motivation_letter", "signed_declaration"];
+
+describe("registration verification queue", () => {
+  let server: TestServer;
+  const processes = new Map<string, RegistrationProcess>();
+
+  // Runs an individual applicant through onboarding up to the verification request
+  const submit = async (username: string) => {
+    await server.createUser(username, "applicant");
+    const individual = (await server.storage.getApplicantTypes()).find((type) => type.name === "INDIVIDUAL")!;
+    const profile = await server.request(username, "/api/onboarding/profile", {
+      method: "POST",
+      body: JSON.stringify({
+        applicantTypeId: individual.id,
+        fullName: username,
+        phoneNumber: "+387 61 000 000",
+        address: "Obala Kulina bana 1",
+        city: "Sarajevo",
+        country: "Bosnia and Herzegovina",
+      }),
+    });
+    assert.equal(profile.status, 200);
+
+    for (const documentType of DOCUMENTS) {
+      const body = new FormData();
+      body.set("file", new Blob([PDF]), `${documentType}.pdf`);
+      body.set("documentType", documentType);
+      const res = await server.request(username, "/api/registration/documents", { method: "POST", body });
+      assert.equal(res.status, 201);
+    }
+
+    const res = await server.request(username, "/api/onboarding/complete", { method: "POST" });
+    assert.equal(res.status, 200);
+    processes.set(username, (await res.json()).process);
+  };
+
+  const queue = async () => {
+    const res = await server.request("verify_admin", "/api/verification/queue");
+    assert.equal(res.status, 200);
+    return await res.json() as VerificationQueueItem[];
+  };
+
+  const documentsOf = async (username: string) =>
+    server.storage.getVerificationDocumentsByRegistrationProcess(processes.get(username)!.id);
+
+  const review = (document: VerificationDocument, status: string, reason?: string) =>
+    server.request("verify_admin", `/api/verification/documents/${document.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ status, reason }),
+    });
+
+  const decide = (username: string, body: object) =>
+    server.request("verify_admin", `/api/verification/registrations/${processes.get(username)!.id}/decision`, {
+      method: "POST",
+      body: JSON.stringify(body),
+    });
+
+  const notifications = async (username: string) =>
+    await (await server.request(username, "/api/notifications")).json() as Notification[];
+
+  before(async () => {
+    server = await startTestServer();
+    await server.createUser("verify_admin", "administrator");
+    await server.createUser("verify_reviewer", "reviewer");
+    for (const username of ["verify_high", "verify_low", "verify_review"]) await submit(username);
+
+    // Documents are scored when the registration is submitted; the blank test
+    // PDFs have no text, so give them the scores of readable documents
+    const scores: Record<string, number> = { verify_high: 95, verify_review: 90, verify_low: 88 };
+    for (const [username, score] of Object.entries(scores)) {
+      for (const document of await documentsOf(username)) {
+        assert.equal(document.aiVerificationScore, 0);
+        await server.storage.updateVerificationDocument(document.id, { aiVerificationScore: score });
+      }
+    }
+    const [weak] = await documentsOf("verify_low");
+    await server.storage.updateVerificationDocument(weak.id, { aiVerificationScore: 40 });
+  });
+
+  after(() => server.close());
+
+  it("lists submitted registrations by AI score for verifiers only", async () => {
+    assert.equal((await server.request("verify_reviewer", "/api/verification/queue")).status, 403);
+
+    const items = await queue();
+    const ours = items.filter((item) => processes.has(item.applicant.username));
+    assert.deepEqual(ours.map((item) => [item.applicant.username, item.aiScore]), [
+      ["verify_high", 95],
+      ["verify_review", 90],
+      ["verify_low", 40],
+    ]);
+    assert.equal(ours[2].documents[0].aiVerificationScore, 40);
+    assert.ok(ours.every((item) => item.documents.length === 4 && item.applicantType === "INDIVIDUAL"));
+  });
+
+  it("lets applicants and verifiers preview registration documents", async () => {
+    const [document] = await documentsOf("verify_high");
+    const preview = await server.request("verify_admin", `/api/registration/documents/${document.id}/preview`);
+    assert.equal(preview.status, 200);
+    assert.equal(preview.headers.get("content-type"), "application/pdf");
+    assert.equal((await server.request("verify_high", `/api/registration/documents/${document.id}/download`)).status, 200);
+    assert.equal((await server.request("verify_low", `/api/registration/documents/${document.id}/download`)).status, 403);
+  });
+
+  it("reopens registrations when a document must be uploaded again", async () => {
+    const [document] = await documentsOf("verify_review");
+    assert.equal((await review(document, "requires_resubmission")).status, 400);
+
+    const res = await review(document, "requires_resubmission", "The scan is cut off.");
+    assert.equal(res.status, 200);
+    const reviewed = await res.json() as VerificationDocument;
+    assert.equal(reviewed.verificationStatus, "requires_resubmission");
+    assert.equal(reviewed.rejectionReason, "The scan is cut off.");
+
+    const process = await server.storage.getRegistrationProcess(processes.get("verify_review")!.id);
+    assert.equal(process!.status, "incomplete");
+    assert.ok(!(await queue()).some((item) => item.process.id === process!.id));
+
+    const [notice] = await notifications("verify_review");
+    assert.match(notice.body, /The scan is cut off\./);
+    assert.equal(notice.read, false);
+    const read = await server.request("verify_review", `/api/notifications/${notice.id}/read`, { method: "PATCH" });
+    assert.equal((await read.json() as Notification).read, true);
+    assert.equal((await server.request("verify_high", `/api/notifications/${notice.id}/read`, { method: "PATCH" })).status, 404);
+
+    assert.equal((await review(document, "approved")).status, 409);
+  });
+
+  it("verifies registrations once every document is approved", async () => {
+    assert.equal((await decide("verify_low", { approved: true })).status, 409);
+    assert.equal((await decide("verify_low", { approved: false })).status, 400);
+
+    for (const document of await documentsOf("verify_low")) {
+      assert.equal((await review(document, "approved")).status, 200);
+    }
+    const res = await decide("verify_low", { approved: true });
+    assert.equal(res.status, 200);
+    assert.equal((await res.json() as RegistrationProcess).status, "verified");
+
+    const user = await server.storage.getUserByUsername("verify_low");
+    assert.equal(user!.isVerified, true);
+    assert.equal((await notifications("verify_low"))[0].title, "Your registration is verified");
+    assert.equal((await decide("verify_low", { approved: false, reason: "Too late" })).status, 409);
+  });
+
+  it("bulk-approves registrations with high-confidence documents", async () => {
+    await submit("verify_weak");
+    const [weak, ...rest] = await documentsOf("verify_weak");
+    await server.storage.updateVerificationDocument(weak.id, { aiVerificationScore: 70 });
+    for (const document of rest) await server.storage.updateVerificationDocument(document.id, { aiVerificationScore: 95 });
+
+    const ids = ["verify_high", "verify_weak", "verify_low"].map((username) => processes.get(username)!.id);
+    const res = await server.request("verify_admin", "/api/verification/bulk-approve", {
+      method: "POST",
+      body: JSON.stringify({ registrationIds: ids }),
+    });
+    assert.equal(res.status, 200);
+    const result = await res.json() as { approved: number[]; skipped: { id: number; reason: string }[] };
+    assert.deepEqual(result.approved, [ids[0]]);
+    assert.deepEqual(result.skipped.map((item) => item.id), [ids[1], ids[2]]);
+
+    assert.equal((await server.storage.getUserByUsername("verify_high"))!.isVerified, true);
+    assert.equal((await server.storage.getUserByUsername("verify_weak"))!.isVerified, false);
+    assert.ok((await documentsOf("verify_high")).every((doc) => doc.verificationStatus === "approved"));
+  });
+
+  it("leaves the documents of a registration it cannot verify untouched", async () => {
+    await submit("verify_missing");
+    const [replaced, ...rest] = await documentsOf("verify_missing");
+    // One document went up under a type that is not required, so a required one is missing
+    await server.storage.updateVerificationDocument(replaced.id, { documentType: "other", aiVerificationScore: 95 });
+    for (const document of rest) await server.storage.updateVerificationDocument(document.id, { aiVerificationScore: 95 });
+
+    const id = processes.get("verify_missing")!.id;
+    const res = await server.request("verify_admin", "/api/verification/bulk-approve", {
+      method: "POST",
+      body: JSON.stringify({ registrationIds: [id] }),
+    });
+    assert.deepEqual(await res.json(), { approved: [], skipped: [{ id, reason: "A required document is missing" }] });
+    assert.ok((await documentsOf("verify_missing")).every((doc) => doc.verificationStatus === "pending"));
+    assert.equal((await server.storage.getRegistrationProcess(id))!.status, "pending_verification");
+  });
+});
@@ -0,0 +1,199 @@
+import { storage } from "./storage";
+import { RegistrationError, checkDocumentVerificationStatus, verifyRegistrationProcess } from "./registration-utils";
+import { RegistrationProcess, VerificationDocument, VerificationQueueItem } from "@shared/schema";
+import { DOCUMENT_TYPE_LABELS, HIGH_CONFIDENCE_SCORE, REGISTRATION_STATUS } from "@shared/constants";
+
+/**
+ * The admin side of applicant registration: a queue of registrations
+ * submitted for verification, decisions on their documents and the final
+ * decision on the registration. Applicants are notified of every decision
+ * that needs their attention.
+ */
+
+export type DocumentDecision = "approved" | "rejected" | "requires_resubmission";
+
+function documentLabel(document: VerificationDocument) {
+  return DOCUMENT_TYPE_LABELS[document.documentType] ?? document.documentType;
+}
+
+function onboardingLink(process: RegistrationProcess) {
+  return `/onboarding/${process.applicantTypeId}`;
+}
+
+async function loadPendingProcess(id: number) {
+  const process = await storage.getRegistrationProcess(id);
+  if (!process) {
+    throw new RegistrationError("Registration process not found", 404);
+  }
+  if (process.status !== REGISTRATION_STATUS.PENDING_VERIFICATION) {
+    throw new RegistrationError("The registration is not awaiting verification", 409);
+  }
+  return process;
+}
+
+function lowestScore(documents: VerificationDocument[]) {
+  if (documents.length === 0 || documents.some((doc) => doc.aiVerificationScore === null)) return null;
+  return Math.min(...documents.map((doc) => doc.aiVerificationScore!));
+}
+
+/**
+ * Registrations awaiting verification, the most confident AI scores first;
+ * registrations with unscored documents come last, oldest first
+ */
+export async function getVerificationQueue(): Promise<VerificationQueueItem[]> {
+  const processes = (await storage.getRegistrationProcesses())
+    .filter((process) => process.status === REGISTRATION_STATUS.PENDING_VERIFICATION);
+
+  const items: VerificationQueueItem[] = [];
+  for (const process of processes) {
+    const [user, applicantType, documents] = await Promise.all([
+      storage.getUser(process.userId),
+      storage.getApplicantType(process.applicantTypeId),
+      storage.getVerificationDocumentsByRegistrationProcess(process.id),
+    ]);
+    if (!user) continue;
+
+    documents.sort((a, b) => (a.aiVerificationScore ?? -1) - (b.aiVerificationScore ?? -1) || a.id - b.id);
+    items.push({
+      process,
+      applicant: {
+        id: user.id,
+        username: user.username,
+        fullName: user.fullName,
+        email: user.email,
+        organizationName: user.organizationName,
+      },
+      applicantType: applicantType?.name ?? "",
+      documents,
+      aiScore: lowestScore(documents),
+    });
+  }
+
+  return items.sort((a, b) =>
+    (b.aiScore ?? -1) - (a.aiScore ?? -1) ||
+    (a.process.updatedAt?.getTime() ?? 0) - (b.process.updatedAt?.getTime() ?? 0));
+}
+
+/**
+ * Records an admin's decision on one document. Requesting a resubmission
+ * reopens the registration so the applicant can upload the document again.
+ */
+export async function reviewVerificationDocument(
+  documentId: number,
+  adminId: number,
+  decision: DocumentDecision,
+  reason?: string
+): Promise<VerificationDocument> {
+  const document = await storage.getVerificationDocument(documentId);
+  if (!document?.registrationProcessId) {
+    throw new RegistrationError("Document not found", 404);
+  }
+  const process = await loadPendingProcess(document.registrationProcessId);
+  if (decision !== "approved" && !reason) {
+    throw new RegistrationError("Give the applicant a reason for the decision", 400);
+  }
+
+  const reviewed = (await storage.updateVerificationDocument(document.id, {
+    verificationStatus: decision,
+    verifiedBy: adminId,
+    verifiedAt: new Date(),
+    rejectionReason: decision === "approved" ? null : reason!,
+  }))!;
+
+  if (decision === "requires_resubmission") {
+    await storage.updateRegistrationProcess(process.id, { status: "incomplete" });
+    await storage.createNotification({
+      userId: process.userId,
+      title: `Upload your ${documentLabel(document).toLowerCase()} again`,
+      body: `${reason} Upload a new file and complete your registration again.`,
+      link: onboardingLink(process),
+    });
+  }
+
+  return reviewed;
+}
+
+/**
+ * The final decision on a registration, taken once its documents are
+ * reviewed. Only registrations whose documents are all approved can be verified.
+ */
+export async function decideRegistration(
+  processId: number,
+  adminId: number,
+  approved: boolean,
+  reason?: string
+): Promise<RegistrationProcess> {
+  const process = await loadPendingProcess(processId);
+  if (approved) {
+    const status = await checkDocumentVerificationStatus(process.id);
+    if (!status.allVerified) {
+      throw new RegistrationError("Approve every required document before verifying the registration", 409);
+    }
+  } else if (!reason) {
+    throw new RegistrationError("Give the applicant a reason for the rejection", 400);
+  }
+
+  const decided = (await verifyRegistrationProcess(process.id, adminId, approved, reason))!;
+  await storage.createNotification(approved
+    ? {
+        userId: process.userId,
+        title: "Your registration is verified",
+        body: "Your account is verified. You can now apply to open programs.",
+        link: "/applications",
+      }
+    : {
+        userId: process.userId,
+        title: "Your registration was rejected",
+        body: `${reason} You can update your documents and submit the registration again.`,
+        link: onboardingLink(process),
+      });
+  return decided;
+}
+
+/**
+ * Approves the documents of each registration whose pending documents all
+ * have an AI score of at least `minScore`, then verifies the registration.
+ * Registrations that do not qualify are skipped with the reason, before any
+ * of their documents is changed.
+ */
+export async function bulkApproveRegistrations(
+  processIds: number[],
+  adminId: number,
+  minScore = HIGH_CONFIDENCE_SCORE
+): Promise<{ approved: number[]; skipped: { id: number; reason: string }[] }> {
+  const approved: number[] = [];
+  const skipped: { id: number; reason: string }[] = [];
+
+  for (const id of processIds) {
+    try {
+      const process = await loadPendingProcess(id);
+      const documents = await storage.getVerificationDocumentsByRegistrationProcess(process.id);
+      const pending = documents.filter((doc) => doc.verificationStatus === "pending");
+
+      if (documents.some((doc) => doc.verificationStatus !== "pending" && doc.verificationStatus !== "approved")) {
+        skipped.push({ id, reason: "A document was rejected" });
+        continue;
+      }
+      if (pending.some((doc) => (doc.aiVerificationScore ?? -1) < minScore)) {
+        skipped.push({ id, reason: `A document scored below ${minScore}` });
+        continue;
+      }
+      // decideRegistration would refuse it once the documents were approved
+      if (!(await checkDocumentVerificationStatus(process.id)).allUploaded) {
+        skipped.push({ id, reason: "A required document is missing" });
+        continue;
+      }
+
+      for (const document of pending) {
+        await reviewVerificationDocument(document.id, adminId, "approved");
+      }
+      await decideRegistration(process.id, adminId, true);
+      approved.push(id);
+    } catch (error) {
+      if (!(error instanceof RegistrationError)) throw error;
+      skipped.push({ id, reason: error.message });
+    }
+  }
+
+  return { approved, skipped };
+}
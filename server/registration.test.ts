@@ -0,0 +1,158 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { ApplicantType, RegistrationOverview, User, VerificationDocument } from "@shared/schema";
+import { startTestServer, type TestServer } from "./test-server";
+
+const PDF = Buffer.from("%PDF-1.4\n1 0 obj << >> endobj\ntrailer << >>\n%%EOF\n");
+
+const PROFILE = {
+  fullName: "Amra Hodžić",
+  phoneNumber: "+387 61 123 456",
+  address: "Titova 12",
+  city: "Sarajevo",
+  country: "Bosnia and Herzegovina",
+  bio: "Writer and translator",
+};
+
+describe("registration process", () => {
+  let server: TestServer;
+  let individual: ApplicantType;
+
+  const upload = (username: string, documentType: string | null, name = "document.pdf", content = PDF) => {
+    const body = new FormData();
+    body.set("file", new Blob([content]), name);
+    if (documentType) body.set("documentType", documentType);
+    return server.request(username, "/api/registration/documents", { method: "POST", body });
+  };
+
+  const overview = async (username: string) => {
+    const res = await server.request(username, "/api/registration");
+    assert.equal(res.status, 200);
+    return await res.json() as RegistrationOverview;
+  };
+
+  before(async () => {
+    server = await startTestServer();
+    await server.createUser("reg_applicant", "applicant");
+    await server.createUser("reg_starter", "applicant");
+    individual = (await server.storage.getApplicantTypes()).find((type) => type.name === "INDIVIDUAL")!;
+  });
+
+  after(() => server.close());
+
+  it("starts a process with the steps of the applicant type", async () => {
+    assert.equal((await server.request(null, "/api/registration")).status, 401);
+    assert.equal((await server.request("reg_starter", "/api/registration")).status, 404);
+
+    const invalid = await server.request("reg_starter", "/api/registration", {
+      method: "POST",
+      body: JSON.stringify({ applicantTypeId: 9999 }),
+    });
+    assert.equal(invalid.status, 400);
+
+    const res = await server.request("reg_starter", "/api/registration", {
+      method: "POST",
+      body: JSON.stringify({ applicantTypeId: individual.id }),
+    });
+    assert.equal(res.status, 201);
+    const started = await res.json() as RegistrationOverview;
+    assert.equal(started.process.totalSteps, 5);
+    assert.equal(started.steps[0], "account_creation");
+    assert.deepEqual(started.pendingDocuments, started.requiredDocuments);
+
+    const again = await server.request("reg_starter", "/api/registration", {
+      method: "POST",
+      body: JSON.stringify({ applicantTypeId: individual.id }),
+    });
+    assert.equal(again.status, 409);
+  });
+
+  it("advances steps it knows", async () => {
+    const step = (body: object) =>
+      server.request("reg_starter", "/api/registration/step", { method: "PATCH", body: JSON.stringify(body) });
+
+    assert.equal((await step({ currentStep: 2, completedStep: "legal_status" })).status, 400);
+    assert.equal((await step({ currentStep: 9 })).status, 400);
+    // Only completing the onboarding submits the registration for verification
+    assert.equal((await step({ currentStep: 5, completedStep: "identity_verification" })).status, 400);
+    assert.equal((await step({ currentStep: 5, completedStep: "complete_profile" })).status, 400);
+
+    const res = await step({ currentStep: 2, completedStep: "account_creation" });
+    assert.equal(res.status, 200);
+    const { process } = await res.json() as RegistrationOverview;
+    assert.equal(process.currentStep, 2);
+    assert.deepEqual(process.completedSteps, ["account_creation"]);
+  });
+
+  it("saves the onboarding profile to the user", async () => {
+    const invalid = await server.request("reg_applicant", "/api/onboarding/profile", {
+      method: "POST",
+      body: JSON.stringify({ ...PROFILE, applicantTypeId: individual.id, website: "not a url" }),
+    });
+    assert.equal(invalid.status, 400);
+
+    const res = await server.request("reg_applicant", "/api/onboarding/profile", {
+      method: "POST",
+      body: JSON.stringify({ ...PROFILE, applicantTypeId: individual.id }),
+    });
+    assert.equal(res.status, 200);
+    const { user, registration } = await res.json() as { user: User; registration: RegistrationOverview };
+    assert.equal(user.fullName, "Amra Hodžić");
+    assert.equal(user.applicantTypeId, individual.id);
+    assert.ok(!("password" in user));
+
+    const stored = await server.storage.getUserByUsername("reg_applicant");
+    assert.equal(stored!.city, "Sarajevo");
+    assert.deepEqual(registration.process.completedSteps, ["account_creation", "personal_information", "contact_details"]);
+    assert.equal(registration.process.currentStep, 4);
+  });
+
+  it("attaches verification documents of the required types", async () => {
+    assert.equal((await upload("reg_applicant", null)).status, 400);
+    assert.equal((await upload("reg_applicant", "bank_statement")).status, 400);
+    assert.equal((await upload("reg_applicant", "resume_cv", "cv.exe")).status, 415);
+
+    const res = await upload("reg_applicant", "id_card_passport", "passport.pdf");
+    assert.equal(res.status, 201);
+    const first = await res.json() as VerificationDocument;
+    assert.equal(first.verificationStatus, "pending");
+
+    // A new upload replaces the document of that type
+    await server.storage.updateVerificationDocument(first.id, { verificationStatus: "rejected", rejectionReason: "Blurry" });
+    const replaced = await (await upload("reg_applicant", "id_card_passport", "passport-scan.pdf")).json() as VerificationDocument;
+    assert.equal(replaced.id, first.id);
+    assert.equal(replaced.fileName, "passport-scan.pdf");
+    assert.equal(replaced.verificationStatus, "pending");
+    assert.equal(replaced.rejectionReason, null);
+
+    const { documents, pendingDocuments } = await overview("reg_applicant");
+    assert.equal(documents.length, 1);
+    assert.deepEqual(pendingDocuments, ["resume_cv", "motivation_letter", "signed_declaration"]);
+  });
+
+  it("submits the registration once every document is in", async () => {
+    const complete = () => server.request("reg_applicant", "/api/onboarding/complete", { method: "POST" });
+
+    const early = await complete();
+    assert.equal(early.status, 409);
+    assert.deepEqual((await early.json()).pendingDocuments, ["resume_cv", "motivation_letter", "signed_declaration"]);
+
+    for (const type of ["resume_cv", "motivation_letter", "signed_declaration"]) {
+      assert.equal((await upload("reg_applicant", type)).status, 201);
+    }
+    assert.ok((await overview("reg_applicant")).process.completedSteps!.includes("identity_verification"));
+
+    const res = await complete();
+    assert.equal(res.status, 200);
+    const { process } = await res.json() as RegistrationOverview;
+    assert.equal(process.status, "pending_verification");
+    assert.equal(process.completedSteps!.length, 5);
+
+    const user = await server.storage.getUserByUsername("reg_applicant");
+    assert.equal(user!.profileComplete, true);
+    assert.equal(user!.isVerified, false);
+
+    assert.equal((await upload("reg_applicant", "resume_cv")).status, 409);
+    assert.equal((await complete()).status, 409);
+  });
+});
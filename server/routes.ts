@@ -2,17 +2,116 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, hashPassword } from "./auth";
+import { getApplicationScope, isInScope, loadAuthorizedApplication, loadAuthorizedDocument } from "./policy";
+import { getUserPermissions, hasPermission, requirePermission } from "./permissions";
+import { TransitionError, checkTransition, transitionApplication } from "./application-lifecycle";
+import { AmendmentError, requestAmendment, reviewAmendment } from "./application-snapshots";
+import { checkEligibility, describeIneligibility } from "./eligibility";
+import { UploadError, inspectUpload, parseUpload, sendStoredFile, storeUpload } from "./uploads";
+import { AUDIT_EXPORT_LIMIT, auditLogToCsv, recordAudit } from "./audit";
+import { TwoFactorError, resetTwoFactor } from "./two-factor";
+import { getRateLimitPolicies, setRateLimitPolicy } from "./rate-limit";
+import { appendDossier, dossierName, loadDossier, sendZip } from "./dossier";
+import {
+  RegistrationError,
+  assertRegistrationEditable,
+  attachVerificationDocument,
+  checkDocumentVerificationStatus,
+  completeRegistrationSteps,
+  createRegistrationProcess,
+  describeRegistration,
+  getProfileSteps,
+  getRegistrationSteps,
+  updateRegistrationStep,
+  validateDocumentWithAI,
+} from "./registration-utils";
+import {
+  bulkApproveRegistrations,
+  decideRegistration,
+  getVerificationQueue,
+  reviewVerificationDocument,
+} from "./registration-verification";
 import { z } from "zod";
 import { 
   insertUserSchema,
+  insertProgramSchema,
+  updateProgramSchema,
   insertApplicationSchema, 
+  updateApplicationSchema,
   insertMessageSchema, 
   insertDocumentSchema, 
+  insertDocumentVersionSchema,
   insertEvaluationSchema,
+  evaluationQuerySchema,
+  applicationQuerySchema,
+  submissionReportQuerySchema,
+  documentQuerySchema,
+  auditLogQuerySchema,
+  roleSettingsUpdateSchema,
+  rateLimitUpdateSchema,
+  onboardingProfileSchema,
+  insertProgramDonorSchema,
+  insertReviewerAssignmentSchema,
+  applicationAmendmentChangesSchema,
+  applications,
+  users,
   Application,
   Program,
+  SubmissionReport,
   User
 } from "@shared/schema";
+import { PERMISSIONS, Role, isPermission } from "@shared/permissions";
+import { availableTransitions, isApplicationEditable } from "@shared/application-lifecycle";
+import { diffSnapshots, snapshotDocumentVersion } from "@shared/application-snapshots";
+import { acceptsApplications, describeClosedCall } from "@shared/program-calls";
+import { answersSchema } from "@shared/program-forms";
+import { isRateLimitPolicyName } from "@shared/rate-limits";
+
+const rolePermissionsUpdateSchema = z.object({
+  permissions: z.array(z.string().refine(isPermission, { message: "Unknown permission" })),
+});
+
+const amendmentRequestSchema = z.object({
+  changes: applicationAmendmentChangesSchema,
+  reason: z.string().optional(),
+});
+
+const amendmentReviewSchema = z.object({
+  comment: z.string().optional(),
+});
+
+const documentEventSchema = z.object({
+  reason: z.string().trim().min(1).optional(),
+});
+
+const registrationCreateSchema = z.object({
+  applicantTypeId: z.number().int().positive(),
+});
+
+const registrationStepSchema = z.object({
+  currentStep: z.number().int().positive(),
+  completedStep: z.string().optional(),
+});
+
+const documentReviewSchema = z.object({
+  status: z.enum(["approved", "rejected", "requires_resubmission"]),
+  reason: z.string().trim().min(1).optional(),
+});
+
+const registrationDecisionSchema = z.object({
+  approved: z.boolean(),
+  reason: z.string().trim().min(1).optional(),
+});
+
+const bulkApprovalSchema = z.object({
+  registrationIds: z.array(z.number().int().positive()).min(1),
+  minScore: z.number().int().min(0).max(100).optional(),
+});
+
+const applicationTransitionSchema = z.object({
+  to: z.enum(applications.status.enumValues),
+  reason: z.string().optional(),
+});
 
 // AI evaluation function
 interface AIEvaluationResult {
@@ -138,16 +237,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/users", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-    
-    // Only administrators can create users
-    if (req.user.role !== 'administrator') {
-      return res.status(403).json({ message: "Forbidden" });
-    }
-    
+  app.post("/api/users", requirePermission("user.manage"), async (req, res) => {
     try {
       // Check if username or email already exists
       const existingUserByUsername = await storage.getUserByUsername(req.body.username);
@@ -182,21 +272,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/users/:id/role", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-    
-    // Only administrators can change user roles
-    if (req.user.role !== 'administrator') {
-      return res.status(403).json({ message: "Forbidden" });
-    }
-    
+  app.patch("/api/users/:id/role", requirePermission("user.manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const { role } = req.body;
       
-      if (!role || !['administrator', 'applicant', 'reviewer', 'referent', 'donator'].includes(role)) {
+      if (!role || !users.role.enumValues.includes(role)) {
         return res.status(400).json({ message: "Invalid role" });
       }
       
@@ -206,6 +287,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const updatedUser = await storage.updateUser(id, { role });
+      if (updatedUser && user.role !== role) {
+        await recordAudit({
+          action: "user.role_changed",
+          entityType: "user",
+          entityId: id,
+          before: { role: user.role },
+          after: { role },
+        });
+      }
       
       // Remove password from the response
       if (updatedUser) {
@@ -219,6 +309,183 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // For users who lost their authenticator; they set it up again on their next sign-in
+  app.post("/api/users/:id/two-factor/reset", requirePermission("user.manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await resetTwoFactor(user);
+      res.json({ message: "Two-factor authentication was reset" });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // Permission routes
+  app.get("/api/user/permissions", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      res.json(await getUserPermissions(req.user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
+
+  // Which programs the current user may start an application for
+  app.get("/api/user/eligibility", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const programs = await storage.getPrograms();
+      const results = [];
+      for (const program of programs) {
+        const { eligible, reasons } = await checkEligibility(req.user, program, {}, "create");
+        results.push({ programId: program.id, eligible, reasons });
+      }
+      res.json(results);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check eligibility" });
+    }
+  });
+
+  app.get("/api/permissions", requirePermission("permission.manage"), async (req, res) => {
+    try {
+      const rows = await storage.getRolePermissions();
+      const roles = Object.fromEntries(
+        users.role.enumValues.map((role) => [
+          role,
+          rows.filter((row) => row.role === role && isPermission(row.permission)).map((row) => row.permission),
+        ]),
+      );
+      res.json({ permissions: PERMISSIONS, roles });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
+
+  app.put("/api/permissions/:role", requirePermission("permission.manage"), async (req, res) => {
+    try {
+      const role = req.params.role as Role;
+      if (!users.role.enumValues.includes(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      const { permissions } = rolePermissionsUpdateSchema.parse(req.body);
+
+      // Keep at least one way back into this screen
+      if (role === "administrator" && !permissions.includes("permission.manage")) {
+        return res.status(400).json({ message: "Administrators must keep permission.manage" });
+      }
+
+      const updated = await storage.setRolePermissions(role, permissions);
+      res.json({ role, permissions: updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid permissions", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update permissions" });
+    }
+  });
+
+  // Sign-in policy per role
+  app.get("/api/role-settings", requirePermission("permission.manage"), async (req, res) => {
+    try {
+      const settings = await storage.getRoleSettings();
+      res.json(Object.fromEntries(
+        users.role.enumValues.map((role) => [
+          role,
+          { twoFactorRequired: settings.some((setting) => setting.role === role && setting.twoFactorRequired) },
+        ]),
+      ));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch role settings" });
+    }
+  });
+
+  app.put("/api/role-settings/:role", requirePermission("permission.manage"), async (req, res) => {
+    try {
+      const role = req.params.role as Role;
+      if (!users.role.enumValues.includes(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      const { twoFactorRequired } = roleSettingsUpdateSchema.parse(req.body);
+      const setting = await storage.setRoleTwoFactorRequired(role, twoFactorRequired);
+      res.json({ role, twoFactorRequired: setting.twoFactorRequired });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid role settings", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update role settings" });
+    }
+  });
+
+  // Rate limit policies in effect, by name
+  app.get("/api/rate-limits", requirePermission("security.manage"), async (req, res) => {
+    try {
+      res.json(await getRateLimitPolicies());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch rate limits" });
+    }
+  });
+
+  app.put("/api/rate-limits/:name", requirePermission("security.manage"), async (req, res) => {
+    try {
+      const name = req.params.name;
+      if (!isRateLimitPolicyName(name)) {
+        return res.status(404).json({ message: "Rate limit policy not found" });
+      }
+
+      const update = rateLimitUpdateSchema.parse(req.body);
+      const policy = await setRateLimitPolicy(name, update);
+      res.json({ name, limit: policy.limit, windowSeconds: policy.windowSeconds });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid rate limit", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update rate limit" });
+    }
+  });
+
+  // Audit log, newest first
+  app.get("/api/audit-log", requirePermission("audit.view"), async (req, res) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      res.json(await storage.queryAuditLog(query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch the audit log" });
+    }
+  });
+
+  // The entries matching the same filters as CSV, without paging
+  app.get("/api/audit-log/export", requirePermission("audit.view"), async (req, res) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const page = await storage.queryAuditLog({ ...query, limit: AUDIT_EXPORT_LIMIT, offset: 0 });
+      res.attachment(`audit-log-${new Date().toISOString().slice(0, 10)}.csv`);
+      res.type("text/csv").send(auditLogToCsv(page.items));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to export the audit log" });
+    }
+  });
+
   // Programs routes
   app.get("/api/programs", async (req, res) => {
     try {
@@ -244,7 +511,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/programs/:id/budget", async (req, res) => {
+  app.post("/api/programs", requirePermission("program.manage"), async (req, res) => {
+    try {
+      const validatedData = insertProgramSchema.parse(req.body);
+      const program = await storage.createProgram(validatedData);
+      res.status(201).json(program);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid program data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create program" });
+    }
+  });
+
+  app.patch("/api/programs/:id", requirePermission("program.manage"), async (req, res) => {
+    try {
+      const program = await storage.getProgram(parseInt(req.params.id));
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+
+      const validatedData = updateProgramSchema.parse(req.body);
+      // Check the window as it will be stored, not just the dates that changed
+      const opensAt = validatedData.opensAt !== undefined ? validatedData.opensAt : program.opensAt;
+      const closesAt = validatedData.closesAt !== undefined ? validatedData.closesAt : program.closesAt;
+      if (opensAt && closesAt && opensAt >= closesAt) {
+        return res.status(400).json({ message: "The call must close after it opens" });
+      }
+
+      // A moved deadline is for the scheduler to close again
+      const windowChanged = validatedData.closesAt !== undefined || validatedData.gracePeriodMinutes !== undefined;
+      const updatedProgram = await storage.updateProgram(program.id, {
+        ...validatedData,
+        ...(windowChanged && { callClosedAt: null }),
+      });
+      res.json(updatedProgram);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid program data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update program" });
+    }
+  });
+
+  // Donors funding a program
+  app.get("/api/programs/:id/donors", requirePermission("program.manage"), async (req, res) => {
+    try {
+      const programDonors = await storage.getProgramDonorsByProgram(parseInt(req.params.id));
+      res.json(programDonors);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch program donors" });
+    }
+  });
+
+  app.post("/api/programs/:id/donors", requirePermission("program.manage"), async (req, res) => {
+    try {
+      const programId = parseInt(req.params.id);
+      const program = await storage.getProgram(programId);
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+
+      const validatedData = insertProgramDonorSchema.parse({ ...req.body, programId });
+      const donor = await storage.getUser(validatedData.donorId);
+      if (!donor || donor.role !== 'donor') {
+        return res.status(400).json({ message: "User is not a donor" });
+      }
+
+      const existing = await storage.getProgramDonorsByProgram(programId);
+      if (existing.some((pd) => pd.donorId === donor.id)) {
+        return res.status(400).json({ message: "Donor already funds this program" });
+      }
+
+      const programDonor = await storage.createProgramDonor(validatedData);
+      res.status(201).json(programDonor);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid program donor data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add program donor" });
+    }
+  });
+
+  app.delete("/api/programs/:id/donors/:donorId", requirePermission("program.manage"), async (req, res) => {
+    try {
+      const removed = await storage.deleteProgramDonor(parseInt(req.params.id), parseInt(req.params.donorId));
+      if (!removed) {
+        return res.status(404).json({ message: "Program donor not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove program donor" });
+    }
+  });
+
+  app.get("/api/programs/:id/budget", requirePermission("budget.view"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const budgetTracking = await storage.getBudgetTrackingByProgram(id);
@@ -261,22 +622,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Applications routes
   app.get("/api/applications", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
     try {
-      const applications = await storage.getApplications();
-      res.json(applications);
+      const query = applicationQuerySchema.parse(req.query);
+      const scope = await getApplicationScope(req.user);
+      const page = await storage.queryApplications(query, scope);
+      res.json(page);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch applications" });
     }
   });
 
   app.get("/api/applications/:id", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const application = await storage.getApplication(id);
-      
-      if (!application) {
-        return res.status(404).json({ message: "Application not found" });
-      }
+      const application = await loadAuthorizedApplication(req, res, "view");
+      if (!application) return;
       
       res.json(application);
     } catch (error) {
@@ -290,10 +656,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
+      // The applicant and their type come from the account, not the request
       const validatedData = insertApplicationSchema.parse({
         ...req.body,
         applicantId: req.user.id,
+        applicantTypeId: req.user.applicantTypeId,
       });
+
+      const program = await storage.getProgram(validatedData.programId);
+      if (!program) {
+        return res.status(400).json({ message: "Program not found" });
+      }
+      if (!acceptsApplications(program)) {
+        return res.status(400).json({ message: describeClosedCall(program) });
+      }
+
+      const eligibility = await checkEligibility(req.user, program, validatedData, "create");
+      if (!eligibility.eligible) {
+        return res.status(400).json({ message: describeIneligibility(eligibility), reasons: eligibility.reasons });
+      }
+
+      // Drafts may leave required answers out until they are submitted
+      validatedData.answers = answersSchema(program.formSchema, "draft").parse(validatedData.answers ?? {});
       
       const application = await storage.createApplication(validatedData);
       res.status(201).json(application);
@@ -306,109 +690,349 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.patch("/api/applications/:id", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-
     try {
-      const id = parseInt(req.params.id);
-      const application = await storage.getApplication(id);
-      
-      if (!application) {
-        return res.status(404).json({ message: "Application not found" });
-      }
+      const application = await loadAuthorizedApplication(req, res, "view");
+      if (!application) return;
+
+      const canManage = await hasPermission(req.user!, "application.manage");
       
-      // Only allow applicant to update own applications or admin/reviewer for others
-      if (application.applicantId !== req.user.id && 
-          !['administrator', 'reviewer'].includes(req.user.role)) {
+      // Only allow applicant to update own applications unless they manage applications
+      if (application.applicantId !== req.user!.id && !canManage) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      // Don't allow updates to submitted applications unless admin/reviewer
-      if (application.status !== 'draft' && !['administrator', 'reviewer'].includes(req.user.role)) {
-        return res.status(403).json({ message: "Cannot update submitted application" });
+      // Status changes go through the lifecycle so its rules and hooks apply
+      const { status, ...fields } = updateApplicationSchema.parse(req.body);
+
+      // Submitted applications are locked; their content changes through amendments
+      if (Object.keys(fields).length > 0 && !isApplicationEditable(application)) {
+        return res.status(409).json({ message: "Submitted applications are locked; request an amendment instead" });
+      }
+
+      if (fields.answers !== undefined) {
+        const program = await storage.getProgram(application.programId);
+        fields.answers = answersSchema(program?.formSchema, "draft").parse(fields.answers);
+      }
+
+      // A refused status change saves none of the content either
+      const changesStatus = status !== undefined && status !== application.status;
+      if (changesStatus) {
+        await checkTransition({ ...application, ...fields }, status, req.user!);
+      }
+
+      let updatedApplication: Application | undefined = application;
+      if (Object.keys(fields).length > 0) {
+        updatedApplication = await storage.updateApplication(application.id, fields);
+      }
+      if (updatedApplication && changesStatus) {
+        updatedApplication = await transitionApplication(updatedApplication, status, req.user!);
       }
-      
-      const updatedApplication = await storage.updateApplication(id, req.body);
       res.json(updatedApplication);
     } catch (error) {
+      if (error instanceof TransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid application data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update application" });
     }
   });
 
   app.post("/api/applications/:id/submit", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-
     try {
-      const id = parseInt(req.params.id);
-      const application = await storage.getApplication(id);
-      
-      if (!application) {
-        return res.status(404).json({ message: "Application not found" });
-      }
-      
-      // Only allow applicant to submit own applications
-      if (application.applicantId !== req.user.id) {
-        return res.status(403).json({ message: "Forbidden" });
-      }
-      
-      // Don't allow submitting already submitted applications
-      if (application.status !== 'draft') {
-        return res.status(400).json({ message: "Application already submitted" });
-      }
-      
-      const updatedApplication = await storage.updateApplication(id, { 
-        status: 'submitted', 
-        submittedAt: new Date() 
-      });
-      
+      const application = await loadAuthorizedApplication(req, res, "view");
+      if (!application) return;
+
+      const updatedApplication = await transitionApplication(application, "submitted", req.user!);
       res.json(updatedApplication);
     } catch (error) {
+      if (error instanceof TransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to submit application" });
     }
   });
 
-  // Documents routes
-  app.get("/api/applications/:id/documents", async (req, res) => {
+  app.get("/api/applications/:id/eligibility", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const documents = await storage.getDocumentsByApplication(id);
-      res.json(documents);
+      const application = await loadAuthorizedApplication(req, res, "view");
+      if (!application) return;
+
+      const applicant = await storage.getUser(application.applicantId);
+      const program = await storage.getProgram(application.programId);
+      if (!applicant || !program) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      res.json(await checkEligibility(applicant, program, application, "submit"));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch documents" });
+      res.status(500).json({ message: "Failed to check eligibility" });
     }
   });
 
-  app.post("/api/applications/:id/documents", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
+  // Status changes the current user may make
+  app.get("/api/applications/:id/transitions", async (req, res) => {
+    try {
+      const application = await loadAuthorizedApplication(req, res, "view");
+      if (!application) return;
+
+      const permissions = await getUserPermissions(req.user!);
+      res.json(availableTransitions(application, req.user!, permissions).map(({ to, label }) => ({ to, label })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch transitions" });
     }
+  });
 
+  app.post("/api/applications/:id/transitions", async (req, res) => {
     try {
-      const applicationId = parseInt(req.params.id);
-      const application = await storage.getApplication(applicationId);
-      
-      if (!application) {
-        return res.status(404).json({ message: "Application not found" });
+      const application = await loadAuthorizedApplication(req, res, "view");
+      if (!application) return;
+
+      const { to, reason } = applicationTransitionSchema.parse(req.body);
+      const updatedApplication = await transitionApplication(application, to, req.user!, reason);
+      res.json(updatedApplication);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid transition", errors: error.errors });
       }
-      
-      // Only allow applicant to add documents to own applications or admin/reviewer
-      if (application.applicantId !== req.user.id && 
-          !['administrator', 'reviewer'].includes(req.user.role)) {
-        return res.status(403).json({ message: "Forbidden" });
+      if (error instanceof TransitionError) {
+        return res.status(error.status).json({ message: error.message });
       }
-      
-      const validatedData = insertDocumentSchema.parse({
-        ...req.body,
+      res.status(500).json({ message: "Failed to change application status" });
+    }
+  });
+
+  // Submission snapshots and amendments
+  app.get("/api/applications/:id/versions", async (req, res) => {
+    try {
+      const application = await loadAuthorizedApplication(req, res, "view");
+      if (!application) return;
+
+      const snapshots = await storage.getApplicationSnapshots(application.id);
+      res.json(snapshots);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch versions" });
+    }
+  });
+
+  // Compares two versions, by default the latest with the one before it
+  app.get("/api/applications/:id/diff", async (req, res) => {
+    try {
+      const application = await loadAuthorizedApplication(req, res, "view");
+      if (!application) return;
+
+      const snapshots = await storage.getApplicationSnapshots(application.id);
+      const latest = snapshots.length > 0 ? snapshots[snapshots.length - 1].version : 0;
+      const to = req.query.to ? parseInt(req.query.to as string) : latest;
+      const from = req.query.from ? parseInt(req.query.from as string) : to - 1;
+
+      const fromSnapshot = snapshots.find((snapshot) => snapshot.version === from);
+      const toSnapshot = snapshots.find((snapshot) => snapshot.version === to);
+      if (!fromSnapshot || !toSnapshot) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      res.json({ from, to, ...diffSnapshots(fromSnapshot.content, toSnapshot.content) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to compare versions" });
+    }
+  });
+
+  app.get("/api/applications/:id/versions/:version", async (req, res) => {
+    try {
+      const application = await loadAuthorizedApplication(req, res, "view");
+      if (!application) return;
+
+      const snapshot = await storage.getApplicationSnapshot(application.id, parseInt(req.params.version));
+      if (!snapshot) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      res.json(snapshot);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch version" });
+    }
+  });
+
+  app.get("/api/applications/:id/amendments", async (req, res) => {
+    try {
+      const application = await loadAuthorizedApplication(req, res, "view");
+      if (!application) return;
+
+      const amendments = await storage.getApplicationAmendments(application.id);
+      res.json(amendments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch amendments" });
+    }
+  });
+
+  app.post("/api/applications/:id/amendments", async (req, res) => {
+    try {
+      const application = await loadAuthorizedApplication(req, res, "view");
+      if (!application) return;
+
+      const { changes, reason } = amendmentRequestSchema.parse(req.body);
+      const amendment = await requestAmendment(application, req.user!, changes, reason);
+      res.status(201).json(amendment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid amendment data", errors: error.errors });
+      }
+      if (error instanceof AmendmentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to request amendment" });
+    }
+  });
+
+  app.post("/api/applications/:id/amendments/:amendmentId/:decision", async (req, res) => {
+    try {
+      const application = await loadAuthorizedApplication(req, res, "view");
+      if (!application) return;
+
+      const decision = req.params.decision;
+      if (decision !== "approve" && decision !== "reject") {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      const amendment = await storage.getApplicationAmendment(parseInt(req.params.amendmentId));
+      if (!amendment || amendment.applicationId !== application.id) {
+        return res.status(404).json({ message: "Amendment not found" });
+      }
+
+      const { comment } = amendmentReviewSchema.parse(req.body ?? {});
+      const result = await reviewAmendment(amendment, req.user!, decision === "approve", comment);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review data", errors: error.errors });
+      }
+      if (error instanceof AmendmentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to review amendment" });
+    }
+  });
+
+  // Reviewer assignments
+  app.get("/api/applications/:id/reviewers", requirePermission("application.assign"), async (req, res) => {
+    try {
+      const assignments = await storage.getReviewerAssignmentsByApplication(parseInt(req.params.id));
+      res.json(assignments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reviewer assignments" });
+    }
+  });
+
+  app.post("/api/applications/:id/reviewers", requirePermission("application.assign"), async (req, res) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      const application = await storage.getApplication(applicationId);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      const validatedData = insertReviewerAssignmentSchema.parse({
+        ...req.body,
         applicationId,
-        uploadedBy: req.user.id,
+        assignedBy: req.user!.id,
+      });
+      const reviewer = await storage.getUser(validatedData.reviewerId);
+      if (!reviewer || reviewer.role !== 'reviewer') {
+        return res.status(400).json({ message: "User is not a reviewer" });
+      }
+
+      const existing = await storage.getReviewerAssignmentsByApplication(applicationId);
+      if (existing.some((ra) => ra.reviewerId === reviewer.id)) {
+        return res.status(400).json({ message: "Reviewer is already assigned" });
+      }
+
+      const assignment = await storage.createReviewerAssignment(validatedData);
+      res.status(201).json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reviewer assignment data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to assign reviewer" });
+    }
+  });
+
+  app.delete("/api/applications/:id/reviewers/:reviewerId", requirePermission("application.assign"), async (req, res) => {
+    try {
+      const removed = await storage.deleteReviewerAssignment(parseInt(req.params.id), parseInt(req.params.reviewerId));
+      if (!removed) {
+        return res.status(404).json({ message: "Reviewer assignment not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove reviewer assignment" });
+    }
+  });
+
+  // Documents routes
+  app.get("/api/applications/:id/documents", async (req, res) => {
+    try {
+      const application = await loadAuthorizedApplication(req, res, "documents");
+      if (!application) return;
+
+      const documents = await storage.getDocumentsByApplication(application.id);
+      res.json(documents);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  // Multipart upload of one file, with an optional attachmentKey naming the
+  // program form attachment it provides
+  app.post("/api/applications/:id/documents", async (req, res) => {
+    try {
+      const application = await loadAuthorizedApplication(req, res, "documents");
+      if (!application) return;
+      const applicationId = application.id;
+
+      // Only allow applicant to add documents to own applications unless they manage applications
+      if (application.applicantId !== req.user!.id &&
+          !(await hasPermission(req.user!, "application.manage"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const file = await parseUpload(req, res);
+      const attachmentKey = req.body.attachmentKey || null;
+
+      let accept: string[] | undefined;
+      if (attachmentKey) {
+        const program = await storage.getProgram(application.programId);
+        const attachment = program?.formSchema?.attachments.find((item) => item.key === attachmentKey);
+        if (!attachment) {
+          return res.status(400).json({ message: `This program's form has no attachment "${attachmentKey}"` });
+        }
+        accept = attachment.accept;
+      }
+
+      const fileType = inspectUpload(file, accept);
+      const stored = await storeUpload(file, fileType, `applications/${application.id}`);
+      
+      const validatedData = insertDocumentSchema.parse({
+        applicationId,
+        fileName: file.originalname,
+        fileType,
+        ...stored,
+        uploadedBy: req.user!.id,
+        attachmentKey,
       });
       
       const document = await storage.createDocument(validatedData);
+      await recordAudit({
+        action: "document.uploaded",
+        entityType: "document",
+        entityId: document.id,
+        after: { applicationId, fileName: document.fileName, fileType, version: 1 },
+      });
       res.status(201).json(document);
     } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid document data", errors: error.errors });
       }
@@ -416,50 +1040,285 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Evaluations routes
-  app.get("/api/evaluations", async (req, res) => {
+  // Documents across every application the user may see, newest first
+  app.get("/api/documents", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
-    // Only reviewers and admins can view all evaluations
-    if (!['administrator', 'reviewer'].includes(req.user.role)) {
-      return res.status(403).json({ message: "Forbidden" });
+    try {
+      const query = documentQuerySchema.parse(req.query);
+      if (query.deleted && !(await hasPermission(req.user, "application.manage"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const scope = await getApplicationScope(req.user);
+      const page = await storage.queryDocuments(query, scope);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch documents" });
     }
+  });
 
+  // Soft delete. Applicants remove their own documents until the application
+  // is submitted; after that only users who manage applications can, and
+  // they must give a reason.
+  app.delete("/api/documents/:id", async (req, res) => {
     try {
-      const applications = await storage.getApplications();
-      let allEvaluations = [];
-      
-      for (const application of applications) {
-        const evaluations = await storage.getEvaluationsByApplication(application.id);
-        allEvaluations = [...allEvaluations, ...evaluations];
+      const document = await loadAuthorizedDocument(req, res);
+      if (!document) return;
+
+      const application = await storage.getApplication(document.applicationId);
+      const canManage = await hasPermission(req.user!, "application.manage");
+      if (application!.applicantId !== req.user!.id && !canManage) {
+        return res.status(403).json({ message: "Forbidden" });
       }
-      
-      res.json(allEvaluations);
+      if (document.deletedAt) {
+        return res.status(409).json({ message: "This document was already deleted" });
+      }
+
+      const { reason } = documentEventSchema.parse(req.body ?? {});
+      if (!isApplicationEditable(application!)) {
+        if (!canManage) {
+          return res.status(409).json({ message: "Submitted applications are locked; request an amendment instead" });
+        }
+        if (!reason) {
+          return res.status(400).json({ message: "Give a reason for deleting a document of a submitted application" });
+        }
+      }
+
+      const deleted = await storage.deleteDocument(document.id, req.user!.id, reason);
+      res.json(deleted);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch evaluations" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to delete document" });
     }
   });
-  
-  // AI-assisted evaluation generation
-  app.post("/api/applications/:id/ai-evaluation", async (req, res) => {
+
+  app.post("/api/documents/:id/restore", requirePermission("application.manage"), async (req, res) => {
+    try {
+      const document = await loadAuthorizedDocument(req, res);
+      if (!document) return;
+
+      if (!document.deletedAt) {
+        return res.status(409).json({ message: "This document is not deleted" });
+      }
+
+      const { reason } = documentEventSchema.parse(req.body ?? {});
+      const restored = await storage.restoreDocument(document.id, req.user!.id, reason);
+      res.json(restored);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to restore document" });
+    }
+  });
+
+  // Who deleted and restored a document, and why
+  app.get("/api/documents/:id/events", requirePermission("application.manage"), async (req, res) => {
+    try {
+      const document = await loadAuthorizedDocument(req, res);
+      if (!document) return;
+
+      const events = await storage.getDocumentEvents(document.id);
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch document events" });
+    }
+  });
+
+  app.get("/api/documents/:id/download", async (req, res) => {
+    try {
+      const document = await loadAuthorizedDocument(req, res);
+      if (!document) return;
+
+      await sendStoredFile(res, document, "attachment");
+    } catch (error) {
+      res.status(500).json({ message: "Failed to download document" });
+    }
+  });
+
+  app.get("/api/documents/:id/preview", async (req, res) => {
+    try {
+      const document = await loadAuthorizedDocument(req, res);
+      if (!document) return;
+
+      await sendStoredFile(res, document, "inline");
+    } catch (error) {
+      res.status(500).json({ message: "Failed to preview document" });
+    }
+  });
+
+  // Document versions. Replacing a file keeps the earlier versions, so the
+  // files frozen into submission snapshots stay available.
+  app.get("/api/documents/:id/versions", async (req, res) => {
+    try {
+      const document = await loadAuthorizedDocument(req, res);
+      if (!document) return;
+
+      const versions = await storage.getDocumentVersions(document.id);
+      const snapshots = await storage.getApplicationSnapshots(document.applicationId);
+      // Each version lists the snapshot versions it was frozen into
+      res.json(versions.map((version) => ({
+        ...version,
+        snapshotVersions: snapshots
+          .filter((snapshot) => snapshotDocumentVersion(snapshot.content, document.id) === version.version)
+          .map((snapshot) => snapshot.version),
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch document versions" });
+    }
+  });
+
+  // Multipart upload of a replacement file. Once the application is
+  // submitted, a changeNote explaining the replacement is required.
+  app.post("/api/documents/:id/versions", async (req, res) => {
+    try {
+      const document = await loadAuthorizedDocument(req, res);
+      if (!document) return;
+
+      const application = await storage.getApplication(document.applicationId);
+      if (application!.applicantId !== req.user!.id &&
+          !(await hasPermission(req.user!, "application.manage"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      if (document.deletedAt) {
+        return res.status(409).json({ message: "Restore this document before replacing it" });
+      }
+
+      const file = await parseUpload(req, res);
+      const changeNote = typeof req.body.changeNote === "string" ? req.body.changeNote.trim() : "";
+      if (!changeNote && !isApplicationEditable(application!)) {
+        return res.status(400).json({ message: "Explain the change in a note when replacing a submitted document" });
+      }
+
+      let accept: string[] | undefined;
+      if (document.attachmentKey) {
+        const program = await storage.getProgram(application!.programId);
+        accept = program?.formSchema?.attachments.find((item) => item.key === document.attachmentKey)?.accept;
+      }
+
+      const fileType = inspectUpload(file, accept);
+      const stored = await storeUpload(file, fileType, `applications/${application!.id}`);
+
+      const validatedData = insertDocumentVersionSchema.parse({
+        documentId: document.id,
+        fileName: file.originalname,
+        fileType,
+        ...stored,
+        changeNote: changeNote || null,
+        uploadedBy: req.user!.id,
+      });
+
+      const version = await storage.createDocumentVersion(validatedData);
+      await recordAudit({
+        action: "document.uploaded",
+        entityType: "document",
+        entityId: document.id,
+        before: { fileName: document.fileName, version: document.currentVersion },
+        after: { applicationId: document.applicationId, fileName: version.fileName, fileType, version: version.version },
+      });
+      res.status(201).json(version);
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid document version", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to replace document" });
+    }
+  });
+
+  app.get("/api/documents/:id/versions/:version/download", async (req, res) => {
+    try {
+      const document = await loadAuthorizedDocument(req, res);
+      if (!document) return;
+
+      const version = await storage.getDocumentVersion(document.id, parseInt(req.params.version));
+      if (!version) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      await sendStoredFile(res, version, "attachment");
+    } catch (error) {
+      res.status(500).json({ message: "Failed to download document version" });
+    }
+  });
+
+  // Dossier exports: ZIPs of the summary PDF, documents and evaluations
+  app.get("/api/applications/:id/dossier", async (req, res) => {
+    try {
+      const application = await loadAuthorizedApplication(req, res, "view");
+      if (!application) return;
+
+      const dossier = await loadDossier(application, req.user!);
+      await sendZip(res, dossierName(application), (archive) => appendDossier(archive, dossier));
+    } catch (error) {
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to export application" });
+      }
+    }
+  });
+
+  // Every submitted application of a program the user may see, one folder each
+  app.get("/api/programs/:id/dossiers", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
-    // Only reviewers and admins can use AI evaluation
-    if (!['administrator', 'reviewer'].includes(req.user.role)) {
-      return res.status(403).json({ message: "Forbidden" });
+    try {
+      const program = await storage.getProgram(parseInt(req.params.id));
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+
+      const scope = await getApplicationScope(req.user);
+      const applications = (await storage.getApplicationsByProgram(program.id))
+        .filter((application) => application.status !== "draft" && isInScope(application, scope))
+        .sort((a, b) => a.id - b.id);
+      if (applications.length === 0) {
+        return res.status(404).json({ message: "This program has no submitted applications you can export" });
+      }
+
+      await sendZip(res, `dossiers-${program.name}-${program.year}`, async (archive) => {
+        for (const application of applications) {
+          await appendDossier(archive, await loadDossier(application, req.user!), dossierName(application));
+        }
+      });
+    } catch (error) {
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to export program applications" });
+      }
     }
+  });
 
+  // Evaluations routes
+  app.get("/api/evaluations", requirePermission("application.evaluate"), async (req, res) => {
     try {
-      const applicationId = parseInt(req.params.id);
-      const application = await storage.getApplication(applicationId);
-      
-      if (!application) {
-        return res.status(404).json({ message: "Application not found" });
+      const query = evaluationQuerySchema.parse(req.query);
+      // Reviewers only see evaluations of applications assigned to them
+      const scope = await getApplicationScope(req.user!);
+      res.json(await storage.queryEvaluations(query, scope));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
       }
+      res.status(500).json({ message: "Failed to fetch evaluations" });
+    }
+  });
+  
+  // AI-assisted evaluation generation
+  app.post("/api/applications/:id/ai-evaluation", requirePermission("application.evaluate"), async (req, res) => {
+    try {
+      const application = await loadAuthorizedApplication(req, res, "evaluations");
+      if (!application) return;
       
       // Get program details
       const program = await storage.getProgram(application.programId);
@@ -485,43 +1344,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/applications/:id/evaluations", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const evaluations = await storage.getEvaluationsByApplication(id);
+      const application = await loadAuthorizedApplication(req, res, "evaluations");
+      if (!application) return;
+
+      const evaluations = await storage.getEvaluationsByApplication(application.id);
       res.json(evaluations);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch evaluations" });
     }
   });
 
-  app.post("/api/applications/:id/evaluations", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-
-    // Only reviewers and admins can create evaluations
-    if (!['administrator', 'reviewer'].includes(req.user.role)) {
-      return res.status(403).json({ message: "Forbidden" });
-    }
-
+  app.post("/api/applications/:id/evaluations", requirePermission("application.evaluate"), async (req, res) => {
     try {
-      const applicationId = parseInt(req.params.id);
-      const application = await storage.getApplication(applicationId);
-      
-      if (!application) {
-        return res.status(404).json({ message: "Application not found" });
-      }
+      // Reviewers evaluate only the applications assigned to them
+      const application = await loadAuthorizedApplication(req, res, "evaluations");
+      if (!application) return;
+      const applicationId = application.id;
       
       const validatedData = insertEvaluationSchema.parse({
         ...req.body,
         applicationId,
-        evaluatedBy: req.user.id,
+        evaluatedBy: req.user!.id,
       });
       
+      // A decision moves the application, so refuse the evaluation up front
+      // if the lifecycle would not allow it
+      const decision = validatedData.decision;
+      const changesStatus = !!decision && decision !== application.status;
+      if (changesStatus) {
+        await checkTransition(application, decision, req.user!);
+      }
+
       const evaluation = await storage.createEvaluation(validatedData);
+      await recordAudit({
+        action: "evaluation.created",
+        entityType: "evaluation",
+        entityId: evaluation.id,
+        after: { applicationId, score: evaluation.score, decision: evaluation.decision },
+      });
       
       // Update application status based on evaluation decision
-      if (validatedData.decision) {
-        await storage.updateApplication(applicationId, { status: validatedData.decision });
+      if (changesStatus) {
+        await transitionApplication(application, decision, req.user!);
       }
       
       res.status(201).json(evaluation);
@@ -529,6 +1393,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid evaluation data", errors: error.errors });
       }
+      if (error instanceof TransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create evaluation" });
     }
   });
@@ -549,25 +1416,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.get("/api/applications/:id/messages", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-
     try {
-      const applicationId = parseInt(req.params.id);
-      const application = await storage.getApplication(applicationId);
+      const application = await loadAuthorizedApplication(req, res, "messages");
+      if (!application) return;
       
-      if (!application) {
-        return res.status(404).json({ message: "Application not found" });
-      }
-      
-      // Only allow users involved with the application to view messages
-      if (application.applicantId !== req.user.id && 
-          !['administrator', 'reviewer', 'donor'].includes(req.user.role)) {
-        return res.status(403).json({ message: "Forbidden" });
-      }
-      
-      const messages = await storage.getMessagesByApplication(applicationId);
+      const messages = await storage.getMessagesByApplication(application.id);
       res.json(messages);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch messages" });
@@ -575,28 +1428,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.post("/api/applications/:id/messages", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-
     try {
-      const applicationId = parseInt(req.params.id);
-      const application = await storage.getApplication(applicationId);
-      
-      if (!application) {
-        return res.status(404).json({ message: "Application not found" });
-      }
-      
-      // Only allow users involved with the application to send messages
-      if (application.applicantId !== req.user.id && 
-          !['administrator', 'reviewer', 'donor'].includes(req.user.role)) {
-        return res.status(403).json({ message: "Forbidden" });
-      }
+      // Only users who can see the application may write about it
+      const application = await loadAuthorizedApplication(req, res, "messages");
+      if (!application) return;
+      const applicationId = application.id;
       
       const validatedData = insertMessageSchema.parse({
         ...req.body,
         applicationId,
-        senderId: req.user.id,
+        senderId: req.user!.id,
       });
       
       const message = await storage.createMessage(validatedData);
@@ -634,8 +1475,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Notification routes
+  app.get("/api/notifications", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const notifications = await storage.getNotificationsByUser(req.user.id);
+      res.json(notifications);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.patch("/api/notifications/:id/read", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      // Users only see their own notifications
+      const notification = (await storage.getNotificationsByUser(req.user.id)).find((item) => item.id === id);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+
+      const updatedNotification = await storage.markNotificationAsRead(id);
+      res.json(updatedNotification);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
   // Budget tracking routes
-  app.get("/api/budget", async (req, res) => {
+  app.get("/api/budget", requirePermission("budget.view"), async (req, res) => {
     try {
       const programs = await storage.getPrograms();
       const budgetData = await Promise.all(
@@ -654,6 +1529,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Applications submitted per month, within what the user may see
+  app.get("/api/reports/submissions", requirePermission("report.view"), async (req, res) => {
+    try {
+      const { year } = submissionReportQuerySchema.parse(req.query);
+      const scope = await getApplicationScope(req.user!);
+      const report: SubmissionReport = { year, months: await storage.countSubmissionsByMonth(year, scope) };
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch the submission report" });
+    }
+  });
+
   // Applicant types routes
   app.get("/api/applicant-types", async (req, res) => {
     try {
@@ -664,82 +1554,288 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Mock verification endpoint
-  app.post("/api/mock-verification", async (req, res) => {
+  // The signed-in user's registration process, with the steps and documents
+  // of their applicant type
+  app.get("/api/registration", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
     try {
-      const { email, applicantTypeId, verificationCode } = req.body;
-      
-      // In a real app, would verify against stored code
-      // For our mockup, just check if it's the test code (123456)
-      if (verificationCode !== "123456") {
-        return res.status(400).json({ 
-          valid: false,
-          message: "Invalid verification code" 
-        });
+      const process = await storage.getRegistrationProcessByUser(req.user.id);
+      if (!process) {
+        return res.status(404).json({ message: "Registration process not found" });
       }
-      
-      console.log(`Email verified for ${email} with applicant type: ${applicantTypeId}`);
-      
-      // Get verification data from session
-      const verificationData = req.session?.verificationData;
-      
-      if (!verificationData) {
-        console.log("No verification data in session");
-        // For mock purposes, we'll continue even if no session data
-      } else {
-        console.log("Verification data found in session", verificationData);
+      res.json(await describeRegistration(process));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch registration process" });
+    }
+  });
+
+  app.post("/api/registration", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { applicantTypeId } = registrationCreateSchema.parse(req.body);
+      if (await storage.getRegistrationProcessByUser(req.user.id)) {
+        return res.status(409).json({ message: "A registration process has already been started" });
       }
-      
-      // In a real app, we would create the user account here
-      // For the mockup, we'll just return success
-      
-      res.status(200).json({ 
-        valid: true,
-        message: "Email verification successful"
-      });
+      if (!(await storage.getApplicantType(applicantTypeId))) {
+        return res.status(400).json({ message: "Invalid applicant type" });
+      }
+
+      const process = await createRegistrationProcess(req.user.id, applicantTypeId);
+      await storage.updateUser(req.user.id, { applicantTypeId });
+      res.status(201).json(await describeRegistration(process));
     } catch (error) {
-      console.error("Verification error:", error);
-      res.status(500).json({ message: "Server error", error: (error as Error).message });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid registration data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to start registration process" });
     }
   });
-  
-  // Onboarding profile save endpoint
-  app.post("/api/onboarding/profile", (req, res) => {
+
+  app.patch("/api/registration/step", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
     try {
-      const { applicantTypeId, ...profileData } = req.body;
-      
-      console.log(`Saving profile data for applicant type ${applicantTypeId}:`, profileData);
-      
-      // In a real app, we would save this to the database
-      // For the mockup, just acknowledge receipt
-      
-      res.status(200).json({ 
-        success: true, 
-        message: "Profile data saved successfully"
+      const { currentStep, completedStep } = registrationStepSchema.parse(req.body);
+      const process = await storage.getRegistrationProcessByUser(req.user.id);
+      if (!process) {
+        return res.status(404).json({ message: "Registration process not found" });
+      }
+      assertRegistrationEditable(process);
+
+      const applicantType = await storage.getApplicantType(process.applicantTypeId);
+      const steps = applicantType ? getRegistrationSteps(applicantType) : [];
+      if (currentStep > process.totalSteps) {
+        return res.status(400).json({ message: `The registration has ${process.totalSteps} steps` });
+      }
+      if (completedStep && !steps.includes(completedStep)) {
+        return res.status(400).json({ message: `Unknown registration step "${completedStep}"` });
+      }
+      // The document and submission steps are completed only by
+      // /api/onboarding/complete, which checks the documents first
+      if (completedStep && !getProfileSteps(steps).includes(completedStep)) {
+        return res.status(400).json({ message: `Complete the onboarding to finish the step "${completedStep}"` });
+      }
+
+      await updateRegistrationStep(process.id, currentStep, completedStep);
+      res.json(await describeRegistration((await storage.getRegistrationProcess(process.id))!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid step data", errors: error.errors });
+      }
+      if (error instanceof RegistrationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update registration step" });
+    }
+  });
+
+  // Multipart upload of one verification document, with its documentType
+  app.post("/api/registration/documents", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const process = await storage.getRegistrationProcessByUser(req.user.id);
+      if (!process) {
+        return res.status(404).json({ message: "Registration process not found" });
+      }
+      assertRegistrationEditable(process);
+
+      const file = await parseUpload(req, res);
+      const documentType = typeof req.body.documentType === "string" ? req.body.documentType : "";
+      if (!documentType) {
+        return res.status(400).json({ message: "Name the documentType of the upload" });
+      }
+
+      const fileType = inspectUpload(file);
+      const { filePath } = await storeUpload(file, fileType, `registrations/${process.id}`);
+      const document = await attachVerificationDocument(process, {
+        documentType,
+        fileName: file.originalname,
+        fileType,
+        filePath,
       });
+      await recordAudit({
+        action: "document.uploaded",
+        entityType: "verification_document",
+        entityId: document.id,
+        after: { registrationProcessId: process.id, documentType, fileName: document.fileName, fileType },
+      });
+      res.status(201).json(document);
     } catch (error) {
-      console.error("Profile save error:", error);
-      res.status(500).json({ message: "Server error", error: (error as Error).message });
+      if (error instanceof UploadError || error instanceof RegistrationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to upload verification document" });
     }
   });
-  
-  // Complete onboarding endpoint
-  app.post("/api/onboarding/complete", (req, res) => {
+
+  // Saves the onboarding profile to the user, starting their registration
+  // process if needed, and completes the profile steps
+  app.post("/api/onboarding/profile", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
     try {
-      const { applicantTypeId } = req.body;
-      
-      console.log(`Onboarding completed for applicant type ${applicantTypeId}`);
-      
-      // In a real app, we would update the user's status
-      // For the mockup, just acknowledge
-      
-      res.status(200).json({ 
-        success: true, 
-        message: "Onboarding completed successfully"
+      const { applicantTypeId, ...profile } = onboardingProfileSchema.parse(req.body);
+
+      let process = await storage.getRegistrationProcessByUser(req.user.id);
+      if (process) {
+        assertRegistrationEditable(process);
+      } else {
+        const typeId = applicantTypeId ?? req.user.applicantTypeId;
+        if (!typeId || !(await storage.getApplicantType(typeId))) {
+          return res.status(400).json({ message: "Invalid applicant type" });
+        }
+        process = await createRegistrationProcess(req.user.id, typeId);
+      }
+
+      const user = await storage.updateUser(req.user.id, {
+        ...profile,
+        applicantTypeId: process.applicantTypeId,
       });
+
+      const applicantType = await storage.getApplicantType(process.applicantTypeId);
+      const steps = applicantType ? getRegistrationSteps(applicantType) : [];
+      process = await completeRegistrationSteps(process, steps, getProfileSteps(steps));
+
+      const { password, ...userWithoutPassword } = user!;
+      res.json({ user: userWithoutPassword, registration: await describeRegistration(process) });
     } catch (error) {
-      console.error("Onboarding completion error:", error);
-      res.status(500).json({ message: "Server error", error: (error as Error).message });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid profile data", errors: error.errors });
+      }
+      if (error instanceof RegistrationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save profile" });
+    }
+  });
+
+  // Submits the registration for verification once every required document is in
+  app.post("/api/onboarding/complete", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const process = await storage.getRegistrationProcessByUser(req.user.id);
+      if (!process) {
+        return res.status(404).json({ message: "Registration process not found" });
+      }
+      assertRegistrationEditable(process);
+
+      const status = await checkDocumentVerificationStatus(process.id);
+      if (!status.allUploaded) {
+        return res.status(409).json({
+          message: "Upload every required document before completing the registration",
+          pendingDocuments: status.pendingDocuments,
+        });
+      }
+
+      const applicantType = await storage.getApplicantType(process.applicantTypeId);
+      const steps = applicantType ? getRegistrationSteps(applicantType) : [];
+      const completed = await completeRegistrationSteps(process, steps, steps);
+      await storage.updateUser(req.user.id, { profileComplete: true });
+
+      // The scores order the verification queue
+      for (const document of await storage.getVerificationDocumentsByRegistrationProcess(process.id)) {
+        if (!document.aiVerified) await validateDocumentWithAI(document.id);
+      }
+
+      res.json(await describeRegistration(completed));
+    } catch (error) {
+      if (error instanceof RegistrationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to complete onboarding" });
+    }
+  });
+
+  // Verification documents, for their applicant and for admins verifying registrations
+  for (const disposition of ["download", "preview"] as const) {
+    app.get(`/api/registration/documents/:id/${disposition}`, async (req, res) => {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      try {
+        const document = await storage.getVerificationDocument(parseInt(req.params.id));
+        if (!document) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+        if (document.userId !== req.user.id && !(await hasPermission(req.user, "registration.verify"))) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+
+        await sendStoredFile(res, document, disposition === "download" ? "attachment" : "inline");
+      } catch (error) {
+        res.status(500).json({ message: "Failed to download document" });
+      }
+    });
+  }
+
+  // Registrations awaiting verification, the most confident AI scores first
+  app.get("/api/verification/queue", requirePermission("registration.verify"), async (req, res) => {
+    try {
+      res.json(await getVerificationQueue());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch verification queue" });
+    }
+  });
+
+  app.patch("/api/verification/documents/:id", requirePermission("registration.verify"), async (req, res) => {
+    try {
+      const { status, reason } = documentReviewSchema.parse(req.body);
+      const document = await reviewVerificationDocument(parseInt(req.params.id), req.user!.id, status, reason);
+      res.json(document);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review data", errors: error.errors });
+      }
+      if (error instanceof RegistrationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to review document" });
+    }
+  });
+
+  app.post("/api/verification/registrations/:id/decision", requirePermission("registration.verify"), async (req, res) => {
+    try {
+      const { approved, reason } = registrationDecisionSchema.parse(req.body);
+      const process = await decideRegistration(parseInt(req.params.id), req.user!.id, approved, reason);
+      res.json(process);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid decision data", errors: error.errors });
+      }
+      if (error instanceof RegistrationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to decide registration" });
+    }
+  });
+
+  // Verifies registrations whose pending documents all have high AI scores
+  app.post("/api/verification/bulk-approve", requirePermission("registration.verify"), async (req, res) => {
+    try {
+      const { registrationIds, minScore } = bulkApprovalSchema.parse(req.body);
+      res.json(await bulkApproveRegistrations(registrationIds, req.user!.id, minScore));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bulk approval data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to approve registrations" });
     }
   });
 
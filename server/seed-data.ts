@@ -0,0 +1,335 @@
+import { scrypt, randomBytes } from "crypto";
+import { promisify } from "util";
+import {
+  InsertUser,
+  InsertProgram,
+  InsertApplicantType,
+  InsertBudgetTracking,
+  Application,
+  Evaluation,
+  Document,
+  Message,
+  InsertProgramDonor,
+  InsertReviewerAssignment,
+} from "@shared/schema";
+
+/**
+ * Fixtures shared by every IStorage implementation.
+ *
+ * Foreign keys (applicantId, programId, senderId, ...) refer to the 1-based
+ * position of the referenced fixture in its list, which is also the id it
+ * receives in a fresh MemStorage. Database-backed storage maps them to the
+ * real row ids while seeding.
+ */
+
+const scryptAsync = promisify(scrypt);
+
+// Password used for all seed users
+export const SEED_PASSWORD = "password";
+
+export async function hashSeedPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export const seedUsers = [
+  {
+    username: "admin1",
+    fullName: "Admin Adminić",
+    email: "admin@donacije.ba",
+    role: "administrator",
+  },
+  {
+    username: "nina_kultura",
+    fullName: "Nina Kultura",
+    email: "nina@kultura.org",
+    role: "applicant",
+    // ORGANIZATION, by position in seedApplicantTypes
+    applicantTypeId: 1,
+  },
+  {
+    username: "ref_human",
+    fullName: "Refik Humanović",
+    email: "refik@donacije.ba",
+    role: "reviewer",
+  },
+  {
+    username: "don_corp",
+    fullName: "Don Korporativni",
+    email: "don@corporate.com",
+    role: "donor",
+  },
+  {
+    username: "reviewer1",
+    fullName: "Review Manager",
+    email: "reviewer@donacije.ba",
+    role: "reviewer",
+  },
+] as Omit<InsertUser, "password">[];
+
+export const seedPrograms = [
+  {
+    name: "Korporativno sponzorstvo",
+    type: "sponzorstvo",
+    budgetTotal: 100000,
+    year: 2025,
+    description: "Program korporativnog sponzorstva za 2025. godinu",
+    active: true,
+    eligibleApplicantTypes: ["ORGANIZATION", "CORPORATION"],
+  },
+  {
+    name: "Lokalno sponzorstvo",
+    type: "sponzorstvo",
+    budgetTotal: 50000,
+    year: 2025,
+    description: "Program lokalnog sponzorstva za 2025. godinu",
+    active: true,
+    eligibleApplicantTypes: ["ORGANIZATION"],
+  },
+  {
+    name: "Humanitarne donacije",
+    type: "donacija",
+    budgetTotal: 75000,
+    year: 2025,
+    description: "Program humanitarnih donacija za 2025. godinu",
+    active: true,
+    eligibleApplicantTypes: ["ORGANIZATION", "INDIVIDUAL"],
+  },
+] as InsertProgram[];
+
+export const seedApplicantTypes = [
+  {
+    name: "ORGANIZATION",
+    description: "Neprofitne organizacije i udruženja građana",
+    requiredDocuments: [
+      "Registracijski dokument",
+      "Finansijski izvještaj",
+      "Statut organizacije",
+      "Potvrda o poreznoj registraciji"
+    ],
+    registrationSteps: [
+      "Osnovna registracija",
+      "Verifikacija dokumenata",
+      "Pregled i potvrda"
+    ],
+    verificationRequirements: [
+      "Validna registracija u instituciji",
+      "Aktivni status organizacije",
+      "Usklađenost sa statutom"
+    ]
+  },
+  {
+    name: "INDIVIDUAL",
+    description: "Pojedinci i građani",
+    requiredDocuments: [
+      "Identifikacijski dokument",
+      "Potvrda adrese stanovanja",
+      "Bankovna potvrda"
+    ],
+    registrationSteps: [
+      "Osnovna registracija",
+      "Verifikacija identiteta",
+      "Pregled i potvrda"
+    ],
+    verificationRequirements: [
+      "Validna lična karta/pasoš",
+      "Adresa stanovanja ne starija od 6 mjeseci"
+    ]
+  },
+  {
+    name: "CORPORATION",
+    description: "Profitne kompanije i preduzeća",
+    requiredDocuments: [
+      "Izvod iz sudskog registra",
+      "Potvrda o poreznoj registraciji",
+      "Godišnji finansijski izvještaj",
+      "Bilans stanja",
+      "Potvrda o izmirenim obavezama"
+    ],
+    registrationSteps: [
+      "Osnovna registracija",
+      "Verifikacija dokumenata",
+      "Finansijska verifikacija",
+      "Pregled i potvrda"
+    ],
+    verificationRequirements: [
+      "Aktivni status u registru",
+      "Izmirene porezne obaveze",
+      "Pozitivno poslovanje u zadnjoj godini"
+    ]
+  }
+] as InsertApplicantType[];
+
+export const seedBudgetTracking = [
+  {
+    programId: 1,
+    reserved: 10000,
+    approved: 5000,
+    spent: 4500,
+    available: 85000,
+  },
+  {
+    programId: 2,
+    reserved: 12000,
+    approved: 8000,
+    spent: 4000,
+    available: 38000,
+  },
+  {
+    programId: 3,
+    reserved: 20000,
+    approved: 12000,
+    spent: 8000,
+    available: 47000,
+  },
+] as InsertBudgetTracking[];
+
+export const seedApplications = [
+  {
+    applicantId: 2,
+    programId: 3,
+    status: "u obradi",
+    submittedAt: new Date("2025-03-25T13:20:00"),
+    autoCode: "0001/03/2025",
+    summary: "Donacija za dječije pozorište",
+    requestedAmount: 5000,
+    projectDuration: 6,
+    organization: "Kulturni centar",
+    description: "Projekt dječijeg pozorišta za promociju kulturnih vrijednosti",
+  },
+  {
+    applicantId: 2,
+    programId: 1,
+    status: "odbijeno",
+    submittedAt: new Date("2025-03-20T10:10:00"),
+    autoCode: "0002/03/2025",
+    summary: "Sponzorstvo za koncert \"Zvuk Mira\"",
+    requestedAmount: 3000,
+    projectDuration: 2,
+    organization: "Muzički kolektiv",
+    description: "Koncert klasične muzike s temom mira i pomirenja",
+  },
+  {
+    applicantId: 3,
+    programId: 2,
+    status: "odobreno",
+    submittedAt: new Date("2025-03-15T09:30:00"),
+    autoCode: "0003/04/2025",
+    summary: "Podrška lokalnom umjetničkom festivalu",
+    requestedAmount: 8000,
+    projectDuration: 12,
+    organization: "Art Centar",
+    description: "Godišnji umjetnički festival s lokalnim umjetnicima",
+  },
+] as Omit<Application, "id">[];
+
+export const seedEvaluations = [
+  {
+    applicationId: 1,
+    evaluatedBy: 3,
+    score: 85,
+    decision: "preporučeno",
+    comment: "Kompletna dokumentacija, pozitivan utisak",
+    createdAt: new Date(),
+  },
+  {
+    applicationId: 2,
+    evaluatedBy: 3,
+    score: 45,
+    decision: "odbijeno",
+    comment: "Nedostaje detaljan finansijski plan",
+    createdAt: new Date(),
+  },
+] as Omit<Evaluation, "id">[];
+
+export const seedDocuments = [
+  {
+    applicationId: 1,
+    fileName: "budzet_2025.pdf",
+    fileType: "pdf",
+    filePath: "/uploads/budzet_2025.pdf",
+    uploadedAt: new Date("2025-03-25T13:22:00"),
+    uploadedBy: 2,
+    attachmentKey: null,
+    currentVersion: 1,
+    size: null,
+    checksum: null,
+    deletedAt: null,
+    deletedBy: null,
+  },
+  {
+    applicationId: 1,
+    fileName: "plan_aktivnosti.docx",
+    fileType: "docx",
+    filePath: "/uploads/plan_aktivnosti.docx",
+    uploadedAt: new Date("2025-03-25T13:23:00"),
+    uploadedBy: 2,
+    attachmentKey: null,
+    currentVersion: 1,
+    size: null,
+    checksum: null,
+    deletedAt: null,
+    deletedBy: null,
+  },
+  {
+    applicationId: 2,
+    fileName: "sponzorski_ugovor.pdf",
+    fileType: "pdf",
+    filePath: "/uploads/sponzorski_ugovor.pdf",
+    uploadedAt: new Date("2025-03-20T10:12:00"),
+    uploadedBy: 2,
+    attachmentKey: null,
+    currentVersion: 1,
+    size: null,
+    checksum: null,
+    deletedAt: null,
+    deletedBy: null,
+  },
+] as Omit<Document, "id">[];
+
+export const seedMessages = [
+  {
+    applicationId: 1,
+    senderId: 2,
+    receiverId: 1, // admin1
+    content: "Poštovani, želio bih se prijaviti za program donacija za naš lokalni projekat pomoći djeci. Možete li mi dati više informacija?",
+    read: false,
+    createdAt: new Date(Date.now() - 3600000), // 1 hour ago
+  },
+  {
+    applicationId: 1,
+    senderId: 2,
+    receiverId: 3,
+    content: "I've uploaded the required documentation for the Dječije pozorište project. Could you please review it?",
+    read: false,
+    createdAt: new Date(Date.now() - 7200000), // 2 hours ago
+  },
+  {
+    applicationId: 1,
+    senderId: 4,
+    receiverId: 1, // admin1
+    content: "Could you provide the summary of March applications for our sponsorship program?",
+    read: false,
+    createdAt: new Date(Date.now() - 86400000), // 1 day ago
+  },
+  {
+    applicationId: 1,
+    senderId: 1,
+    receiverId: 3,
+    content: "New evaluation criteria has been added to the Humanitarne donacije program. Please review.",
+    read: true,
+    createdAt: new Date(Date.now() - 172800000), // 2 days ago
+  },
+] as Omit<Message, "id">[];
+
+// don_corp funds the corporate sponsorship program
+export const seedProgramDonors = [
+  { programId: 1, donorId: 4 },
+] as InsertProgramDonor[];
+
+export const seedReviewerAssignments = [
+  { applicationId: 1, reviewerId: 3, assignedBy: 1 },
+  { applicationId: 2, reviewerId: 3, assignedBy: 1 },
+  { applicationId: 3, reviewerId: 5, assignedBy: 1 },
+] as InsertReviewerAssignment[];
@@ -0,0 +1,1150 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import type { IStorage } from "./storage";
+import {
+  applicationQuerySchema,
+  documentQuerySchema,
+  evaluationQuerySchema,
+  type ApplicationScope,
+  type AuditLogQuery,
+  type DocumentPage,
+  type DocumentQuery,
+  type EvaluationQuery,
+  type InsertApplication,
+  type InsertUser,
+} from "@shared/schema";
+import { DEFAULT_ROLE_PERMISSIONS, type Role } from "@shared/permissions";
+
+/**
+ * Behaviour every IStorage implementation must share. `createStorage` is
+ * called before each test and must return an empty, unseeded storage.
+ */
+export function describeStorageContract(
+  name: string,
+  createStorage: () => Promise<IStorage>,
+) {
+  describe(`IStorage contract: ${name}`, () => {
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      storage = await createStorage();
+    });
+
+    let userCounter = 0;
+    function userData(overrides: Partial<InsertUser> = {}): InsertUser {
+      userCounter++;
+      return {
+        username: `user${userCounter}`,
+        fullName: `User ${userCounter}`,
+        email: `user${userCounter}@example.org`,
+        password: "hashed.salt",
+        role: "applicant",
+        ...overrides,
+      };
+    }
+
+    async function createProgram() {
+      return storage.createProgram({
+        name: "Test program",
+        type: "donacija",
+        budgetTotal: 10000,
+        year: 2025,
+      });
+    }
+
+    async function createApplication() {
+      const applicant = await storage.createUser(userData());
+      const program = await createProgram();
+      const application = await storage.createApplication({
+        applicantId: applicant.id,
+        programId: program.id,
+        summary: "Community library",
+        requestedAmount: 1500,
+      });
+      return { applicant, program, application };
+    }
+
+    describe("users", () => {
+      it("creates users with column defaults", async () => {
+        const user = await storage.createUser(userData({ city: "Sarajevo" }));
+
+        assert.ok(user.id > 0);
+        assert.equal(user.city, "Sarajevo");
+        assert.equal(user.country, null);
+        assert.equal(user.isVerified, false);
+        assert.equal(user.authProvider, "local");
+        assert.equal(user.authVersion, 0);
+        assert.equal(user.profileComplete, false);
+        assert.ok(user.createdAt instanceof Date);
+      });
+
+      it("finds users by id, username and email", async () => {
+        const user = await storage.createUser(userData());
+
+        assert.deepEqual(await storage.getUser(user.id), user);
+        assert.deepEqual(await storage.getUserByUsername(user.username), user);
+        assert.deepEqual(await storage.getUserByEmail(user.email), user);
+        assert.equal(await storage.getUser(user.id + 1000), undefined);
+        assert.equal(await storage.getUserByUsername("nobody"), undefined);
+        assert.equal(await storage.getUserByEmail("nobody@example.org"), undefined);
+      });
+
+      it("lists and updates users", async () => {
+        const first = await storage.createUser(userData());
+        const second = await storage.createUser(userData({ role: "reviewer" }));
+
+        assert.deepEqual((await storage.getUsers()).map((u) => u.id), [first.id, second.id]);
+
+        const updated = await storage.updateUser(first.id, { isVerified: true, city: "Mostar" });
+        assert.equal(updated?.isVerified, true);
+        assert.equal(updated?.city, "Mostar");
+        assert.equal(updated?.username, first.username);
+        assert.equal(await storage.updateUser(first.id + 1000, { city: "Tuzla" }), undefined);
+      });
+    });
+
+    describe("programs", () => {
+      it("creates, lists and updates programs", async () => {
+        const program = await createProgram();
+
+        assert.equal(program.active, true);
+        assert.equal(program.description, null);
+        assert.equal(program.eligibleApplicantTypes, null);
+        assert.equal(program.opensAt, null);
+        assert.equal(program.closesAt, null);
+        assert.equal(program.timezone, "Europe/Sarajevo");
+        assert.equal(program.gracePeriodMinutes, 0);
+        assert.deepEqual(program.eligibilityRules, []);
+        assert.equal(program.formSchema, null);
+        assert.deepEqual(await storage.getProgram(program.id), program);
+        assert.deepEqual(await storage.getPrograms(), [program]);
+
+        const updated = await storage.updateProgram(program.id, {
+          active: false,
+          eligibleApplicantTypes: ["ORGANIZATION"],
+        });
+        assert.equal(updated?.active, false);
+        assert.deepEqual(updated?.eligibleApplicantTypes, ["ORGANIZATION"]);
+
+        const closesAt = new Date("2025-03-31T21:59:00Z");
+        const scheduled = await storage.updateProgram(program.id, { closesAt, gracePeriodMinutes: 30 });
+        assert.equal(scheduled?.closesAt?.getTime(), closesAt.getTime());
+        assert.equal(scheduled?.gracePeriodMinutes, 30);
+
+        const rules = [{ type: "maxRequestedAmount" as const, amount: 500 }];
+        const restricted = await storage.updateProgram(program.id, { eligibilityRules: rules });
+        assert.deepEqual(restricted?.eligibilityRules, rules);
+        assert.deepEqual((await storage.getProgram(program.id))?.eligibilityRules, rules);
+
+        const formSchema = { sections: [{ key: "main", title: "Main", fields: [] }], attachments: [] };
+        const withForm = await storage.updateProgram(program.id, { formSchema });
+        assert.deepEqual(withForm?.formSchema, formSchema);
+        assert.equal(await storage.getProgram(program.id + 1000), undefined);
+        assert.equal(await storage.updateProgram(program.id + 1000, { active: true }), undefined);
+      });
+    });
+
+    describe("applicant types", () => {
+      it("creates, lists and updates applicant types", async () => {
+        const type = await storage.createApplicantType({
+          name: "ORGANIZATION",
+          requiredDocuments: ["Statut organizacije"],
+        });
+
+        assert.equal(type.description, null);
+        assert.deepEqual(type.requiredDocuments, ["Statut organizacije"]);
+        assert.deepEqual(await storage.getApplicantType(type.id), type);
+        assert.deepEqual(await storage.getApplicantTypes(), [type]);
+
+        const updated = await storage.updateApplicantType(type.id, { description: "NGOs" });
+        assert.equal(updated?.description, "NGOs");
+        assert.equal(await storage.getApplicantType(type.id + 1000), undefined);
+      });
+    });
+
+    describe("registration processes", () => {
+      it("creates processes with default status and step", async () => {
+        const user = await storage.createUser(userData());
+        const type = await storage.createApplicantType({ name: "INDIVIDUAL" });
+        const process = await storage.createRegistrationProcess({
+          userId: user.id,
+          applicantTypeId: type.id,
+          totalSteps: 5,
+        });
+
+        assert.equal(process.status, "incomplete");
+        assert.equal(process.currentStep, 1);
+        assert.equal(process.completedSteps, null);
+        assert.equal(process.verificationDate, null);
+        assert.ok(process.createdAt instanceof Date);
+        assert.deepEqual(await storage.getRegistrationProcess(process.id), process);
+        assert.deepEqual(await storage.getRegistrationProcessByUser(user.id), process);
+        assert.deepEqual(await storage.getRegistrationProcesses(), [process]);
+        assert.equal(await storage.getRegistrationProcessByUser(user.id + 1000), undefined);
+      });
+
+      it("touches updatedAt when a process is updated", async () => {
+        const user = await storage.createUser(userData());
+        const type = await storage.createApplicantType({ name: "INDIVIDUAL" });
+        const process = await storage.createRegistrationProcess({
+          userId: user.id,
+          applicantTypeId: type.id,
+          totalSteps: 5,
+        });
+
+        const updated = await storage.updateRegistrationProcess(process.id, {
+          currentStep: 2,
+          completedSteps: ["account_creation"],
+        });
+        assert.equal(updated?.currentStep, 2);
+        assert.deepEqual(updated?.completedSteps, ["account_creation"]);
+        assert.ok(updated!.updatedAt!.getTime() >= process.updatedAt!.getTime());
+        assert.equal(await storage.updateRegistrationProcess(process.id + 1000, { currentStep: 3 }), undefined);
+      });
+    });
+
+    describe("pending registrations", () => {
+      it("keeps one pending registration per email and updates and deletes it", async () => {
+        const account = userData();
+        const sentAt = new Date("2025-06-01T12:00:00Z");
+        const pending = await storage.createPendingRegistration({
+          email: account.email,
+          username: account.username,
+          account,
+          codeHash: "hash",
+          expiresAt: new Date("2025-06-01T12:15:00Z"),
+          lastSentAt: sentAt,
+        });
+
+        assert.equal(pending.attempts, 0);
+        assert.equal(pending.sendCount, 1);
+        assert.deepEqual(pending.account, account);
+        assert.ok(pending.createdAt instanceof Date);
+        assert.deepEqual(await storage.getPendingRegistrationByEmail(account.email), pending);
+        await assert.rejects(storage.createPendingRegistration({
+          email: account.email,
+          username: "someone_else",
+          account: { ...account, username: "someone_else" },
+          codeHash: "other",
+          expiresAt: sentAt,
+          lastSentAt: sentAt,
+        }));
+
+        const updated = await storage.updatePendingRegistration(pending.id, { attempts: 2, codeHash: "new" });
+        assert.equal(updated?.attempts, 2);
+        assert.equal(updated?.codeHash, "new");
+        assert.equal(await storage.updatePendingRegistration(pending.id + 1000, { attempts: 1 }), undefined);
+
+        assert.equal(await storage.deletePendingRegistration(pending.id), true);
+        assert.equal(await storage.deletePendingRegistration(pending.id), false);
+        assert.equal(await storage.getPendingRegistrationByEmail(account.email), undefined);
+      });
+    });
+
+    describe("password reset tokens", () => {
+      it("finds tokens by hash and marks a user's unused tokens as used", async () => {
+        const user = await storage.createUser(userData());
+        const other = await storage.createUser(userData());
+        const expiresAt = new Date("2025-06-01T13:00:00Z");
+        const first = await storage.createPasswordResetToken({ userId: user.id, tokenHash: `first-${user.id}`, expiresAt });
+        const second = await storage.createPasswordResetToken({ userId: user.id, tokenHash: `second-${user.id}`, expiresAt });
+        const others = await storage.createPasswordResetToken({ userId: other.id, tokenHash: `other-${other.id}`, expiresAt });
+
+        assert.equal(first.usedAt, null);
+        assert.ok(first.createdAt instanceof Date);
+        assert.deepEqual(await storage.getPasswordResetTokenByHash(second.tokenHash), second);
+        assert.equal(await storage.getPasswordResetTokenByHash("missing"), undefined);
+
+        assert.equal(await storage.markPasswordResetTokensUsed(user.id), 2);
+        assert.equal(await storage.markPasswordResetTokensUsed(user.id), 0);
+        assert.ok((await storage.getPasswordResetTokenByHash(first.tokenHash))!.usedAt instanceof Date);
+        assert.equal((await storage.getPasswordResetTokenByHash(others.tokenHash))!.usedAt, null);
+      });
+    });
+
+    describe("audit log", () => {
+      const query = (filters: Partial<AuditLogQuery> = {}): AuditLogQuery => ({ limit: 50, offset: 0, ...filters });
+
+      it("appends entries and filters them newest first", async () => {
+        const actor = await storage.createUser(userData());
+        const failed = await storage.createAuditLogEntry({ action: "auth.login_failed", after: { username: "ghost" } });
+        const login = await storage.createAuditLogEntry({
+          action: "auth.login",
+          actorId: actor.id,
+          ipAddress: "127.0.0.1",
+          userAgent: "test",
+          entityType: "user",
+          entityId: actor.id,
+        });
+        const roleChange = await storage.createAuditLogEntry({
+          action: "user.role_changed",
+          actorId: actor.id,
+          entityType: "user",
+          entityId: actor.id + 1,
+          before: { role: "applicant" },
+          after: { role: "reviewer" },
+        });
+
+        assert.equal(failed.actorId, null);
+        assert.equal(failed.entityType, null);
+        assert.equal(failed.before, null);
+        assert.deepEqual(failed.after, { username: "ghost" });
+        assert.ok(failed.createdAt instanceof Date);
+
+        const all = await storage.queryAuditLog(query());
+        assert.deepEqual(all.items.map((entry) => entry.id), [roleChange.id, login.id, failed.id]);
+        assert.equal(all.total, 3);
+        assert.deepEqual(all.items[0], roleChange);
+
+        assert.deepEqual((await storage.queryAuditLog(query({ actorId: actor.id }))).items.map((entry) => entry.id), [roleChange.id, login.id]);
+        assert.equal((await storage.queryAuditLog(query({ action: ["auth.login", "auth.login_failed"] }))).total, 2);
+        assert.deepEqual((await storage.queryAuditLog(query({ entityType: "user", entityId: actor.id }))).items, [login]);
+        assert.equal((await storage.queryAuditLog(query({ from: new Date(Date.now() + 60_000) }))).total, 0);
+        assert.equal((await storage.queryAuditLog(query({ to: new Date(Date.now() + 60_000) }))).total, 3);
+
+        const page = await storage.queryAuditLog(query({ limit: 1, offset: 1 }));
+        assert.deepEqual(page.items.map((entry) => entry.id), [login.id]);
+        assert.equal(page.total, 3);
+      });
+    });
+
+    describe("refresh tokens", () => {
+      it("revokes a token once and whole families", async () => {
+        const user = await storage.createUser(userData());
+        const expiresAt = new Date("2025-07-01T12:00:00Z");
+        const familyId = `family-${user.id}`;
+        const first = await storage.createRefreshToken({ userId: user.id, familyId, tokenHash: `rt1-${user.id}`, authVersion: 0, expiresAt });
+        const second = await storage.createRefreshToken({ userId: user.id, familyId, tokenHash: `rt2-${user.id}`, authVersion: 0, expiresAt });
+        const other = await storage.createRefreshToken({ userId: user.id, familyId: `other-${user.id}`, tokenHash: `rt3-${user.id}`, authVersion: 0, expiresAt });
+
+        assert.equal(first.revokedAt, null);
+        assert.deepEqual(await storage.getRefreshTokenByHash(second.tokenHash), second);
+        assert.equal(await storage.getRefreshTokenByHash("missing"), undefined);
+        assert.deepEqual((await storage.getRefreshTokensByFamily(familyId)).map((token) => token.id).sort(), [first.id, second.id].sort());
+
+        assert.equal(await storage.revokeRefreshToken(first.id), true);
+        assert.equal(await storage.revokeRefreshToken(first.id), false);
+        assert.equal(await storage.revokeRefreshTokenFamily(familyId), 1);
+        assert.equal(await storage.revokeRefreshTokenFamily(familyId), 0);
+        assert.ok((await storage.getRefreshTokenByHash(second.tokenHash))!.revokedAt instanceof Date);
+        assert.equal((await storage.getRefreshTokenByHash(other.tokenHash))!.revokedAt, null);
+      });
+    });
+
+    describe("two-factor credentials", () => {
+      it("replaces, updates and deletes the credential of a user", async () => {
+        const user = await storage.createUser(userData());
+        assert.equal(await storage.getTwoFactorCredential(user.id), undefined);
+
+        const first = await storage.replaceTwoFactorCredential({ userId: user.id, secret: "first" });
+        assert.equal(first.enabledAt, null);
+        assert.deepEqual(first.recoveryCodeHashes, []);
+        assert.equal(first.lastUsedStep, null);
+
+        const enabledAt = new Date("2025-07-01T12:00:00Z");
+        const updated = await storage.updateTwoFactorCredential(user.id, { enabledAt, recoveryCodeHashes: ["a", "b"] });
+        assert.deepEqual(updated, await storage.getTwoFactorCredential(user.id));
+        assert.deepEqual(updated!.enabledAt, enabledAt);
+
+        const second = await storage.replaceTwoFactorCredential({ userId: user.id, secret: "second" });
+        assert.equal(second.enabledAt, null);
+        assert.deepEqual(await storage.getTwoFactorCredential(user.id), second);
+
+        assert.equal(await storage.deleteTwoFactorCredential(user.id), true);
+        assert.equal(await storage.deleteTwoFactorCredential(user.id), false);
+        assert.equal(await storage.updateTwoFactorCredential(user.id, { enabledAt }), undefined);
+      });
+
+      it("accepts each time step and recovery code once", async () => {
+        const user = await storage.createUser(userData());
+        await storage.replaceTwoFactorCredential({ userId: user.id, secret: "secret" });
+        await storage.updateTwoFactorCredential(user.id, { recoveryCodeHashes: ["a", "b"] });
+
+        assert.equal(await storage.advanceTwoFactorStep(user.id, 100), true);
+        assert.equal(await storage.advanceTwoFactorStep(user.id, 100), false);
+        assert.equal(await storage.advanceTwoFactorStep(user.id, 99), false);
+        assert.equal(await storage.advanceTwoFactorStep(user.id, 101), true);
+
+        assert.equal(await storage.consumeRecoveryCode(user.id, "a"), true);
+        assert.equal(await storage.consumeRecoveryCode(user.id, "a"), false);
+        assert.deepEqual((await storage.getTwoFactorCredential(user.id))!.recoveryCodeHashes, ["b"]);
+        assert.equal(await storage.advanceTwoFactorStep(-1, 1), false);
+      });
+    });
+
+    describe("account lockouts", () => {
+      it("counts failed sign-ins per user and finds a lockout by its unlock token", async () => {
+        const user = await storage.createUser(userData());
+        assert.equal(await storage.getAccountLockout(user.id), undefined);
+        assert.equal(await storage.updateAccountLockout(user.id, { failedAttempts: 0 }), undefined);
+
+        const first = await storage.incrementFailedLogins(user.id);
+        assert.deepEqual(
+          { ...first, id: 0, updatedAt: null },
+          { id: 0, userId: user.id, failedAttempts: 1, lockouts: 0, lockedUntil: null, unlockTokenHash: null, updatedAt: null },
+        );
+        assert.equal((await storage.incrementFailedLogins(user.id)).failedAttempts, 2);
+
+        const lockedUntil = new Date("2025-07-01T12:00:00Z");
+        const locked = await storage.updateAccountLockout(user.id, { failedAttempts: 0, lockouts: 1, lockedUntil, unlockTokenHash: "hash" });
+        assert.equal(locked!.id, first.id);
+        assert.deepEqual(await storage.getAccountLockoutByUnlockTokenHash("hash"), locked);
+        assert.deepEqual(locked!.lockedUntil, lockedUntil);
+        assert.equal(await storage.getAccountLockoutByUnlockTokenHash("other"), undefined);
+
+        assert.equal(await storage.deleteAccountLockout(user.id), true);
+        assert.equal(await storage.deleteAccountLockout(user.id), false);
+        assert.equal((await storage.incrementFailedLogins(user.id)).failedAttempts, 1);
+      });
+    });
+
+    describe("verification documents", () => {
+      it("creates documents pending verification and filters them", async () => {
+        const user = await storage.createUser(userData());
+        const other = await storage.createUser(userData());
+        const type = await storage.createApplicantType({ name: "INDIVIDUAL" });
+        const process = await storage.createRegistrationProcess({
+          userId: user.id,
+          applicantTypeId: type.id,
+          totalSteps: 5,
+        });
+
+        const document = await storage.createVerificationDocument({
+          userId: user.id,
+          registrationProcessId: process.id,
+          documentType: "id_card_passport",
+          fileName: "id.pdf",
+          fileType: "pdf",
+          filePath: "/uploads/id.pdf",
+        });
+        await storage.createVerificationDocument({
+          userId: other.id,
+          documentType: "resume_cv",
+          fileName: "cv.pdf",
+          fileType: "pdf",
+          filePath: "/uploads/cv.pdf",
+        });
+
+        assert.equal(document.verificationStatus, "pending");
+        assert.equal(document.aiVerified, false);
+        assert.equal(document.verifiedBy, null);
+        assert.deepEqual(await storage.getVerificationDocument(document.id), document);
+        assert.deepEqual(await storage.getVerificationDocumentsByUser(user.id), [document]);
+        assert.deepEqual(await storage.getVerificationDocumentsByRegistrationProcess(process.id), [document]);
+      });
+
+      it("updates verification results", async () => {
+        const user = await storage.createUser(userData());
+        const document = await storage.createVerificationDocument({
+          userId: user.id,
+          documentType: "resume_cv",
+          fileName: "cv.pdf",
+          fileType: "pdf",
+          filePath: "/uploads/cv.pdf",
+        });
+
+        const updated = await storage.updateVerificationDocument(document.id, {
+          aiVerified: true,
+          aiVerificationScore: 91,
+          verificationStatus: "approved",
+        });
+        assert.equal(updated?.verificationStatus, "approved");
+        assert.equal(updated?.aiVerificationScore, 91);
+        assert.equal(updated?.fileName, "cv.pdf");
+        assert.equal(await storage.updateVerificationDocument(document.id + 1000, { aiVerified: true }), undefined);
+      });
+    });
+
+    describe("applications", () => {
+      it("creates drafts with a generated code", async () => {
+        const { application, applicant, program } = await createApplication();
+
+        assert.equal(application.status, "draft");
+        assert.equal(application.submittedAt, null);
+        assert.equal(application.applicantId, applicant.id);
+        assert.equal(application.programId, program.id);
+        assert.equal(application.description, null);
+
+        const now = new Date();
+        const month = (now.getMonth() + 1).toString().padStart(2, "0");
+        assert.equal(
+          application.autoCode,
+          `${application.id.toString().padStart(4, "0")}/${month}/${now.getFullYear()}`,
+        );
+        assert.deepEqual(await storage.getApplication(application.id), application);
+      });
+
+      it("ignores a status supplied on creation", async () => {
+        const applicant = await storage.createUser(userData());
+        const program = await createProgram();
+        const application = await storage.createApplication({
+          applicantId: applicant.id,
+          programId: program.id,
+          summary: "Sneaky",
+          status: "odobreno",
+        } as InsertApplication & { status: string });
+
+        assert.equal(application.status, "draft");
+      });
+
+      it("gives every application a unique code", async () => {
+        const { applicant, program, application } = await createApplication();
+        const second = await storage.createApplication({
+          applicantId: applicant.id,
+          programId: program.id,
+          summary: "Second",
+        });
+
+        assert.notEqual(second.id, application.id);
+        assert.notEqual(second.autoCode, application.autoCode);
+      });
+
+      it("stores form answers", async () => {
+        const { applicant, program, application } = await createApplication();
+        assert.deepEqual(application.answers, {});
+
+        const answered = await storage.createApplication({
+          applicantId: applicant.id,
+          programId: program.id,
+          summary: "Answered",
+          answers: { category: "sport", participants: 12, topics: ["youth"] },
+        });
+        assert.deepEqual((await storage.getApplication(answered.id))?.answers, { category: "sport", participants: 12, topics: ["youth"] });
+
+        const updated = await storage.updateApplication(answered.id, { answers: { category: "culture" } });
+        assert.deepEqual(updated?.answers, { category: "culture" });
+      });
+
+      it("stamps submittedAt only when a draft is submitted", async () => {
+        const { application } = await createApplication();
+
+        const submitted = await storage.updateApplication(application.id, { status: "submitted" });
+        assert.equal(submitted?.status, "submitted");
+        assert.ok(submitted?.submittedAt instanceof Date);
+
+        const resubmitted = await storage.updateApplication(application.id, { status: "submitted" });
+        assert.deepEqual(resubmitted?.submittedAt, submitted?.submittedAt);
+
+        const { application: other } = await createApplication();
+        const inReview = await storage.updateApplication(other.id, { status: "u obradi" });
+        assert.equal(inReview?.submittedAt, null);
+      });
+
+      it("filters applications by applicant and program", async () => {
+        const { applicant, program, application } = await createApplication();
+        const { application: other } = await createApplication();
+
+        assert.deepEqual(
+          (await storage.getApplications()).map((a) => a.id),
+          [application.id, other.id],
+        );
+        assert.deepEqual(await storage.getApplicationsByApplicant(applicant.id), [application]);
+        assert.deepEqual(await storage.getApplicationsByProgram(program.id), [application]);
+        assert.equal(await storage.getApplication(other.id + 1000), undefined);
+        assert.equal(await storage.updateApplication(other.id + 1000, { summary: "x" }), undefined);
+      });
+    });
+
+    describe("application queries", () => {
+      const query = (params: Record<string, unknown> = {}) => applicationQuerySchema.parse(params);
+
+      async function createQueryFixtures() {
+        const alice = await storage.createUser(userData());
+        const bob = await storage.createUser(userData());
+        const culture = await createProgram();
+        const sport = await createProgram();
+
+        const library = await storage.createApplication({
+          applicantId: alice.id,
+          programId: culture.id,
+          summary: "Community library",
+          organization: "Reading Club",
+          requestedAmount: 1500,
+        });
+        const theatre = await storage.createApplication({
+          applicantId: alice.id,
+          programId: culture.id,
+          summary: "Children's theatre",
+          description: "100% volunteer run",
+          requestedAmount: 5000,
+        });
+        const football = await storage.createApplication({
+          applicantId: bob.id,
+          programId: sport.id,
+          summary: "Youth football",
+        });
+
+        await storage.updateApplication(library.id, {
+          status: "u obradi",
+          submittedAt: new Date("2025-03-10T10:00:00Z"),
+        });
+        await storage.updateApplication(theatre.id, {
+          status: "odobreno",
+          submittedAt: new Date("2025-04-02T10:00:00Z"),
+        });
+
+        return { alice, bob, culture, sport, library, theatre, football };
+      }
+
+      const ids = (page: { items: { id: number }[] }) => page.items.map((a) => a.id);
+
+      it("returns every application with totals by default", async () => {
+        const { library, theatre, football } = await createQueryFixtures();
+        const page = await storage.queryApplications(query());
+
+        assert.deepEqual(ids(page), [library.id, theatre.id, football.id]);
+        assert.equal(page.total, 3);
+        assert.equal(page.limit, 25);
+        assert.equal(page.offset, 0);
+        assert.deepEqual(page.statusCounts, { "u obradi": 1, odobreno: 1, draft: 1 });
+      });
+
+      it("filters by status, program, applicant and applicant type", async () => {
+        const { alice, sport, library, theatre, football } = await createQueryFixtures();
+
+        assert.deepEqual(ids(await storage.queryApplications(query({ status: "u obradi,odobreno" }))), [library.id, theatre.id]);
+        assert.deepEqual(ids(await storage.queryApplications(query({ programId: sport.id }))), [football.id]);
+        assert.deepEqual(ids(await storage.queryApplications(query({ applicantId: alice.id }))), [library.id, theatre.id]);
+        assert.deepEqual(ids(await storage.queryApplications(query({ applicantTypeId: 99 }))), []);
+        assert.deepEqual(ids(await storage.queryApplications(query({ ids: `${football.id},${library.id}` }))), [library.id, football.id]);
+      });
+
+      it("counts statuses regardless of the status filter", async () => {
+        await createQueryFixtures();
+        const page = await storage.queryApplications(query({ status: "draft" }));
+
+        assert.equal(page.total, 1);
+        assert.deepEqual(page.statusCounts, { "u obradi": 1, odobreno: 1, draft: 1 });
+      });
+
+      it("filters by submission date and requested amount ranges", async () => {
+        const { library, theatre } = await createQueryFixtures();
+
+        assert.deepEqual(
+          ids(await storage.queryApplications(query({ submittedFrom: "2025-04-01", submittedTo: "2025-04-30" }))),
+          [theatre.id],
+        );
+        assert.deepEqual(ids(await storage.queryApplications(query({ submittedTo: "2025-12-31" }))), [library.id, theatre.id]);
+        assert.deepEqual(ids(await storage.queryApplications(query({ minAmount: 2000 }))), [theatre.id]);
+        assert.deepEqual(ids(await storage.queryApplications(query({ maxAmount: 2000 }))), [library.id]);
+      });
+
+      it("searches summary, code, organization and description case-insensitively", async () => {
+        const { library, theatre, football } = await createQueryFixtures();
+
+        assert.deepEqual(ids(await storage.queryApplications(query({ q: "FOOTBALL" }))), [football.id]);
+        assert.deepEqual(ids(await storage.queryApplications(query({ q: "reading club" }))), [library.id]);
+        assert.deepEqual(ids(await storage.queryApplications(query({ q: football.autoCode }))), [football.id]);
+        assert.deepEqual(ids(await storage.queryApplications(query({ q: "100%" }))), [theatre.id]);
+        assert.deepEqual(ids(await storage.queryApplications(query({ q: "%" }))), [theatre.id]);
+      });
+
+      it("sorts with nulls last and ties broken by id", async () => {
+        const { library, theatre, football } = await createQueryFixtures();
+
+        assert.deepEqual(
+          ids(await storage.queryApplications(query({ sort: "requestedAmount", order: "desc" }))),
+          [theatre.id, library.id, football.id],
+        );
+        assert.deepEqual(
+          ids(await storage.queryApplications(query({ sort: "submittedAt", order: "asc" }))),
+          [library.id, theatre.id, football.id],
+        );
+        assert.deepEqual(
+          ids(await storage.queryApplications(query({ order: "desc" }))),
+          [football.id, theatre.id, library.id],
+        );
+      });
+
+      it("paginates with limit and offset", async () => {
+        const { theatre, football } = await createQueryFixtures();
+        const page = await storage.queryApplications(query({ limit: 2, offset: 1 }));
+
+        assert.deepEqual(ids(page), [theatre.id, football.id]);
+        assert.equal(page.total, 3);
+        assert.equal(page.limit, 2);
+        assert.equal(page.offset, 1);
+        assert.deepEqual(ids(await storage.queryApplications(query({ offset: 10 }))), []);
+      });
+
+      it("counts submissions per month within a scope", async () => {
+        const { alice, bob } = await createQueryFixtures();
+        const months = (march: number, april: number) => [0, 0, march, april, 0, 0, 0, 0, 0, 0, 0, 0];
+
+        assert.deepEqual(await storage.countSubmissionsByMonth(2025), months(1, 1));
+        assert.deepEqual(await storage.countSubmissionsByMonth(2024), months(0, 0));
+        assert.deepEqual(await storage.countSubmissionsByMonth(2025, { applicantId: alice.id }), months(1, 1));
+        assert.deepEqual(await storage.countSubmissionsByMonth(2025, { applicantId: bob.id }), months(0, 0));
+      });
+    });
+
+    describe("visibility relations", () => {
+      it("links donors to programs", async () => {
+        const donor = await storage.createUser(userData({ role: "donor" }));
+        const program = await createProgram();
+        const other = await createProgram();
+
+        const link = await storage.createProgramDonor({ programId: program.id, donorId: donor.id });
+        assert.ok(link.id > 0);
+        assert.ok(link.createdAt instanceof Date);
+        assert.deepEqual(await storage.getProgramDonorsByProgram(program.id), [link]);
+        assert.deepEqual(await storage.getProgramDonorsByDonor(donor.id), [link]);
+        assert.deepEqual(await storage.getProgramDonorsByProgram(other.id), []);
+
+        await assert.rejects(storage.createProgramDonor({ programId: program.id, donorId: donor.id }));
+
+        assert.equal(await storage.deleteProgramDonor(program.id, donor.id), true);
+        assert.equal(await storage.deleteProgramDonor(program.id, donor.id), false);
+        assert.deepEqual(await storage.getProgramDonorsByDonor(donor.id), []);
+      });
+
+      it("assigns reviewers to applications", async () => {
+        const { application } = await createApplication();
+        const admin = await storage.createUser(userData({ role: "administrator" }));
+        const reviewer = await storage.createUser(userData({ role: "reviewer" }));
+
+        const assignment = await storage.createReviewerAssignment({
+          applicationId: application.id,
+          reviewerId: reviewer.id,
+          assignedBy: admin.id,
+        });
+        assert.equal(assignment.assignedBy, admin.id);
+        assert.ok(assignment.assignedAt instanceof Date);
+        assert.deepEqual(await storage.getReviewerAssignmentsByApplication(application.id), [assignment]);
+        assert.deepEqual(await storage.getReviewerAssignmentsByReviewer(reviewer.id), [assignment]);
+
+        await assert.rejects(storage.createReviewerAssignment({ applicationId: application.id, reviewerId: reviewer.id }));
+
+        assert.equal(await storage.deleteReviewerAssignment(application.id, reviewer.id), true);
+        assert.equal(await storage.deleteReviewerAssignment(application.id, reviewer.id), false);
+        assert.deepEqual(await storage.getReviewerAssignmentsByReviewer(reviewer.id), []);
+      });
+
+      it("restricts application queries to a scope", async () => {
+        const alice = await storage.createUser(userData());
+        const bob = await storage.createUser(userData());
+        const culture = await createProgram();
+        const sport = await createProgram();
+        const library = await storage.createApplication({ applicantId: alice.id, programId: culture.id, summary: "Library" });
+        const theatre = await storage.createApplication({ applicantId: bob.id, programId: culture.id, summary: "Theatre" });
+        const football = await storage.createApplication({ applicantId: bob.id, programId: sport.id, summary: "Football" });
+        await storage.updateApplication(theatre.id, { status: "submitted" });
+
+        const query = applicationQuerySchema.parse({});
+        const ids = async (scope: Parameters<IStorage["queryApplications"]>[1]) =>
+          (await storage.queryApplications(query, scope)).items.map((a) => a.id);
+
+        assert.deepEqual(await ids(undefined), [library.id, theatre.id, football.id]);
+        assert.deepEqual(await ids({ applicantId: alice.id }), [library.id]);
+        assert.deepEqual(await ids({ programIds: [culture.id] }), [library.id, theatre.id]);
+        assert.deepEqual(await ids({ applicationIds: [football.id] }), [football.id]);
+        assert.deepEqual(await ids({ applicantId: alice.id, applicationIds: [football.id] }), [library.id, football.id]);
+        assert.deepEqual(await ids({}), []);
+        assert.deepEqual(await ids({ programIds: [], applicationIds: [] }), []);
+
+        const page = await storage.queryApplications(query, { applicantId: bob.id });
+        assert.equal(page.total, 2);
+        assert.deepEqual(page.statusCounts, { submitted: 1, draft: 1 });
+      });
+    });
+
+    describe("role permissions", () => {
+      it("starts from the default matrix", async () => {
+        for (const role of Object.keys(DEFAULT_ROLE_PERMISSIONS) as Role[]) {
+          assert.deepEqual(
+            [...await storage.getPermissionsByRole(role)].sort(),
+            [...DEFAULT_ROLE_PERMISSIONS[role]].sort(),
+          );
+        }
+        const total = Object.values(DEFAULT_ROLE_PERMISSIONS).reduce((sum, list) => sum + list.length, 0);
+        assert.equal((await storage.getRolePermissions()).length, total);
+      });
+
+      it("replaces the permissions of one role", async () => {
+        assert.deepEqual(await storage.setRolePermissions("donor", ["report.view", "report.view", "custom"]), ["report.view", "custom"]);
+        assert.deepEqual([...await storage.getPermissionsByRole("donor")].sort(), ["custom", "report.view"]);
+        assert.deepEqual(
+          [...await storage.getPermissionsByRole("reviewer")].sort(),
+          [...DEFAULT_ROLE_PERMISSIONS.reviewer].sort(),
+        );
+
+        assert.deepEqual(await storage.setRolePermissions("donor", []), []);
+        assert.deepEqual(await storage.getPermissionsByRole("donor"), []);
+      });
+    });
+
+    describe("role settings", () => {
+      it("keeps one setting per role", async () => {
+        assert.deepEqual(await storage.getRoleSettings(), []);
+        const required = await storage.setRoleTwoFactorRequired("reviewer", true);
+        assert.deepEqual({ ...required, id: 0 }, { id: 0, role: "reviewer", twoFactorRequired: true });
+
+        const relaxed = await storage.setRoleTwoFactorRequired("reviewer", false);
+        assert.equal(relaxed.id, required.id);
+        await storage.setRoleTwoFactorRequired("administrator", true);
+        const settings = await storage.getRoleSettings();
+        assert.deepEqual(
+          settings.map(({ role, twoFactorRequired }) => ({ role, twoFactorRequired })).sort((a, b) => a.role.localeCompare(b.role)),
+          [{ role: "administrator", twoFactorRequired: true }, { role: "reviewer", twoFactorRequired: false }],
+        );
+      });
+    });
+
+    describe("rate limits", () => {
+      it("keeps one policy per name", async () => {
+        assert.deepEqual(await storage.getRateLimitPolicies(), []);
+        const first = await storage.setRateLimitPolicy("login.ip", { limit: 5, windowSeconds: 60 });
+        const changed = await storage.setRateLimitPolicy("login.ip", { limit: 10, windowSeconds: 120 });
+        assert.equal(changed.id, first.id);
+        await storage.setRateLimitPolicy("api.user", { limit: 100, windowSeconds: 60 });
+
+        const policies = await storage.getRateLimitPolicies();
+        assert.deepEqual(
+          policies.map(({ name, limit, windowSeconds }) => ({ name, limit, windowSeconds })).sort((a, b) => a.name.localeCompare(b.name)),
+          [{ name: "api.user", limit: 100, windowSeconds: 60 }, { name: "login.ip", limit: 10, windowSeconds: 120 }],
+        );
+      });
+
+      it("counts requests per key and window and removes old windows", async () => {
+        const earlier = new Date("2025-07-01T12:00:00Z");
+        const later = new Date("2025-07-01T12:01:00Z");
+        assert.equal(await storage.getRateLimitCount("login.ip:1.2.3.4", earlier), 0);
+
+        assert.equal(await storage.incrementRateLimitCounter("login.ip:1.2.3.4", earlier), 1);
+        assert.equal(await storage.incrementRateLimitCounter("login.ip:1.2.3.4", earlier), 2);
+        assert.equal(await storage.incrementRateLimitCounter("login.ip:1.2.3.4", later), 1);
+        assert.equal(await storage.incrementRateLimitCounter("login.ip:5.6.7.8", earlier), 1);
+        assert.equal(await storage.getRateLimitCount("login.ip:1.2.3.4", earlier), 2);
+
+        assert.equal(await storage.deleteRateLimitCountersBefore(later), 2);
+        assert.equal(await storage.getRateLimitCount("login.ip:1.2.3.4", earlier), 0);
+        assert.equal(await storage.getRateLimitCount("login.ip:1.2.3.4", later), 1);
+      });
+    });
+
+    describe("application snapshots", () => {
+      it("numbers snapshots per application and round-trips their content", async () => {
+        const { application, applicant } = await createApplication();
+        const other = await createApplication();
+        const content = JSON.parse(JSON.stringify({ application, documents: [] }));
+
+        const first = await storage.createApplicationSnapshot({ applicationId: application.id, content, createdBy: applicant.id });
+        const otherFirst = await storage.createApplicationSnapshot({
+          applicationId: other.application.id,
+          content,
+          createdBy: applicant.id,
+        });
+        const second = await storage.createApplicationSnapshot({ applicationId: application.id, content, createdBy: applicant.id });
+
+        assert.equal(first.version, 1);
+        assert.equal(otherFirst.version, 1);
+        assert.equal(second.version, 2);
+        assert.equal(first.amendmentId, null);
+        assert.deepEqual(first.content, content);
+        assert.deepEqual(await storage.getApplicationSnapshots(application.id), [first, second]);
+        assert.deepEqual(await storage.getApplicationSnapshot(application.id, 2), second);
+        assert.equal(await storage.getApplicationSnapshot(application.id, 3), undefined);
+      });
+    });
+
+    describe("application amendments", () => {
+      it("creates amendments as pending and updates their review", async () => {
+        const { application, applicant } = await createApplication();
+        const amendment = await storage.createApplicationAmendment({
+          applicationId: application.id,
+          requestedBy: applicant.id,
+          changes: { requestedAmount: 2000 },
+        });
+
+        assert.equal(amendment.status, "pending");
+        assert.equal(amendment.reason, null);
+        assert.deepEqual(amendment.changes, { requestedAmount: 2000 });
+        assert.deepEqual(await storage.getApplicationAmendment(amendment.id), amendment);
+        assert.deepEqual(await storage.getApplicationAmendments(application.id), [amendment]);
+
+        const reviewedAt = new Date();
+        const reviewed = await storage.updateApplicationAmendment(amendment.id, {
+          status: "approved",
+          reviewedBy: applicant.id,
+          reviewedAt,
+        });
+        assert.equal(reviewed?.status, "approved");
+        assert.equal(reviewed?.reviewedAt?.getTime(), reviewedAt.getTime());
+        assert.equal(await storage.updateApplicationAmendment(amendment.id + 1000, { status: "rejected" }), undefined);
+      });
+    });
+
+    describe("documents", () => {
+      it("creates documents and lists them per application", async () => {
+        const { application, applicant } = await createApplication();
+        const document = await storage.createDocument({
+          applicationId: application.id,
+          fileName: "budget.pdf",
+          fileType: "pdf",
+          filePath: "/uploads/budget.pdf",
+          uploadedBy: applicant.id,
+        });
+
+        assert.ok(document.uploadedAt instanceof Date);
+        assert.equal(document.attachmentKey, null);
+        assert.deepEqual(await storage.getDocument(document.id), document);
+        assert.deepEqual(await storage.getDocumentsByApplication(application.id), [document]);
+        assert.deepEqual(await storage.getDocumentsByApplication(application.id + 1000), []);
+      });
+
+      it("records the first upload as version 1 and replacements as later versions", async () => {
+        const { application, applicant } = await createApplication();
+        const document = await storage.createDocument({
+          applicationId: application.id,
+          fileName: "budget.pdf",
+          fileType: "application/pdf",
+          filePath: "applications/1/a.pdf",
+          uploadedBy: applicant.id,
+          size: 100,
+          checksum: "aaa",
+        });
+        assert.equal(document.currentVersion, 1);
+
+        const [first] = await storage.getDocumentVersions(document.id);
+        assert.equal(first.version, 1);
+        assert.equal(first.filePath, "applications/1/a.pdf");
+        assert.equal(first.checksum, "aaa");
+        assert.equal(first.changeNote, null);
+
+        const second = await storage.createDocumentVersion({
+          documentId: document.id,
+          fileName: "budget-v2.pdf",
+          fileType: "application/pdf",
+          filePath: "applications/1/b.pdf",
+          size: 120,
+          checksum: "bbb",
+          changeNote: "Corrected totals",
+          uploadedBy: applicant.id,
+        });
+        assert.equal(second.version, 2);
+        assert.ok(second.uploadedAt instanceof Date);
+
+        const current = await storage.getDocument(document.id);
+        assert.equal(current!.currentVersion, 2);
+        assert.equal(current!.fileName, "budget-v2.pdf");
+        assert.equal(current!.checksum, "bbb");
+
+        assert.deepEqual((await storage.getDocumentVersions(document.id)).map((version) => version.version), [1, 2]);
+        assert.deepEqual(await storage.getDocumentVersion(document.id, 2), second);
+        assert.equal(await storage.getDocumentVersion(document.id, 3), undefined);
+      });
+
+      it("queries documents by filters and application scope", async () => {
+        const first = await createApplication();
+        const second = await createApplication();
+        const upload = (applicationId: number, uploadedBy: number, fileName: string, fileType: string) =>
+          storage.createDocument({ applicationId, fileName, fileType, filePath: `/uploads/${fileName}`, uploadedBy });
+
+        const budget = await upload(first.application.id, first.applicant.id, "Budget.pdf", "application/pdf");
+        const plan = await upload(first.application.id, first.applicant.id, "plan.docx", "application/msword");
+        const logo = await upload(second.application.id, second.applicant.id, "logo_100%.png", "image/png");
+
+        const query = (overrides: Partial<DocumentQuery> = {}, scope?: ApplicationScope) =>
+          storage.queryDocuments({ ...documentQuerySchema.parse({}), ...overrides }, scope);
+        const ids = (page: DocumentPage) => page.items.map((doc) => doc.id);
+
+        // Newest first
+        assert.deepEqual(ids(await query()), [logo.id, plan.id, budget.id]);
+        assert.equal((await query()).total, 3);
+        assert.deepEqual(ids(await query({ applicationId: first.application.id })), [plan.id, budget.id]);
+        assert.deepEqual(ids(await query({ fileType: ["application/pdf", "image/png"] })), [logo.id, budget.id]);
+        assert.deepEqual(ids(await query({ uploadedBy: second.applicant.id })), [logo.id]);
+        assert.deepEqual(ids(await query({ q: "budget" })), [budget.id]);
+        assert.deepEqual(ids(await query({ q: "100%" })), [logo.id]);
+        assert.deepEqual(ids(await query({ uploadedFrom: new Date(Date.now() + 60_000) })), []);
+        assert.equal((await query({ uploadedTo: new Date(Date.now() + 60_000) })).total, 3);
+
+        const page = await query({ limit: 1, offset: 1 });
+        assert.deepEqual(ids(page), [plan.id]);
+        assert.equal(page.total, 3);
+
+        assert.deepEqual(ids(await query({}, { applicantId: second.applicant.id })), [logo.id]);
+        assert.deepEqual(ids(await query({}, { applicationIds: [first.application.id] })), [plan.id, budget.id]);
+        assert.deepEqual(ids(await query({}, {})), []);
+      });
+
+      it("soft-deletes and restores documents with an event trail", async () => {
+        const { application, applicant } = await createApplication();
+        const document = await storage.createDocument({
+          applicationId: application.id,
+          fileName: "budget.pdf",
+          fileType: "application/pdf",
+          filePath: "/uploads/budget.pdf",
+          uploadedBy: applicant.id,
+        });
+        assert.equal(document.deletedAt, null);
+
+        const deleted = await storage.deleteDocument(document.id, applicant.id, "Wrong file");
+        assert.ok(deleted!.deletedAt instanceof Date);
+        assert.equal(deleted!.deletedBy, applicant.id);
+        assert.deepEqual(await storage.getDocumentsByApplication(application.id), []);
+        assert.deepEqual(await storage.getDocument(document.id), deleted);
+
+        const all = documentQuerySchema.parse({ applicationId: application.id });
+        assert.equal((await storage.queryDocuments(all)).total, 0);
+        assert.deepEqual((await storage.queryDocuments({ ...all, deleted: true })).items, [deleted]);
+
+        const restored = await storage.restoreDocument(document.id, applicant.id);
+        assert.equal(restored!.deletedAt, null);
+        assert.equal(restored!.deletedBy, null);
+        assert.deepEqual(await storage.getDocumentsByApplication(application.id), [restored]);
+
+        const events = await storage.getDocumentEvents(document.id);
+        assert.deepEqual(events.map((event) => [event.action, event.actorId, event.reason]), [
+          ["deleted", applicant.id, "Wrong file"],
+          ["restored", applicant.id, null],
+        ]);
+        assert.ok(events[0].createdAt instanceof Date);
+
+        assert.equal(await storage.deleteDocument(document.id + 1000, applicant.id), undefined);
+        assert.equal(await storage.restoreDocument(document.id + 1000, applicant.id), undefined);
+      });
+    });
+
+    describe("evaluations", () => {
+      it("creates evaluations and lists them per application", async () => {
+        const { application } = await createApplication();
+        const reviewer = await storage.createUser(userData({ role: "reviewer" }));
+        const evaluation = await storage.createEvaluation({
+          applicationId: application.id,
+          evaluatedBy: reviewer.id,
+          score: 80,
+          decision: "preporučeno",
+        });
+
+        assert.equal(evaluation.comment, null);
+        assert.ok(evaluation.createdAt instanceof Date);
+        assert.deepEqual(await storage.getEvaluation(evaluation.id), evaluation);
+        assert.deepEqual(await storage.getEvaluationsByApplication(application.id), [evaluation]);
+        assert.equal(await storage.getEvaluation(evaluation.id + 1000), undefined);
+      });
+
+      it("queries evaluations newest first within a scope", async () => {
+        const first = await createApplication();
+        const second = await createApplication();
+        const alice = await storage.createUser(userData({ role: "reviewer" }));
+        const bob = await storage.createUser(userData({ role: "reviewer" }));
+        const evaluate = (applicationId: number, evaluatedBy: number) =>
+          storage.createEvaluation({ applicationId, evaluatedBy, score: 60 });
+
+        const early = await evaluate(first.application.id, alice.id);
+        const late = await evaluate(first.application.id, bob.id);
+        const other = await evaluate(second.application.id, alice.id);
+
+        const query = (overrides: Partial<EvaluationQuery> = {}, scope?: ApplicationScope) =>
+          storage.queryEvaluations({ ...evaluationQuerySchema.parse({}), ...overrides }, scope);
+        const ids = async (overrides: Partial<EvaluationQuery> = {}, scope?: ApplicationScope) =>
+          (await query(overrides, scope)).items.map((evaluation) => evaluation.id);
+
+        assert.deepEqual(await ids(), [other.id, late.id, early.id]);
+        assert.deepEqual(await ids({ applicationId: first.application.id }), [late.id, early.id]);
+        assert.deepEqual(await ids({ evaluatedBy: alice.id }), [other.id, early.id]);
+        assert.deepEqual(await ids({ excludeEvaluatedBy: alice.id }), [late.id]);
+
+        const page = await query({ limit: 1, offset: 1 });
+        assert.deepEqual(page.items.map((evaluation) => evaluation.id), [late.id]);
+        assert.equal(page.total, 3);
+
+        assert.deepEqual(await ids({}, { applicationIds: [first.application.id] }), [late.id, early.id]);
+        assert.deepEqual(await ids({}, { applicantId: second.applicant.id }), [other.id]);
+        assert.deepEqual(await ids({ evaluatedBy: bob.id }, { programIds: [second.program.id] }), []);
+        assert.equal((await query({}, {})).total, 0);
+      });
+    });
+
+    describe("messages", () => {
+      it("creates unread messages and lists them by application, sender and receiver", async () => {
+        const { application, applicant } = await createApplication();
+        const admin = await storage.createUser(userData({ role: "administrator" }));
+        const message = await storage.createMessage({
+          applicationId: application.id,
+          senderId: applicant.id,
+          receiverId: admin.id,
+          content: "Hello",
+        });
+
+        assert.equal(message.read, false);
+        assert.ok(message.createdAt instanceof Date);
+        assert.deepEqual(await storage.getMessage(message.id), message);
+        assert.deepEqual(await storage.getMessagesByApplication(application.id), [message]);
+        assert.deepEqual(await storage.getMessagesBySender(applicant.id), [message]);
+        assert.deepEqual(await storage.getMessagesByReceiver(admin.id), [message]);
+        assert.deepEqual(await storage.getMessagesByReceiver(applicant.id), []);
+      });
+
+      it("marks messages as read", async () => {
+        const { application, applicant } = await createApplication();
+        const admin = await storage.createUser(userData({ role: "administrator" }));
+        const message = await storage.createMessage({
+          applicationId: application.id,
+          senderId: applicant.id,
+          receiverId: admin.id,
+          content: "Hello",
+        });
+
+        const read = await storage.markMessageAsRead(message.id);
+        assert.equal(read?.read, true);
+        assert.equal((await storage.getMessage(message.id))?.read, true);
+        assert.equal(await storage.markMessageAsRead(message.id + 1000), undefined);
+      });
+    });
+
+    describe("notifications", () => {
+      it("lists a user's notifications newest first and marks them as read", async () => {
+        const user = await storage.createUser(userData());
+        const other = await storage.createUser(userData());
+        const first = await storage.createNotification({ userId: user.id, title: "First", body: "One" });
+        const second = await storage.createNotification({
+          userId: user.id,
+          title: "Second",
+          body: "Two",
+          link: "/onboarding/1",
+        });
+
+        assert.equal(first.read, false);
+        assert.equal(first.link, null);
+        assert.ok(first.createdAt instanceof Date);
+        assert.deepEqual(await storage.getNotificationsByUser(user.id), [second, first]);
+        assert.deepEqual(await storage.getNotificationsByUser(other.id), []);
+
+        const read = await storage.markNotificationAsRead(first.id);
+        assert.equal(read?.read, true);
+        assert.equal((await storage.getNotificationsByUser(user.id))[1].read, true);
+        assert.equal(await storage.markNotificationAsRead(second.id + 1000), undefined);
+      });
+    });
+
+    describe("budget tracking", () => {
+      it("creates, finds and updates budget tracking", async () => {
+        const program = await createProgram();
+        const tracking = await storage.createBudgetTracking({
+          programId: program.id,
+          available: 10000,
+        });
+
+        assert.equal(tracking.reserved, 0);
+        assert.equal(tracking.approved, 0);
+        assert.equal(tracking.spent, 0);
+        assert.equal(tracking.available, 10000);
+        assert.deepEqual(await storage.getBudgetTracking(tracking.id), tracking);
+        assert.deepEqual(await storage.getBudgetTrackingByProgram(program.id), tracking);
+        assert.equal(await storage.getBudgetTrackingByProgram(program.id + 1000), undefined);
+
+        const updated = await storage.updateBudgetTracking(tracking.id, { reserved: 2500, available: 7500 });
+        assert.equal(updated?.reserved, 2500);
+        assert.equal(updated?.available, 7500);
+        assert.ok(updated!.updatedAt!.getTime() >= tracking.updatedAt!.getTime());
+        assert.equal(await storage.updateBudgetTracking(tracking.id + 1000, { spent: 1 }), undefined);
+      });
+    });
+
+    it("exposes a session store", () => {
+      assert.ok(storage.sessionStore);
+    });
+  });
+}
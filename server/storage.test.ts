@@ -0,0 +1,30 @@
+import { after } from "node:test";
+import session from "express-session";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { MemStorage } from "./storage";
+import { DatabaseStorage } from "./database-storage";
+import { createDatabase, type Database } from "./db";
+import { migrateDown, migrateUp } from "./migrate";
+import { describeStorageContract } from "./storage.contract";
+
+// Wipes the database by rolling back every migration and applying them again
+async function freshDatabaseStorage(db: Database) {
+  await migrateDown(db, Number.MAX_SAFE_INTEGER);
+  await migrateUp(db);
+  return new DatabaseStorage(db, new session.MemoryStore());
+}
+
+describeStorageContract("MemStorage", async () => new MemStorage({ seed: false }));
+
+// Postgres compiled to WebAssembly, so the suite runs without a server
+const pglite = drizzle({ client: new PGlite(), schema }) as unknown as Database;
+describeStorageContract("DatabaseStorage (PGlite)", () => freshDatabaseStorage(pglite));
+
+// Optionally run against a real server as well
+if (process.env.TEST_DATABASE_URL) {
+  const { pool, db } = createDatabase(process.env.TEST_DATABASE_URL);
+  after(() => pool.end());
+  describeStorageContract("DatabaseStorage (TEST_DATABASE_URL)", () => freshDatabaseStorage(db));
+}
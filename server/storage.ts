@@ -1,17 +1,59 @@
 import { users, User, InsertUser, programs, Program, InsertProgram, 
   applicantTypes, ApplicantType, InsertApplicantType,
   registrationProcesses, RegistrationProcess, InsertRegistrationProcess,
+  pendingRegistrations, PendingRegistration, InsertPendingRegistration,
+  passwordResetTokens, PasswordResetToken, InsertPasswordResetToken,
+  refreshTokens, RefreshToken, InsertRefreshToken,
+  twoFactorCredentials, TwoFactorCredential, InsertTwoFactorCredential,
+  accountLockouts, AccountLockout,
   verificationDocuments, VerificationDocument, InsertVerificationDocument,
   applications, Application, InsertApplication, documents, Document, InsertDocument,
-  evaluations, Evaluation, InsertEvaluation, messages, Message, InsertMessage,
-  budgetTracking, BudgetTracking, InsertBudgetTracking } from "@shared/schema";
+  documentVersions, DocumentVersion, InsertDocumentVersion,
+  documentEvents, DocumentEvent, DocumentQuery, DocumentPage,
+  evaluations, Evaluation, InsertEvaluation, EvaluationQuery, EvaluationPage, messages, Message, InsertMessage,
+  notifications, Notification, InsertNotification,
+  budgetTracking, BudgetTracking, InsertBudgetTracking,
+  programDonors, ProgramDonor, InsertProgramDonor,
+  reviewerAssignments, ReviewerAssignment, InsertReviewerAssignment,
+  rolePermissions, RolePermission, roleSettings, RoleSetting,
+  rateLimitPolicies, RateLimitPolicy, RateLimitUpdate, rateLimitCounters, RateLimitCounter,
+  applicationSnapshots, ApplicationSnapshot, InsertApplicationSnapshot,
+  applicationAmendments, ApplicationAmendment, InsertApplicationAmendment,
+  auditLog, AuditLogEntry, InsertAuditLogEntry, AuditLogQuery, AuditLogPage,
+  ApplicationQuery, ApplicationPage, ApplicationScope } from "@shared/schema";
+import { DEFAULT_ROLE_PERMISSIONS, Role } from "@shared/permissions";
 import session from "express-session";
 import createMemoryStore from "memorystore";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
-import { promisify } from "util";
+import connectPg from "connect-pg-simple";
+import { createDatabase } from "./db";
+import { DatabaseStorage } from "./database-storage";
+import {
+  SEED_PASSWORD,
+  hashSeedPassword,
+  seedUsers,
+  seedPrograms,
+  seedApplicantTypes,
+  seedBudgetTracking,
+  seedApplications,
+  seedEvaluations,
+  seedDocuments,
+  seedMessages,
+  seedProgramDonors,
+  seedReviewerAssignments,
+} from "./seed-data";
 
 const MemoryStore = createMemoryStore(session);
-const scryptAsync = promisify(scrypt);
+const PostgresSessionStore = connectPg(session);
+
+// Mirrors the column defaults Postgres applies on insert: fields that are
+// missing or undefined fall back to the default, everything else is kept
+function withDefaults<T>(defaults: Omit<T, "id">, values: object): Omit<T, "id"> {
+  const row: Record<string, unknown> = { ...defaults };
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) row[key] = value;
+  }
+  return row as Omit<T, "id">;
+}
 
 // modify the interface with any CRUD methods
 // you might need
@@ -43,6 +85,47 @@ export interface IStorage {
   createRegistrationProcess(registrationProcess: InsertRegistrationProcess): Promise<RegistrationProcess>;
   updateRegistrationProcess(id: number, registrationProcess: Partial<RegistrationProcess>): Promise<RegistrationProcess | undefined>;
 
+  // Pending registration methods, one per email address
+  getPendingRegistrationByEmail(email: string): Promise<PendingRegistration | undefined>;
+  createPendingRegistration(pendingRegistration: InsertPendingRegistration): Promise<PendingRegistration>;
+  updatePendingRegistration(id: number, pendingRegistration: Partial<PendingRegistration>): Promise<PendingRegistration | undefined>;
+  deletePendingRegistration(id: number): Promise<boolean>;
+
+  // Password reset token methods
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  // Marks every unused token of the user as used; returns how many there were
+  markPasswordResetTokensUsed(userId: number): Promise<number>;
+
+  // Refresh token methods
+  getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined>;
+  getRefreshTokensByFamily(familyId: string): Promise<RefreshToken[]>;
+  createRefreshToken(token: InsertRefreshToken): Promise<RefreshToken>;
+  // Revokes the tokens of the family that are not revoked yet; returns how many there were
+  revokeRefreshTokenFamily(familyId: string): Promise<number>;
+  // True when this call revoked the token, false when it was revoked already
+  revokeRefreshToken(id: number): Promise<boolean>;
+
+  // Two-factor credential methods, one credential per user
+  getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  // Replaces any credential of the user with a new one, not enabled yet
+  replaceTwoFactorCredential(credential: InsertTwoFactorCredential): Promise<TwoFactorCredential>;
+  updateTwoFactorCredential(userId: number, credential: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined>;
+  deleteTwoFactorCredential(userId: number): Promise<boolean>;
+  // True when this call moved the last used time step forward to step, false
+  // when a code of that step or a later one was accepted already
+  advanceTwoFactorStep(userId: number, step: number): Promise<boolean>;
+  // True when this call removed the recovery code, false when it was not there
+  consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+
+  // Account lockout methods, one row per user with failed sign-ins
+  getAccountLockout(userId: number): Promise<AccountLockout | undefined>;
+  getAccountLockoutByUnlockTokenHash(tokenHash: string): Promise<AccountLockout | undefined>;
+  // Counts one more failed sign-in, starting the row on the first one
+  incrementFailedLogins(userId: number): Promise<AccountLockout>;
+  updateAccountLockout(userId: number, lockout: Partial<AccountLockout>): Promise<AccountLockout | undefined>;
+  deleteAccountLockout(userId: number): Promise<boolean>;
+
   // Verification Document methods
   getVerificationDocument(id: number): Promise<VerificationDocument | undefined>;
   getVerificationDocumentsByUser(userId: number): Promise<VerificationDocument[]>;
@@ -55,17 +138,34 @@ export interface IStorage {
   getApplications(): Promise<Application[]>;
   getApplicationsByApplicant(applicantId: number): Promise<Application[]>;
   getApplicationsByProgram(programId: number): Promise<Application[]>;
+  queryApplications(query: ApplicationQuery, scope?: ApplicationScope): Promise<ApplicationPage>;
+  // Applications submitted in each month of the year (UTC), January first
+  countSubmissionsByMonth(year: number, scope?: ApplicationScope): Promise<number[]>;
   createApplication(application: InsertApplication): Promise<Application>;
   updateApplication(id: number, application: Partial<Application>): Promise<Application | undefined>;
   
-  // Document methods
+  // Document methods. getDocument also returns deleted documents; lists
+  // leave them out unless asked for.
   getDocument(id: number): Promise<Document | undefined>;
   getDocumentsByApplication(applicationId: number): Promise<Document[]>;
+  queryDocuments(query: DocumentQuery, scope?: ApplicationScope): Promise<DocumentPage>;
   createDocument(document: InsertDocument): Promise<Document>;
+  // Soft delete and restore, each recorded as a document event
+  deleteDocument(id: number, actorId: number, reason?: string | null): Promise<Document | undefined>;
+  restoreDocument(id: number, actorId: number, reason?: string | null): Promise<Document | undefined>;
+  getDocumentEvents(documentId: number): Promise<DocumentEvent[]>;
+
+  // Document version methods. createDocument records version 1;
+  // createDocumentVersion adds the next one and makes it current.
+  getDocumentVersions(documentId: number): Promise<DocumentVersion[]>;
+  getDocumentVersion(documentId: number, version: number): Promise<DocumentVersion | undefined>;
+  createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion>;
   
   // Evaluation methods
   getEvaluation(id: number): Promise<Evaluation | undefined>;
   getEvaluationsByApplication(applicationId: number): Promise<Evaluation[]>;
+  // Newest first, limited to the applications in the scope
+  queryEvaluations(query: EvaluationQuery, scope?: ApplicationScope): Promise<EvaluationPage>;
   createEvaluation(evaluation: InsertEvaluation): Promise<Evaluation>;
   
   // Message methods
@@ -75,6 +175,11 @@ export interface IStorage {
   getMessagesByReceiver(receiverId: number): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
   markMessageAsRead(id: number): Promise<Message | undefined>;
+
+  // Notification methods, newest first
+  getNotificationsByUser(userId: number): Promise<Notification[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  markNotificationAsRead(id: number): Promise<Notification | undefined>;
   
   // Budget tracking methods
   getBudgetTracking(id: number): Promise<BudgetTracking | undefined>;
@@ -82,376 +187,336 @@ export interface IStorage {
   createBudgetTracking(budgetTracking: InsertBudgetTracking): Promise<BudgetTracking>;
   updateBudgetTracking(id: number, budgetTracking: Partial<BudgetTracking>): Promise<BudgetTracking | undefined>;
 
+  // Program donor methods
+  getProgramDonorsByProgram(programId: number): Promise<ProgramDonor[]>;
+  getProgramDonorsByDonor(donorId: number): Promise<ProgramDonor[]>;
+  createProgramDonor(programDonor: InsertProgramDonor): Promise<ProgramDonor>;
+  deleteProgramDonor(programId: number, donorId: number): Promise<boolean>;
+
+  // Reviewer assignment methods
+  getReviewerAssignmentsByApplication(applicationId: number): Promise<ReviewerAssignment[]>;
+  getReviewerAssignmentsByReviewer(reviewerId: number): Promise<ReviewerAssignment[]>;
+  createReviewerAssignment(assignment: InsertReviewerAssignment): Promise<ReviewerAssignment>;
+  deleteReviewerAssignment(applicationId: number, reviewerId: number): Promise<boolean>;
+
+  // Role permission methods
+  getRolePermissions(): Promise<RolePermission[]>;
+  getPermissionsByRole(role: Role): Promise<string[]>;
+  setRolePermissions(role: Role, permissions: string[]): Promise<string[]>;
+
+  // Role setting methods
+  getRoleSettings(): Promise<RoleSetting[]>;
+  setRoleTwoFactorRequired(role: Role, required: boolean): Promise<RoleSetting>;
+
+  // Rate limit methods
+  getRateLimitPolicies(): Promise<RateLimitPolicy[]>;
+  setRateLimitPolicy(name: string, policy: RateLimitUpdate): Promise<RateLimitPolicy>;
+  getRateLimitCount(key: string, windowStart: Date): Promise<number>;
+  // Counts one more request in the window; returns the count including it
+  incrementRateLimitCounter(key: string, windowStart: Date): Promise<number>;
+  // Removes the counters of windows that started before; returns how many there were
+  deleteRateLimitCountersBefore(before: Date): Promise<number>;
+
+  // Application snapshot methods; versions are assigned by the storage
+  getApplicationSnapshots(applicationId: number): Promise<ApplicationSnapshot[]>;
+  getApplicationSnapshot(applicationId: number, version: number): Promise<ApplicationSnapshot | undefined>;
+  createApplicationSnapshot(snapshot: InsertApplicationSnapshot): Promise<ApplicationSnapshot>;
+
+  // Application amendment methods
+  getApplicationAmendment(id: number): Promise<ApplicationAmendment | undefined>;
+  getApplicationAmendments(applicationId: number): Promise<ApplicationAmendment[]>;
+  createApplicationAmendment(amendment: InsertApplicationAmendment): Promise<ApplicationAmendment>;
+  updateApplicationAmendment(id: number, amendment: Partial<ApplicationAmendment>): Promise<ApplicationAmendment | undefined>;
+
+  // Audit log methods. Entries are only ever added, never changed
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  // Newest first
+  queryAuditLog(query: AuditLogQuery): Promise<AuditLogPage>;
+
   // Session storage
   sessionStore: session.Store;
 }
 
+function matchesApplicationScope(app: Application, scope: ApplicationScope) {
+  return (
+    (scope.applicantId !== undefined && app.applicantId === scope.applicantId) ||
+    (scope.programIds?.includes(app.programId) ?? false) ||
+    (scope.applicationIds?.includes(app.id) ?? false)
+  );
+}
+
+function matchesApplicationQuery(app: Application, query: ApplicationQuery, ignoreStatus = false) {
+  if (!ignoreStatus && query.status && !query.status.includes(app.status)) return false;
+  if (query.programId !== undefined && app.programId !== query.programId) return false;
+  if (query.applicantId !== undefined && app.applicantId !== query.applicantId) return false;
+  if (query.applicantTypeId !== undefined && app.applicantTypeId !== query.applicantTypeId) return false;
+  if (query.ids && !query.ids.includes(app.id)) return false;
+
+  if (query.submittedFrom || query.submittedTo) {
+    if (!app.submittedAt) return false;
+    if (query.submittedFrom && app.submittedAt < query.submittedFrom) return false;
+    if (query.submittedTo && app.submittedAt > query.submittedTo) return false;
+  }
+
+  if (query.minAmount !== undefined || query.maxAmount !== undefined) {
+    if (app.requestedAmount === null) return false;
+    if (query.minAmount !== undefined && app.requestedAmount < query.minAmount) return false;
+    if (query.maxAmount !== undefined && app.requestedAmount > query.maxAmount) return false;
+  }
+
+  if (query.q) {
+    const text = query.q.toLowerCase();
+    return [app.summary, app.autoCode, app.organization, app.description]
+      .some((field) => field?.toLowerCase().includes(text));
+  }
+
+  return true;
+}
+
+// Same ordering as the database: nulls last, ties broken by ascending id
+function compareApplications(sort: ApplicationQuery["sort"], order: ApplicationQuery["order"]) {
+  return (a: Application, b: Application) => {
+    const left = a[sort];
+    const right = b[sort];
+
+    if (left !== right) {
+      if (left === null) return 1;
+      if (right === null) return -1;
+      const result = left < right ? -1 : left > right ? 1 : 0;
+      if (result !== 0) return order === "asc" ? result : -result;
+    }
+
+    return a.id - b.id;
+  };
+}
+
+function matchesDocumentQuery(doc: Document, query: DocumentQuery) {
+  if (!!doc.deletedAt !== query.deleted) return false;
+  if (query.applicationId !== undefined && doc.applicationId !== query.applicationId) return false;
+  if (query.fileType && !query.fileType.includes(doc.fileType)) return false;
+  if (query.uploadedBy !== undefined && doc.uploadedBy !== query.uploadedBy) return false;
+
+  if (query.uploadedFrom || query.uploadedTo) {
+    if (!doc.uploadedAt) return false;
+    if (query.uploadedFrom && doc.uploadedAt < query.uploadedFrom) return false;
+    if (query.uploadedTo && doc.uploadedAt > query.uploadedTo) return false;
+  }
+
+  return !query.q || doc.fileName.toLowerCase().includes(query.q.toLowerCase());
+}
+
+function matchesAuditLogQuery(entry: AuditLogEntry, query: AuditLogQuery) {
+  if (query.action && !query.action.includes(entry.action)) return false;
+  if (query.actorId !== undefined && entry.actorId !== query.actorId) return false;
+  if (query.entityType && entry.entityType !== query.entityType) return false;
+  if (query.entityId !== undefined && entry.entityId !== query.entityId) return false;
+  if (query.from && entry.createdAt < query.from) return false;
+  return !query.to || entry.createdAt <= query.to;
+}
+
+// Newest first, like the database
+function matchesEvaluationQuery(evaluation: Evaluation, query: EvaluationQuery) {
+  if (query.applicationId !== undefined && evaluation.applicationId !== query.applicationId) return false;
+  if (query.evaluatedBy !== undefined && evaluation.evaluatedBy !== query.evaluatedBy) return false;
+  if (query.excludeEvaluatedBy !== undefined && evaluation.evaluatedBy === query.excludeEvaluatedBy) return false;
+  return true;
+}
+
+function compareEvaluations(a: Evaluation, b: Evaluation) {
+  const left = a.createdAt?.getTime() ?? -Infinity;
+  const right = b.createdAt?.getTime() ?? -Infinity;
+  return left !== right ? right - left : b.id - a.id;
+}
+
+function compareDocuments(a: Document, b: Document) {
+  const left = a.uploadedAt?.getTime() ?? -Infinity;
+  const right = b.uploadedAt?.getTime() ?? -Infinity;
+  return left !== right ? right - left : b.id - a.id;
+}
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private programs: Map<number, Program>;
   private applicantTypes: Map<number, ApplicantType>;
   private registrationProcesses: Map<number, RegistrationProcess>;
+  private pendingRegistrations: Map<number, PendingRegistration>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private refreshTokens: Map<number, RefreshToken>;
+  private twoFactorCredentials: Map<number, TwoFactorCredential>;
+  private accountLockouts: Map<number, AccountLockout>;
   private verificationDocuments: Map<number, VerificationDocument>;
   private applications: Map<number, Application>;
   private documents: Map<number, Document>;
+  private documentVersions: Map<number, DocumentVersion>;
+  private documentEvents: Map<number, DocumentEvent>;
   private evaluations: Map<number, Evaluation>;
   private messages: Map<number, Message>;
+  private notifications: Map<number, Notification>;
   private budgetTrackings: Map<number, BudgetTracking>;
+  private programDonors: Map<number, ProgramDonor>;
+  private reviewerAssignments: Map<number, ReviewerAssignment>;
+  private rolePermissions: Map<number, RolePermission>;
+  private roleSettings: Map<number, RoleSetting>;
+  private rateLimitPolicies: Map<number, RateLimitPolicy>;
+  private rateLimitCounters: Map<number, RateLimitCounter>;
+  private applicationSnapshots: Map<number, ApplicationSnapshot>;
+  private applicationAmendments: Map<number, ApplicationAmendment>;
+  private auditLog: Map<number, AuditLogEntry>;
   
   currentUserId: number;
   currentProgramId: number;
   currentApplicantTypeId: number;
   currentRegistrationProcessId: number;
+  currentPendingRegistrationId: number;
+  currentPasswordResetTokenId: number;
+  currentRefreshTokenId: number;
+  currentTwoFactorCredentialId: number;
+  currentAccountLockoutId: number;
   currentVerificationDocumentId: number;
   currentApplicationId: number;
   currentDocumentId: number;
+  currentDocumentVersionId: number;
+  currentDocumentEventId: number;
   currentEvaluationId: number;
   currentMessageId: number;
+  currentNotificationId: number;
   currentBudgetTrackingId: number;
+  currentProgramDonorId: number;
+  currentReviewerAssignmentId: number;
+  currentRolePermissionId: number;
+  currentRoleSettingId: number;
+  currentRateLimitPolicyId: number;
+  currentRateLimitCounterId: number;
+  currentApplicationSnapshotId: number;
+  currentApplicationAmendmentId: number;
+  currentAuditLogEntryId: number;
   
   sessionStore: session.Store;
 
-  private async hashPasswordForSeed(password: string): Promise<string> {
-    const salt = randomBytes(16).toString("hex");
-    const buf = (await scryptAsync(password, salt, 64)) as Buffer;
-    return `${buf.toString("hex")}.${salt}`;
-  }
-
-  constructor() {
+  constructor(options: { seed?: boolean } = {}) {
     this.users = new Map();
     this.programs = new Map();
     this.applicantTypes = new Map();
     this.registrationProcesses = new Map();
+    this.pendingRegistrations = new Map();
+    this.passwordResetTokens = new Map();
+    this.refreshTokens = new Map();
+    this.twoFactorCredentials = new Map();
+    this.accountLockouts = new Map();
     this.verificationDocuments = new Map();
     this.applications = new Map();
     this.documents = new Map();
+    this.documentVersions = new Map();
+    this.documentEvents = new Map();
     this.evaluations = new Map();
     this.messages = new Map();
+    this.notifications = new Map();
     this.budgetTrackings = new Map();
+    this.programDonors = new Map();
+    this.reviewerAssignments = new Map();
+    this.rolePermissions = new Map();
+    this.roleSettings = new Map();
+    this.rateLimitPolicies = new Map();
+    this.rateLimitCounters = new Map();
+    this.applicationSnapshots = new Map();
+    this.applicationAmendments = new Map();
+    this.auditLog = new Map();
     
     this.currentUserId = 1;
     this.currentProgramId = 1;
     this.currentApplicantTypeId = 1;
     this.currentRegistrationProcessId = 1;
+    this.currentPendingRegistrationId = 1;
+    this.currentPasswordResetTokenId = 1;
+    this.currentRefreshTokenId = 1;
+    this.currentTwoFactorCredentialId = 1;
+    this.currentAccountLockoutId = 1;
     this.currentVerificationDocumentId = 1;
     this.currentApplicationId = 1;
     this.currentDocumentId = 1;
+    this.currentDocumentVersionId = 1;
+    this.currentDocumentEventId = 1;
     this.currentEvaluationId = 1;
     this.currentMessageId = 1;
+    this.currentNotificationId = 1;
     this.currentBudgetTrackingId = 1;
+    this.currentProgramDonorId = 1;
+    this.currentReviewerAssignmentId = 1;
+    this.currentRolePermissionId = 1;
+    this.currentRoleSettingId = 1;
+    this.currentRateLimitPolicyId = 1;
+    this.currentRateLimitCounterId = 1;
+    this.currentApplicationSnapshotId = 1;
+    this.currentApplicationAmendmentId = 1;
+    this.currentAuditLogEntryId = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000, // 24 hours
     });
+
+    // Like the role_permissions migration, start from the default matrix
+    for (const [role, permissions] of Object.entries(DEFAULT_ROLE_PERMISSIONS)) {
+      for (const permission of permissions) {
+        const id = this.currentRolePermissionId++;
+        this.rolePermissions.set(id, { id, role: role as Role, permission });
+      }
+    }
     
     // Seed initial data
-    this.seedInitialData();
+    if (options.seed !== false) {
+      this.seedInitialData();
+    }
   }
 
   private async seedInitialData() {
     // Create a hashed password for all seed users
-    const hashedPassword = await this.hashPasswordForSeed("password");
+    const hashedPassword = await hashSeedPassword(SEED_PASSWORD);
     
+    // Seed applicant types first, users refer to them
+    seedApplicantTypes.forEach(type => this.createApplicantType(type));
+
     // Seed users
-    const users = [
-      {
-        username: "admin1",
-        fullName: "Admin Adminić",
-        email: "admin@donacije.ba",
-        password: hashedPassword,
-        role: "administrator",
-      },
-      {
-        username: "nina_kultura",
-        fullName: "Nina Kultura",
-        email: "nina@kultura.org",
-        role: "applicant",
-        password: hashedPassword,
-      },
-      {
-        username: "ref_human",
-        fullName: "Refik Humanović",
-        email: "refik@donacije.ba",
-        role: "referent",
-        password: hashedPassword,
-      },
-      {
-        username: "don_corp",
-        fullName: "Don Korporativni",
-        email: "don@corporate.com",
-        role: "donator",
-        password: hashedPassword,
-      },
-      {
-        username: "reviewer1",
-        fullName: "Review Manager",
-        email: "reviewer@donacije.ba",
-        role: "reviewer",
-        password: hashedPassword,
-      },
-    ] as InsertUser[];
-
-    for (const user of users) {
-      await this.createUser(user);
+    for (const user of seedUsers) {
+      await this.createUser({ ...user, password: hashedPassword });
     }
 
     // Seed programs
-    const programs = [
-      {
-        name: "Korporativno sponzorstvo",
-        type: "sponzorstvo",
-        budgetTotal: 100000,
-        year: 2025,
-        description: "Program korporativnog sponzorstva za 2025. godinu",
-        active: true,
-      },
-      {
-        name: "Lokalno sponzorstvo",
-        type: "sponzorstvo",
-        budgetTotal: 50000,
-        year: 2025,
-        description: "Program lokalnog sponzorstva za 2025. godinu",
-        active: true,
-      },
-      {
-        name: "Humanitarne donacije",
-        type: "donacija",
-        budgetTotal: 75000,
-        year: 2025,
-        description: "Program humanitarnih donacija za 2025. godinu",
-        active: true,
-      },
-    ] as InsertProgram[];
-
-    programs.forEach(program => this.createProgram(program));
-
-    // Seed applicant types
-    const applicantTypes = [
-      {
-        name: "ORGANIZATION",
-        description: "Neprofitne organizacije i udruženja građana",
-        requiredDocuments: [
-          "Registracijski dokument",
-          "Finansijski izvještaj",
-          "Statut organizacije",
-          "Potvrda o poreznoj registraciji"
-        ],
-        registrationSteps: [
-          "Osnovna registracija",
-          "Verifikacija dokumenata",
-          "Pregled i potvrda"
-        ],
-        verificationRequirements: [
-          "Validna registracija u instituciji",
-          "Aktivni status organizacije",
-          "Usklađenost sa statutom"
-        ]
-      },
-      {
-        name: "INDIVIDUAL",
-        description: "Pojedinci i građani",
-        requiredDocuments: [
-          "Identifikacijski dokument",
-          "Potvrda adrese stanovanja",
-          "Bankovna potvrda"
-        ],
-        registrationSteps: [
-          "Osnovna registracija",
-          "Verifikacija identiteta",
-          "Pregled i potvrda"
-        ],
-        verificationRequirements: [
-          "Validna lična karta/pasoš",
-          "Adresa stanovanja ne starija od 6 mjeseci"
-        ]
-      },
-      {
-        name: "CORPORATION",
-        description: "Profitne kompanije i preduzeća",
-        requiredDocuments: [
-          "Izvod iz sudskog registra",
-          "Potvrda o poreznoj registraciji",
-          "Godišnji finansijski izvještaj",
-          "Bilans stanja",
-          "Potvrda o izmirenim obavezama"
-        ],
-        registrationSteps: [
-          "Osnovna registracija",
-          "Verifikacija dokumenata",
-          "Finansijska verifikacija",
-          "Pregled i potvrda"
-        ],
-        verificationRequirements: [
-          "Aktivni status u registru",
-          "Izmirene porezne obaveze",
-          "Pozitivno poslovanje u zadnjoj godini"
-        ]
-      }
-    ] as InsertApplicantType[];
-
-    applicantTypes.forEach(type => this.createApplicantType(type));
-
-    // Update programs with eligible applicant types
-    this.updateProgram(1, { eligibleApplicantTypes: ["ORGANIZATION", "CORPORATION"] });
-    this.updateProgram(2, { eligibleApplicantTypes: ["ORGANIZATION"] });
-    this.updateProgram(3, { eligibleApplicantTypes: ["ORGANIZATION", "INDIVIDUAL"] });
+    seedPrograms.forEach(program => this.createProgram(program));
 
     // Seed budget tracking
-    this.createBudgetTracking({
-      programId: 1,
-      reserved: 10000,
-      approved: 5000,
-      spent: 4500,
-      available: 85000,
+    seedBudgetTracking.forEach(budget => this.createBudgetTracking(budget));
+
+    // Seed applications, evaluations, documents and messages as-is, keeping
+    // their fixed statuses, codes and timestamps
+    seedApplications.forEach(app => {
+      const id = this.currentApplicationId++;
+      this.applications.set(id, { ...app, id });
     });
 
-    this.createBudgetTracking({
-      programId: 2,
-      reserved: 12000,
-      approved: 8000,
-      spent: 4000,
-      available: 38000,
+    seedEvaluations.forEach(evaluation => {
+      const id = this.currentEvaluationId++;
+      this.evaluations.set(id, { ...evaluation, id });
     });
 
-    this.createBudgetTracking({
-      programId: 3,
-      reserved: 20000,
-      approved: 12000,
-      spent: 8000,
-      available: 47000,
+    seedDocuments.forEach(doc => {
+      const id = this.currentDocumentId++;
+      const document = { ...doc, id };
+      this.documents.set(id, document);
+      this.recordFirstVersion(document);
     });
 
-    // Seed applications
-    const applications = [
-      {
-        applicantId: 2,
-        programId: 3,
-        status: "u obradi",
-        submittedAt: new Date("2025-03-25T13:20:00"),
-        autoCode: "0001/03/2025",
-        summary: "Donacija za dječije pozorište",
-        requestedAmount: 5000,
-        projectDuration: 6,
-        organization: "Kulturni centar",
-        description: "Projekt dječijeg pozorišta za promociju kulturnih vrijednosti",
-      },
-      {
-        applicantId: 2,
-        programId: 1,
-        status: "odbijeno",
-        submittedAt: new Date("2025-03-20T10:10:00"),
-        autoCode: "0002/03/2025",
-        summary: "Sponzorstvo za koncert \"Zvuk Mira\"",
-        requestedAmount: 3000,
-        projectDuration: 2,
-        organization: "Muzički kolektiv",
-        description: "Koncert klasične muzike s temom mira i pomirenja",
-      },
-      {
-        applicantId: 3,
-        programId: 2,
-        status: "odobreno",
-        submittedAt: new Date("2025-03-15T09:30:00"),
-        autoCode: "0003/04/2025",
-        summary: "Podrška lokalnom umjetničkom festivalu",
-        requestedAmount: 8000,
-        projectDuration: 12,
-        organization: "Art Centar",
-        description: "Godišnji umjetnički festival s lokalnim umjetnicima",
-      },
-    ] as unknown as Application[];
-
-    applications.forEach(app => this.applications.set(this.currentApplicationId++, app as Application));
-
-    // Seed evaluations
-    const evaluations = [
-      {
-        applicationId: 1,
-        evaluatedBy: 3,
-        score: 85,
-        decision: "preporučeno",
-        comment: "Kompletna dokumentacija, pozitivan utisak",
-        createdAt: new Date(),
-      },
-      {
-        applicationId: 2,
-        evaluatedBy: 3,
-        score: 45,
-        decision: "odbijeno",
-        comment: "Nedostaje detaljan finansijski plan",
-        createdAt: new Date(),
-      },
-    ] as Evaluation[];
-
-    evaluations.forEach(evaluation => this.evaluations.set(this.currentEvaluationId++, evaluation));
-
-    // Seed documents
-    const documents = [
-      {
-        applicationId: 1,
-        fileName: "budzet_2025.pdf",
-        fileType: "pdf",
-        filePath: "/uploads/budzet_2025.pdf",
-        uploadedAt: new Date("2025-03-25T13:22:00"),
-        uploadedBy: 2,
-      },
-      {
-        applicationId: 1,
-        fileName: "plan_aktivnosti.docx",
-        fileType: "docx",
-        filePath: "/uploads/plan_aktivnosti.docx",
-        uploadedAt: new Date("2025-03-25T13:23:00"),
-        uploadedBy: 2,
-      },
-      {
-        applicationId: 2,
-        fileName: "sponzorski_ugovor.pdf",
-        fileType: "pdf",
-        filePath: "/uploads/sponzorski_ugovor.pdf",
-        uploadedAt: new Date("2025-03-20T10:12:00"),
-        uploadedBy: 2,
-      },
-    ] as Document[];
-
-    documents.forEach(doc => this.documents.set(this.currentDocumentId++, doc));
-
-    // Seed messages
-    const messages = [
-      {
-        applicationId: 1,
-        senderId: 2,
-        receiverId: 1, // admin1
-        content: "Poštovani, želio bih se prijaviti za program donacija za naš lokalni projekat pomoći djeci. Možete li mi dati više informacija?",
-        read: false,
-        createdAt: new Date(Date.now() - 3600000), // 1 hour ago
-      },
-      {
-        applicationId: 1,
-        senderId: 2,
-        receiverId: 3,
-        content: "I've uploaded the required documentation for the Dječije pozorište project. Could you please review it?",
-        read: false,
-        createdAt: new Date(Date.now() - 7200000), // 2 hours ago
-      },
-      {
-        applicationId: 1,
-        senderId: 4,
-        receiverId: 1, // admin1
-        content: "Could you provide the summary of March applications for our sponsorship program?",
-        read: false,
-        createdAt: new Date(Date.now() - 86400000), // 1 day ago
-      },
-      {
-        applicationId: 1,
-        senderId: 1,
-        receiverId: 3,
-        content: "New evaluation criteria has been added to the Humanitarne donacije program. Please review.",
-        read: true,
-        createdAt: new Date(Date.now() - 172800000), // 2 days ago
-      },
-    ] as Message[];
+    seedMessages.forEach(message => {
+      const id = this.currentMessageId++;
+      this.messages.set(id, { ...message, id });
+    });
 
-    messages.forEach(message => this.messages.set(this.currentMessageId++, message));
+    // Seed who funds which program and who reviews which application
+    for (const programDonor of seedProgramDonors) {
+      await this.createProgramDonor(programDonor);
+    }
+    for (const assignment of seedReviewerAssignments) {
+      await this.createReviewerAssignment(assignment);
+    }
   }
 
   // User methods
@@ -473,7 +538,33 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id, createdAt: new Date() };
+    const user: User = {
+      ...withDefaults<User>({
+        username: insertUser.username,
+        fullName: insertUser.fullName,
+        email: insertUser.email,
+        password: insertUser.password,
+        role: insertUser.role,
+        createdAt: new Date(),
+        applicantTypeId: null,
+        isVerified: false,
+        emailVerifiedAt: null,
+        profileComplete: false,
+        authVersion: 0,
+        authProvider: "local",
+        phoneNumber: null,
+        address: null,
+        city: null,
+        country: null,
+        postalCode: null,
+        organizationName: null,
+        organizationPosition: null,
+        website: null,
+        avatarUrl: null,
+        bio: null,
+      }, insertUser),
+      id,
+    };
     this.users.set(id, user);
     return user;
   }
@@ -502,7 +593,25 @@ export class MemStorage implements IStorage {
 
   async createProgram(insertProgram: InsertProgram): Promise<Program> {
     const id = this.currentProgramId++;
-    const program: Program = { ...insertProgram, id };
+    const program: Program = {
+      ...withDefaults<Program>({
+        name: insertProgram.name,
+        type: insertProgram.type,
+        budgetTotal: insertProgram.budgetTotal,
+        year: insertProgram.year,
+        description: null,
+        active: true,
+        eligibleApplicantTypes: null,
+        opensAt: null,
+        closesAt: null,
+        timezone: "Europe/Sarajevo",
+        gracePeriodMinutes: 0,
+        callClosedAt: null,
+        eligibilityRules: [],
+        formSchema: null,
+      }, insertProgram),
+      id,
+    };
     this.programs.set(id, program);
     return program;
   }
@@ -527,7 +636,16 @@ export class MemStorage implements IStorage {
 
   async createApplicantType(insertApplicantType: InsertApplicantType): Promise<ApplicantType> {
     const id = this.currentApplicantTypeId++;
-    const applicantType: ApplicantType = { ...insertApplicantType, id };
+    const applicantType: ApplicantType = {
+      ...withDefaults<ApplicantType>({
+        name: insertApplicantType.name,
+        description: null,
+        requiredDocuments: null,
+        registrationSteps: null,
+        verificationRequirements: null,
+      }, insertApplicantType),
+      id,
+    };
     this.applicantTypes.set(id, applicantType);
     return applicantType;
   }
@@ -561,6 +679,11 @@ export class MemStorage implements IStorage {
     const registrationProcess: RegistrationProcess = { 
       ...insertRegistrationProcess, 
       id,
+      status: "incomplete",
+      currentStep: 1,
+      completedSteps: null,
+      verificationDate: null,
+      rejectionReason: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -581,6 +704,220 @@ export class MemStorage implements IStorage {
     return updatedRegistrationProcess;
   }
   
+  // Pending registration methods
+  async getPendingRegistrationByEmail(email: string): Promise<PendingRegistration | undefined> {
+    return Array.from(this.pendingRegistrations.values()).find(
+      (pendingRegistration) => pendingRegistration.email === email,
+    );
+  }
+
+  async createPendingRegistration(insertPendingRegistration: InsertPendingRegistration): Promise<PendingRegistration> {
+    if (await this.getPendingRegistrationByEmail(insertPendingRegistration.email)) {
+      throw new Error(`A registration for ${insertPendingRegistration.email} is already pending`);
+    }
+    const id = this.currentPendingRegistrationId++;
+    const pendingRegistration: PendingRegistration = {
+      ...withDefaults<PendingRegistration>({
+        email: insertPendingRegistration.email,
+        username: insertPendingRegistration.username,
+        account: insertPendingRegistration.account,
+        codeHash: insertPendingRegistration.codeHash,
+        expiresAt: insertPendingRegistration.expiresAt,
+        attempts: 0,
+        sendCount: 1,
+        lastSentAt: insertPendingRegistration.lastSentAt,
+        createdAt: new Date(),
+      }, insertPendingRegistration),
+      id,
+    };
+    this.pendingRegistrations.set(id, pendingRegistration);
+    return pendingRegistration;
+  }
+
+  async updatePendingRegistration(id: number, pendingRegistrationUpdate: Partial<PendingRegistration>): Promise<PendingRegistration | undefined> {
+    const pendingRegistration = this.pendingRegistrations.get(id);
+    if (!pendingRegistration) return undefined;
+
+    const updatedPendingRegistration = { ...pendingRegistration, ...pendingRegistrationUpdate, id };
+    this.pendingRegistrations.set(id, updatedPendingRegistration);
+    return updatedPendingRegistration;
+  }
+
+  async deletePendingRegistration(id: number): Promise<boolean> {
+    return this.pendingRegistrations.delete(id);
+  }
+
+  // Password reset token methods
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.currentPasswordResetTokenId++;
+    const token: PasswordResetToken = {
+      ...withDefaults<PasswordResetToken>({
+        userId: insertToken.userId,
+        tokenHash: insertToken.tokenHash,
+        expiresAt: insertToken.expiresAt,
+        usedAt: null,
+        createdAt: new Date(),
+      }, insertToken),
+      id,
+    };
+    this.passwordResetTokens.set(id, token);
+    return token;
+  }
+
+  async markPasswordResetTokensUsed(userId: number): Promise<number> {
+    const usedAt = new Date();
+    const unused = Array.from(this.passwordResetTokens.values())
+      .filter((token) => token.userId === userId && !token.usedAt);
+    for (const token of unused) {
+      this.passwordResetTokens.set(token.id, { ...token, usedAt });
+    }
+    return unused.length;
+  }
+
+  // Refresh token methods
+  async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined> {
+    return Array.from(this.refreshTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async getRefreshTokensByFamily(familyId: string): Promise<RefreshToken[]> {
+    return Array.from(this.refreshTokens.values()).filter((token) => token.familyId === familyId);
+  }
+
+  async createRefreshToken(insertToken: InsertRefreshToken): Promise<RefreshToken> {
+    const id = this.currentRefreshTokenId++;
+    const token: RefreshToken = {
+      ...withDefaults<RefreshToken>({
+        userId: insertToken.userId,
+        familyId: insertToken.familyId,
+        tokenHash: insertToken.tokenHash,
+        authVersion: insertToken.authVersion,
+        expiresAt: insertToken.expiresAt,
+        revokedAt: null,
+        createdAt: new Date(),
+      }, insertToken),
+      id,
+    };
+    this.refreshTokens.set(id, token);
+    return token;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<number> {
+    const revokedAt = new Date();
+    const active = (await this.getRefreshTokensByFamily(familyId)).filter((token) => !token.revokedAt);
+    for (const token of active) {
+      this.refreshTokens.set(token.id, { ...token, revokedAt });
+    }
+    return active.length;
+  }
+
+  async revokeRefreshToken(id: number): Promise<boolean> {
+    const token = this.refreshTokens.get(id);
+    if (!token || token.revokedAt) return false;
+
+    this.refreshTokens.set(id, { ...token, revokedAt: new Date() });
+    return true;
+  }
+
+  // Two-factor credential methods
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    return Array.from(this.twoFactorCredentials.values()).find((credential) => credential.userId === userId);
+  }
+
+  async replaceTwoFactorCredential(insertCredential: InsertTwoFactorCredential): Promise<TwoFactorCredential> {
+    await this.deleteTwoFactorCredential(insertCredential.userId);
+    const id = this.currentTwoFactorCredentialId++;
+    const credential: TwoFactorCredential = {
+      ...withDefaults<TwoFactorCredential>({
+        userId: insertCredential.userId,
+        secret: insertCredential.secret,
+        enabledAt: null,
+        recoveryCodeHashes: [],
+        lastUsedStep: null,
+        createdAt: new Date(),
+      }, insertCredential),
+      id,
+    };
+    this.twoFactorCredentials.set(id, credential);
+    return credential;
+  }
+
+  async updateTwoFactorCredential(userId: number, updates: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined> {
+    const credential = await this.getTwoFactorCredential(userId);
+    if (!credential) return undefined;
+
+    const updated = { ...credential, ...updates, id: credential.id, userId };
+    this.twoFactorCredentials.set(credential.id, updated);
+    return updated;
+  }
+
+  async deleteTwoFactorCredential(userId: number): Promise<boolean> {
+    const credential = await this.getTwoFactorCredential(userId);
+    return credential ? this.twoFactorCredentials.delete(credential.id) : false;
+  }
+
+  async advanceTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const credential = await this.getTwoFactorCredential(userId);
+    if (!credential || (credential.lastUsedStep !== null && credential.lastUsedStep >= step)) return false;
+
+    this.twoFactorCredentials.set(credential.id, { ...credential, lastUsedStep: step });
+    return true;
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const credential = await this.getTwoFactorCredential(userId);
+    if (!credential || !credential.recoveryCodeHashes.includes(codeHash)) return false;
+
+    this.twoFactorCredentials.set(credential.id, {
+      ...credential,
+      recoveryCodeHashes: credential.recoveryCodeHashes.filter((hash) => hash !== codeHash),
+    });
+    return true;
+  }
+
+  // Account lockout methods
+  async getAccountLockout(userId: number): Promise<AccountLockout | undefined> {
+    return Array.from(this.accountLockouts.values()).find((lockout) => lockout.userId === userId);
+  }
+
+  async getAccountLockoutByUnlockTokenHash(tokenHash: string): Promise<AccountLockout | undefined> {
+    return Array.from(this.accountLockouts.values()).find((lockout) => lockout.unlockTokenHash === tokenHash);
+  }
+
+  async incrementFailedLogins(userId: number): Promise<AccountLockout> {
+    const existing = await this.getAccountLockout(userId);
+    const lockout: AccountLockout = existing
+      ? { ...existing, failedAttempts: existing.failedAttempts + 1, updatedAt: new Date() }
+      : {
+          id: this.currentAccountLockoutId++,
+          userId,
+          failedAttempts: 1,
+          lockouts: 0,
+          lockedUntil: null,
+          unlockTokenHash: null,
+          updatedAt: new Date(),
+        };
+    this.accountLockouts.set(lockout.id, lockout);
+    return lockout;
+  }
+
+  async updateAccountLockout(userId: number, updates: Partial<AccountLockout>): Promise<AccountLockout | undefined> {
+    const lockout = await this.getAccountLockout(userId);
+    if (!lockout) return undefined;
+
+    const updated = { ...lockout, ...updates, id: lockout.id, userId, updatedAt: new Date() };
+    this.accountLockouts.set(lockout.id, updated);
+    return updated;
+  }
+
+  async deleteAccountLockout(userId: number): Promise<boolean> {
+    const lockout = await this.getAccountLockout(userId);
+    return lockout ? this.accountLockouts.delete(lockout.id) : false;
+  }
+
   // Verification Document methods
   async getVerificationDocument(id: number): Promise<VerificationDocument | undefined> {
     return this.verificationDocuments.get(id);
@@ -601,10 +938,24 @@ export class MemStorage implements IStorage {
   async createVerificationDocument(insertVerificationDocument: InsertVerificationDocument): Promise<VerificationDocument> {
     const id = this.currentVerificationDocumentId++;
     const verificationDocument: VerificationDocument = { 
-      ...insertVerificationDocument, 
+      ...withDefaults<VerificationDocument>({
+        userId: insertVerificationDocument.userId,
+        registrationProcessId: null,
+        documentType: insertVerificationDocument.documentType,
+        fileName: insertVerificationDocument.fileName,
+        fileType: insertVerificationDocument.fileType,
+        filePath: insertVerificationDocument.filePath,
+        uploadedAt: new Date(),
+        updatedAt: new Date(),
+        verificationStatus: "pending",
+        verifiedAt: null,
+        verifiedBy: null,
+        rejectionReason: null,
+        aiVerified: false,
+        aiVerificationResult: null,
+        aiVerificationScore: null,
+      }, insertVerificationDocument),
       id,
-      uploadedAt: new Date(),
-      updatedAt: new Date()
     };
     this.verificationDocuments.set(id, verificationDocument);
     return verificationDocument;
@@ -644,6 +995,39 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async queryApplications(query: ApplicationQuery, scope?: ApplicationScope): Promise<ApplicationPage> {
+    const all = Array.from(this.applications.values())
+      .filter((app) => !scope || matchesApplicationScope(app, scope));
+    const matching = all
+      .filter((app) => matchesApplicationQuery(app, query))
+      .sort(compareApplications(query.sort, query.order));
+
+    const statusCounts: ApplicationPage["statusCounts"] = {};
+    all
+      .filter((app) => matchesApplicationQuery(app, query, true))
+      .forEach((app) => {
+        statusCounts[app.status] = (statusCounts[app.status] || 0) + 1;
+      });
+
+    return {
+      items: matching.slice(query.offset, query.offset + query.limit),
+      total: matching.length,
+      limit: query.limit,
+      offset: query.offset,
+      statusCounts,
+    };
+  }
+
+  async countSubmissionsByMonth(year: number, scope?: ApplicationScope): Promise<number[]> {
+    const months = new Array<number>(12).fill(0);
+    for (const app of Array.from(this.applications.values())) {
+      if (!app.submittedAt || app.submittedAt.getUTCFullYear() !== year) continue;
+      if (scope && !matchesApplicationScope(app, scope)) continue;
+      months[app.submittedAt.getUTCMonth()]++;
+    }
+    return months;
+  }
+
   async createApplication(insertApplication: InsertApplication): Promise<Application> {
     const id = this.currentApplicationId++;
     const date = new Date();
@@ -652,7 +1036,27 @@ export class MemStorage implements IStorage {
     const autoCode = `${id.toString().padStart(4, '0')}/${month}/${year}`;
     
     const application: Application = { 
-      ...insertApplication, 
+      ...withDefaults<Application>({
+        applicantId: insertApplication.applicantId,
+        programId: insertApplication.programId,
+        applicantTypeId: null,
+        status: "draft",
+        submittedAt: null,
+        autoCode,
+        summary: insertApplication.summary,
+        requestedAmount: null,
+        projectDuration: null,
+        organization: null,
+        description: null,
+        legalStructure: null,
+        yearEstablished: null,
+        taxId: null,
+        registrationNumber: null,
+        numberOfEmployees: null,
+        annualBudget: null,
+        profitLastYear: null,
+        answers: {},
+      }, insertApplication),
       id,
       status: "draft",
       autoCode,
@@ -683,22 +1087,137 @@ export class MemStorage implements IStorage {
 
   async getDocumentsByApplication(applicationId: number): Promise<Document[]> {
     return Array.from(this.documents.values()).filter(
-      (doc) => doc.applicationId === applicationId,
+      (doc) => doc.applicationId === applicationId && !doc.deletedAt,
     );
   }
 
+  async queryDocuments(query: DocumentQuery, scope?: ApplicationScope): Promise<DocumentPage> {
+    const matching = Array.from(this.documents.values())
+      .filter((doc) => {
+        if (!scope) return true;
+        const application = this.applications.get(doc.applicationId);
+        return !!application && matchesApplicationScope(application, scope);
+      })
+      .filter((doc) => matchesDocumentQuery(doc, query))
+      .sort(compareDocuments);
+
+    return {
+      items: matching.slice(query.offset, query.offset + query.limit),
+      total: matching.length,
+      limit: query.limit,
+      offset: query.offset,
+    };
+  }
+
   async createDocument(insertDocument: InsertDocument): Promise<Document> {
     const id = this.currentDocumentId++;
     const document: Document = { 
-      ...insertDocument, 
+      ...withDefaults<Document>({
+        ...insertDocument,
+        uploadedAt: new Date(),
+        attachmentKey: null,
+        currentVersion: 1,
+        size: null,
+        checksum: null,
+        deletedAt: null,
+        deletedBy: null,
+      }, insertDocument),
       id,
-      uploadedAt: new Date(),
     };
     
     this.documents.set(id, document);
+    this.recordFirstVersion(document);
     return document;
   }
 
+  async deleteDocument(id: number, actorId: number, reason?: string | null): Promise<Document | undefined> {
+    const document = this.documents.get(id);
+    if (!document) return undefined;
+
+    const deleted = { ...document, deletedAt: new Date(), deletedBy: actorId };
+    this.documents.set(id, deleted);
+    this.recordDocumentEvent(id, "deleted", actorId, reason);
+    return deleted;
+  }
+
+  async restoreDocument(id: number, actorId: number, reason?: string | null): Promise<Document | undefined> {
+    const document = this.documents.get(id);
+    if (!document) return undefined;
+
+    const restored = { ...document, deletedAt: null, deletedBy: null };
+    this.documents.set(id, restored);
+    this.recordDocumentEvent(id, "restored", actorId, reason);
+    return restored;
+  }
+
+  private recordDocumentEvent(documentId: number, action: DocumentEvent["action"], actorId: number, reason?: string | null) {
+    const id = this.currentDocumentEventId++;
+    this.documentEvents.set(id, { id, documentId, action, actorId, reason: reason ?? null, createdAt: new Date() });
+  }
+
+  async getDocumentEvents(documentId: number): Promise<DocumentEvent[]> {
+    return Array.from(this.documentEvents.values()).filter((event) => event.documentId === documentId);
+  }
+
+  private recordFirstVersion(document: Document) {
+    const id = this.currentDocumentVersionId++;
+    this.documentVersions.set(id, {
+      id,
+      documentId: document.id,
+      version: 1,
+      fileName: document.fileName,
+      fileType: document.fileType,
+      filePath: document.filePath,
+      size: document.size,
+      checksum: document.checksum,
+      changeNote: null,
+      uploadedBy: document.uploadedBy,
+      uploadedAt: document.uploadedAt ?? new Date(),
+    });
+  }
+
+  // Document version methods
+  async getDocumentVersions(documentId: number): Promise<DocumentVersion[]> {
+    return Array.from(this.documentVersions.values())
+      .filter((version) => version.documentId === documentId)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  async getDocumentVersion(documentId: number, version: number): Promise<DocumentVersion | undefined> {
+    return Array.from(this.documentVersions.values()).find(
+      (candidate) => candidate.documentId === documentId && candidate.version === version,
+    );
+  }
+
+  async createDocumentVersion(insertVersion: InsertDocumentVersion): Promise<DocumentVersion> {
+    const document = this.documents.get(insertVersion.documentId);
+    if (!document) throw new Error(`Document ${insertVersion.documentId} not found`);
+
+    const id = this.currentDocumentVersionId++;
+    const version: DocumentVersion = {
+      ...withDefaults<DocumentVersion>({
+        ...insertVersion,
+        version: (await this.getDocumentVersions(document.id)).length + 1,
+        size: null,
+        checksum: null,
+        changeNote: null,
+        uploadedAt: new Date(),
+      }, insertVersion),
+      id,
+    };
+    this.documentVersions.set(id, version);
+    this.documents.set(document.id, {
+      ...document,
+      fileName: version.fileName,
+      fileType: version.fileType,
+      filePath: version.filePath,
+      size: version.size,
+      checksum: version.checksum,
+      currentVersion: version.version,
+    });
+    return version;
+  }
+
   // Evaluation methods
   async getEvaluation(id: number): Promise<Evaluation | undefined> {
     return this.evaluations.get(id);
@@ -710,12 +1229,36 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async queryEvaluations(query: EvaluationQuery, scope?: ApplicationScope): Promise<EvaluationPage> {
+    const matching = Array.from(this.evaluations.values())
+      .filter((evaluation) => {
+        if (!scope) return true;
+        const application = this.applications.get(evaluation.applicationId);
+        return !!application && matchesApplicationScope(application, scope);
+      })
+      .filter((evaluation) => matchesEvaluationQuery(evaluation, query))
+      .sort(compareEvaluations);
+
+    return {
+      items: matching.slice(query.offset, query.offset + query.limit),
+      total: matching.length,
+      limit: query.limit,
+      offset: query.offset,
+    };
+  }
+
   async createEvaluation(insertEvaluation: InsertEvaluation): Promise<Evaluation> {
     const id = this.currentEvaluationId++;
     const evaluation: Evaluation = { 
-      ...insertEvaluation, 
+      ...withDefaults<Evaluation>({
+        applicationId: insertEvaluation.applicationId,
+        evaluatedBy: insertEvaluation.evaluatedBy,
+        score: null,
+        decision: null,
+        comment: null,
+        createdAt: new Date(),
+      }, insertEvaluation),
       id,
-      createdAt: new Date(),
     };
     
     this.evaluations.set(id, evaluation);
@@ -767,6 +1310,39 @@ export class MemStorage implements IStorage {
     return updatedMessage;
   }
 
+  // Notification methods
+  async getNotificationsByUser(userId: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => notification.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = this.currentNotificationId++;
+    const notification: Notification = {
+      ...withDefaults<Notification>({
+        userId: insertNotification.userId,
+        title: insertNotification.title,
+        body: insertNotification.body,
+        link: null,
+        read: false,
+        createdAt: new Date(),
+      }, insertNotification),
+      id,
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+
+  async markNotificationAsRead(id: number): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification) return undefined;
+
+    const updatedNotification = { ...notification, read: true };
+    this.notifications.set(id, updatedNotification);
+    return updatedNotification;
+  }
+
   // Budget tracking methods
   async getBudgetTracking(id: number): Promise<BudgetTracking | undefined> {
     return this.budgetTrackings.get(id);
@@ -781,9 +1357,15 @@ export class MemStorage implements IStorage {
   async createBudgetTracking(insertBudgetTracking: InsertBudgetTracking): Promise<BudgetTracking> {
     const id = this.currentBudgetTrackingId++;
     const budgetTracking: BudgetTracking = { 
-      ...insertBudgetTracking, 
+      ...withDefaults<BudgetTracking>({
+        programId: insertBudgetTracking.programId,
+        reserved: 0,
+        approved: 0,
+        spent: 0,
+        available: null,
+        updatedAt: new Date(),
+      }, insertBudgetTracking),
       id,
-      updatedAt: new Date(),
     };
     
     this.budgetTrackings.set(id, budgetTracking);
@@ -803,6 +1385,307 @@ export class MemStorage implements IStorage {
     this.budgetTrackings.set(id, updatedBudgetTracking);
     return updatedBudgetTracking;
   }
+
+  // Program donor methods
+  async getProgramDonorsByProgram(programId: number): Promise<ProgramDonor[]> {
+    return Array.from(this.programDonors.values()).filter(
+      (pd) => pd.programId === programId,
+    );
+  }
+
+  async getProgramDonorsByDonor(donorId: number): Promise<ProgramDonor[]> {
+    return Array.from(this.programDonors.values()).filter(
+      (pd) => pd.donorId === donorId,
+    );
+  }
+
+  async createProgramDonor(insertProgramDonor: InsertProgramDonor): Promise<ProgramDonor> {
+    const existing = Array.from(this.programDonors.values()).find(
+      (pd) => pd.programId === insertProgramDonor.programId && pd.donorId === insertProgramDonor.donorId,
+    );
+    if (existing) {
+      throw new Error("Donor is already linked to this program");
+    }
+
+    const id = this.currentProgramDonorId++;
+    const programDonor: ProgramDonor = {
+      ...insertProgramDonor,
+      id,
+      createdAt: new Date(),
+    };
+
+    this.programDonors.set(id, programDonor);
+    return programDonor;
+  }
+
+  async deleteProgramDonor(programId: number, donorId: number): Promise<boolean> {
+    const existing = Array.from(this.programDonors.values()).find(
+      (pd) => pd.programId === programId && pd.donorId === donorId,
+    );
+    return existing ? this.programDonors.delete(existing.id) : false;
+  }
+
+  // Reviewer assignment methods
+  async getReviewerAssignmentsByApplication(applicationId: number): Promise<ReviewerAssignment[]> {
+    return Array.from(this.reviewerAssignments.values()).filter(
+      (ra) => ra.applicationId === applicationId,
+    );
+  }
+
+  async getReviewerAssignmentsByReviewer(reviewerId: number): Promise<ReviewerAssignment[]> {
+    return Array.from(this.reviewerAssignments.values()).filter(
+      (ra) => ra.reviewerId === reviewerId,
+    );
+  }
+
+  async createReviewerAssignment(insertAssignment: InsertReviewerAssignment): Promise<ReviewerAssignment> {
+    const existing = Array.from(this.reviewerAssignments.values()).find(
+      (ra) => ra.applicationId === insertAssignment.applicationId && ra.reviewerId === insertAssignment.reviewerId,
+    );
+    if (existing) {
+      throw new Error("Reviewer is already assigned to this application");
+    }
+
+    const id = this.currentReviewerAssignmentId++;
+    const assignment: ReviewerAssignment = {
+      ...withDefaults<ReviewerAssignment>({
+        applicationId: insertAssignment.applicationId,
+        reviewerId: insertAssignment.reviewerId,
+        assignedBy: null,
+        assignedAt: new Date(),
+      }, insertAssignment),
+      id,
+    };
+
+    this.reviewerAssignments.set(id, assignment);
+    return assignment;
+  }
+
+  async deleteReviewerAssignment(applicationId: number, reviewerId: number): Promise<boolean> {
+    const existing = Array.from(this.reviewerAssignments.values()).find(
+      (ra) => ra.applicationId === applicationId && ra.reviewerId === reviewerId,
+    );
+    return existing ? this.reviewerAssignments.delete(existing.id) : false;
+  }
+
+  // Role permission methods
+  async getRolePermissions(): Promise<RolePermission[]> {
+    return Array.from(this.rolePermissions.values());
+  }
+
+  async getPermissionsByRole(role: Role): Promise<string[]> {
+    return Array.from(this.rolePermissions.values())
+      .filter((rp) => rp.role === role)
+      .map((rp) => rp.permission);
+  }
+
+  async setRolePermissions(role: Role, permissions: string[]): Promise<string[]> {
+    Array.from(this.rolePermissions.values())
+      .filter((rp) => rp.role === role)
+      .forEach((rp) => this.rolePermissions.delete(rp.id));
+
+    const unique = Array.from(new Set(permissions));
+    for (const permission of unique) {
+      const id = this.currentRolePermissionId++;
+      this.rolePermissions.set(id, { id, role, permission });
+    }
+    return unique;
+  }
+
+  // Role setting methods
+  async getRoleSettings(): Promise<RoleSetting[]> {
+    return Array.from(this.roleSettings.values());
+  }
+
+  async setRoleTwoFactorRequired(role: Role, required: boolean): Promise<RoleSetting> {
+    const existing = Array.from(this.roleSettings.values()).find((setting) => setting.role === role);
+    const setting = { id: existing?.id ?? this.currentRoleSettingId++, role, twoFactorRequired: required };
+    this.roleSettings.set(setting.id, setting);
+    return setting;
+  }
+
+  // Rate limit methods
+  async getRateLimitPolicies(): Promise<RateLimitPolicy[]> {
+    return Array.from(this.rateLimitPolicies.values());
+  }
+
+  async setRateLimitPolicy(name: string, update: RateLimitUpdate): Promise<RateLimitPolicy> {
+    const existing = Array.from(this.rateLimitPolicies.values()).find((policy) => policy.name === name);
+    const policy = {
+      id: existing?.id ?? this.currentRateLimitPolicyId++,
+      name,
+      limit: update.limit,
+      windowSeconds: update.windowSeconds,
+      updatedAt: new Date(),
+    };
+    this.rateLimitPolicies.set(policy.id, policy);
+    return policy;
+  }
+
+  private findRateLimitCounter(key: string, windowStart: Date) {
+    return Array.from(this.rateLimitCounters.values())
+      .find((counter) => counter.key === key && counter.windowStart.getTime() === windowStart.getTime());
+  }
+
+  async getRateLimitCount(key: string, windowStart: Date): Promise<number> {
+    return this.findRateLimitCounter(key, windowStart)?.count ?? 0;
+  }
+
+  async incrementRateLimitCounter(key: string, windowStart: Date): Promise<number> {
+    const existing = this.findRateLimitCounter(key, windowStart);
+    const counter = existing
+      ? { ...existing, count: existing.count + 1 }
+      : { id: this.currentRateLimitCounterId++, key, windowStart, count: 1 };
+    this.rateLimitCounters.set(counter.id, counter);
+    return counter.count;
+  }
+
+  async deleteRateLimitCountersBefore(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const [id, counter] of Array.from(this.rateLimitCounters.entries())) {
+      if (counter.windowStart < before) {
+        this.rateLimitCounters.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // Application snapshot methods
+  async getApplicationSnapshots(applicationId: number): Promise<ApplicationSnapshot[]> {
+    return Array.from(this.applicationSnapshots.values())
+      .filter((snapshot) => snapshot.applicationId === applicationId)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  async getApplicationSnapshot(applicationId: number, version: number): Promise<ApplicationSnapshot | undefined> {
+    return Array.from(this.applicationSnapshots.values()).find(
+      (snapshot) => snapshot.applicationId === applicationId && snapshot.version === version,
+    );
+  }
+
+  async createApplicationSnapshot(insertSnapshot: InsertApplicationSnapshot): Promise<ApplicationSnapshot> {
+    const existing = await this.getApplicationSnapshots(insertSnapshot.applicationId);
+    const id = this.currentApplicationSnapshotId++;
+    const snapshot: ApplicationSnapshot = {
+      ...withDefaults<ApplicationSnapshot>({
+        applicationId: insertSnapshot.applicationId,
+        version: existing.length === 0 ? 1 : existing[existing.length - 1].version + 1,
+        content: insertSnapshot.content,
+        amendmentId: null,
+        createdBy: insertSnapshot.createdBy,
+        createdAt: new Date(),
+      }, insertSnapshot),
+      id,
+    };
+
+    this.applicationSnapshots.set(id, snapshot);
+    return snapshot;
+  }
+
+  // Application amendment methods
+  async getApplicationAmendment(id: number): Promise<ApplicationAmendment | undefined> {
+    return this.applicationAmendments.get(id);
+  }
+
+  async getApplicationAmendments(applicationId: number): Promise<ApplicationAmendment[]> {
+    return Array.from(this.applicationAmendments.values()).filter(
+      (amendment) => amendment.applicationId === applicationId,
+    );
+  }
+
+  async createApplicationAmendment(insertAmendment: InsertApplicationAmendment): Promise<ApplicationAmendment> {
+    const id = this.currentApplicationAmendmentId++;
+    const amendment: ApplicationAmendment = {
+      ...withDefaults<ApplicationAmendment>({
+        applicationId: insertAmendment.applicationId,
+        requestedBy: insertAmendment.requestedBy,
+        changes: insertAmendment.changes,
+        reason: null,
+        status: "pending",
+        reviewedBy: null,
+        reviewedAt: null,
+        reviewComment: null,
+        createdAt: new Date(),
+      }, insertAmendment),
+      id,
+    };
+
+    this.applicationAmendments.set(id, amendment);
+    return amendment;
+  }
+
+  async updateApplicationAmendment(id: number, amendmentUpdate: Partial<ApplicationAmendment>): Promise<ApplicationAmendment | undefined> {
+    const amendment = this.applicationAmendments.get(id);
+    if (!amendment) return undefined;
+
+    const updatedAmendment = { ...amendment, ...amendmentUpdate, id };
+    this.applicationAmendments.set(id, updatedAmendment);
+    return updatedAmendment;
+  }
+
+  // Audit log methods
+  async createAuditLogEntry(insertEntry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const id = this.currentAuditLogEntryId++;
+    const entry: AuditLogEntry = {
+      ...withDefaults<AuditLogEntry>({
+        action: insertEntry.action,
+        actorId: null,
+        ipAddress: null,
+        userAgent: null,
+        entityType: null,
+        entityId: null,
+        before: null,
+        after: null,
+        createdAt: new Date(),
+      }, insertEntry),
+      id,
+    };
+    this.auditLog.set(id, entry);
+    return entry;
+  }
+
+  async queryAuditLog(query: AuditLogQuery): Promise<AuditLogPage> {
+    const matching = Array.from(this.auditLog.values())
+      .filter((entry) => matchesAuditLogQuery(entry, query))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+
+    return {
+      items: matching.slice(query.offset, query.offset + query.limit),
+      total: matching.length,
+      limit: query.limit,
+      offset: query.offset,
+    };
+  }
+}
+
+/**
+ * Picks the storage backend from the environment. STORAGE_DRIVER may be
+ * "memory" or "postgres"; when it is unset, Postgres is used whenever
+ * DATABASE_URL is configured.
+ */
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (driver === "memory") {
+    return new MemStorage();
+  }
+
+  if (driver !== "postgres") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "postgres"`);
+  }
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set when STORAGE_DRIVER is postgres");
+  }
+
+  const { pool, db } = createDatabase(process.env.DATABASE_URL);
+  const sessionStore = new PostgresSessionStore({
+    pool,
+    createTableIfMissing: true,
+  });
+
+  return new DatabaseStorage(db, sessionStore);
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,88 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { mkdtemp, readdir, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { InsertUser, User } from "@shared/schema";
+import type { MailMessage } from "./mail";
+
+/**
+ * Boots the API on a random local port for route tests. The route modules
+ * share the storage, blob store and mail singletons, so this selects the
+ * in-memory driver, a temporary upload directory and a mail directory the
+ * tests can read, and loads them lazily.
+ */
+
+export const TEST_PASSWORD = "secret-password";
+
+export async function startTestServer() {
+  process.env.STORAGE_DRIVER = "memory";
+  process.env.BLOB_DRIVER = "local";
+  process.env.UPLOAD_DIR ??= await mkdtemp(path.join(tmpdir(), "uploads-"));
+  process.env.MAIL_TRANSPORT = "file";
+  process.env.MAIL_DIR ??= await mkdtemp(path.join(tmpdir(), "mail-"));
+  const mailDir = process.env.MAIL_DIR;
+
+  const { storage } = await import("./storage");
+  const { hashPassword } = await import("./auth");
+  const { registerRoutes } = await import("./routes");
+
+  const app = express();
+  app.use(express.json());
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const password = await hashPassword(TEST_PASSWORD);
+  const cookies = new Map<string, string>();
+
+  async function request(username: string | null, path: string, init: RequestInit = {}) {
+    const headers = new Headers(init.headers);
+    if (username) headers.set("Cookie", cookies.get(username) ?? "");
+    // Uploads set their own multipart content type
+    if (init.body && !(init.body instanceof FormData)) headers.set("Content-Type", "application/json");
+    return fetch(`${baseUrl}${path}`, { ...init, headers });
+  }
+
+  // Creates a user and logs them in; later requests pass their username
+  async function createUser(username: string, role: InsertUser["role"]): Promise<User> {
+    const user = await storage.createUser({
+      username,
+      fullName: username,
+      email: `${username}@example.org`,
+      password,
+      role,
+    });
+
+    const res = await request(null, "/api/login", {
+      method: "POST",
+      body: JSON.stringify({ username, password: TEST_PASSWORD }),
+    });
+    if (res.status !== 200) {
+      throw new Error(`Login as ${username} failed with ${res.status}`);
+    }
+    cookies.set(username, res.headers.getSetCookie().map((cookie) => cookie.split(";")[0]).join("; "));
+
+    return user;
+  }
+
+  // Mail sent to an address, oldest first
+  async function inbox(to: string): Promise<MailMessage[]> {
+    const messages: (MailMessage & { sentAt: string })[] = [];
+    for (const file of await readdir(mailDir)) {
+      messages.push(JSON.parse(await readFile(path.join(mailDir, file), "utf8")));
+    }
+    return messages
+      .filter((message) => message.to === to)
+      .sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+  }
+
+  function close() {
+    return new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  return { storage, request, createUser, inbox, close };
+}
+
+export type TestServer = Awaited<ReturnType<typeof startTestServer>>;
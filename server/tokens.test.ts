@@ -0,0 +1,107 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { TokenPair, User } from "@shared/schema";
+import { startTestServer, TEST_PASSWORD, type TestServer } from "./test-server";
+
+describe("bearer tokens", () => {
+  let server: TestServer;
+
+  const post = (path: string, body: object, headers: Record<string, string> = {}) =>
+    server.request(null, path, { method: "POST", body: JSON.stringify(body), headers });
+
+  const bearer = (pair: TokenPair) => ({ Authorization: `Bearer ${pair.accessToken}` });
+
+  const get = (path: string, pair: TokenPair) => server.request(null, path, { headers: bearer(pair) });
+
+  const login = async (username: string) => {
+    const res = await post("/api/token", { username, password: TEST_PASSWORD });
+    assert.equal(res.status, 200);
+    return await res.json() as TokenPair & { user: User };
+  };
+
+  const refresh = (pair: TokenPair) => post("/api/token/refresh", { refreshToken: pair.refreshToken });
+
+  const claims = (pair: TokenPair) =>
+    JSON.parse(Buffer.from(pair.accessToken.split(".")[1], "base64url").toString("utf8"));
+
+  before(async () => {
+    server = await startTestServer();
+    await server.createUser("token_admin", "administrator");
+    await server.createUser("token_reviewer", "reviewer");
+  });
+
+  after(() => server.close());
+
+  it("issues access tokens with role claims that authenticate API requests", async () => {
+    assert.equal((await post("/api/token", { username: "token_admin", password: "wrong" })).status, 401);
+
+    const pair = await login("token_reviewer");
+    assert.equal(pair.tokenType, "Bearer");
+    assert.equal(pair.expiresIn, 900);
+    assert.equal("password" in pair.user, false);
+    assert.equal(claims(pair).role, "reviewer");
+    assert.equal(claims(pair).sub, String(pair.user.id));
+
+    const me = await get("/api/user", pair);
+    assert.equal(me.status, 200);
+    assert.equal((await me.json() as User).username, "token_reviewer");
+    assert.equal((await get("/api/verification/queue", pair)).status, 403);
+    assert.equal((await get("/api/verification/queue", await login("token_admin"))).status, 200);
+
+    const forged = await server.request(null, "/api/user", { headers: { Authorization: `Bearer ${pair.accessToken}x` } });
+    assert.equal(forged.status, 401);
+    assert.match(forged.headers.get("www-authenticate")!, /invalid_token/);
+    assert.equal((await server.request(null, "/api/user")).status, 401);
+  });
+
+  it("rotates refresh tokens and revokes the family when one is reused", async () => {
+    const first = await login("token_reviewer");
+    const res = await refresh(first);
+    assert.equal(res.status, 200);
+    const second = await res.json() as TokenPair;
+    assert.notEqual(second.refreshToken, first.refreshToken);
+    assert.equal(claims(second).sid, claims(first).sid);
+    assert.equal((await get("/api/user", second)).status, 200);
+
+    const reused = await refresh(first);
+    assert.equal(reused.status, 401);
+    assert.match((await reused.json()).message, /already used/);
+    assert.equal((await refresh(second)).status, 401);
+    assert.equal((await get("/api/user", second)).status, 401);
+    assert.equal((await post("/api/token/refresh", { refreshToken: "unknown" })).status, 401);
+  });
+
+  it("revokes the tokens on logout", async () => {
+    const pair = await login("token_reviewer");
+    const other = await login("token_reviewer");
+
+    assert.equal((await post("/api/logout", {}, bearer(pair))).status, 200);
+    assert.equal((await get("/api/user", pair)).status, 401);
+    assert.equal((await refresh(pair)).status, 401);
+
+    // Logging out with only the refresh token ends that family alone
+    assert.equal((await post("/api/logout", { refreshToken: other.refreshToken })).status, 200);
+    assert.equal((await refresh(other)).status, 401);
+    assert.equal((await get("/api/user", await login("token_reviewer"))).status, 200);
+  });
+
+  it("ends tokens issued before a role or password change", async () => {
+    const user = await server.createUser("token_changes", "reviewer");
+    const pair = await login("token_changes");
+
+    await server.storage.updateUser(user.id, { role: "donor" });
+    assert.equal((await get("/api/user", pair)).status, 401);
+    const res = await refresh(pair);
+    assert.equal(res.status, 200);
+    const promoted = await res.json() as TokenPair;
+    assert.equal(claims(promoted).role, "donor");
+
+    const changed = await post("/api/user/password", { currentPassword: TEST_PASSWORD, newPassword: "token-pass-2" }, bearer(promoted));
+    assert.equal(changed.status, 200);
+    const renewed = await changed.json() as TokenPair;
+    assert.equal((await get("/api/user", promoted)).status, 401);
+    assert.equal((await refresh(promoted)).status, 401);
+    assert.equal((await get("/api/user", renewed)).status, 200);
+    assert.equal(changed.headers.getSetCookie().length, 0);
+  });
+});
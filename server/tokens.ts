@@ -0,0 +1,121 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import jwt from "jsonwebtoken";
+import { storage } from "./storage";
+import { TokenPair, User } from "@shared/schema";
+
+/**
+ * Bearer tokens for API clients that do not keep a session cookie. A login
+ * returns a short-lived access token (a JWT carrying the user's role) and a
+ * refresh token. Each refresh revokes the refresh token it was given and
+ * returns a new pair in the same family; presenting a revoked refresh token
+ * again revokes the whole family, as it means the token was copied.
+ *
+ * JWT_SECRET signs the access tokens (SESSION_SECRET if unset);
+ * JWT_ACCESS_TTL and JWT_REFRESH_TTL set their lifetimes in seconds.
+ */
+
+const ACCESS_TOKEN_TTL = parseInt(process.env.JWT_ACCESS_TTL || "900", 10);
+const REFRESH_TOKEN_TTL = parseInt(process.env.JWT_REFRESH_TTL || String(30 * 24 * 60 * 60), 10);
+const ISSUER = "grant-management";
+
+export interface AccessTokenClaims {
+  sub: string;
+  role: User["role"];
+  // The user's authVersion; a password change ends older tokens
+  ver: number;
+  // Refresh token family, revoked on logout
+  sid: string;
+}
+
+export class TokenError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "TokenError";
+  }
+}
+
+function secret() {
+  return process.env.JWT_SECRET || process.env.SESSION_SECRET || "grant-management-secret";
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+async function issueTokens(user: User, familyId: string): Promise<TokenPair> {
+  const claims: AccessTokenClaims = { sub: String(user.id), role: user.role, ver: user.authVersion, sid: familyId };
+  const accessToken = jwt.sign(claims, secret(), {
+    algorithm: "HS256",
+    expiresIn: ACCESS_TOKEN_TTL,
+    issuer: ISSUER,
+  });
+
+  const refreshToken = randomBytes(32).toString("base64url");
+  await storage.createRefreshToken({
+    userId: user.id,
+    familyId,
+    tokenHash: hashToken(refreshToken),
+    authVersion: user.authVersion,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL * 1000),
+  });
+
+  return { tokenType: "Bearer", accessToken, expiresIn: ACCESS_TOKEN_TTL, refreshToken };
+}
+
+// Starts a token family for a user who has just proven their credentials
+export function createTokens(user: User): Promise<TokenPair> {
+  return issueTokens(user, randomUUID());
+}
+
+export async function refreshTokens(refreshToken: string): Promise<TokenPair> {
+  const stored = await storage.getRefreshTokenByHash(hashToken(refreshToken));
+  if (!stored) {
+    throw new TokenError("Invalid refresh token", 401);
+  }
+
+  if (!(await storage.revokeRefreshToken(stored.id))) {
+    await storage.revokeRefreshTokenFamily(stored.familyId);
+    throw new TokenError("The refresh token was already used; sign in again", 401);
+  }
+  if (stored.expiresAt.getTime() <= Date.now()) {
+    throw new TokenError("The refresh token has expired; sign in again", 401);
+  }
+
+  const user = await storage.getUser(stored.userId);
+  if (!user || user.authVersion !== stored.authVersion) {
+    await storage.revokeRefreshTokenFamily(stored.familyId);
+    throw new TokenError("The password has changed; sign in again", 401);
+  }
+  return issueTokens(user, stored.familyId);
+}
+
+// Ends the family of a refresh token; unknown tokens are ignored
+export async function revokeRefreshToken(refreshToken: string) {
+  const stored = await storage.getRefreshTokenByHash(hashToken(refreshToken));
+  if (stored) await storage.revokeRefreshTokenFamily(stored.familyId);
+}
+
+export async function revokeTokenFamily(familyId: string) {
+  await storage.revokeRefreshTokenFamily(familyId);
+}
+
+/**
+ * The user an access token was issued to, or undefined when the token is
+ * invalid, expired, revoked or outdated by a password or role change
+ */
+export async function verifyAccessToken(token: string): Promise<{ user: User; claims: AccessTokenClaims } | undefined> {
+  let claims: AccessTokenClaims;
+  try {
+    claims = jwt.verify(token, secret(), { algorithms: ["HS256"], issuer: ISSUER }) as AccessTokenClaims;
+  } catch {
+    return undefined;
+  }
+
+  const user = await storage.getUser(Number(claims.sub));
+  if (!user || user.authVersion !== claims.ver || user.role !== claims.role) return undefined;
+
+  // Logging out revokes the family, and with it the access tokens issued in it
+  const family = await storage.getRefreshTokensByFamily(claims.sid);
+  if (!family.some((refresh) => !refresh.revokedAt)) return undefined;
+  return { user, claims };
+}
@@ -0,0 +1,171 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { authenticator } from "otplib";
+import type { AuditLogPage, TwoFactorEnrollment, TwoFactorStatus, User } from "@shared/schema";
+import { startTestServer, TEST_PASSWORD, type TestServer } from "./test-server";
+
+// The code of the 30-second step before (-1), at (0) or after (1) now; each
+// is accepted once, in increasing order
+function codeAt(secret: string, step: number) {
+  return authenticator.clone({ epoch: Date.now() + step * 30_000 }).generate(secret);
+}
+
+const cookieOf = (res: Response) => res.headers.getSetCookie().map((value) => value.split(";")[0]).join("; ");
+
+describe("two-factor authentication", () => {
+  let server: TestServer;
+
+  const post = (username: string | null, path: string, body: object, headers: HeadersInit = {}) =>
+    server.request(username, path, { method: "POST", body: JSON.stringify(body), headers });
+
+  // Sets up two-factor authentication for a signed-in user; returns the secret and recovery codes
+  async function enroll(username: string) {
+    const setup = await post(username, "/api/user/two-factor/setup", {});
+    assert.equal(setup.status, 200);
+    const { secret } = await setup.json() as TwoFactorEnrollment;
+    const enabled = await post(username, "/api/user/two-factor/enable", { code: codeAt(secret, -1) });
+    assert.equal(enabled.status, 200);
+    return { secret, recoveryCodes: (await enabled.json()).recoveryCodes as string[] };
+  }
+
+  // Signs in with the password; returns the cookie of the session waiting for the code
+  async function startLogin(username: string) {
+    const res = await post(null, "/api/login", { username, password: TEST_PASSWORD });
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { twoFactorRequired: true });
+    return cookieOf(res);
+  }
+
+  before(async () => {
+    server = await startTestServer();
+    await server.createUser("tf_admin", "administrator");
+    await server.createUser("tf_reviewer", "reviewer");
+    await server.createUser("tf_applicant", "applicant");
+  });
+
+  after(() => server.close());
+
+  it("sets up an authenticator and asks for its code after the password", async () => {
+    const setup = await post("tf_applicant", "/api/user/two-factor/setup", {});
+    const enrollment = await setup.json() as TwoFactorEnrollment;
+    assert.match(enrollment.qrCode, /^data:image\/png;base64,/);
+    assert.match(enrollment.otpauthUrl, /^otpauth:\/\/totp\/.*tf_applicant\?secret=/);
+    const wrong = await post("tf_applicant", "/api/user/two-factor/enable", { code: "000000" });
+    assert.equal(wrong.status, 400);
+
+    const enabled = await post("tf_applicant", "/api/user/two-factor/enable", { code: codeAt(enrollment.secret, -1) });
+    const { recoveryCodes } = await enabled.json();
+    assert.equal(recoveryCodes.length, 10);
+    const status = await (await server.request("tf_applicant", "/api/user/two-factor")).json() as TwoFactorStatus;
+    assert.deepEqual(status, { enabled: true, required: false, recoveryCodesRemaining: 10 });
+    // The stored secret is encrypted
+    const applicant = (await server.storage.getUserByUsername("tf_applicant"))!;
+    const credential = await server.storage.getTwoFactorCredential(applicant.id);
+    assert.ok(!credential!.secret.includes(enrollment.secret));
+
+    const cookie = await startLogin("tf_applicant");
+    assert.equal((await server.request(null, "/api/user", { headers: { Cookie: cookie } })).status, 401);
+    assert.equal((await post(null, "/api/login/two-factor", { code: "123456" }, { Cookie: cookie })).status, 401);
+    const code = codeAt(enrollment.secret, 0);
+    const second = await post(null, "/api/login/two-factor", { code }, { Cookie: cookie });
+    assert.equal(second.status, 200);
+    assert.equal((await second.json() as User).username, "tf_applicant");
+    assert.equal((await server.request(null, "/api/user", { headers: { Cookie: cookieOf(second) } })).status, 200);
+
+    // A code works once, a recovery code too
+    const replay = await post(null, "/api/login/two-factor", { code }, { Cookie: await startLogin("tf_applicant") });
+    assert.equal(replay.status, 401);
+    const recovery = await post(null, "/api/login/two-factor", { recoveryCode: recoveryCodes[0].toUpperCase() }, { Cookie: await startLogin("tf_applicant") });
+    assert.equal(recovery.status, 200);
+    const reused = await post(null, "/api/login/two-factor", { recoveryCode: recoveryCodes[0] }, { Cookie: await startLogin("tf_applicant") });
+    assert.equal(reused.status, 401);
+
+    // Token clients send the code with the password
+    const credentials = { username: "tf_applicant", password: TEST_PASSWORD };
+    const missing = await post(null, "/api/token", credentials);
+    assert.equal(missing.status, 401);
+    assert.equal((await missing.json()).twoFactorRequired, true);
+    assert.equal((await post(null, "/api/token", { ...credentials, code: codeAt(enrollment.secret, 1) })).status, 200);
+
+    const { items } = await (await server.request("tf_admin", "/api/audit-log?action=auth.login,user.two_factor_enabled")).json() as AuditLogPage;
+    assert.deepEqual(items.slice(0, 3).map((entry) => entry.after?.secondFactor), ["code", "recovery_code", "code"]);
+    assert.ok(items.some((entry) => entry.action === "user.two_factor_enabled"));
+  });
+
+  it("ends a waiting sign-in after too many wrong codes", async () => {
+    const { secret } = await enroll("tf_admin");
+    const cookie = await startLogin("tf_admin");
+    for (let attempt = 1; attempt < 5; attempt++) {
+      const res = await post(null, "/api/login/two-factor", { code: "000000" }, { Cookie: cookie });
+      assert.equal((await res.json()).message, "The code is not correct");
+    }
+    const last = await post(null, "/api/login/two-factor", { code: "000000" }, { Cookie: cookie });
+    assert.match((await last.json()).message, /Too many wrong codes/);
+    const late = await post(null, "/api/login/two-factor", { code: codeAt(secret, 0) }, { Cookie: cookie });
+    assert.equal(late.status, 401);
+    assert.match((await late.json()).message, /Sign in again/);
+  });
+
+  it("holds users of a role that requires it to the setup until an admin resets it", async () => {
+    assert.equal((await server.request("tf_reviewer", "/api/role-settings")).status, 403);
+    const required = await server.request("tf_admin", "/api/role-settings/reviewer", {
+      method: "PUT",
+      body: JSON.stringify({ twoFactorRequired: true }),
+    });
+    assert.deepEqual(await required.json(), { role: "reviewer", twoFactorRequired: true });
+    assert.equal((await (await server.request("tf_admin", "/api/role-settings")).json()).reviewer.twoFactorRequired, true);
+
+    const blocked = await server.request("tf_reviewer", "/api/applications");
+    assert.equal(blocked.status, 403);
+    assert.match((await blocked.json()).message, /Set up two-factor authentication/);
+    assert.equal((await server.request("tf_reviewer", "/api/user")).status, 200);
+
+    const { secret } = await enroll("tf_reviewer");
+    assert.equal((await server.request("tf_reviewer", "/api/applications")).status, 200);
+    const disable = await post("tf_reviewer", "/api/user/two-factor/disable", { code: codeAt(secret, 0) });
+    assert.equal(disable.status, 403);
+
+    const reviewer = (await server.storage.getUserByUsername("tf_reviewer"))!;
+    assert.equal((await post("tf_reviewer", `/api/users/${reviewer.id}/two-factor/reset`, {})).status, 403);
+    assert.equal((await post("tf_admin", `/api/users/${reviewer.id}/two-factor/reset`, {})).status, 200);
+    assert.equal((await post("tf_admin", `/api/users/${reviewer.id}/two-factor/reset`, {})).status, 404);
+    assert.equal((await server.request("tf_reviewer", "/api/applications")).status, 403);
+
+    const { items } = await (await server.request("tf_admin", "/api/audit-log?action=user.two_factor_reset")).json() as AuditLogPage;
+    assert.equal(items[0].entityId, reviewer.id);
+  });
+
+  it("turns off with a current code where the role allows it", async () => {
+    await server.createUser("tf_donor", "donor");
+    const { secret, recoveryCodes } = await enroll("tf_donor");
+    assert.equal((await post("tf_donor", "/api/user/two-factor/setup", {})).status, 409);
+
+    const codes = await post("tf_donor", "/api/user/two-factor/recovery-codes", { code: codeAt(secret, 0) });
+    const renewed = (await codes.json()).recoveryCodes as string[];
+    assert.equal(renewed.length, 10);
+    assert.equal((await post("tf_donor", "/api/user/two-factor/disable", { recoveryCode: recoveryCodes[0] })).status, 400);
+
+    assert.equal((await post("tf_donor", "/api/user/two-factor/disable", { recoveryCode: renewed[0] })).status, 200);
+    const login = await post(null, "/api/login", { username: "tf_donor", password: TEST_PASSWORD });
+    assert.equal((await login.json() as User).username, "tf_donor");
+  });
+
+  it("limits wrong codes when turning it off or renewing recovery codes", async () => {
+    await server.createUser("tf_guesser", "donor");
+    const { secret } = await enroll("tf_guesser");
+
+    // Wrong codes count like those at sign-in, up to the lockout after five
+    const paths = ["/api/user/two-factor/disable", "/api/user/two-factor/recovery-codes"];
+    for (let attempt = 0; attempt < 5; attempt++) {
+      assert.equal((await post("tf_guesser", paths[attempt % 2], { code: "000000" })).status, 400);
+    }
+    const limited = await post("tf_guesser", paths[1], { code: "000000" });
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get("retry-after")) > 0);
+
+    // Even the right code waits now
+    assert.equal((await post("tf_guesser", paths[0], { code: codeAt(secret, 0) })).status, 429);
+    const guesser = (await server.storage.getUserByUsername("tf_guesser"))!;
+    assert.ok(await server.storage.getTwoFactorCredential(guesser.id));
+  });
+});
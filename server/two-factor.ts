@@ -0,0 +1,174 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { authenticator } from "otplib";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import { recordAudit } from "./audit";
+import { TwoFactorCode, TwoFactorCredential, TwoFactorEnrollment, TwoFactorStatus, User } from "@shared/schema";
+
+/**
+ * Two-factor authentication with an authenticator app (TOTP, RFC 6238).
+ * A user starts the setup, scans the QR code and confirms it with a first
+ * code; from then on a password login completes only with a code from the
+ * app or one of the single-use recovery codes handed out at that point.
+ * Administrators can require it per role, and reset it for a user who lost
+ * their device so that they can set it up again.
+ *
+ * TWO_FACTOR_KEY encrypts the stored secrets (SESSION_SECRET if unset);
+ * TWO_FACTOR_ISSUER names the account in the app.
+ */
+
+export const RECOVERY_CODE_COUNT = 10;
+// Wrong codes a sign-in waiting for its second factor allows before it has to start over
+export const MAX_TWO_FACTOR_ATTEMPTS = 5;
+export const PENDING_LOGIN_TTL_MINUTES = 5;
+
+export class TwoFactorError extends Error {
+  // wrongCode marks a second factor that did not check out, as opposed to a
+  // request that could not be made at all
+  constructor(message: string, readonly status: number, readonly wrongCode = false) {
+    super(message);
+    this.name = "TwoFactorError";
+  }
+}
+
+// Codes of the previous and next 30 seconds pass too, for clocks that drift
+const totp = authenticator.clone({ window: 1 });
+
+function encryptionKey() {
+  const secret = process.env.TWO_FACTOR_KEY || process.env.SESSION_SECRET || "grant-management-secret";
+  return createHash("sha256").update(secret).digest();
+}
+
+function encryptSecret(secret: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64url")).join(".");
+}
+
+function decryptSecret(stored: string) {
+  const [iv, tag, encrypted] = stored.split(".").map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+// Recovery codes are typed by hand; case, spaces and dashes do not matter
+function hashRecoveryCode(code: string) {
+  return createHash("sha256").update(code.toLowerCase().replace(/[\s-]/g, "")).digest("hex");
+}
+
+function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// A code from the app, accepted once: replaying it within its window fails
+async function acceptCode(credential: TwoFactorCredential, code: string) {
+  const delta = totp.checkDelta(code, decryptSecret(credential.secret));
+  if (delta === null) return false;
+  const step = Math.floor(Date.now() / 1000 / totp.allOptions().step) + delta;
+  return storage.advanceTwoFactorStep(credential.userId, step);
+}
+
+export async function isTwoFactorRequired(user: User) {
+  const settings = await storage.getRoleSettings();
+  return settings.some((setting) => setting.role === user.role && setting.twoFactorRequired);
+}
+
+export async function isTwoFactorEnabled(user: User) {
+  const credential = await storage.getTwoFactorCredential(user.id);
+  return Boolean(credential?.enabledAt);
+}
+
+export async function getTwoFactorStatus(user: User): Promise<TwoFactorStatus> {
+  const credential = await storage.getTwoFactorCredential(user.id);
+  const enabled = Boolean(credential?.enabledAt);
+  return {
+    enabled,
+    required: await isTwoFactorRequired(user),
+    recoveryCodesRemaining: enabled ? credential!.recoveryCodeHashes.length : 0,
+  };
+}
+
+/**
+ * Creates a new secret for the user to add to their app. Starting again
+ * before confirming replaces the secret; once enabled, it has to be turned
+ * off first.
+ */
+export async function startTwoFactorEnrollment(user: User): Promise<TwoFactorEnrollment> {
+  if (await isTwoFactorEnabled(user)) {
+    throw new TwoFactorError("Two-factor authentication is already on", 409);
+  }
+
+  const secret = totp.generateSecret();
+  await storage.replaceTwoFactorCredential({ userId: user.id, secret: encryptSecret(secret) });
+
+  const otpauthUrl = totp.keyuri(user.username, process.env.TWO_FACTOR_ISSUER || "Grant Portal", secret);
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+// Turns two-factor authentication on with a first code; returns the recovery codes
+export async function confirmTwoFactorEnrollment(user: User, code: string): Promise<string[]> {
+  const credential = await storage.getTwoFactorCredential(user.id);
+  if (!credential) {
+    throw new TwoFactorError("Start the two-factor setup first", 400);
+  }
+  if (credential.enabledAt) {
+    throw new TwoFactorError("Two-factor authentication is already on", 409);
+  }
+  if (!(await acceptCode(credential, code))) {
+    throw new TwoFactorError("The code is not correct; check that the time on your device is right", 400);
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.updateTwoFactorCredential(user.id, { enabledAt: new Date(), recoveryCodeHashes: hashes });
+  await recordAudit({ action: "user.two_factor_enabled", entityType: "user", entityId: user.id });
+  return codes;
+}
+
+// Checks the second factor of a user who has it on; a recovery code is used up
+export async function verifySecondFactor(user: User, proof: TwoFactorCode): Promise<boolean> {
+  const credential = await storage.getTwoFactorCredential(user.id);
+  if (!credential?.enabledAt) return false;
+  if (proof.code !== undefined) return acceptCode(credential, proof.code);
+  return storage.consumeRecoveryCode(user.id, hashRecoveryCode(proof.recoveryCode!));
+}
+
+async function requireSecondFactor(user: User, proof: TwoFactorCode) {
+  if (!(await isTwoFactorEnabled(user))) {
+    throw new TwoFactorError("Two-factor authentication is not on", 400);
+  }
+  if (!(await verifySecondFactor(user, proof))) {
+    throw new TwoFactorError("The code is not correct", 400, true);
+  }
+}
+
+export async function disableTwoFactor(user: User, proof: TwoFactorCode) {
+  if (await isTwoFactorRequired(user)) {
+    throw new TwoFactorError("Your role requires two-factor authentication", 403);
+  }
+  await requireSecondFactor(user, proof);
+  await storage.deleteTwoFactorCredential(user.id);
+  await recordAudit({ action: "user.two_factor_disabled", entityType: "user", entityId: user.id });
+}
+
+// Replaces the recovery codes, for a user who used or lost them
+export async function regenerateRecoveryCodes(user: User, proof: TwoFactorCode): Promise<string[]> {
+  await requireSecondFactor(user, proof);
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.updateTwoFactorCredential(user.id, { recoveryCodeHashes: hashes });
+  return codes;
+}
+
+// For a user who lost their device: the next sign-in is by password alone,
+// and a role that requires two-factor authentication sets it up again then
+export async function resetTwoFactor(user: User) {
+  if (!(await storage.deleteTwoFactorCredential(user.id))) {
+    throw new TwoFactorError("This user has not set up two-factor authentication", 404);
+  }
+  await recordAudit({ action: "user.two_factor_reset", entityType: "user", entityId: user.id });
+}
@@ -0,0 +1,245 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { createHash } from "crypto";
+import type { Application, Document, DocumentVersion, DocumentVersionEntry, User } from "@shared/schema";
+import { startTestServer, type TestServer } from "./test-server";
+import type { BlobStore } from "./blob-storage";
+
+// Small enough to test the size limit without large buffers
+process.env.MAX_UPLOAD_BYTES = "4096";
+
+// Loaded after choosing the upload directory, which the blob store singleton
+// reads when it is created
+process.env.UPLOAD_DIR = await mkdtemp(path.join(tmpdir(), "uploads-"));
+const { inspectUpload } = await import("./uploads");
+const { LocalBlobStore, S3BlobStore } = await import("./blob-storage");
+
+const PDF = Buffer.from("%PDF-1.4\n1 0 obj << >> endobj\ntrailer << >>\n%%EOF\n");
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+
+function upload(name: string, content: Buffer, fields: Record<string, string> = {}) {
+  const form = new FormData();
+  form.set("file", new Blob([content]), name);
+  for (const [key, value] of Object.entries(fields)) form.set(key, value);
+  return form;
+}
+
+describe("upload inspection", () => {
+  it("accepts files whose content matches their extension", () => {
+    assert.equal(inspectUpload({ originalname: "budget.PDF", buffer: PDF }), "application/pdf");
+    assert.equal(inspectUpload({ originalname: "logo.png", buffer: PNG }), "image/png");
+    assert.equal(inspectUpload({ originalname: "notes.txt", buffer: Buffer.from("Plan, in short") }), "text/plain");
+  });
+
+  it("rejects unknown types and disguised content", () => {
+    assert.throws(() => inspectUpload({ originalname: "setup.exe", buffer: Buffer.from("MZ") }), { status: 415 });
+    assert.throws(() => inspectUpload({ originalname: "budget.pdf", buffer: PNG }), { status: 415 });
+    assert.throws(() => inspectUpload({ originalname: "photo.jpg", buffer: PDF }), { status: 415 });
+    assert.throws(() => inspectUpload({ originalname: "budget.pdf", buffer: Buffer.alloc(0) }), { status: 400 });
+  });
+
+  it("limits files to the extensions an attachment accepts", () => {
+    assert.equal(inspectUpload({ originalname: "plan.pdf", buffer: PDF }, [".pdf", ".docx"]), "application/pdf");
+    assert.throws(() => inspectUpload({ originalname: "logo.png", buffer: PNG }, ["pdf"]), { status: 415 });
+  });
+});
+
+async function exerciseBlobStore(store: BlobStore) {
+  const key = `tests/${Date.now()}/file.pdf`;
+  await store.put(key, PDF, "application/pdf");
+  assert.deepEqual(await store.get(key), PDF);
+  await store.delete(key);
+  assert.equal(await store.get(key), undefined);
+}
+
+describe("blob stores", () => {
+  it("keeps files on local disk", async () => {
+    const store = new LocalBlobStore(await mkdtemp(path.join(tmpdir(), "blobs-")));
+    await exerciseBlobStore(store);
+    await assert.rejects(store.get("../outside.pdf"), /Invalid blob key/);
+  });
+
+  // Run against a local MinIO with, e.g.,
+  // S3_TEST_ENDPOINT=http://localhost:9000 S3_TEST_BUCKET=grants
+  // S3_ACCESS_KEY_ID=minioadmin S3_SECRET_ACCESS_KEY=minioadmin
+  it("keeps files in an S3-compatible bucket", { skip: !process.env.S3_TEST_ENDPOINT && "S3_TEST_ENDPOINT is not set" }, async () => {
+    await exerciseBlobStore(new S3BlobStore({
+      endpoint: process.env.S3_TEST_ENDPOINT,
+      bucket: process.env.S3_TEST_BUCKET || "grants",
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    }));
+  });
+});
+
+describe("document uploads", () => {
+  let server: TestServer;
+  let applicant: User;
+  let application: Application;
+
+  const post = (username: string, form: FormData) =>
+    server.request(username, `/api/applications/${application.id}/documents`, { method: "POST", body: form });
+
+  before(async () => {
+    server = await startTestServer();
+    applicant = await server.createUser("upload_applicant", "applicant");
+    await server.createUser("upload_other", "applicant");
+    await server.createUser("upload_outsider", "reviewer");
+    const reviewer = await server.createUser("upload_reviewer", "reviewer");
+
+    const program = await server.storage.createProgram({
+      name: "Uploads",
+      type: "donacija",
+      budgetTotal: 1000,
+      year: 2025,
+      formSchema: { sections: [], attachments: [{ key: "budget", label: "Budget", required: true, accept: [".pdf"] }] },
+    });
+    application = await server.storage.createApplication({ applicantId: applicant.id, programId: program.id, summary: "Uploads" });
+    await server.storage.createReviewerAssignment({ applicationId: application.id, reviewerId: reviewer.id });
+  });
+
+  after(() => server.close());
+
+  it("stores uploads and serves them back to authorized users", async () => {
+    const res = await post("upload_applicant", upload("Budžet 2025.pdf", PDF, { attachmentKey: "budget" }));
+    assert.equal(res.status, 201);
+    const document = await res.json() as Document;
+    assert.equal(document.fileName, "Budžet 2025.pdf");
+    assert.equal(document.fileType, "application/pdf");
+    assert.equal(document.attachmentKey, "budget");
+    assert.ok(!document.filePath.includes("Budžet"));
+
+    const download = await server.request("upload_applicant", `/api/documents/${document.id}/download`);
+    assert.equal(download.status, 200);
+    assert.equal(download.headers.get("content-type"), "application/pdf");
+    assert.match(download.headers.get("content-disposition")!, /^attachment; .*filename\*=UTF-8''Bud%C5%BEet%202025\.pdf$/);
+    assert.deepEqual(Buffer.from(await download.arrayBuffer()), PDF);
+
+    const preview = await server.request("upload_applicant", `/api/documents/${document.id}/preview`);
+    assert.equal(preview.status, 200);
+    assert.match(preview.headers.get("content-disposition")!, /^inline;/);
+
+    assert.equal((await server.request(null, `/api/documents/${document.id}/download`)).status, 401);
+    assert.equal((await server.request("upload_other", `/api/documents/${document.id}/download`)).status, 403);
+    assert.equal((await server.request("upload_applicant", `/api/documents/${document.id + 1000}/download`)).status, 404);
+  });
+
+  it("enforces size, type and attachment limits", async () => {
+    assert.equal((await post("upload_applicant", upload("big.pdf", Buffer.concat([PDF, Buffer.alloc(8192)])))).status, 413);
+    assert.equal((await post("upload_applicant", upload("fake.pdf", PNG))).status, 415);
+    assert.equal((await post("upload_applicant", upload("logo.png", PNG, { attachmentKey: "budget" }))).status, 415);
+    assert.equal((await post("upload_applicant", upload("plan.pdf", PDF, { attachmentKey: "unknown" }))).status, 400);
+    assert.equal((await post("upload_other", upload("plan.pdf", PDF))).status, 403);
+    // Managing documents reaches only the applications a reviewer is assigned to
+    assert.equal((await post("upload_outsider", upload("plan.pdf", PDF))).status, 403);
+    assert.equal((await post("upload_reviewer", upload("plan.pdf", PDF))).status, 201);
+
+    const json = await server.request("upload_applicant", `/api/applications/${application.id}/documents`, {
+      method: "POST",
+      body: JSON.stringify({ fileName: "x.pdf", fileType: "pdf", filePath: "/etc/passwd" }),
+    });
+    assert.equal(json.status, 400);
+  });
+
+  it("only previews types browsers render safely", async () => {
+    const docx = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from("[Content_Types].xml word/document.xml")]);
+    const res = await post("upload_applicant", upload("plan.docx", docx));
+    assert.equal(res.status, 201);
+    const document = await res.json() as Document;
+
+    assert.equal((await server.request("upload_applicant", `/api/documents/${document.id}/preview`)).status, 415);
+    assert.equal((await server.request("upload_applicant", `/api/documents/${document.id}/download`)).status, 200);
+  });
+});
+
+describe("document versions", () => {
+  let server: TestServer;
+  let application: Application;
+  let document: Document;
+
+  const replace = (username: string, form: FormData) =>
+    server.request(username, `/api/documents/${document.id}/versions`, { method: "POST", body: form });
+
+  const PDF_V2 = Buffer.from("%PDF-1.4\n% corrected totals\n%%EOF\n");
+
+  before(async () => {
+    server = await startTestServer();
+    const applicant = await server.createUser("version_applicant", "applicant");
+    await server.createUser("version_other", "applicant");
+
+    const program = await server.storage.createProgram({ name: "Versions", type: "donacija", budgetTotal: 1000, year: 2025 });
+    application = await server.storage.createApplication({
+      applicantId: applicant.id,
+      programId: program.id,
+      summary: "Versions",
+      requestedAmount: 100,
+    });
+
+    const res = await server.request("version_applicant", `/api/applications/${application.id}/documents`, {
+      method: "POST",
+      body: upload("budget.pdf", PDF),
+    });
+    document = await res.json() as Document;
+  });
+
+  after(() => server.close());
+
+  it("records the size and checksum of uploads", () => {
+    assert.equal(document.size, PDF.length);
+    assert.equal(document.checksum, createHash("sha256").update(PDF).digest("hex"));
+    assert.equal(document.currentVersion, 1);
+  });
+
+  it("replaces drafts freely and requires a change note after submission", async () => {
+    let res = await replace("version_applicant", upload("budget-draft.pdf", PDF_V2));
+    assert.equal(res.status, 201);
+    assert.equal((await res.json() as DocumentVersion).version, 2);
+
+    res = await server.request("version_applicant", `/api/applications/${application.id}/submit`, { method: "POST" });
+    assert.equal(res.status, 200);
+
+    assert.equal((await replace("version_applicant", upload("budget-final.pdf", PDF))).status, 400);
+    assert.equal((await replace("version_other", upload("budget-final.pdf", PDF, { changeNote: "Mine" }))).status, 403);
+    assert.equal((await replace("version_applicant", upload("budget.pdf", PNG, { changeNote: "Scan" }))).status, 415);
+
+    res = await replace("version_applicant", upload("budget-final.pdf", PDF, { changeNote: "Signed copy" }));
+    assert.equal(res.status, 201);
+    const version = await res.json() as DocumentVersion;
+    assert.equal(version.version, 3);
+    assert.equal(version.changeNote, "Signed copy");
+
+    const current = await server.storage.getDocument(document.id);
+    assert.equal(current!.fileName, "budget-final.pdf");
+    assert.equal(current!.currentVersion, 3);
+  });
+
+  it("lists the history and marks the submitted version", async () => {
+    const res = await server.request("version_applicant", `/api/documents/${document.id}/versions`);
+    assert.equal(res.status, 200);
+    const versions = await res.json() as DocumentVersionEntry[];
+    assert.deepEqual(versions.map((version) => [version.version, version.fileName, version.snapshotVersions]), [
+      [1, "budget.pdf", []],
+      [2, "budget-draft.pdf", [1]],
+      [3, "budget-final.pdf", []],
+    ]);
+
+    assert.equal((await server.request("version_other", `/api/documents/${document.id}/versions`)).status, 403);
+  });
+
+  it("downloads any version", async () => {
+    const download = (version: number) =>
+      server.request("version_applicant", `/api/documents/${document.id}/versions/${version}/download`);
+
+    let res = await download(2);
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get("content-disposition")!, /filename="budget-draft\.pdf"/);
+    assert.deepEqual(Buffer.from(await res.arrayBuffer()), PDF_V2);
+
+    res = await download(1);
+    assert.deepEqual(Buffer.from(await res.arrayBuffer()), PDF);
+    assert.equal((await download(4)).status, 404);
+  });
+});
@@ -0,0 +1,182 @@
+import type { Request, Response } from "express";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import multer from "multer";
+import { blobStore } from "./blob-storage";
+
+/**
+ * Multipart uploads: size limits, content sniffing and hand-off to the blob
+ * store, plus sending stored files back for download or preview.
+ *
+ * The declared Content-Type of an upload is ignored. The type is sniffed from
+ * the first bytes of the file and must agree with the file's extension.
+ */
+
+export class UploadError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+// MAX_UPLOAD_BYTES overrides the default limit of 10 MB
+export function maxUploadBytes() {
+  return parseInt(process.env.MAX_UPLOAD_BYTES || "", 10) || 10 * 1024 * 1024;
+}
+
+// Accepted file types by extension
+const FILE_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".doc": "application/msword",
+  ".xls": "application/vnd.ms-excel",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+};
+
+// Types that are safe to show inline in the browser
+const PREVIEWABLE_TYPES = ["application/pdf", "image/png", "image/jpeg", "text/plain", "text/csv"];
+
+function startsWith(buffer: Buffer, bytes: number[]) {
+  return bytes.every((byte, index) => buffer[index] === byte);
+}
+
+/**
+ * The MIME type the content of a file is consistent with, given the type its
+ * extension claims. Returns undefined when the content does not match.
+ */
+export function sniffFileType(buffer: Buffer, claimed: string): string | undefined {
+  if (startsWith(buffer, [0x25, 0x50, 0x44, 0x46, 0x2d])) return "application/pdf"; // %PDF-
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return "image/jpeg";
+
+  // Office Open XML files are ZIP archives named after their main part
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04])) {
+    const names = buffer.toString("latin1");
+    if (names.includes("word/")) return FILE_TYPES[".docx"];
+    if (names.includes("xl/")) return FILE_TYPES[".xlsx"];
+    return "application/zip";
+  }
+
+  // Legacy Office files share one container format; trust the extension
+  // to tell a document from a spreadsheet
+  if (startsWith(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return claimed === FILE_TYPES[".xls"] ? claimed : FILE_TYPES[".doc"];
+  }
+
+  // Plain text: valid UTF-8 without control bytes other than whitespace
+  const sample = buffer.subarray(0, 8192);
+  if (!sample.some((byte) => byte < 0x09 || (byte > 0x0d && byte < 0x20)) &&
+      !sample.toString("utf8").includes("\uFFFD")) {
+    return claimed === "text/csv" ? claimed : "text/plain";
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks an uploaded file against the accepted types and, if given, the
+ * extensions a form attachment allows. Returns its MIME type.
+ */
+export function inspectUpload(file: Pick<Express.Multer.File, "originalname" | "buffer">, accept?: string[]) {
+  const extension = path.extname(file.originalname).toLowerCase();
+  const claimed = FILE_TYPES[extension];
+  if (!claimed) {
+    throw new UploadError(`Files of type "${extension || file.originalname}" are not accepted`, 415);
+  }
+
+  if (accept?.length) {
+    const allowed = accept.map((item) => item.trim().toLowerCase());
+    if (!allowed.includes(extension) && !allowed.includes(extension.slice(1)) && !allowed.includes(claimed)) {
+      throw new UploadError(`This attachment must be one of: ${accept.join(", ")}`, 415);
+    }
+  }
+
+  if (file.buffer.length === 0) {
+    throw new UploadError("The file is empty", 400);
+  }
+  if (sniffFileType(file.buffer, claimed) !== claimed) {
+    throw new UploadError(`The content of ${file.originalname} does not match its extension`, 415);
+  }
+
+  return claimed;
+}
+
+/**
+ * Parses a multipart request carrying one file in the "file" field; other
+ * fields end up in req.body. Call it after authorization so unauthorized
+ * uploads are never buffered.
+ */
+export function parseUpload(req: Request, res: Response): Promise<Express.Multer.File> {
+  return new Promise((resolve, reject) => {
+    if (!req.is("multipart/form-data")) {
+      return reject(new UploadError("Upload the file as multipart/form-data", 400));
+    }
+    const limit = maxUploadBytes();
+    const upload = multer({
+      storage: multer.memoryStorage(),
+      limits: { fileSize: limit, files: 1 },
+    }).single("file");
+
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return reject(error.code === "LIMIT_FILE_SIZE"
+          ? new UploadError(`Files may not be larger than ${Math.round(limit / 1024 / 1024 * 10) / 10} MB`, 413)
+          : new UploadError(error.message, 400));
+      }
+      if (error) return reject(error);
+      if (!req.file) return reject(new UploadError("No file was uploaded", 400));
+      // Browsers send UTF-8 names, which busboy reads as latin1
+      req.file.originalname = Buffer.from(req.file.originalname, "latin1").toString("utf8");
+      resolve(req.file);
+    });
+  });
+}
+
+/**
+ * Stores an upload under `prefix` and returns its blob key along with the
+ * size and SHA-256 checksum of its content
+ */
+export async function storeUpload(file: Express.Multer.File, mimeType: string, prefix: string) {
+  const filePath = `${prefix}/${randomUUID()}${path.extname(file.originalname).toLowerCase()}`;
+  await blobStore.put(filePath, file.buffer, mimeType);
+  return {
+    filePath,
+    size: file.buffer.length,
+    checksum: createHash("sha256").update(file.buffer).digest("hex"),
+  };
+}
+
+export function contentDisposition(type: "attachment" | "inline", fileName: string) {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+/**
+ * Sends a stored file. Inline previews are limited to types browsers render
+ * without running anything from the file.
+ */
+export async function sendStoredFile(
+  res: Response,
+  file: { filePath: string; fileName: string; fileType: string },
+  disposition: "attachment" | "inline",
+) {
+  if (disposition === "inline" && !PREVIEWABLE_TYPES.includes(file.fileType)) {
+    return res.status(415).json({ message: "This file cannot be previewed; download it instead" });
+  }
+
+  const content = await blobStore.get(file.filePath);
+  if (!content) {
+    return res.status(404).json({ message: "File not found" });
+  }
+
+  res.setHeader("Content-Type", file.fileType);
+  res.setHeader("Content-Length", content.length);
+  res.setHeader("Content-Disposition", contentDisposition(disposition, file.fileName));
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.send(content);
+}
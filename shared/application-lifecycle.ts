@@ -0,0 +1,70 @@
+/**
+ * Application lifecycle: which status changes exist and who may make them.
+ *
+ * This table is shared with the client so it only offers transitions the
+ * API will accept. Guard conditions and side effects live on the server in
+ * server/application-lifecycle.ts.
+ */
+
+import type { Application } from "./schema";
+import type { Permission } from "./permissions";
+
+export type ApplicationStatus = Application["status"];
+
+export interface ApplicationTransition {
+  from: ApplicationStatus[];
+  to: ApplicationStatus;
+  // "owner" is the applicant who created the application; anything else is
+  // a permission the acting user's role must grant
+  actor: "owner" | Permission;
+  label: string;
+}
+
+export const APPLICATION_TRANSITIONS: ApplicationTransition[] = [
+  { from: ["draft"], to: "submitted", actor: "owner", label: "Submit" },
+  { from: ["revisit"], to: "submitted", actor: "owner", label: "Resubmit" },
+  { from: ["submitted"], to: "u obradi", actor: "application.evaluate", label: "Start review" },
+  { from: ["submitted", "u obradi"], to: "preporučeno", actor: "application.evaluate", label: "Recommend" },
+  { from: ["submitted", "u obradi"], to: "odbijeno", actor: "application.evaluate", label: "Reject" },
+  { from: ["submitted", "u obradi"], to: "revisit", actor: "application.evaluate", label: "Request changes" },
+  { from: ["preporučeno"], to: "odobreno", actor: "application.decide", label: "Approve" },
+  { from: ["preporučeno"], to: "odbijeno", actor: "application.decide", label: "Reject" },
+  { from: ["odobreno"], to: "completed", actor: "application.decide", label: "Mark completed" },
+];
+
+// Applicants edit their application directly only before (re)submitting;
+// once submitted, changes go through amendments
+export const EDITABLE_STATUSES: ApplicationStatus[] = ["draft", "revisit"];
+
+export function isApplicationEditable(application: Pick<Application, "status">) {
+  return EDITABLE_STATUSES.includes(application.status);
+}
+
+export function findTransition(from: ApplicationStatus, to: ApplicationStatus) {
+  return APPLICATION_TRANSITIONS.find((transition) => transition.to === to && transition.from.includes(from));
+}
+
+export function canPerformTransition(
+  transition: ApplicationTransition,
+  application: Pick<Application, "applicantId">,
+  user: { id: number },
+  permissions: readonly string[],
+) {
+  return transition.actor === "owner"
+    ? application.applicantId === user.id
+    : permissions.includes(transition.actor);
+}
+
+/**
+ * Transitions out of the application's current status that the user may perform
+ */
+export function availableTransitions(
+  application: Pick<Application, "applicantId" | "status">,
+  user: { id: number },
+  permissions: readonly string[],
+) {
+  return APPLICATION_TRANSITIONS.filter((transition) =>
+    transition.from.includes(application.status) &&
+    canPerformTransition(transition, application, user, permissions),
+  );
+}
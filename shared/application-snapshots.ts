@@ -0,0 +1,68 @@
+/**
+ * Field-level comparison of two application snapshots, shared so the client
+ * can render the same diff the API returns.
+ */
+
+import type { ApplicationSnapshotContent, Document } from "./schema";
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SnapshotDiff {
+  fields: FieldChange[];
+  documents: {
+    added: Document[];
+    removed: Document[];
+    changed: { from: Document; to: Document }[];
+  };
+}
+
+// Bookkeeping that changes with every status move rather than with content
+const IGNORED_FIELDS = ["id", "status", "submittedAt"];
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Form answers are compared one by one and reported as "answers.<key>"
+function comparableFields(application: ApplicationSnapshotContent["application"]) {
+  const { answers, ...fields } = application;
+  const flattened: Record<string, unknown> = { ...fields };
+  for (const [key, value] of Object.entries(answers ?? {})) {
+    flattened[`answers.${key}`] = value;
+  }
+  return flattened;
+}
+
+export function diffSnapshots(from: ApplicationSnapshotContent, to: ApplicationSnapshotContent): SnapshotDiff {
+  const before = comparableFields(from.application);
+  const after = comparableFields(to.application);
+
+  const names = Array.from(new Set(Object.keys(before).concat(Object.keys(after))));
+  const fields = names
+    .filter((field) => !IGNORED_FIELDS.includes(field) && !sameValue(before[field], after[field]))
+    .map((field) => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+
+  const added = to.documents.filter((doc) => !from.documents.some((old) => old.id === doc.id));
+  const removed = from.documents.filter((old) => !to.documents.some((doc) => doc.id === old.id));
+  const changed: { from: Document; to: Document }[] = [];
+  for (const doc of to.documents) {
+    const old = from.documents.find((candidate) => candidate.id === doc.id);
+    if (old && !sameValue(old, doc)) changed.push({ from: old, to: doc });
+  }
+
+  return { fields, documents: { added, removed, changed } };
+}
+
+/**
+ * The version of a document frozen into a snapshot, or undefined when the
+ * document is not part of it. Snapshots taken before documents were versioned
+ * hold their first version.
+ */
+export function snapshotDocumentVersion(content: ApplicationSnapshotContent, documentId: number) {
+  const document = content.documents.find((doc) => doc.id === documentId);
+  return document ? document.currentVersion ?? 1 : undefined;
+}
@@ -60,6 +60,24 @@ export const REQUIRED_DOCUMENTS = {
   ]
 };
 
+// Display names of the required documents
+export const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  "id_card_passport": "ID card or passport (both sides)",
+  "resume_cv": "CV / biography",
+  "motivation_letter": "Motivation letter and plan for the funds",
+  "signed_declaration": "Signed declaration on the use of funds",
+
+  "registration_certificate": "Registration certificate",
+  "organization_statute": "Statute of the organization",
+  "board_decision": "Board decision to apply",
+  "tax_id_document": "Tax identification document",
+  "authorized_person_declaration": "Declaration of the authorized person",
+
+  "business_registration": "Court register extract",
+  "bank_statement": "Bank statement or proof of business account",
+  "legal_representative_declaration": "Signed declaration of the legal representative"
+};
+
 // Verification requirements for different document types
 export const VERIFICATION_REQUIREMENTS = {
   "id_card_passport": ["document_type", "full_name", "document_number", "expiry_date", "issuing_authority"],
@@ -112,4 +130,7 @@ export const DOCUMENT_VERIFICATION_STATUS = {
   APPROVED: "approved",
   REJECTED: "rejected",
   REQUIRES_RESUBMISSION: "requires_resubmission"
-};
\ No newline at end of file
+};
+
+// AI verification score from which admins may approve documents in bulk
+export const HIGH_CONFIDENCE_SCORE = 85;
@@ -0,0 +1,158 @@
+/**
+ * Eligibility rules: who may apply to a program.
+ *
+ * A program's rules are its eligibleApplicantTypes plus the custom rules in
+ * eligibilityRules. Rules are checked when an application is created and
+ * again when it is submitted. A rule that needs information the applicant
+ * has not given yet (say, the year an organization was established) does not
+ * block a draft, but does block submission.
+ */
+
+import { z } from "zod";
+import type { Application, Program, User } from "./schema";
+
+export const eligibilityRuleSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("applicantType"), types: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal("verified") }),
+  z.object({
+    type: z.literal("location"),
+    countries: z.array(z.string()).optional(),
+    cities: z.array(z.string()).optional(),
+  }),
+  z.object({ type: z.literal("organizationAge"), minYears: z.number().int().min(1) }),
+  z.object({ type: z.literal("maxRequestedAmount"), amount: z.number().int().positive() }),
+  // Applicants with more than `max` earlier grants are not eligible; only
+  // grants from the last `withinYears` years count if that is set
+  z.object({
+    type: z.literal("priorGrants"),
+    max: z.number().int().min(0),
+    withinYears: z.number().int().positive().optional(),
+  }),
+]);
+
+export type EligibilityRule = z.infer<typeof eligibilityRuleSchema>;
+
+export type EligibilityPhase = "create" | "submit";
+
+export interface EligibilityContext {
+  user: Pick<User, "isVerified" | "country" | "city">;
+  // Name of the applicant type, e.g. "ORGANIZATION"
+  applicantType: string | null;
+  application: Partial<Pick<Application, "yearEstablished" | "requestedAmount">>;
+  // The applicant's other approved or completed applications
+  priorGrants: Pick<Application, "submittedAt">[];
+  now: Date;
+}
+
+export interface EligibilityCheck {
+  rule: EligibilityRule;
+  // null when the rule cannot be decided yet
+  passed: boolean | null;
+  reason?: string;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  reasons: string[];
+  checks: EligibilityCheck[];
+}
+
+// GET /api/user/eligibility, one entry per program
+export interface ProgramEligibility {
+  programId: number;
+  eligible: boolean;
+  reasons: string[];
+}
+
+export function programEligibilityRules(program: Pick<Program, "eligibleApplicantTypes" | "eligibilityRules">) {
+  const rules: EligibilityRule[] = [...(program.eligibilityRules ?? [])];
+  if (program.eligibleApplicantTypes && program.eligibleApplicantTypes.length > 0) {
+    rules.unshift({ type: "applicantType", types: program.eligibleApplicantTypes });
+  }
+  return rules;
+}
+
+function sameText(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function checkRule(rule: EligibilityRule, context: EligibilityContext): Omit<EligibilityCheck, "rule"> {
+  switch (rule.type) {
+    case "applicantType":
+      if (!context.applicantType) {
+        return { passed: null, reason: "Your profile has no applicant type" };
+      }
+      return rule.types.some((type) => sameText(type, context.applicantType!))
+        ? { passed: true }
+        : { passed: false, reason: `This program is open to ${rule.types.join(", ")} applicants only` };
+
+    case "verified":
+      return context.user.isVerified
+        ? { passed: true }
+        : { passed: false, reason: "Your account must be verified before applying" };
+
+    case "location": {
+      const { country, city } = context.user;
+      if (rule.countries?.length) {
+        if (!country) return { passed: null, reason: "Your profile has no country" };
+        if (!rule.countries.some((allowed) => sameText(allowed, country))) {
+          return { passed: false, reason: `This program is open to applicants from ${rule.countries.join(", ")} only` };
+        }
+      }
+      if (rule.cities?.length) {
+        if (!city) return { passed: null, reason: "Your profile has no city" };
+        if (!rule.cities.some((allowed) => sameText(allowed, city))) {
+          return { passed: false, reason: `This program is open to applicants from ${rule.cities.join(", ")} only` };
+        }
+      }
+      return { passed: true };
+    }
+
+    case "organizationAge": {
+      const established = context.application.yearEstablished;
+      if (!established) {
+        return { passed: null, reason: "The year your organization was established is required" };
+      }
+      return context.now.getFullYear() - established >= rule.minYears
+        ? { passed: true }
+        : { passed: false, reason: `Organizations must be at least ${rule.minYears} years old` };
+    }
+
+    case "maxRequestedAmount": {
+      const amount = context.application.requestedAmount;
+      if (!amount) return { passed: null, reason: "A requested amount is required" };
+      return amount <= rule.amount
+        ? { passed: true }
+        : { passed: false, reason: `The requested amount may not exceed ${rule.amount}` };
+    }
+
+    case "priorGrants": {
+      const since = rule.withinYears
+        ? new Date(context.now.getFullYear() - rule.withinYears, context.now.getMonth(), context.now.getDate())
+        : null;
+      const counted = context.priorGrants.filter((grant) =>
+        !since || (grant.submittedAt !== null && new Date(grant.submittedAt) >= since),
+      );
+      if (counted.length <= rule.max) return { passed: true };
+      const period = rule.withinYears ? ` in the last ${rule.withinYears} years` : "";
+      return {
+        passed: false,
+        reason: rule.max === 0
+          ? `Applicants who received a grant${period} are not eligible`
+          : `Applicants who received more than ${rule.max} grants${period} are not eligible`,
+      };
+    }
+  }
+}
+
+export function evaluateEligibility(
+  rules: EligibilityRule[],
+  context: EligibilityContext,
+  phase: EligibilityPhase,
+): EligibilityResult {
+  const checks = rules.map((rule) => ({ rule, ...checkRule(rule, context) }));
+  const reasons = checks
+    .filter((check) => check.passed === false || (check.passed === null && phase === "submit"))
+    .map((check) => check.reason!);
+  return { eligible: reasons.length === 0, reasons, checks };
+}
@@ -0,0 +1,50 @@
+/**
+ * Named permissions shared by the API and the client.
+ *
+ * Routes check permissions, never roles. Each role maps to a set of
+ * permissions; the defaults below are installed by the role_permissions
+ * migration and administrators can change them afterwards.
+ */
+
+import type { User } from "./schema";
+
+export type Role = User["role"];
+
+export const PERMISSIONS = {
+  "application.view": "View the applications the user submitted, funds or is assigned to",
+  "application.view_all": "View every application, not only those the user submitted, funds or is assigned to",
+  "document.access": "View and upload the documents of applications the user can view",
+  "evaluation.view": "Read the evaluations of applications the user can view",
+  "message.access": "Read and send messages on applications the user can view",
+  "application.manage": "Manage application documents and approve amendments to submitted applications",
+  "application.evaluate": "Evaluate applications and request AI-assisted evaluations",
+  "application.assign": "Assign reviewers to applications",
+  "application.decide": "Approve recommended applications and close them",
+  "budget.view": "View program budgets and allocation",
+  "report.view": "View reports",
+  "program.manage": "Manage programs and the donors funding them",
+  "user.manage": "Create users and change their roles",
+  "registration.verify": "Review applicant registration documents and verify registrations",
+  "permission.manage": "Edit which permissions each role has",
+  "audit.view": "Browse and export the audit log of logins and changes",
+  "security.manage": "Edit rate limits and the lockout of accounts after failed sign-ins",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const permissionNames = Object.keys(PERMISSIONS) as Permission[];
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && value in PERMISSIONS;
+}
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  administrator: [...permissionNames],
+  // Evaluations are internal to the review process
+  applicant: ["application.view", "document.access", "message.access"],
+  reviewer: [
+    "application.view", "document.access", "evaluation.view", "message.access",
+    "application.manage", "application.evaluate", "budget.view", "report.view",
+  ],
+  donor: ["application.view", "document.access", "evaluation.view", "message.access", "budget.view", "report.view"],
+};
@@ -0,0 +1,132 @@
+/**
+ * Call windows: when a program accepts applications.
+ *
+ * opensAt and closesAt are instants; the program's timezone only decides how
+ * they are entered and displayed. Submissions are still accepted for
+ * gracePeriodMinutes after closesAt. The scheduler in server/program-calls.ts
+ * records when that deadline passes; it leaves `active`, which administrators
+ * set, alone.
+ */
+
+import type { Program } from "./schema";
+
+type CallWindow = Pick<Program, "active" | "opensAt" | "closesAt" | "timezone" | "gracePeriodMinutes">;
+
+export type CallStatus = "upcoming" | "open" | "grace" | "closed";
+
+function toDate(value: Date | string | null | undefined) {
+  return value ? new Date(value) : null;
+}
+
+/**
+ * The last moment a submission is accepted, or null for calls without a closing date
+ */
+export function callDeadline(program: CallWindow): Date | null {
+  const closesAt = toDate(program.closesAt);
+  if (!closesAt) return null;
+  return new Date(closesAt.getTime() + (program.gracePeriodMinutes ?? 0) * 60_000);
+}
+
+export function getCallStatus(program: CallWindow, now: Date = new Date()): CallStatus {
+  if (!program.active) return "closed";
+
+  const opensAt = toDate(program.opensAt);
+  if (opensAt && now < opensAt) return "upcoming";
+
+  const closesAt = toDate(program.closesAt);
+  if (!closesAt || now <= closesAt) return "open";
+
+  const deadline = callDeadline(program)!;
+  return now <= deadline ? "grace" : "closed";
+}
+
+export function acceptsApplications(program: CallWindow, now: Date = new Date()) {
+  const status = getCallStatus(program, now);
+  return status === "open" || status === "grace";
+}
+
+export function formatInTimeZone(value: Date | string, timeZone: string) {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(value));
+}
+
+/**
+ * Explains why a program does not accept applications right now
+ */
+export function describeClosedCall(program: CallWindow, now: Date = new Date()) {
+  const status = getCallStatus(program, now);
+  const opensAt = toDate(program.opensAt);
+  if (status === "upcoming" && opensAt) {
+    return `The call for this program opens on ${formatInTimeZone(opensAt, program.timezone)} (${program.timezone})`;
+  }
+  const deadline = callDeadline(program);
+  if (deadline && now > deadline) {
+    return `The call for this program closed on ${formatInTimeZone(deadline, program.timezone)} (${program.timezone})`;
+  }
+  return "The program is not accepting applications";
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock fields of an instant in a time zone
+function zonedParts(timestamp: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(new Date(timestamp));
+  const part = (type: string) => parts.find((p) => p.type === type)!.value;
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+  };
+}
+
+function offsetAt(timestamp: number, timeZone: string) {
+  const p = zonedParts(timestamp, timeZone);
+  const wallClock = Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour, +p.minute);
+  return wallClock - Math.floor(timestamp / 60_000) * 60_000;
+}
+
+/**
+ * Interprets a `datetime-local` value ("2025-03-31T23:59") as wall-clock time
+ * in `timeZone`
+ */
+export function zonedTimeToDate(local: string, timeZone: string): Date {
+  const [date, time = "00:00"] = local.split("T");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset can differ on either side of a DST change, so check it again
+  // at the resulting instant
+  let timestamp = wallClock - offsetAt(wallClock, timeZone);
+  const corrected = wallClock - offsetAt(timestamp, timeZone);
+  if (corrected !== timestamp) timestamp = corrected;
+  return new Date(timestamp);
+}
+
+/**
+ * The `datetime-local` value showing `value` as wall-clock time in `timeZone`
+ */
+export function dateToZonedInput(value: Date | string, timeZone: string) {
+  const p = zonedParts(new Date(value).getTime(), timeZone);
+  return `${p.year}-${p.month}-${p.day}T${p.hour}:${p.minute}`;
+}
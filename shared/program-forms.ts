@@ -0,0 +1,250 @@
+/**
+ * Per-program application forms.
+ *
+ * A program may define its own form: sections of typed fields plus the
+ * attachments applicants have to upload. The answers are stored on the
+ * application and validated with answersSchema() both in the browser and on
+ * the server. Drafts only need well-formed answers; required fields and
+ * attachments are enforced when the application is submitted.
+ */
+
+import { z } from "zod";
+
+export const formFieldTypes = ["text", "textarea", "number", "email", "date", "select", "multiselect", "checkbox"] as const;
+
+export type FormFieldType = typeof formFieldTypes[number];
+
+const formKeySchema = z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, "Keys must start with a letter and contain only letters, digits and _");
+
+export const formAnswerValueSchema = z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()]);
+
+export type FormAnswerValue = z.infer<typeof formAnswerValueSchema>;
+
+export const formAnswersSchema = z.record(z.string(), formAnswerValueSchema);
+
+export type FormAnswers = z.infer<typeof formAnswersSchema>;
+
+// Shows a field or section only when an earlier field has a given answer.
+// Without `equals` or `oneOf` any non-empty answer counts.
+const formConditionSchema = z.object({
+  field: formKeySchema,
+  equals: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  oneOf: z.array(z.string()).min(1).optional(),
+});
+
+export type FormCondition = z.infer<typeof formConditionSchema>;
+
+const formFieldSchema = z.object({
+  key: formKeySchema,
+  label: z.string().min(1),
+  type: z.enum(formFieldTypes),
+  required: z.boolean().default(false),
+  helpText: z.string().optional(),
+  options: z.array(z.object({ value: z.string().min(1), label: z.string().min(1) })).optional(),
+  // min/max bound numbers, the length of text and the number of choices
+  validation: z.object({
+    min: z.number().optional(),
+    max: z.number().optional(),
+    pattern: z.string().optional(),
+    patternMessage: z.string().optional(),
+  }).optional(),
+  visibleWhen: formConditionSchema.optional(),
+});
+
+export type FormField = z.infer<typeof formFieldSchema>;
+
+const formSectionSchema = z.object({
+  key: formKeySchema,
+  title: z.string().min(1),
+  description: z.string().optional(),
+  visibleWhen: formConditionSchema.optional(),
+  fields: z.array(formFieldSchema),
+});
+
+export type FormSection = z.infer<typeof formSectionSchema>;
+
+// Matched against documents.attachmentKey
+const formAttachmentSchema = z.object({
+  key: formKeySchema,
+  label: z.string().min(1),
+  description: z.string().optional(),
+  required: z.boolean().default(true),
+  accept: z.array(z.string()).optional(),
+});
+
+export type FormAttachment = z.infer<typeof formAttachmentSchema>;
+
+function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const programFormSchema = z.object({
+  sections: z.array(formSectionSchema),
+  attachments: z.array(formAttachmentSchema).default([]),
+}).superRefine((form, ctx) => {
+  const seen = new Map<string, FormField>();
+
+  // Conditions may only refer to fields above them, which also rules out cycles
+  const checkCondition = (condition: FormCondition | undefined, path: (string | number)[]) => {
+    if (condition && !seen.has(condition.field)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `"${condition.field}" is not a field above this one` });
+    }
+  };
+
+  form.sections.forEach((section, sectionIndex) => {
+    checkCondition(section.visibleWhen, ["sections", sectionIndex, "visibleWhen"]);
+    section.fields.forEach((field, fieldIndex) => {
+      const path = ["sections", sectionIndex, "fields", fieldIndex];
+      checkCondition(field.visibleWhen, [...path, "visibleWhen"]);
+      if (seen.has(field.key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, "key"], message: `Duplicate field key "${field.key}"` });
+      }
+      if ((field.type === "select" || field.type === "multiselect") && !field.options?.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, "options"], message: "Choice fields need at least one option" });
+      }
+      if (field.validation?.pattern && !isValidPattern(field.validation.pattern)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, "validation", "pattern"], message: "Invalid pattern" });
+      }
+      seen.set(field.key, field);
+    });
+  });
+
+  const attachmentKeys = new Set<string>();
+  form.attachments.forEach((attachment, index) => {
+    if (attachmentKeys.has(attachment.key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["attachments", index, "key"], message: `Duplicate attachment key "${attachment.key}"` });
+    }
+    attachmentKeys.add(attachment.key);
+  });
+});
+
+export type ProgramForm = z.infer<typeof programFormSchema>;
+
+export type FormPhase = "draft" | "submit";
+
+export function isEmptyAnswer(field: Pick<FormField, "type">, value: unknown) {
+  return value === undefined || value === null || value === "" ||
+    (Array.isArray(value) && value.length === 0) ||
+    (field.type === "checkbox" && value === false);
+}
+
+export function isConditionMet(condition: FormCondition | undefined, answers: Record<string, unknown>) {
+  if (!condition) return true;
+  const value = answers[condition.field];
+  const values = Array.isArray(value) ? value : [value];
+  if (condition.equals !== undefined) return values.includes(condition.equals);
+  if (condition.oneOf) return values.some((item) => condition.oneOf!.includes(item as string));
+  return value !== undefined && value !== null && value !== "" && value !== false && values.length > 0;
+}
+
+// The fields the applicant currently sees, in order. A condition on a hidden
+// field is never met.
+export function visibleFields(form: ProgramForm, answers: Record<string, unknown>) {
+  const shown: FormField[] = [];
+  const shownAnswers: Record<string, unknown> = {};
+  for (const section of form.sections) {
+    if (!isConditionMet(section.visibleWhen, shownAnswers)) continue;
+    for (const field of section.fields) {
+      if (!isConditionMet(field.visibleWhen, shownAnswers)) continue;
+      shown.push(field);
+      shownAnswers[field.key] = answers[field.key];
+    }
+  }
+  return shown;
+}
+
+function fieldValueSchema(field: FormField): z.ZodTypeAny {
+  const { min, max, pattern, patternMessage } = field.validation ?? {};
+
+  switch (field.type) {
+    case "number": {
+      let schema = z.number({ invalid_type_error: "Must be a number" });
+      if (min !== undefined) schema = schema.min(min, `Must be at least ${min}`);
+      if (max !== undefined) schema = schema.max(max, `Must be at most ${max}`);
+      return schema;
+    }
+    case "checkbox":
+      return z.boolean();
+    case "select": {
+      const values = field.options?.map((option) => option.value) ?? [];
+      return z.string().refine((value) => values.includes(value), "Choose one of the listed options");
+    }
+    case "multiselect": {
+      const values = field.options?.map((option) => option.value) ?? [];
+      let schema = z.array(z.string().refine((value) => values.includes(value), "Choose from the listed options"));
+      if (min !== undefined) schema = schema.min(min, `Choose at least ${min}`);
+      if (max !== undefined) schema = schema.max(max, `Choose at most ${max}`);
+      return schema;
+    }
+    case "date":
+      return z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the format YYYY-MM-DD")
+        .refine((value) => !isNaN(Date.parse(value)), "Invalid date");
+    default: {
+      let schema = field.type === "email" ? z.string().email("Invalid email address") : z.string();
+      if (min !== undefined) schema = schema.min(min, `Must be at least ${min} characters`);
+      if (max !== undefined) schema = schema.max(max, `Must be at most ${max} characters`);
+      if (pattern) schema = schema.regex(new RegExp(pattern), patternMessage ?? "Invalid format");
+      return schema;
+    }
+  }
+}
+
+/**
+ * Validates answers against a program's form. Answers to hidden or unknown
+ * fields are dropped, so switching a condition off also clears what it
+ * revealed.
+ */
+export function answersSchema(form: ProgramForm | null | undefined, phase: FormPhase) {
+  return formAnswersSchema.superRefine((answers, ctx) => {
+    for (const field of form ? visibleFields(form, answers) : []) {
+      const value = answers[field.key];
+      if (isEmptyAnswer(field, value)) {
+        if (field.required && phase === "submit") {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field.key], message: "Required" });
+        }
+        continue;
+      }
+      const result = fieldValueSchema(field).safeParse(value);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue({ ...issue, path: [field.key, ...issue.path] } as z.IssueData);
+        }
+      }
+    }
+  }).transform((answers) => {
+    const visible = new Set(form ? visibleFields(form, answers).map((field) => field.key) : []);
+    return Object.fromEntries(Object.entries(answers).filter(([key]) => visible.has(key))) as FormAnswers;
+  });
+}
+
+// "Label: problem" for each invalid answer
+export function describeAnswerIssues(form: ProgramForm | null | undefined, error: z.ZodError) {
+  const fields = form?.sections.flatMap((section) => section.fields) ?? [];
+  return error.issues.map((issue) => {
+    const field = fields.find((candidate) => candidate.key === issue.path[0]);
+    return field ? `${field.label}: ${issue.message}` : issue.message;
+  });
+}
+
+// Required attachments with no document uploaded for them yet
+export function missingAttachments(
+  form: ProgramForm | null | undefined,
+  documents: { attachmentKey: string | null }[],
+) {
+  const uploaded = new Set(documents.map((document) => document.attachmentKey));
+  return (form?.attachments ?? []).filter((attachment) => attachment.required && !uploaded.has(attachment.key));
+}
+
+export function formatAnswer(field: FormField, value: FormAnswerValue | undefined) {
+  if (isEmptyAnswer(field, value)) return "—";
+  const labelOf = (option: string) => field.options?.find((item) => item.value === option)?.label ?? option;
+  if (Array.isArray(value)) return value.map(labelOf).join(", ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (field.type === "select") return labelOf(String(value));
+  return String(value);
+}
@@ -0,0 +1,64 @@
+/**
+ * Rate limit policies shared by the API and the client.
+ *
+ * Each policy allows `limit` requests per sliding window of `windowSeconds`,
+ * counted per IP address, account or user as its description says. The
+ * values below apply until an administrator changes them; see the
+ * rate_limit_policies table.
+ */
+
+export type RateLimitSettings = {
+  limit: number;
+  windowSeconds: number;
+};
+
+export const RATE_LIMIT_POLICIES = {
+  "login.ip": {
+    description: "Failed sign-ins from one IP address",
+    limit: 30,
+    windowSeconds: 15 * 60,
+  },
+  "login.account": {
+    description: "Failed sign-ins to one account, from anywhere",
+    limit: 10,
+    windowSeconds: 15 * 60,
+  },
+  // Not a sliding window: `limit` failures in a row lock the account for
+  // `windowSeconds`, twice as long for each lockout after that
+  "login.lockout": {
+    description: "Failed sign-ins in a row that lock an account, and how long the first lockout lasts",
+    limit: 5,
+    windowSeconds: 60,
+  },
+  "register.ip": {
+    description: "Registrations from one IP address",
+    limit: 10,
+    windowSeconds: 60 * 60,
+  },
+  "verification.ip": {
+    description: "Email codes, reset links and unlock links checked or requested from one IP address",
+    limit: 30,
+    windowSeconds: 15 * 60,
+  },
+  "api.user": {
+    description: "API requests of one signed-in user",
+    limit: 600,
+    windowSeconds: 60,
+  },
+  "api.anonymous": {
+    description: "API requests without a signed-in user from one IP address",
+    limit: 120,
+    windowSeconds: 60,
+  },
+} as const;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+export const rateLimitPolicyNames = Object.keys(RATE_LIMIT_POLICIES) as RateLimitPolicyName[];
+
+export function isRateLimitPolicyName(value: unknown): value is RateLimitPolicyName {
+  return typeof value === "string" && value in RATE_LIMIT_POLICIES;
+}
+
+// The longest window a policy may have, so counters older than that can go
+export const MAX_RATE_LIMIT_WINDOW_SECONDS = 24 * 60 * 60;
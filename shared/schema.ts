@@ -1,6 +1,11 @@
-import { pgTable, text, serial, integer, timestamp, boolean, varchar, foreignKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, varchar, foreignKey, check, index, unique, jsonb } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidTimeZone } from "./program-calls";
+import { eligibilityRuleSchema, type EligibilityRule } from "./eligibility";
+import { formAnswersSchema, programFormSchema, type FormAnswers, type ProgramForm } from "./program-forms";
+import { MAX_RATE_LIMIT_WINDOW_SECONDS } from "./rate-limits";
 
 // User model
 export const users = pgTable("users", {
@@ -14,8 +19,16 @@ export const users = pgTable("users", {
   
   // Added fields for user profile and verification
   applicantTypeId: integer("applicant_type_id").references(() => applicantTypes.id),
+  // Set when an administrator approves the registration (registration-utils)
   isVerified: boolean("is_verified").default(false),
+  // Set when the owner confirmed the email address with the emailed code or
+  // link; says nothing about the registration's approval
+  emailVerifiedAt: timestamp("email_verified_at"),
   profileComplete: boolean("profile_complete").default(false),
+  // Bumped when the password changes; sessions signed in under an older value end
+  authVersion: integer("auth_version").notNull().default(0),
+  // Directory accounts sign in through LDAP and have no usable local password
+  authProvider: text("auth_provider", { enum: ["local", "ldap"] }).notNull().default("local"),
   
   // Contact information
   phoneNumber: text("phone_number"),
@@ -32,7 +45,17 @@ export const users = pgTable("users", {
   // For proper display
   avatarUrl: text("avatar_url"),
   bio: text("bio"),
-});
+}, (table) => [
+  // Keep the database in line with the role enum above
+  check("users_role_check", sql`${table.role} in ('administrator', 'applicant', 'reviewer', 'donor')`),
+]);
+
+// Passwords people choose for themselves
+export const passwordSchema = z.string()
+  .min(8, "Password must be at least 8 characters")
+  .max(128, "Password must be at most 128 characters")
+  .regex(/[A-Za-z]/, "Password must contain a letter")
+  .regex(/[^A-Za-z]/, "Password must contain a number or a symbol");
 
 export const insertUserSchema = createInsertSchema(users)
   .pick({
@@ -52,10 +75,25 @@ export const insertUserSchema = createInsertSchema(users)
     website: true,
   })
   .extend({
-    password: z.string().min(6, "Password must be at least 6 characters"),
+    password: passwordSchema,
     email: z.string().email("Invalid email format"),
   });
 
+// Profile details applicants fill in during onboarding
+export const onboardingProfileSchema = z.object({
+  applicantTypeId: z.number().int().positive().optional(),
+  fullName: z.string().trim().min(3, "Full name must be at least 3 characters"),
+  phoneNumber: z.string().trim().min(9, "Phone number must be at least 9 characters"),
+  address: z.string().trim().min(5, "Address must be at least 5 characters"),
+  city: z.string().trim().min(2, "City must be at least 2 characters"),
+  country: z.string().trim().min(2, "Country must be at least 2 characters"),
+  postalCode: z.string().trim().nullish(),
+  organizationName: z.string().trim().nullish(),
+  organizationPosition: z.string().trim().nullish(),
+  website: z.string().url("Please enter a valid URL").nullish(),
+  bio: z.string().max(500, "Bio must be at most 500 characters").nullish(),
+});
+
 // Programs model
 export const programs = pgTable("programs", {
   id: serial("id").primaryKey(),
@@ -67,9 +105,21 @@ export const programs = pgTable("programs", {
   active: boolean("active").default(true),
   // Which applicant types can apply for this program
   eligibleApplicantTypes: text("eligible_applicant_types").array(),
+  // Call window, see shared/program-calls.ts; no dates means always open
+  opensAt: timestamp("opens_at", { withTimezone: true }),
+  closesAt: timestamp("closes_at", { withTimezone: true }),
+  timezone: text("timezone").notNull().default("Europe/Sarajevo"),
+  gracePeriodMinutes: integer("grace_period_minutes").notNull().default(0),
+  // When the call scheduler found the call past its deadline; cleared when
+  // the window changes. Whether the call is open follows from the dates alone
+  callClosedAt: timestamp("call_closed_at", { withTimezone: true }),
+  // Checked together with eligibleApplicantTypes, see shared/eligibility.ts
+  eligibilityRules: jsonb("eligibility_rules").$type<EligibilityRule[]>().notNull().default([]),
+  // Program-specific application form, see shared/program-forms.ts
+  formSchema: jsonb("form_schema").$type<ProgramForm>(),
 });
 
-export const insertProgramSchema = createInsertSchema(programs).pick({
+const programFieldsSchema = createInsertSchema(programs).pick({
   name: true,
   type: true,
   budgetTotal: true,
@@ -77,8 +127,27 @@ export const insertProgramSchema = createInsertSchema(programs).pick({
   description: true,
   active: true,
   eligibleApplicantTypes: true,
+  gracePeriodMinutes: true,
+}).extend({
+  opensAt: z.coerce.date().nullable().optional(),
+  closesAt: z.coerce.date().nullable().optional(),
+  timezone: z.string().refine(isValidTimeZone, { message: "Unknown time zone" }).optional(),
+  gracePeriodMinutes: z.number().int().min(0).optional(),
+  eligibilityRules: z.array(eligibilityRuleSchema).optional(),
+  formSchema: programFormSchema.nullable().optional(),
 });
 
+function callWindowIsOrdered(program: { opensAt?: Date | null; closesAt?: Date | null }) {
+  return !program.opensAt || !program.closesAt || program.opensAt < program.closesAt;
+}
+
+const callWindowMessage = { message: "The call must close after it opens", path: ["closesAt"] };
+
+export const insertProgramSchema = programFieldsSchema.refine(callWindowIsOrdered, callWindowMessage);
+
+// PATCH /api/programs/:id; the window is checked again against the stored dates
+export const updateProgramSchema = programFieldsSchema.partial().refine(callWindowIsOrdered, callWindowMessage);
+
 // Applicant Types
 export const applicantTypes = pgTable("applicant_types", {
   id: serial("id").primaryKey(),
@@ -120,6 +189,131 @@ export const insertRegistrationProcessSchema = createInsertSchema(registrationPr
   totalSteps: true,
 });
 
+// Password reset links; only the hash of the token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("password_reset_tokens_user_id_idx").on(table.userId),
+]);
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).pick({
+  userId: true,
+  tokenHash: true,
+  expiresAt: true,
+});
+
+// Refresh tokens of API clients. Each login starts a family; refreshing
+// revokes the token and issues the next one in the same family
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  familyId: text("family_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  // The user's authVersion when the family was started
+  authVersion: integer("auth_version").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("refresh_tokens_family_id_idx").on(table.familyId),
+]);
+
+export const insertRefreshTokenSchema = createInsertSchema(refreshTokens).pick({
+  userId: true,
+  familyId: true,
+  tokenHash: true,
+  authVersion: true,
+  expiresAt: true,
+});
+
+// Authenticator app (TOTP) of a user, kept apart from the user row so it
+// never travels with it. The secret is encrypted by the server; recovery
+// codes are stored as hashes and removed as they are used
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  secret: text("secret").notNull(),
+  // Null until the user confirms a code from the app
+  enabledAt: timestamp("enabled_at"),
+  recoveryCodeHashes: jsonb("recovery_code_hashes").$type<string[]>().notNull().default([]),
+  // Time step of the last accepted code, so a code works only once
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertTwoFactorCredentialSchema = createInsertSchema(twoFactorCredentials).pick({
+  userId: true,
+  secret: true,
+});
+
+// The second step of a sign-in: a code from the app or an unused recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app").optional(),
+  recoveryCode: z.string().trim().min(1).optional(),
+}).refine((body) => body.code !== undefined || body.recoveryCode !== undefined, {
+  message: "Enter the code from your authenticator app or a recovery code",
+});
+
+// Failed sign-ins of an account since its last successful one, and its
+// lockout. Each lockout mails a link that lifts it early
+export const accountLockouts = pgTable("account_lockouts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  // Failed sign-ins in a row; a lockout starts counting again
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  // Lockouts so far, each twice as long as the one before
+  lockouts: integer("lockouts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  unlockTokenHash: text("unlock_token_hash").unique(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const accountUnlockSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  password: passwordSchema,
+});
+
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1, "Enter your current password"),
+  newPassword: passwordSchema,
+});
+
+// Sign-ups waiting for the emailed code; the account is created once the
+// address is confirmed
+export const pendingRegistrations = pgTable("pending_registrations", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull().unique(),
+  username: text("username").notNull(),
+  // The account to create, password already hashed
+  account: jsonb("account").$type<InsertUser>().notNull(),
+  codeHash: text("code_hash").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  // Wrong codes entered for the current code
+  attempts: integer("attempts").notNull().default(0),
+  sendCount: integer("send_count").notNull().default(1),
+  lastSentAt: timestamp("last_sent_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertPendingRegistrationSchema = createInsertSchema(pendingRegistrations).pick({
+  email: true,
+  username: true,
+  codeHash: true,
+  expiresAt: true,
+  lastSentAt: true,
+}).extend({
+  account: insertUserSchema,
+});
+
 // Applications model
 export const applications = pgTable("applications", {
   id: serial("id").primaryKey(),
@@ -144,7 +338,15 @@ export const applications = pgTable("applications", {
   numberOfEmployees: integer("number_of_employees"),  // For organizations/corporations
   annualBudget: integer("annual_budget"),  // For organizations
   profitLastYear: integer("profit_last_year"),  // For corporations
-});
+  // Answers to the program's form, keyed by field
+  answers: jsonb("answers").$type<FormAnswers>().notNull().default({}),
+}, (table) => [
+  // Filters and sort keys used by GET /api/applications
+  index("applications_program_id_idx").on(table.programId),
+  index("applications_applicant_id_idx").on(table.applicantId),
+  index("applications_status_idx").on(table.status),
+  index("applications_submitted_at_idx").on(table.submittedAt),
+]);
 
 export const insertApplicationSchema = createInsertSchema(applications).pick({
   applicantId: true,
@@ -162,6 +364,49 @@ export const insertApplicationSchema = createInsertSchema(applications).pick({
   numberOfEmployees: true,
   annualBudget: true,
   profitLastYear: true,
+}).extend({
+  answers: formAnswersSchema.optional(),
+});
+
+// What PATCH /api/applications/:id accepts: the content of the application
+// and a new status. Who applied, to which program, and the fields the
+// server assigns stay as they are
+export const updateApplicationSchema = insertApplicationSchema.omit({
+  applicantId: true,
+  programId: true,
+  applicantTypeId: true,
+}).partial().extend({
+  status: z.enum(applications.status.enumValues).optional(),
+}).strict();
+
+// Query parameters accepted by GET /api/applications
+export const applicationSortFields = ["id", "submittedAt", "requestedAmount", "autoCode", "status"] as const;
+
+// Accepts `?status=a,b` as well as repeated `?status=a&status=b`
+const commaSeparated = (value: unknown) =>
+  typeof value === "string" ? value.split(",").map((item) => item.trim()).filter(Boolean) : value;
+
+export const applicationQuerySchema = z.object({
+  status: z.preprocess(commaSeparated, z.array(z.enum(applications.status.enumValues))).optional(),
+  programId: z.coerce.number().int().positive().optional(),
+  applicantId: z.coerce.number().int().positive().optional(),
+  applicantTypeId: z.coerce.number().int().positive().optional(),
+  // Looks up the applications a page of other records refers to
+  ids: z.preprocess(commaSeparated, z.array(z.coerce.number().int().positive()).max(100)).optional(),
+  submittedFrom: z.coerce.date().optional(),
+  submittedTo: z.coerce.date().optional(),
+  minAmount: z.coerce.number().int().min(0).optional(),
+  maxAmount: z.coerce.number().int().min(0).optional(),
+  q: z.string().trim().min(1).optional(),
+  sort: z.enum(applicationSortFields).default("id"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Query parameters accepted by GET /api/reports/submissions
+export const submissionReportQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
 });
 
 // Documents model for applications
@@ -173,7 +418,18 @@ export const documents = pgTable("documents", {
   filePath: text("file_path").notNull(),
   uploadedAt: timestamp("uploaded_at").defaultNow(),
   uploadedBy: integer("uploaded_by").notNull().references(() => users.id),
-});
+  // Which of the program form's attachments this document provides
+  attachmentKey: text("attachment_key"),
+  // The file fields above describe the current version, see documentVersions
+  currentVersion: integer("current_version").notNull().default(1),
+  size: integer("size"),
+  checksum: text("checksum"),
+  // Deleted documents are hidden rather than removed, see documentEvents
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: integer("deleted_by").references(() => users.id),
+}, (table) => [
+  index("documents_application_id_idx").on(table.applicationId),
+]);
 
 export const insertDocumentSchema = createInsertSchema(documents).pick({
   applicationId: true,
@@ -181,6 +437,67 @@ export const insertDocumentSchema = createInsertSchema(documents).pick({
   fileType: true,
   filePath: true,
   uploadedBy: true,
+  attachmentKey: true,
+  size: true,
+  checksum: true,
+});
+
+// Every file ever uploaded for a document, oldest first. Version 1 is the
+// original upload; replacing the file adds the next version.
+export const documentVersions = pgTable("document_versions", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().references(() => documents.id),
+  version: integer("version").notNull(),
+  fileName: text("file_name").notNull(),
+  fileType: text("file_type").notNull(),
+  filePath: text("file_path").notNull(),
+  size: integer("size"),
+  // SHA-256 of the content, hex encoded; unknown for files uploaded before versioning
+  checksum: text("checksum"),
+  changeNote: text("change_note"),
+  uploadedBy: integer("uploaded_by").notNull().references(() => users.id),
+  uploadedAt: timestamp("uploaded_at").notNull().defaultNow(),
+}, (table) => [
+  unique("document_versions_document_version_unique").on(table.documentId, table.version),
+]);
+
+// Document index filters, parsed from the query string of GET /api/documents
+export const documentQuerySchema = z.object({
+  applicationId: z.coerce.number().int().positive().optional(),
+  fileType: z.preprocess(commaSeparated, z.array(z.string())).optional(),
+  uploadedBy: z.coerce.number().int().positive().optional(),
+  uploadedFrom: z.coerce.date().optional(),
+  uploadedTo: z.coerce.date().optional(),
+  // Matches the file name
+  q: z.string().trim().min(1).optional(),
+  // Lists deleted documents instead of live ones
+  deleted: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Deletions and restorations of documents, kept so removed evidence can be
+// traced and recovered
+export const documentEvents = pgTable("document_events", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().references(() => documents.id),
+  action: text("action", { enum: ["deleted", "restored"] }).notNull(),
+  actorId: integer("actor_id").notNull().references(() => users.id),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("document_events_document_id_idx").on(table.documentId),
+]);
+
+export const insertDocumentVersionSchema = createInsertSchema(documentVersions).pick({
+  documentId: true,
+  fileName: true,
+  fileType: true,
+  filePath: true,
+  size: true,
+  checksum: true,
+  changeNote: true,
+  uploadedBy: true,
 });
 
 // Verification documents model for applicant registration
@@ -193,6 +510,7 @@ export const verificationDocuments = pgTable("verification_documents", {
   fileType: text("file_type").notNull(),
   filePath: text("file_path").notNull(),
   uploadedAt: timestamp("uploaded_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
   verificationStatus: text("verification_status", {
     enum: ["pending", "approved", "rejected", "requires_resubmission"]
   }).notNull().default("pending"),
@@ -232,6 +550,16 @@ export const insertEvaluationSchema = createInsertSchema(evaluations).pick({
   comment: true,
 });
 
+// Query parameters accepted by GET /api/evaluations
+export const evaluationQuerySchema = z.object({
+  applicationId: z.coerce.number().int().positive().optional(),
+  evaluatedBy: z.coerce.number().int().positive().optional(),
+  // Leaves out one evaluator, e.g. to list what the rest of the team wrote
+  excludeEvaluatedBy: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
 // Messages model
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
@@ -250,6 +578,28 @@ export const insertMessageSchema = createInsertSchema(messages).pick({
   content: true,
 });
 
+// Notices to a user about changes outside their applications, e.g. the
+// verification of their registration
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  // In-app path the notification leads to
+  link: text("link"),
+  read: boolean("read").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("notifications_user_id_idx").on(table.userId),
+]);
+
+export const insertNotificationSchema = createInsertSchema(notifications).pick({
+  userId: true,
+  title: true,
+  body: true,
+  link: true,
+});
+
 // Budget tracking model
 export const budgetTracking = pgTable("budget_tracking", {
   id: serial("id").primaryKey(),
@@ -269,33 +619,378 @@ export const insertBudgetTrackingSchema = createInsertSchema(budgetTracking).pic
   available: true,
 });
 
+// Donors funding a program; donors see applications to the programs they fund
+export const programDonors = pgTable("program_donors", {
+  id: serial("id").primaryKey(),
+  programId: integer("program_id").notNull().references(() => programs.id),
+  donorId: integer("donor_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("program_donors_program_donor_unique").on(table.programId, table.donorId),
+  index("program_donors_donor_id_idx").on(table.donorId),
+]);
+
+export const insertProgramDonorSchema = createInsertSchema(programDonors).pick({
+  programId: true,
+  donorId: true,
+});
+
+// Reviewers assigned to an application; reviewers see only what they are assigned
+export const reviewerAssignments = pgTable("reviewer_assignments", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  reviewerId: integer("reviewer_id").notNull().references(() => users.id),
+  assignedBy: integer("assigned_by").references(() => users.id),
+  assignedAt: timestamp("assigned_at").defaultNow(),
+}, (table) => [
+  unique("reviewer_assignments_application_reviewer_unique").on(table.applicationId, table.reviewerId),
+  index("reviewer_assignments_reviewer_id_idx").on(table.reviewerId),
+]);
+
+export const insertReviewerAssignmentSchema = createInsertSchema(reviewerAssignments).pick({
+  applicationId: true,
+  reviewerId: true,
+  assignedBy: true,
+});
+
+// Frozen copy of an application and its documents, taken on every submission
+// and every approved amendment; versions count up from 1 per application
+export const applicationSnapshots = pgTable("application_snapshots", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  version: integer("version").notNull(),
+  content: jsonb("content").$type<ApplicationSnapshotContent>().notNull(),
+  // Set when the version was created by approving an amendment
+  amendmentId: integer("amendment_id").references(() => applicationAmendments.id),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("application_snapshots_application_version_unique").on(table.applicationId, table.version),
+]);
+
+export const insertApplicationSnapshotSchema = createInsertSchema(applicationSnapshots).pick({
+  applicationId: true,
+  amendmentId: true,
+  createdBy: true,
+}).extend({
+  content: z.custom<ApplicationSnapshotContent>(),
+});
+
+// Requested changes to a submitted application; applied only once approved
+export const applicationAmendments = pgTable("application_amendments", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  requestedBy: integer("requested_by").notNull().references(() => users.id),
+  changes: jsonb("changes").$type<ApplicationAmendmentChanges>().notNull(),
+  reason: text("reason"),
+  status: text("status", { enum: ["pending", "approved", "rejected"] }).notNull().default("pending"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewComment: text("review_comment"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("application_amendments_application_id_idx").on(table.applicationId),
+]);
+
+// Fields an amendment may change; ownership and program stay fixed
+export const applicationAmendmentChangesSchema = insertApplicationSchema.omit({
+  applicantId: true,
+  programId: true,
+}).partial().strict().refine((changes) => Object.keys(changes).length > 0, {
+  message: "An amendment must change at least one field",
+});
+
+export const insertApplicationAmendmentSchema = createInsertSchema(applicationAmendments).pick({
+  applicationId: true,
+  requestedBy: true,
+  reason: true,
+}).extend({
+  changes: applicationAmendmentChangesSchema,
+});
+
+// Permissions granted to each role, see shared/permissions.ts
+export const rolePermissions = pgTable("role_permissions", {
+  id: serial("id").primaryKey(),
+  role: text("role", { enum: ["administrator", "applicant", "reviewer", "donor"] }).notNull(),
+  permission: text("permission").notNull(),
+}, (table) => [
+  unique("role_permissions_role_permission_unique").on(table.role, table.permission),
+]);
+
+// Sign-in policy of each role; a role without a row has the defaults
+export const roleSettings = pgTable("role_settings", {
+  id: serial("id").primaryKey(),
+  role: text("role", { enum: ["administrator", "applicant", "reviewer", "donor"] }).notNull().unique(),
+  // Users of the role must set up two-factor authentication before doing anything else
+  twoFactorRequired: boolean("two_factor_required").notNull().default(false),
+});
+
+export const roleSettingsUpdateSchema = z.object({
+  twoFactorRequired: z.boolean(),
+});
+
+// Limits set by administrators, see shared/rate-limits.ts; a policy without
+// a row has its default
+export const rateLimitPolicies = pgTable("rate_limit_policies", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  limit: integer("limit").notNull(),
+  windowSeconds: integer("window_seconds").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const rateLimitUpdateSchema = z.object({
+  limit: z.number().int().min(1).max(100_000),
+  windowSeconds: z.number().int().min(1).max(MAX_RATE_LIMIT_WINDOW_SECONDS),
+});
+
+// Requests counted per policy and client in fixed windows; the limiter
+// weighs the previous window to slide between them
+export const rateLimitCounters = pgTable("rate_limit_counters", {
+  id: serial("id").primaryKey(),
+  // "<policy>:<IP address, username or user id>"
+  key: text("key").notNull(),
+  windowStart: timestamp("window_start").notNull(),
+  count: integer("count").notNull().default(0),
+}, (table) => [
+  unique("rate_limit_counters_key_window_start_unique").on(table.key, table.windowStart),
+  index("rate_limit_counters_window_start_idx").on(table.windowStart),
+]);
+
+export const AUDIT_ACTIONS = [
+  "auth.login",
+  "auth.login_failed",
+  "auth.logout",
+  "auth.account_locked",
+  "auth.account_unlocked",
+  "user.role_changed",
+  "user.two_factor_enabled",
+  "user.two_factor_disabled",
+  "user.two_factor_reset",
+  "application.status_changed",
+  "evaluation.created",
+  "document.uploaded",
+] as const;
+
+export const AUDIT_ENTITY_TYPES = ["user", "application", "evaluation", "document", "verification_document"] as const;
+
+// Who did what, from where, and what it changed. Rows are only ever added;
+// the migration makes the database refuse updates and deletes
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  action: text("action", { enum: AUDIT_ACTIONS }).notNull(),
+  // Null when nobody is signed in, as for failed logins
+  actorId: integer("actor_id").references(() => users.id),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  entityType: text("entity_type", { enum: AUDIT_ENTITY_TYPES }),
+  entityId: integer("entity_id"),
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_log_created_at_idx").on(table.createdAt),
+  index("audit_log_actor_id_idx").on(table.actorId),
+  index("audit_log_entity_idx").on(table.entityType, table.entityId),
+]);
+
+export const insertAuditLogEntrySchema = createInsertSchema(auditLog).pick({
+  action: true,
+  actorId: true,
+  ipAddress: true,
+  userAgent: true,
+  entityType: true,
+  entityId: true,
+}).extend({
+  before: z.record(z.unknown()).nullish(),
+  after: z.record(z.unknown()).nullish(),
+});
+
+export const auditLogQuerySchema = z.object({
+  action: z.preprocess(commaSeparated, z.array(z.enum(AUDIT_ACTIONS))).optional(),
+  actorId: z.coerce.number().int().positive().optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
 // Type exports
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type Program = typeof programs.$inferSelect;
 export type InsertProgram = z.infer<typeof insertProgramSchema>;
+export type UpdateProgram = z.infer<typeof updateProgramSchema>;
 
 export type ApplicantType = typeof applicantTypes.$inferSelect;
 export type InsertApplicantType = z.infer<typeof insertApplicantTypeSchema>;
 
 export type RegistrationProcess = typeof registrationProcesses.$inferSelect;
 export type InsertRegistrationProcess = z.infer<typeof insertRegistrationProcessSchema>;
+export type OnboardingProfile = z.infer<typeof onboardingProfileSchema>;
 
 export type Application = typeof applications.$inferSelect;
 export type InsertApplication = z.infer<typeof insertApplicationSchema>;
+export type UpdateApplication = z.infer<typeof updateApplicationSchema>;
+
+export type ApplicationQuery = z.infer<typeof applicationQuerySchema>;
+// Restricts an application query to what a user may see; every listed
+// condition widens the visible set, an empty scope matches nothing
+export type ApplicationScope = {
+  applicantId?: number;
+  programIds?: number[];
+  applicationIds?: number[];
+};
+export type ApplicationPage = {
+  items: Application[];
+  // Number of applications matching the filters, across all pages
+  total: number;
+  limit: number;
+  offset: number;
+  // Matching applications per status, ignoring the status filter
+  statusCounts: Partial<Record<Application["status"], number>>;
+};
+// Applications submitted in each month of a year, January first
+export type SubmissionReport = {
+  year: number;
+  months: number[];
+};
 
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
+// A version as listed by the API, with the submission snapshots it is part of
+export type DocumentVersionEntry = DocumentVersion & {
+  snapshotVersions: number[];
+};
+
+export type DocumentQuery = z.infer<typeof documentQuerySchema>;
+export type DocumentPage = {
+  items: Document[];
+  // Number of documents matching the filters, across all pages
+  total: number;
+  limit: number;
+  offset: number;
+};
+
+export type DocumentEvent = typeof documentEvents.$inferSelect;
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type InsertRefreshToken = z.infer<typeof insertRefreshTokenSchema>;
+
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+export type InsertTwoFactorCredential = z.infer<typeof insertTwoFactorCredentialSchema>;
+export type TwoFactorCode = z.infer<typeof twoFactorCodeSchema>;
+
+export type AccountLockout = typeof accountLockouts.$inferSelect;
+// What a user sees of their own two-factor setup
+export type TwoFactorStatus = {
+  enabled: boolean;
+  // Their role requires it; until it is enabled nothing else is allowed
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+// What starting the setup returns, shown once to be scanned or typed in
+export type TwoFactorEnrollment = {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of a QR code of otpauthUrl
+  qrCode: string;
+};
+
+// What the token endpoints return
+export type TokenPair = {
+  tokenType: "Bearer";
+  accessToken: string;
+  // Seconds until the access token expires
+  expiresIn: number;
+  refreshToken: string;
+};
+
+export type PendingRegistration = typeof pendingRegistrations.$inferSelect;
+export type InsertPendingRegistration = z.infer<typeof insertPendingRegistrationSchema>;
+
 export type VerificationDocument = typeof verificationDocuments.$inferSelect;
 export type InsertVerificationDocument = z.infer<typeof insertVerificationDocumentSchema>;
+export type RegistrationOverview = {
+  process: RegistrationProcess;
+  // Step names of the applicant type, in order
+  steps: string[];
+  requiredDocuments: string[];
+  documents: VerificationDocument[];
+  pendingDocuments: string[];
+  rejectedDocuments: string[];
+};
+// A registration awaiting verification, as listed in the admin queue
+export type VerificationQueueItem = {
+  process: RegistrationProcess;
+  applicant: Pick<User, "id" | "username" | "fullName" | "email" | "organizationName">;
+  applicantType: string;
+  documents: VerificationDocument[];
+  // Lowest AI score of its documents; null while one is unscored
+  aiScore: number | null;
+};
 
 export type Evaluation = typeof evaluations.$inferSelect;
 export type InsertEvaluation = z.infer<typeof insertEvaluationSchema>;
+export type EvaluationQuery = z.infer<typeof evaluationQuerySchema>;
+export type EvaluationPage = {
+  items: Evaluation[];
+  // Number of evaluations matching the filters, across all pages
+  total: number;
+  limit: number;
+  offset: number;
+};
 
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
 export type BudgetTracking = typeof budgetTracking.$inferSelect;
 export type InsertBudgetTracking = z.infer<typeof insertBudgetTrackingSchema>;
+
+export type ProgramDonor = typeof programDonors.$inferSelect;
+export type InsertProgramDonor = z.infer<typeof insertProgramDonorSchema>;
+
+export type ReviewerAssignment = typeof reviewerAssignments.$inferSelect;
+export type InsertReviewerAssignment = z.infer<typeof insertReviewerAssignmentSchema>;
+
+export type RolePermission = typeof rolePermissions.$inferSelect;
+export type RoleSetting = typeof roleSettings.$inferSelect;
+
+export type RateLimitPolicy = typeof rateLimitPolicies.$inferSelect;
+export type RateLimitUpdate = z.infer<typeof rateLimitUpdateSchema>;
+export type RateLimitCounter = typeof rateLimitCounters.$inferSelect;
+
+export type ApplicationSnapshotContent = {
+  application: Application;
+  documents: Document[];
+};
+export type ApplicationSnapshot = typeof applicationSnapshots.$inferSelect;
+export type InsertApplicationSnapshot = z.infer<typeof insertApplicationSnapshotSchema>;
+
+export type ApplicationAmendmentChanges = z.infer<typeof applicationAmendmentChangesSchema>;
+export type ApplicationAmendment = typeof applicationAmendments.$inferSelect;
+export type InsertApplicationAmendment = z.infer<typeof insertApplicationAmendmentSchema>;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogEntrySchema>;
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+export type AuditLogPage = {
+  items: AuditLogEntry[];
+  // Number of entries matching the filters, across all pages
+  total: number;
+  limit: number;
+  offset: number;
+};